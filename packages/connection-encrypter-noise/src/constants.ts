@@ -0,0 +1,25 @@
+export const PROTOCOL = '/noise'
+
+/**
+ * The length of X25519 public keys and shared secrets
+ */
+export const DH_LENGTH = 32
+
+/**
+ * The length of the ChaCha20-Poly1305 authentication tag
+ */
+export const TAG_LENGTH = 16
+
+/**
+ * Noise messages are prefixed with a 16 bit length so cannot be longer than
+ * this, including the authentication tag
+ */
+export const NOISE_MSG_MAX_LENGTH_BYTES = 65535
+export const NOISE_MSG_MAX_LENGTH_BYTES_WITHOUT_TAG = NOISE_MSG_MAX_LENGTH_BYTES - TAG_LENGTH
+
+export const MAX_NONCE = Number.MAX_SAFE_INTEGER
+
+/**
+ * Prepended to the static noise key before it is signed with the identity key
+ */
+export const STATIC_KEY_SIGNATURE_PREFIX = 'noise-libp2p-static-key:'
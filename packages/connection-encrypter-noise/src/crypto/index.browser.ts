@@ -0,0 +1,4 @@
+import { pureJsCrypto } from './js.js'
+import type { NoiseCrypto } from './interface.js'
+
+export const defaultCrypto: NoiseCrypto = pureJsCrypto
@@ -0,0 +1,54 @@
+import crypto from 'node:crypto'
+import { Uint8ArrayList } from 'uint8arraylist'
+import { pureJsCrypto } from './js.js'
+import type { NoiseCrypto } from './interface.js'
+
+const CHACHA_POLY1305 = 'chacha20-poly1305'
+const TAG_LENGTH = 16
+
+/**
+ * Node.js has a native ChaCha20-Poly1305 implementation which is much faster
+ * than the pure JavaScript version so use it to encrypt the transport
+ */
+export const defaultCrypto: NoiseCrypto = {
+  ...pureJsCrypto,
+
+  encrypt (plaintext, nonce, ad, key) {
+    const cipher = crypto.createCipheriv(CHACHA_POLY1305, key, nonce, {
+      authTagLength: TAG_LENGTH
+    })
+    cipher.setAAD(ad, { plaintextLength: plaintext.byteLength })
+
+    const output = new Uint8ArrayList()
+
+    if (plaintext instanceof Uint8Array) {
+      output.append(cipher.update(plaintext))
+    } else {
+      for (const buf of plaintext) {
+        output.append(cipher.update(buf))
+      }
+    }
+
+    output.append(cipher.final())
+    output.append(cipher.getAuthTag())
+
+    return output.subarray()
+  },
+
+  decrypt (ciphertext, nonce, ad, key) {
+    const data = ciphertext.subarray(0, ciphertext.byteLength - TAG_LENGTH)
+    const tag = ciphertext.subarray(ciphertext.byteLength - TAG_LENGTH)
+
+    const decipher = crypto.createDecipheriv(CHACHA_POLY1305, key, nonce, {
+      authTagLength: TAG_LENGTH
+    })
+    decipher.setAAD(ad, { plaintextLength: data.byteLength })
+    decipher.setAuthTag(tag)
+
+    const output = new Uint8ArrayList()
+    output.append(decipher.update(data))
+    output.append(decipher.final())
+
+    return output.subarray()
+  }
+}
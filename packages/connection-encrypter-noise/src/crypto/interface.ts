@@ -0,0 +1,40 @@
+import type { Uint8ArrayList } from 'uint8arraylist'
+
+export interface KeyPair {
+  publicKey: Uint8Array
+  privateKey: Uint8Array
+}
+
+/**
+ * The primitives used by the `Noise_XX_25519_ChaChaPoly_SHA256` handshake
+ */
+export interface NoiseCrypto {
+  /**
+   * SHA-256
+   */
+  hash(data: Uint8Array | Uint8ArrayList): Uint8Array
+
+  /**
+   * HKDF with SHA-256 using the chaining key as the salt, returns the first
+   * two 32 byte outputs
+   */
+  hkdf(chainingKey: Uint8Array, inputKeyMaterial: Uint8Array): [Uint8Array, Uint8Array]
+
+  generateX25519KeyPair(): KeyPair
+
+  /**
+   * X25519 Diffie-Hellman, throws if the result is all zeros
+   */
+  x25519(privateKey: Uint8Array, publicKey: Uint8Array): Uint8Array
+
+  /**
+   * ChaCha20-Poly1305 AEAD encryption, the 16 byte tag is appended to the
+   * ciphertext
+   */
+  encrypt(plaintext: Uint8Array | Uint8ArrayList, nonce: Uint8Array, ad: Uint8Array, key: Uint8Array): Uint8Array
+
+  /**
+   * ChaCha20-Poly1305 AEAD decryption, throws if the tag does not match
+   */
+  decrypt(ciphertext: Uint8Array | Uint8ArrayList, nonce: Uint8Array, ad: Uint8Array, key: Uint8Array): Uint8Array
+}
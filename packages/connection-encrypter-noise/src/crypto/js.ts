@@ -0,0 +1,42 @@
+import { chacha20poly1305 } from '@noble/ciphers/chacha'
+import { x25519 } from '@noble/curves/ed25519'
+import { hkdf } from '@noble/hashes/hkdf'
+import { sha256 } from '@noble/hashes/sha256'
+import type { NoiseCrypto } from './interface.js'
+
+/**
+ * Pure JavaScript implementations of the handshake primitives that work in
+ * every environment
+ */
+export const pureJsCrypto: NoiseCrypto = {
+  hash (data) {
+    return sha256(data.subarray())
+  },
+
+  hkdf (chainingKey, inputKeyMaterial) {
+    const output = hkdf(sha256, inputKeyMaterial, chainingKey, undefined, 64)
+
+    return [output.subarray(0, 32), output.subarray(32, 64)]
+  },
+
+  generateX25519KeyPair () {
+    const privateKey = x25519.utils.randomPrivateKey()
+
+    return {
+      publicKey: x25519.getPublicKey(privateKey),
+      privateKey
+    }
+  },
+
+  x25519 (privateKey, publicKey) {
+    return x25519.getSharedSecret(privateKey, publicKey)
+  },
+
+  encrypt (plaintext, nonce, ad, key) {
+    return chacha20poly1305(key, nonce, ad).encrypt(plaintext.subarray())
+  },
+
+  decrypt (ciphertext, nonce, ad, key) {
+    return chacha20poly1305(key, nonce, ad).decrypt(ciphertext.subarray())
+  }
+}
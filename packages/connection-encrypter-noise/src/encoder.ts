@@ -0,0 +1,25 @@
+import { allocUnsafe as uint8ArrayAllocUnsafe } from 'uint8arrays/alloc'
+import type { LengthDecoderFunction, LengthEncoderFunction } from 'it-length-prefixed'
+import type { Uint8ArrayList } from 'uint8arraylist'
+
+/**
+ * Noise messages are prefixed with their length as a big-endian 16 bit
+ * unsigned integer
+ */
+export const uint16BEEncode: LengthEncoderFunction = (value: number): Uint8Array => {
+  const buf = uint8ArrayAllocUnsafe(2)
+  new DataView(buf.buffer, buf.byteOffset, buf.byteLength).setUint16(0, value, false)
+
+  return buf
+}
+uint16BEEncode.bytes = 2
+
+export const uint16BEDecode: LengthDecoderFunction = (data: Uint8ArrayList): number => {
+  if (data.byteLength < 2) {
+    // a RangeError tells the length-prefixed decoder to wait for more data
+    throw RangeError('Could not decode int16BE')
+  }
+
+  return data.getUint16(0)
+}
+uint16BEDecode.bytes = 2
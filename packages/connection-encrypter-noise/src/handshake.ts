@@ -0,0 +1,305 @@
+import { InvalidCryptoExchangeError, InvalidCryptoTransmissionError } from '@libp2p/interface'
+import { Uint8ArrayList } from 'uint8arraylist'
+import { alloc as uint8ArrayAlloc } from 'uint8arrays/alloc'
+import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+import { DH_LENGTH, MAX_NONCE, TAG_LENGTH } from './constants.js'
+import type { KeyPair, NoiseCrypto } from './crypto/interface.js'
+
+const PROTOCOL_NAME = uint8ArrayFromString('Noise_XX_25519_ChaChaPoly_SHA256')
+const EMPTY = new Uint8Array(0)
+
+/**
+ * Holds a key and the nonce for the next message encrypted or decrypted with it
+ */
+export class CipherState {
+  private readonly crypto: NoiseCrypto
+  private key?: Uint8Array
+  private nonce: number
+
+  constructor (crypto: NoiseCrypto, key?: Uint8Array) {
+    this.crypto = crypto
+    this.key = key
+    this.nonce = 0
+  }
+
+  initializeKey (key: Uint8Array): void {
+    this.key = key
+    this.nonce = 0
+  }
+
+  hasKey (): boolean {
+    return this.key != null
+  }
+
+  encryptWithAd (ad: Uint8Array, plaintext: Uint8Array | Uint8ArrayList): Uint8Array {
+    if (this.key == null) {
+      return plaintext.subarray()
+    }
+
+    return this.crypto.encrypt(plaintext, this.nextNonce(), ad, this.key)
+  }
+
+  decryptWithAd (ad: Uint8Array, ciphertext: Uint8Array | Uint8ArrayList): Uint8Array {
+    if (this.key == null) {
+      return ciphertext.subarray()
+    }
+
+    if (ciphertext.byteLength < TAG_LENGTH) {
+      throw new InvalidCryptoTransmissionError('Ciphertext was shorter than the authentication tag')
+    }
+
+    try {
+      return this.crypto.decrypt(ciphertext, this.nextNonce(), ad, this.key)
+    } catch (err: any) {
+      throw new InvalidCryptoTransmissionError(`Failed to decrypt message - ${err.message}`)
+    }
+  }
+
+  /**
+   * The nonce is 32 bits of zeros followed by a little-endian 64 bit counter.
+   * A key must not be used for more than 2^64 - 1 messages but numbers lose
+   * precision long before then so stop at the largest safe integer.
+   */
+  private nextNonce (): Uint8Array {
+    if (this.nonce >= MAX_NONCE) {
+      throw new InvalidCryptoTransmissionError('Nonce exhausted, the key must not be used again')
+    }
+
+    const nonce = uint8ArrayAlloc(12)
+    const view = new DataView(nonce.buffer, nonce.byteOffset, nonce.byteLength)
+    view.setUint32(4, this.nonce % 2 ** 32, true)
+    view.setUint32(8, Math.floor(this.nonce / 2 ** 32), true)
+
+    this.nonce++
+
+    return nonce
+  }
+}
+
+/**
+ * Tracks the chaining key and handshake hash while the handshake progresses
+ */
+class SymmetricState {
+  private readonly crypto: NoiseCrypto
+  private readonly cs: CipherState
+  private ck: Uint8Array
+  public h: Uint8Array
+
+  constructor (crypto: NoiseCrypto, prologue: Uint8Array) {
+    this.crypto = crypto
+    this.cs = new CipherState(crypto)
+
+    // the protocol name is exactly as long as the hash output so it is used
+    // directly instead of being hashed
+    this.h = PROTOCOL_NAME
+    this.ck = PROTOCOL_NAME
+    this.mixHash(prologue)
+  }
+
+  mixKey (inputKeyMaterial: Uint8Array): void {
+    const [ck, tempK] = this.crypto.hkdf(this.ck, inputKeyMaterial)
+    this.ck = ck
+    this.cs.initializeKey(tempK)
+  }
+
+  mixHash (data: Uint8Array | Uint8ArrayList): void {
+    this.h = this.crypto.hash(new Uint8ArrayList(this.h, data))
+  }
+
+  encryptAndHash (plaintext: Uint8Array | Uint8ArrayList): Uint8Array {
+    const ciphertext = this.cs.encryptWithAd(this.h, plaintext)
+    this.mixHash(ciphertext)
+
+    return ciphertext
+  }
+
+  decryptAndHash (ciphertext: Uint8Array | Uint8ArrayList): Uint8Array {
+    const plaintext = this.cs.decryptWithAd(this.h, ciphertext)
+    this.mixHash(ciphertext)
+
+    return plaintext
+  }
+
+  hasKey (): boolean {
+    return this.cs.hasKey()
+  }
+
+  split (): [CipherState, CipherState] {
+    const [k1, k2] = this.crypto.hkdf(this.ck, EMPTY)
+
+    return [new CipherState(this.crypto, k1), new CipherState(this.crypto, k2)]
+  }
+}
+
+export interface XXHandshakeInit {
+  crypto: NoiseCrypto
+  initiator: boolean
+  staticKeyPair: KeyPair
+  prologue?: Uint8Array
+}
+
+export interface TransportCiphers {
+  /**
+   * Encrypts messages sent to the remote
+   */
+  encrypt: CipherState
+
+  /**
+   * Decrypts messages received from the remote
+   */
+  decrypt: CipherState
+}
+
+/**
+ * Implements the message patterns of the XX handshake:
+ *
+ * ```
+ * -> e
+ * <- e, ee, s, es
+ * -> s, se
+ * ```
+ *
+ * Each message may carry a payload, the remote static key is only known once
+ * the second message has been read so identities are exchanged in the second
+ * and third messages.
+ */
+export class XXHandshake {
+  private readonly crypto: NoiseCrypto
+  private readonly initiator: boolean
+  private readonly ss: SymmetricState
+  private readonly s: KeyPair
+  private e?: KeyPair
+  private rs?: Uint8Array
+  private re?: Uint8Array
+
+  constructor (init: XXHandshakeInit) {
+    this.crypto = init.crypto
+    this.initiator = init.initiator
+    this.s = init.staticKeyPair
+    this.ss = new SymmetricState(init.crypto, init.prologue ?? EMPTY)
+  }
+
+  /**
+   * The static key the remote proved it holds, available once its static key
+   * has been read
+   */
+  get remoteStaticKey (): Uint8Array {
+    if (this.rs == null) {
+      throw new InvalidCryptoExchangeError('Remote static key is not known yet')
+    }
+
+    return this.rs
+  }
+
+  /**
+   * -> e
+   */
+  writeMessageA (payload: Uint8Array): Uint8ArrayList {
+    this.e = this.crypto.generateX25519KeyPair()
+    this.ss.mixHash(this.e.publicKey)
+
+    return new Uint8ArrayList(this.e.publicKey, this.ss.encryptAndHash(payload))
+  }
+
+  readMessageA (message: Uint8ArrayList): Uint8Array {
+    this.re = this.readKey(message, 0, false)
+    this.ss.mixHash(this.re)
+
+    return this.decryptAndHash(message.sublist(DH_LENGTH))
+  }
+
+  /**
+   * <- e, ee, s, es
+   */
+  writeMessageB (payload: Uint8Array): Uint8ArrayList {
+    this.e = this.crypto.generateX25519KeyPair()
+    this.ss.mixHash(this.e.publicKey)
+    this.ss.mixKey(this.dh(this.e.privateKey, this.re))
+
+    const s = this.ss.encryptAndHash(this.s.publicKey)
+    this.ss.mixKey(this.dh(this.s.privateKey, this.re))
+
+    return new Uint8ArrayList(this.e.publicKey, s, this.ss.encryptAndHash(payload))
+  }
+
+  readMessageB (message: Uint8ArrayList): Uint8Array {
+    this.re = this.readKey(message, 0, false)
+    this.ss.mixHash(this.re)
+    this.ss.mixKey(this.dh(this.e?.privateKey, this.re))
+
+    this.rs = this.decryptAndHash(this.readKey(message, DH_LENGTH, true))
+    this.ss.mixKey(this.dh(this.e?.privateKey, this.rs))
+
+    return this.decryptAndHash(message.sublist(DH_LENGTH * 2 + TAG_LENGTH))
+  }
+
+  /**
+   * -> s, se
+   */
+  writeMessageC (payload: Uint8Array): Uint8ArrayList {
+    const s = this.ss.encryptAndHash(this.s.publicKey)
+    this.ss.mixKey(this.dh(this.s.privateKey, this.re))
+
+    return new Uint8ArrayList(s, this.ss.encryptAndHash(payload))
+  }
+
+  readMessageC (message: Uint8ArrayList): Uint8Array {
+    this.rs = this.decryptAndHash(this.readKey(message, 0, true))
+    this.ss.mixKey(this.dh(this.e?.privateKey, this.rs))
+
+    return this.decryptAndHash(message.sublist(DH_LENGTH + TAG_LENGTH))
+  }
+
+  /**
+   * Once the handshake is complete, derive the keys used to encrypt the
+   * transport. The initiator sends with the first key and the responder with
+   * the second.
+   */
+  split (): TransportCiphers {
+    const [cs1, cs2] = this.ss.split()
+
+    if (this.initiator) {
+      return { encrypt: cs1, decrypt: cs2 }
+    }
+
+    return { encrypt: cs2, decrypt: cs1 }
+  }
+
+  /**
+   * Read a public key from the message, static keys are encrypted so are
+   * followed by an authentication tag
+   */
+  private readKey (message: Uint8ArrayList, offset: number, encrypted: boolean): Uint8Array {
+    const length = encrypted && this.ss.hasKey() ? DH_LENGTH + TAG_LENGTH : DH_LENGTH
+
+    if (message.byteLength < offset + length) {
+      throw new InvalidCryptoExchangeError('Handshake message was too short')
+    }
+
+    return message.subarray(offset, offset + length)
+  }
+
+  /**
+   * A message that fails to decrypt during the handshake means the remote does
+   * not hold the keys it claims to or the handshake was tampered with
+   */
+  private decryptAndHash (ciphertext: Uint8Array | Uint8ArrayList): Uint8Array {
+    try {
+      return this.ss.decryptAndHash(ciphertext)
+    } catch (err: any) {
+      throw new InvalidCryptoExchangeError(err.message)
+    }
+  }
+
+  private dh (privateKey?: Uint8Array, publicKey?: Uint8Array): Uint8Array {
+    if (privateKey == null || publicKey == null) {
+      throw new InvalidCryptoExchangeError('Handshake messages were processed out of order')
+    }
+
+    try {
+      return this.crypto.x25519(privateKey, publicKey)
+    } catch (err: any) {
+      throw new InvalidCryptoExchangeError(`Invalid Diffie-Hellman key - ${err.message}`)
+    }
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * @packageDocumentation
+ *
+ * Implements the spec at https://github.com/libp2p/specs/blob/master/noise/README.md
+ *
+ * Connections are secured with the `Noise_XX_25519_ChaChaPoly_SHA256`
+ * handshake. Each side proves it controls the private key of its peer id by
+ * signing its static noise key as part of the handshake.
+ *
+ * Unlike `@libp2p/tls` this module does not depend on any Node.js APIs so it
+ * can be used in browsers and React Native. When running under Node.js the
+ * native ChaCha20-Poly1305 implementation is used for speed.
+ *
+ * @example
+ *
+ * ```typescript
+ * import { createLibp2p } from 'libp2p'
+ * import { noise } from '@libp2p/noise'
+ *
+ * const node = await createLibp2p({
+ *   // ...other options
+ *   connectionEncryption: [
+ *     noise()
+ *   ]
+ * })
+ * ```
+ *
+ * @example Early data extensions
+ *
+ * Extensions are sent to the remote during the handshake, before the
+ * connection is secured. They are available to the remote as the
+ * `remoteExtensions` property of the secured connection.
+ *
+ * The stream muxers configured on the node are always sent, if the remote
+ * sends its stream muxers too then one is agreed during the handshake which
+ * saves a round trip when upgrading the connection.
+ *
+ * ```typescript
+ * import { createLibp2p } from 'libp2p'
+ * import { noise } from '@libp2p/noise'
+ *
+ * // the hash of the certificate used by a WebTransport listener
+ * const certhash = Uint8Array.from([0, 1, 2, 3])
+ *
+ * const node = await createLibp2p({
+ *   // ...other options
+ *   connectionEncryption: [
+ *     noise({
+ *       extensions: {
+ *         webtransportCerthashes: [certhash]
+ *       }
+ *     })
+ *   ]
+ * })
+ * ```
+ */
+
+import { Noise } from './noise.js'
+import type { NoiseCrypto } from './crypto/interface.js'
+import type { NoiseExtensions } from './pb/payload.js'
+import type { ComponentLogger, ConnectionEncrypter } from '@libp2p/interface'
+
+export { PROTOCOL } from './constants.js'
+export { pureJsCrypto } from './crypto/js.js'
+export type { KeyPair, NoiseCrypto } from './crypto/interface.js'
+export type { NoiseExtensions }
+
+export interface NoiseComponents {
+  logger: ComponentLogger
+}
+
+export interface NoiseInit {
+  /**
+   * The handshake must complete within this many milliseconds
+   * (default: 10000)
+   */
+  timeout?: number
+
+  /**
+   * Data sent to the remote during the handshake, before the connection is
+   * secured. Any stream muxers passed by the upgrader take precedence over
+   * the ones set here.
+   */
+  extensions?: Partial<NoiseExtensions>
+
+  /**
+   * Both sides must use the same prologue or the handshake will fail
+   * (default: empty)
+   */
+  prologue?: Uint8Array
+
+  /**
+   * Override the primitives used by the handshake and to encrypt the
+   * connection, for example to use a native implementation on a platform
+   * that has one
+   */
+  crypto?: NoiseCrypto
+}
+
+export function noise (init?: NoiseInit): (components: NoiseComponents) => ConnectionEncrypter<NoiseExtensions> {
+  return (components) => new Noise(components, init)
+}
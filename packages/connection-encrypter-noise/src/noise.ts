@@ -0,0 +1,230 @@
+import { unmarshalPrivateKey, unmarshalPublicKey } from '@libp2p/crypto/keys'
+import { InvalidCryptoExchangeError, UnexpectedPeerError } from '@libp2p/interface'
+import { peerIdFromKeys } from '@libp2p/peer-id'
+import { anySignal } from 'any-signal'
+import { decode as lpDecode, encode as lpEncode } from 'it-length-prefixed'
+import { lpStream } from 'it-length-prefixed-stream'
+import { pipe } from 'it-pipe'
+import { Uint8ArrayList } from 'uint8arraylist'
+import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+import { NOISE_MSG_MAX_LENGTH_BYTES, NOISE_MSG_MAX_LENGTH_BYTES_WITHOUT_TAG, PROTOCOL, STATIC_KEY_SIGNATURE_PREFIX } from './constants.js'
+import { defaultCrypto } from './crypto/index.js'
+import { uint16BEDecode, uint16BEEncode } from './encoder.js'
+import { XXHandshake, type CipherState } from './handshake.js'
+import { NoiseHandshakePayload } from './pb/payload.js'
+import type { KeyPair, NoiseCrypto } from './crypto/interface.js'
+import type { NoiseComponents, NoiseInit } from './index.js'
+import type { NoiseExtensions } from './pb/payload.js'
+import type { ConnectionEncrypter, Logger, MultiaddrConnection, PeerId, SecureConnectionOptions, SecuredConnection } from '@libp2p/interface'
+import type { Duplex, Source } from 'it-stream-types'
+
+const EMPTY = new Uint8Array(0)
+
+interface RemoteIdentity {
+  remotePeer: PeerId
+  remoteExtensions: NoiseExtensions
+}
+
+export class Noise implements ConnectionEncrypter<NoiseExtensions> {
+  public protocol: string = PROTOCOL
+  private readonly log: Logger
+  private readonly crypto: NoiseCrypto
+  private readonly staticKey: KeyPair
+  private readonly extensions: NoiseExtensions
+  private readonly prologue: Uint8Array
+  private readonly timeout: number
+
+  constructor (components: NoiseComponents, init: NoiseInit = {}) {
+    this.log = components.logger.forComponent('libp2p:noise')
+    this.crypto = init.crypto ?? defaultCrypto
+    this.staticKey = this.crypto.generateX25519KeyPair()
+    this.extensions = {
+      webtransportCerthashes: init.extensions?.webtransportCerthashes ?? [],
+      streamMuxers: init.extensions?.streamMuxers ?? []
+    }
+    this.prologue = init.prologue ?? EMPTY
+    this.timeout = init.timeout ?? 10000
+  }
+
+  async secureOutbound <Stream extends Duplex<AsyncGenerator<Uint8Array | Uint8ArrayList>> = MultiaddrConnection> (localPeer: PeerId, conn: Stream, remotePeer?: PeerId, options?: SecureConnectionOptions): Promise<SecuredConnection<Stream, NoiseExtensions>> {
+    return this._encrypt(localPeer, conn, true, remotePeer, options)
+  }
+
+  async secureInbound <Stream extends Duplex<AsyncGenerator<Uint8Array | Uint8ArrayList>> = MultiaddrConnection> (localPeer: PeerId, conn: Stream, remotePeer?: PeerId, options?: SecureConnectionOptions): Promise<SecuredConnection<Stream, NoiseExtensions>> {
+    return this._encrypt(localPeer, conn, false, remotePeer, options)
+  }
+
+  /**
+   * Perform the XX handshake then wrap the connection so all further data is
+   * encrypted with the derived keys
+   */
+  async _encrypt <Stream extends Duplex<AsyncGenerator<Uint8Array | Uint8ArrayList>> = MultiaddrConnection> (localPeer: PeerId, conn: Stream, initiator: boolean, remotePeer?: PeerId, options: SecureConnectionOptions = {}): Promise<SecuredConnection<Stream, NoiseExtensions>> {
+    const lp = lpStream(conn, {
+      lengthEncoder: uint16BEEncode,
+      lengthDecoder: uint16BEDecode,
+      maxDataLength: NOISE_MSG_MAX_LENGTH_BYTES
+    })
+    const handshake = new XXHandshake({
+      crypto: this.crypto,
+      initiator,
+      staticKeyPair: this.staticKey,
+      prologue: this.prologue
+    })
+    const extensions: NoiseExtensions = {
+      ...this.extensions,
+      streamMuxers: options.streamMuxers ?? this.extensions.streamMuxers
+    }
+    const payload = await this.createHandshakePayload(localPeer, extensions)
+    const signal = anySignal([AbortSignal.timeout(this.timeout), options.signal])
+    let remote: RemoteIdentity
+
+    try {
+      if (initiator) {
+        this.log.trace('send handshake message A to %p', remotePeer)
+        await lp.write(handshake.writeMessageA(EMPTY), { signal })
+
+        this.log.trace('read handshake message B')
+        const remotePayload = handshake.readMessageB(await lp.read({ signal }))
+        remote = await this.verifyHandshakePayload(remotePayload, handshake.remoteStaticKey, remotePeer)
+
+        this.log.trace('send handshake message C to %p', remote.remotePeer)
+        await lp.write(handshake.writeMessageC(payload), { signal })
+      } else {
+        this.log.trace('read handshake message A')
+        handshake.readMessageA(await lp.read({ signal }))
+
+        this.log.trace('send handshake message B')
+        await lp.write(handshake.writeMessageB(payload), { signal })
+
+        this.log.trace('read handshake message C')
+        const remotePayload = handshake.readMessageC(await lp.read({ signal }))
+        remote = await this.verifyHandshakePayload(remotePayload, handshake.remoteStaticKey, remotePeer)
+      }
+    } finally {
+      signal.clear()
+    }
+
+    this.log('noise handshake completed successfully with peer %p', remote.remotePeer)
+
+    const streamMuxer = selectStreamMuxer(
+      initiator ? extensions.streamMuxers : remote.remoteExtensions.streamMuxers,
+      initiator ? remote.remoteExtensions.streamMuxers : extensions.streamMuxers
+    )
+
+    if (streamMuxer != null) {
+      this.log('selected stream muxer %s during handshake', streamMuxer)
+    }
+
+    const { encrypt, decrypt } = handshake.split()
+    const unwrapped = lp.unwrap()
+
+    return {
+      conn: {
+        ...unwrapped,
+        sink: async (source: Source<Uint8Array | Uint8ArrayList>) => {
+          await pipe(
+            source,
+            encryptStream(encrypt),
+            (source) => lpEncode(source, { lengthEncoder: uint16BEEncode }),
+            unwrapped.sink
+          )
+        },
+        source: pipe(
+          unwrapped.source,
+          (source) => lpDecode(source, { lengthDecoder: uint16BEDecode, maxDataLength: NOISE_MSG_MAX_LENGTH_BYTES }),
+          decryptStream(decrypt)
+        )
+      },
+      remotePeer: remote.remotePeer,
+      remoteExtensions: remote.remoteExtensions,
+      streamMuxer
+    }
+  }
+
+  /**
+   * The payload proves we hold the identity key of our peer id by signing the
+   * static noise key with it
+   */
+  private async createHandshakePayload (localPeer: PeerId, extensions: NoiseExtensions): Promise<Uint8Array> {
+    if (localPeer.privateKey == null || localPeer.publicKey == null) {
+      throw new InvalidCryptoExchangeError('Private key was missing from PeerId')
+    }
+
+    const privateKey = await unmarshalPrivateKey(localPeer.privateKey)
+    const identitySig = await privateKey.sign(signaturePayload(this.staticKey.publicKey))
+
+    return NoiseHandshakePayload.encode({
+      identityKey: localPeer.publicKey,
+      identitySig,
+      extensions
+    })
+  }
+
+  private async verifyHandshakePayload (payload: Uint8Array, remoteStaticKey: Uint8Array, expectedPeer?: PeerId): Promise<RemoteIdentity> {
+    let remotePeer: PeerId
+    let decoded: NoiseHandshakePayload
+
+    try {
+      decoded = NoiseHandshakePayload.decode(payload)
+      remotePeer = await peerIdFromKeys(decoded.identityKey)
+
+      const publicKey = unmarshalPublicKey(decoded.identityKey)
+
+      if (!(await publicKey.verify(signaturePayload(remoteStaticKey), decoded.identitySig))) {
+        throw new Error('Static key signature was invalid')
+      }
+    } catch (err: any) {
+      this.log.error('invalid handshake payload', err)
+      throw new InvalidCryptoExchangeError(`Invalid handshake payload - ${err.message}`)
+    }
+
+    if (expectedPeer != null && !expectedPeer.equals(remotePeer)) {
+      throw new UnexpectedPeerError()
+    }
+
+    return {
+      remotePeer,
+      remoteExtensions: decoded.extensions ?? {
+        webtransportCerthashes: [],
+        streamMuxers: []
+      }
+    }
+  }
+}
+
+/**
+ * The stream muxer is the first one in the initiator's list that the responder
+ * also supports. If either side did not send a list the muxer is negotiated
+ * after the handshake instead.
+ */
+function selectStreamMuxer (initiatorMuxers: string[], responderMuxers: string[]): string | undefined {
+  return initiatorMuxers.find(protocol => responderMuxers.includes(protocol))
+}
+
+function signaturePayload (staticKey: Uint8Array): Uint8ArrayList {
+  return new Uint8ArrayList(uint8ArrayFromString(STATIC_KEY_SIGNATURE_PREFIX), staticKey)
+}
+
+/**
+ * Splits outgoing data into chunks small enough to fit in a noise message and
+ * encrypts them
+ */
+function encryptStream (cs: CipherState): (source: Source<Uint8Array | Uint8ArrayList>) => AsyncGenerator<Uint8Array> {
+  return async function * (source) {
+    for await (const chunk of source) {
+      for (let i = 0; i < chunk.byteLength; i += NOISE_MSG_MAX_LENGTH_BYTES_WITHOUT_TAG) {
+        const end = Math.min(i + NOISE_MSG_MAX_LENGTH_BYTES_WITHOUT_TAG, chunk.byteLength)
+
+        yield cs.encryptWithAd(EMPTY, chunk instanceof Uint8Array ? chunk.subarray(i, end) : chunk.sublist(i, end))
+      }
+    }
+  }
+}
+
+function decryptStream (cs: CipherState): (source: Source<Uint8ArrayList>) => AsyncGenerator<Uint8Array> {
+  return async function * (source) {
+    for await (const chunk of source) {
+      yield cs.decryptWithAd(EMPTY, chunk)
+    }
+  }
+}
@@ -0,0 +1,18 @@
+/* eslint-env mocha */
+
+import suite from '@libp2p/interface-compliance-tests/connection-encryption'
+import { defaultLogger } from '@libp2p/logger'
+import { noise } from '../src/index.js'
+
+describe('noise compliance', () => {
+  suite({
+    async setup () {
+      return noise()({
+        logger: defaultLogger()
+      })
+    },
+    async teardown () {
+
+    }
+  })
+})
@@ -0,0 +1,132 @@
+/* eslint-env mocha */
+
+import { InvalidCryptoExchangeError, type PeerId } from '@libp2p/interface'
+import { defaultLogger } from '@libp2p/logger'
+import { createEd25519PeerId, createSecp256k1PeerId } from '@libp2p/peer-id-factory'
+import { expect } from 'aegir/chai'
+import all from 'it-all'
+import { duplexPair } from 'it-pair/duplex'
+import { pipe } from 'it-pipe'
+import { Uint8ArrayList } from 'uint8arraylist'
+import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+import { noise, pureJsCrypto, type NoiseInit } from '../src/index.js'
+
+describe('noise', () => {
+  let localPeer: PeerId
+  let remotePeer: PeerId
+
+  before(async () => {
+    localPeer = await createEd25519PeerId()
+    remotePeer = await createSecp256k1PeerId()
+  })
+
+  function createNoise (init?: NoiseInit): ReturnType<ReturnType<typeof noise>> {
+    return noise(init)({
+      logger: defaultLogger()
+    })
+  }
+
+  it('should send messages larger than the maximum noise message length', async () => {
+    const [outboundConn, inboundConn] = duplexPair<Uint8Array | Uint8ArrayList>()
+
+    // use the pure JS implementation on one side to ensure it is compatible
+    // with the one used by default in this environment
+    const [outbound, inbound] = await Promise.all([
+      createNoise().secureOutbound(localPeer, outboundConn, remotePeer),
+      createNoise({ crypto: pureJsCrypto }).secureInbound(remotePeer, inboundConn)
+    ])
+
+    void pipe(inbound.conn, inbound.conn)
+
+    const input = [
+      new Uint8Array(100_000).fill(5),
+      new Uint8ArrayList(uint8ArrayFromString('hello'), uint8ArrayFromString('world'))
+    ]
+
+    const output = new Uint8ArrayList(...await pipe(input, outbound.conn, async (source) => all(source)))
+
+    expect(output.subarray()).to.equalBytes(new Uint8ArrayList(...input).subarray())
+    expect(outbound.remotePeer.equals(remotePeer)).to.be.true()
+    expect(inbound.remotePeer.equals(localPeer)).to.be.true()
+  })
+
+  it('should exchange extensions', async () => {
+    const [outboundConn, inboundConn] = duplexPair<Uint8Array | Uint8ArrayList>()
+    const certhash = Uint8Array.from([0, 1, 2, 3])
+
+    const [outbound, inbound] = await Promise.all([
+      createNoise({
+        extensions: {
+          streamMuxers: ['/yamux/1.0.0', '/mplex/6.7.0']
+        }
+      }).secureOutbound(localPeer, outboundConn, remotePeer),
+      createNoise({
+        extensions: {
+          webtransportCerthashes: [certhash]
+        }
+      }).secureInbound(remotePeer, inboundConn)
+    ])
+
+    expect(outbound.remoteExtensions).to.deep.equal({
+      webtransportCerthashes: [certhash],
+      streamMuxers: []
+    })
+    expect(inbound.remoteExtensions).to.deep.equal({
+      webtransportCerthashes: [],
+      streamMuxers: ['/yamux/1.0.0', '/mplex/6.7.0']
+    })
+  })
+
+  it('should select the first stream muxer preferred by the initiator', async () => {
+    const [outboundConn, inboundConn] = duplexPair<Uint8Array | Uint8ArrayList>()
+
+    const [outbound, inbound] = await Promise.all([
+      createNoise().secureOutbound(localPeer, outboundConn, remotePeer, {
+        streamMuxers: ['/yamux/1.0.0', '/mplex/6.7.0']
+      }),
+      createNoise().secureInbound(remotePeer, inboundConn, undefined, {
+        streamMuxers: ['/mplex/6.7.0', '/yamux/1.0.0']
+      })
+    ])
+
+    expect(outbound).to.have.property('streamMuxer', '/yamux/1.0.0')
+    expect(inbound).to.have.property('streamMuxer', '/yamux/1.0.0')
+  })
+
+  it('should not select a stream muxer if one side does not send any', async () => {
+    const [outboundConn, inboundConn] = duplexPair<Uint8Array | Uint8ArrayList>()
+
+    const [outbound, inbound] = await Promise.all([
+      createNoise().secureOutbound(localPeer, outboundConn, remotePeer, {
+        streamMuxers: ['/yamux/1.0.0']
+      }),
+      createNoise().secureInbound(remotePeer, inboundConn)
+    ])
+
+    expect(outbound).to.have.property('streamMuxer', undefined)
+    expect(inbound).to.have.property('streamMuxer', undefined)
+  })
+
+  it('should fail the handshake if the prologues differ', async () => {
+    const [outboundConn, inboundConn] = duplexPair<Uint8Array | Uint8ArrayList>()
+
+    const outbound = createNoise({ prologue: uint8ArrayFromString('a') }).secureOutbound(localPeer, outboundConn, remotePeer)
+    // the initiator will not send the third message so the responder times out
+    const inbound = createNoise({ prologue: uint8ArrayFromString('b'), timeout: 100 }).secureInbound(remotePeer, inboundConn)
+
+    await expect(outbound).to.eventually.be.rejected.with.property('code', InvalidCryptoExchangeError.code)
+    await expect(inbound).to.eventually.be.rejected()
+  })
+  it('should abort the handshake when the passed signal aborts', async () => {
+    const [, inboundConn] = duplexPair<Uint8Array | Uint8ArrayList>()
+    const controller = new AbortController()
+
+    // nothing is sent by the initiator so the handshake only ends when aborted
+    const inbound = createNoise().secureInbound(remotePeer, inboundConn, undefined, {
+      signal: controller.signal
+    })
+    controller.abort()
+
+    await expect(inbound).to.eventually.be.rejected.with.property('name', 'AbortError')
+  })
+})
@@ -23,10 +23,16 @@ import { CodeError } from '@libp2p/interface'
 import { generateCertificate, verifyPeerCertificate, itToStream, streamToIt } from './utils.js'
 import { PROTOCOL } from './index.js'
 import type { TLSComponents, TLSInit } from './index.js'
-import type { MultiaddrConnection, ConnectionEncrypter, SecuredConnection, PeerId, Logger } from '@libp2p/interface'
+import type { MultiaddrConnection, ConnectionEncrypter, SecuredConnection, PeerId, Logger, SecureConnectionOptions } from '@libp2p/interface'
 import type { Duplex } from 'it-stream-types'
 import type { Uint8ArrayList } from 'uint8arraylist'
 
+/**
+ * Clients always offer this ALPN token last so servers that do not support
+ * muxer negotiation can still select it
+ */
+const LIBP2P_ALPN = 'libp2p'
+
 export class TLS implements ConnectionEncrypter {
   public protocol: string = PROTOCOL
   private readonly log: Logger
@@ -37,18 +43,20 @@ export class TLS implements ConnectionEncrypter {
     this.timeout = init.timeout ?? 1000
   }
 
-  async secureInbound <Stream extends Duplex<AsyncGenerator<Uint8Array | Uint8ArrayList>> = MultiaddrConnection> (localId: PeerId, conn: Stream, remoteId?: PeerId): Promise<SecuredConnection<Stream>> {
-    return this._encrypt(localId, conn, true, remoteId)
+  async secureInbound <Stream extends Duplex<AsyncGenerator<Uint8Array | Uint8ArrayList>> = MultiaddrConnection> (localId: PeerId, conn: Stream, remoteId?: PeerId, options?: SecureConnectionOptions): Promise<SecuredConnection<Stream>> {
+    return this._encrypt(localId, conn, true, remoteId, options)
   }
 
-  async secureOutbound <Stream extends Duplex<AsyncGenerator<Uint8Array | Uint8ArrayList>> = MultiaddrConnection> (localId: PeerId, conn: Stream, remoteId?: PeerId): Promise<SecuredConnection<Stream>> {
-    return this._encrypt(localId, conn, false, remoteId)
+  async secureOutbound <Stream extends Duplex<AsyncGenerator<Uint8Array | Uint8ArrayList>> = MultiaddrConnection> (localId: PeerId, conn: Stream, remoteId?: PeerId, options?: SecureConnectionOptions): Promise<SecuredConnection<Stream>> {
+    return this._encrypt(localId, conn, false, remoteId, options)
   }
 
   /**
-   * Encrypt connection
+   * Encrypt connection, if stream muxers are passed one is negotiated using
+   * ALPN with the client's preference taking priority
    */
-  async _encrypt <Stream extends Duplex<AsyncGenerator<Uint8Array | Uint8ArrayList>> = MultiaddrConnection> (localId: PeerId, conn: Stream, isServer: boolean, remoteId?: PeerId): Promise<SecuredConnection<Stream>> {
+  async _encrypt <Stream extends Duplex<AsyncGenerator<Uint8Array | Uint8ArrayList>> = MultiaddrConnection> (localId: PeerId, conn: Stream, isServer: boolean, remoteId?: PeerId, options: SecureConnectionOptions = {}): Promise<SecuredConnection<Stream>> {
+    const streamMuxers = options.streamMuxers ?? []
     const opts: TLSSocketOptions = {
       ...await generateCertificate(localId),
       isServer,
@@ -59,6 +67,29 @@ export class TLS implements ConnectionEncrypter {
       rejectUnauthorized: false
     }
 
+    if (streamMuxers.length > 0) {
+      if (isServer) {
+        // select the first muxer offered by the client that we support. Clients
+        // that do not offer ALPN never invoke this callback and negotiate the
+        // muxer after the handshake. Node.js throws if the callback returns a
+        // protocol the client did not offer so `libp2p` is only selected when
+        // offered and any other offer ends the handshake
+        opts.ALPNCallback = ({ protocols }) => {
+          const streamMuxer = protocols.find(protocol => streamMuxers.includes(protocol))
+
+          if (streamMuxer != null) {
+            return streamMuxer
+          }
+
+          if (protocols.includes(LIBP2P_ALPN)) {
+            return LIBP2P_ALPN
+          }
+        }
+      } else {
+        opts.ALPNProtocols = [...streamMuxers, LIBP2P_ALPN]
+      }
+    }
+
     let socket: TLSSocket
 
     if (isServer) {
@@ -86,8 +117,17 @@ export class TLS implements ConnectionEncrypter {
           .then(remotePeer => {
             this.log('remote certificate ok, remote peer %p', remotePeer)
 
+            const alpn = socket.alpnProtocol
+            let streamMuxer: string | undefined
+
+            if (typeof alpn === 'string' && streamMuxers.includes(alpn)) {
+              this.log('selected stream muxer %s using ALPN', alpn)
+              streamMuxer = alpn
+            }
+
             resolve({
               remotePeer,
+              streamMuxer,
               conn: {
                 ...conn,
                 ...streamToIt(socket)
@@ -72,4 +72,87 @@ describe('tls', () => {
     ]))
       .to.eventually.be.rejected.with.property('code', InvalidCryptoExchangeError.code)
   })
+
+  it('should select the first stream muxer offered by the client that the server supports', async () => {
+    const { inbound, outbound } = mockMultiaddrConnPair({
+      remotePeer,
+      addrs: [
+        multiaddr('/ip4/127.0.0.1/tcp/1234'),
+        multiaddr('/ip4/127.0.0.1/tcp/1235')
+      ]
+    })
+
+    const [server, client] = await Promise.all([
+      encrypter.secureInbound(remotePeer, inbound, undefined, {
+        streamMuxers: ['/mplex/6.7.0', '/yamux/1.0.0']
+      }),
+      encrypter.secureOutbound(localPeer, outbound, remotePeer, {
+        streamMuxers: ['/yamux/1.0.0', '/mplex/6.7.0']
+      })
+    ])
+
+    expect(server).to.have.property('streamMuxer', '/yamux/1.0.0')
+    expect(client).to.have.property('streamMuxer', '/yamux/1.0.0')
+  })
+
+  it('should not select a stream muxer if the server does not support muxer negotiation', async () => {
+    const { inbound, outbound } = mockMultiaddrConnPair({
+      remotePeer,
+      addrs: [
+        multiaddr('/ip4/127.0.0.1/tcp/1234'),
+        multiaddr('/ip4/127.0.0.1/tcp/1235')
+      ]
+    })
+
+    const [server, client] = await Promise.all([
+      encrypter.secureInbound(remotePeer, inbound),
+      encrypter.secureOutbound(localPeer, outbound, remotePeer, {
+        streamMuxers: ['/yamux/1.0.0']
+      })
+    ])
+
+    expect(server).to.have.property('streamMuxer', undefined)
+    expect(client).to.have.property('streamMuxer', undefined)
+  })
+  it('should fall back to negotiating the stream muxer after the handshake if the client does not offer ALPN', async () => {
+    const { inbound, outbound } = mockMultiaddrConnPair({
+      remotePeer,
+      addrs: [
+        multiaddr('/ip4/127.0.0.1/tcp/1234'),
+        multiaddr('/ip4/127.0.0.1/tcp/1235')
+      ]
+    })
+
+    const [server, client] = await Promise.all([
+      encrypter.secureInbound(remotePeer, inbound, undefined, {
+        streamMuxers: ['/yamux/1.0.0']
+      }),
+      encrypter.secureOutbound(localPeer, outbound, remotePeer)
+    ])
+
+    expect(server).to.have.property('streamMuxer', undefined)
+    expect(client).to.have.property('streamMuxer', undefined)
+  })
+
+  it('should select libp2p if the client offers no stream muxer the server supports', async () => {
+    const { inbound, outbound } = mockMultiaddrConnPair({
+      remotePeer,
+      addrs: [
+        multiaddr('/ip4/127.0.0.1/tcp/1234'),
+        multiaddr('/ip4/127.0.0.1/tcp/1235')
+      ]
+    })
+
+    const [server, client] = await Promise.all([
+      encrypter.secureInbound(remotePeer, inbound, undefined, {
+        streamMuxers: ['/yamux/1.0.0']
+      }),
+      encrypter.secureOutbound(localPeer, outbound, remotePeer, {
+        streamMuxers: ['/mplex/6.7.0']
+      })
+    ])
+
+    expect(server).to.have.property('streamMuxer', undefined)
+    expect(client).to.have.property('streamMuxer', undefined)
+  })
 })
@@ -1,15 +1,23 @@
 /* eslint-env mocha */
 
+import readline from 'readline'
+import { Readable } from 'stream'
+import { fileURLToPath } from 'url'
 import { circuitRelayServer, type CircuitRelayService } from '@libp2p/circuit-relay-v2'
 import { dcutr } from '@libp2p/dcutr'
 import { identify } from '@libp2p/identify'
+import { defaultLogger } from '@libp2p/logger'
+import { tcp } from '@libp2p/tcp'
 import { multiaddr } from '@multiformats/multiaddr'
 import { expect } from 'aegir/chai'
 import delay from 'delay'
+import { execa } from 'execa'
 import { createLibp2p } from 'libp2p'
 import pRetry from 'p-retry'
 import { createBaseOptions } from './fixtures/base-options.js'
+import { canCreateNatNetwork, createNatNetwork, type NatNetwork } from './fixtures/netns.js'
 import { usingAsRelay } from './fixtures/utils.js'
+import type { DCUtRPeerOptions } from './fixtures/dcutr-peer.js'
 import type { Libp2p } from '@libp2p/interface'
 
 const RELAY_PORT = 47330
@@ -120,60 +128,107 @@ describe('dcutr', () => {
     })
   })
 
-  // TODO: how to test this?
-  describe.skip('dctur connection upgrade', () => {
-    beforeEach(async () => {
-      libp2pA = await createLibp2p(createBaseOptions({
-        addresses: {
-          listen: [`/ip4/0.0.0.0/tcp/${LOCAL_PORT}`]
-        },
-        services: {
-          identify: identify(),
-          dcutr: dcutr()
-        }
-      }))
-      libp2pB = await createLibp2p(createBaseOptions({
-        addresses: {
-          listen: [
-            `/ip4/0.0.0.0/tcp/${REMOTE_PORT}`,
-            `/ip4/127.0.0.1/tcp/${RELAY_PORT}/p2p/${relay.peerId}/p2p-circuit`
-          ]
-        },
-        services: {
-          identify: identify(),
-          dcutr: dcutr()
-        }
-      }))
-
-      await libp2pA.start()
-      await libp2pB.start()
+  // requires root, iproute2 and iptables so only runs when opted in to
+  describe('dcutr connection upgrade between peers behind NATs', () => {
+    let network: NatNetwork
+    const peers: Peer[] = []
 
-      // wait for B to have a relay address
-      await usingAsRelay(libp2pB, relay)
-    })
-
-    afterEach(async () => {
-      if (libp2pA != null) {
-        await libp2pA.stop()
+    before(async function () {
+      if (process.env.LIBP2P_NETNS_TESTS !== 'true' || !(await canCreateNatNetwork())) {
+        this.skip()
       }
 
-      if (libp2pB != null) {
-        await libp2pB.stop()
+      // a hole punch cannot succeed unless outgoing sockets can be bound to the
+      // listening port which requires Node.js 22.12.0 or later
+      try {
+        tcp({ reusePort: true })({ logger: defaultLogger() })
+      } catch {
+        this.skip()
       }
-    })
 
-    it('should perform connection upgrade', async () => {
-      const relayedAddress = multiaddr(`/ip4/127.0.0.1/tcp/${RELAY_PORT}/p2p/${relay.peerId}/p2p-circuit/p2p/${libp2pB.peerId}`)
-      const connection = await libp2pA.dial(relayedAddress)
+      network = await createNatNetwork()
+    })
 
-      // connection should be transient
-      expect(connection).to.have.property('transient', true)
+    after(async () => {
+      await Promise.all(peers.map(async peer => { await peer.stop() }))
 
-      // wait for DCUtR unilateral upgrade
-      await waitForOnlyDirectConnections()
+      if (network != null) {
+        await network.stop()
+      }
+    })
 
-      // should have closed the relayed connection
-      expect(libp2pA.getConnections(libp2pB.peerId)).to.have.lengthOf(1, 'had multiple connections to remote peer')
+    it('should upgrade a relayed connection between two peers behind NATs', async () => {
+      const relayPeer = startPeer(network.internet, {
+        role: 'relay',
+        port: RELAY_PORT
+      })
+      peers.push(relayPeer)
+      const relayId = await relayPeer.read('peer')
+
+      const peerB = startPeer(network.b.namespace, {
+        role: 'listener',
+        port: REMOTE_PORT,
+        announce: `/ip4/${network.b.publicAddress}/tcp/${REMOTE_PORT}`,
+        relay: `/ip4/${network.b.internetAddress}/tcp/${RELAY_PORT}/p2p/${relayId}`
+      })
+      peers.push(peerB)
+      const peerBId = await peerB.read('peer')
+      await peerB.read('relayed')
+
+      const peerA = startPeer(network.a.namespace, {
+        role: 'dialer',
+        port: LOCAL_PORT,
+        announce: `/ip4/${network.a.publicAddress}/tcp/${LOCAL_PORT}`,
+        target: `/ip4/${network.a.internetAddress}/tcp/${RELAY_PORT}/p2p/${relayId}/p2p-circuit/p2p/${peerBId}`
+      })
+      peers.push(peerA)
+
+      // A should end up with a direct connection to the public address of B's NAT
+      const directAddress = multiaddr(await peerA.read('direct'))
+      expect(directAddress.toOptions()).to.have.property('host', network.b.publicAddress)
     })
   })
 })
+
+interface Peer {
+  /**
+   * Resolves with the rest of the first line the peer writes that starts with
+   * `prefix`
+   */
+  read(prefix: string): Promise<string>
+  stop(): Promise<void>
+}
+
+/**
+ * Runs a node in the passed network namespace, see ./fixtures/dcutr-peer.ts
+ */
+function startPeer (namespace: string, options: DCUtRPeerOptions): Peer {
+  const script = fileURLToPath(new URL('./fixtures/dcutr-peer.js', import.meta.url))
+  const proc = execa('ip', ['netns', 'exec', namespace, process.execPath, script, JSON.stringify(options)])
+  const lines = readline.createInterface({ input: proc.stdout ?? Readable.from([]) })
+  const exited = proc.catch(err => err)
+
+  return {
+    async read (prefix) {
+      return Promise.race([
+        new Promise<string>(resolve => {
+          const onLine = (line: string): void => {
+            if (line.startsWith(`${prefix} `) || line === prefix) {
+              lines.off('line', onLine)
+              resolve(line.substring(prefix.length + 1))
+            }
+          }
+
+          lines.on('line', onLine)
+        }),
+        exited.then(() => {
+          throw new Error(`peer in ${namespace} exited before writing "${prefix}"`)
+        })
+      ])
+    },
+    async stop () {
+      proc.stdin?.end()
+      await exited
+    }
+  }
+}
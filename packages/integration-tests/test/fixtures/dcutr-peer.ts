@@ -0,0 +1,99 @@
+/**
+ * Runs a libp2p node in a network namespace for the DCUtR tests. The options
+ * are passed as JSON in the first argument and progress is reported to the
+ * test process by writing lines to stdout. The node runs until stdin is closed.
+ */
+
+import { circuitRelayServer, circuitRelayTransport } from '@libp2p/circuit-relay-v2'
+import { dcutr } from '@libp2p/dcutr'
+import { identify } from '@libp2p/identify'
+import { mplex } from '@libp2p/mplex'
+import { plaintext } from '@libp2p/plaintext'
+import { tcp } from '@libp2p/tcp'
+import { multiaddr, type Multiaddr } from '@multiformats/multiaddr'
+import { createLibp2p, type ServiceFactoryMap } from 'libp2p'
+import pWaitFor from 'p-wait-for'
+
+export interface DCUtRPeerOptions {
+  role: 'relay' | 'listener' | 'dialer'
+  port: number
+
+  /**
+   * The public address of the node, a real node would learn this via AutoNAT
+   */
+  announce?: string
+
+  /**
+   * The relay a listener makes a reservation on
+   */
+  relay?: string
+
+  /**
+   * The relayed address a dialer dials
+   */
+  target?: string
+}
+
+const options: DCUtRPeerOptions = JSON.parse(process.argv[2])
+
+const services: ServiceFactoryMap = options.role === 'relay'
+  ? {
+      identify: identify(),
+      relay: circuitRelayServer()
+    }
+  : {
+      identify: identify(),
+      dcutr: dcutr()
+    }
+
+const node = await createLibp2p({
+  addresses: {
+    listen: [
+      `/ip4/0.0.0.0/tcp/${options.port}`,
+      ...(options.role === 'listener' ? [`${options.relay}/p2p-circuit`] : [])
+    ],
+    // a real node would learn its public address via AutoNAT
+    announceFilter: (addrs: Multiaddr[]) => options.announce != null ? [...addrs, multiaddr(options.announce)] : addrs
+  },
+  transports: [
+    // hole punching requires dialing from the listening port
+    tcp({
+      reusePort: true
+    }),
+    circuitRelayTransport()
+  ],
+  streamMuxers: [
+    mplex()
+  ],
+  connectionEncryption: [
+    plaintext()
+  ],
+  services
+})
+
+process.stdout.write(`peer ${node.peerId}\n`)
+
+if (options.role === 'listener') {
+  await pWaitFor(() => node.getMultiaddrs().some(ma => ma.protoNames().includes('p2p-circuit')))
+  process.stdout.write('relayed\n')
+}
+
+if (options.role === 'dialer' && options.target != null) {
+  const connection = await node.dial(multiaddr(options.target))
+  const remotePeer = connection.remotePeer
+
+  await pWaitFor(() => node.getConnections(remotePeer).some(conn => !conn.transient), {
+    timeout: 30_000
+  })
+
+  const direct = node.getConnections(remotePeer).find(conn => !conn.transient)
+  process.stdout.write(`direct ${direct?.remoteAddr}\n`)
+}
+
+process.stdin.resume()
+process.stdin.once('end', () => {
+  void (async () => {
+    await node.stop()
+    process.exit(0)
+  })()
+})
@@ -0,0 +1,154 @@
+import { execa } from 'execa'
+
+const PREFIX = 'libp2p-dcutr'
+
+export interface NatHost {
+  /**
+   * The network namespace the host is in
+   */
+  namespace: string
+
+  /**
+   * The address of the host on the private side of its NAT
+   */
+  privateAddress: string
+
+  /**
+   * The address the NAT maps connections from the host to
+   */
+  publicAddress: string
+
+  /**
+   * The address of the internet namespace as seen from the host's NAT
+   */
+  internetAddress: string
+}
+
+export interface NatNetwork {
+  /**
+   * The namespace that connects the public sides of the NATs together
+   */
+  internet: string
+  a: NatHost
+  b: NatHost
+  stop(): Promise<void>
+}
+
+/**
+ * Creating the network requires root, iproute2 and iptables which are only
+ * available on Linux
+ */
+export async function canCreateNatNetwork (): Promise<boolean> {
+  if (process.platform !== 'linux' || process.getuid?.() !== 0) {
+    return false
+  }
+
+  try {
+    await execa('ip', ['-V'])
+    await execa('iptables', ['-V'])
+
+    return true
+  } catch {
+    return false
+  }
+}
+
+async function ip (...args: string[]): Promise<void> {
+  await execa('ip', args)
+}
+
+async function inNamespace (namespace: string, file: string, args: string[]): Promise<void> {
+  await execa('ip', ['netns', 'exec', namespace, file, ...args])
+}
+
+/**
+ * Creates two hosts that are each behind their own NAT. The public sides of
+ * the NATs are connected to a namespace that stands in for the internet:
+ *
+ * ```
+ * a (10.0.1.2) -- nat-a (10.0.1.1 | 11.0.1.2) -- internet (11.0.1.1)
+ * b (10.0.2.2) -- nat-b (10.0.2.1 | 11.0.2.2) -- internet (11.0.2.1)
+ * ```
+ *
+ * The public addresses must not be in private ranges or DCUtR will ignore
+ * them, the namespaces are isolated so they are never routed anywhere.
+ */
+export async function createNatNetwork (): Promise<NatNetwork> {
+  const namespaces: string[] = []
+  const internet = `${PREFIX}-internet`
+
+  const stop = async (): Promise<void> => {
+    // deleting a namespace deletes the interfaces in it and their peers
+    for (const namespace of namespaces.reverse()) {
+      await execa('ip', ['netns', 'del', namespace], { reject: false })
+    }
+  }
+
+  const createHost = async (name: string, subnet: number): Promise<NatHost> => {
+    const host = `${PREFIX}-${name}`
+    const nat = `${PREFIX}-nat-${name}`
+
+    await ip('netns', 'add', host)
+    namespaces.push(host)
+    await ip('netns', 'add', nat)
+    namespaces.push(nat)
+
+    // the public side of the NAT is connected to the internet
+    await ip('link', 'add', `inet-${name}`, 'type', 'veth', 'peer', 'name', `wan-${name}`)
+    await ip('link', 'set', `inet-${name}`, 'netns', internet)
+    await ip('link', 'set', `wan-${name}`, 'netns', nat)
+    await inNamespace(internet, 'ip', ['addr', 'add', `11.0.${subnet}.1/24`, 'dev', `inet-${name}`])
+    await inNamespace(internet, 'ip', ['link', 'set', `inet-${name}`, 'up'])
+    await inNamespace(nat, 'ip', ['addr', 'add', `11.0.${subnet}.2/24`, 'dev', `wan-${name}`])
+    await inNamespace(nat, 'ip', ['link', 'set', `wan-${name}`, 'up'])
+    await inNamespace(nat, 'ip', ['route', 'add', 'default', 'via', `11.0.${subnet}.1`])
+
+    // the private side of the NAT is connected to the host
+    await ip('link', 'add', `lan-${name}`, 'type', 'veth', 'peer', 'name', `eth-${name}`)
+    await ip('link', 'set', `lan-${name}`, 'netns', nat)
+    await ip('link', 'set', `eth-${name}`, 'netns', host)
+    await inNamespace(nat, 'ip', ['addr', 'add', `10.0.${subnet}.1/24`, 'dev', `lan-${name}`])
+    await inNamespace(nat, 'ip', ['link', 'set', `lan-${name}`, 'up'])
+    await inNamespace(host, 'ip', ['addr', 'add', `10.0.${subnet}.2/24`, 'dev', `eth-${name}`])
+    await inNamespace(host, 'ip', ['link', 'set', `eth-${name}`, 'up'])
+    await inNamespace(host, 'ip', ['link', 'set', 'lo', 'up'])
+    await inNamespace(host, 'ip', ['route', 'add', 'default', 'via', `10.0.${subnet}.1`])
+
+    // connections from the host appear to come from the public address of the
+    // NAT, connections to the NAT are dropped unless they are part of one the
+    // host opened. Unsolicited packets for the public address are addressed to
+    // the NAT itself so they are dropped on input too, otherwise the NAT would
+    // reset the connection instead of silently dropping it like a real one
+    await inNamespace(nat, 'sysctl', ['-w', 'net.ipv4.ip_forward=1'])
+    await inNamespace(nat, 'iptables', ['-t', 'nat', '-A', 'POSTROUTING', '-o', `wan-${name}`, '-j', 'MASQUERADE'])
+
+    for (const chain of ['FORWARD', 'INPUT']) {
+      await inNamespace(nat, 'iptables', ['-A', chain, '-i', `wan-${name}`, '-m', 'conntrack', '--ctstate', 'ESTABLISHED,RELATED', '-j', 'ACCEPT'])
+      await inNamespace(nat, 'iptables', ['-A', chain, '-i', `wan-${name}`, '-j', 'DROP'])
+    }
+
+    return {
+      namespace: host,
+      privateAddress: `10.0.${subnet}.2`,
+      publicAddress: `11.0.${subnet}.2`,
+      internetAddress: `11.0.${subnet}.1`
+    }
+  }
+
+  try {
+    await ip('netns', 'add', internet)
+    namespaces.push(internet)
+    await inNamespace(internet, 'ip', ['link', 'set', 'lo', 'up'])
+    await inNamespace(internet, 'sysctl', ['-w', 'net.ipv4.ip_forward=1'])
+
+    return {
+      internet,
+      a: await createHost('a', 1),
+      b: await createHost('b', 2),
+      stop
+    }
+  } catch (err) {
+    await stop()
+    throw err
+  }
+}
@@ -1,5 +1,5 @@
 import { CodeError } from '@libp2p/interface'
-import { isPeerId, type PeerId, type ComponentLogger, type Libp2pEvents, type PendingDial, type Connection, type TypedEventTarget, type PubSub, type Startable } from '@libp2p/interface'
+import { isPeerId, type AddressDialHistory, type PeerId, type ComponentLogger, type Libp2pEvents, type PendingDial, type Connection, type TypedEventTarget, type PubSub, type Startable } from '@libp2p/interface'
 import { PeerMap } from '@libp2p/peer-collections'
 import { peerIdFromString } from '@libp2p/peer-id'
 import { isMultiaddr, type Multiaddr } from '@multiformats/multiaddr'
@@ -83,6 +83,10 @@ class MockConnectionManager implements ConnectionManager, Startable {
     return this.connections
   }
 
+  getPreferredConnection (peerId: PeerId): Connection | undefined {
+    return this.getConnections(peerId)[0]
+  }
+
   getConnectionsMap (): PeerMap<Connection[]> {
     const map = new PeerMap<Connection[]>()
 
@@ -199,6 +203,10 @@ class MockConnectionManager implements ConnectionManager, Startable {
   getDialQueue (): PendingDial[] {
     return []
   }
+
+  async getDialHistory (): Promise<AddressDialHistory[]> {
+    return []
+  }
 }
 
 export function mockConnectionManager (components: MockConnectionManagerComponents): ConnectionManager {
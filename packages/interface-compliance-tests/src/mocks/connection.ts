@@ -251,6 +251,7 @@ export function mockStream (stream: Duplex<AsyncGenerator<Uint8ArrayList>, Sourc
     status: 'open',
     readStatus: 'ready',
     writeStatus: 'ready',
+    bufferedAmount: 0,
     log: logger('mock-stream'),
     ...init
   }
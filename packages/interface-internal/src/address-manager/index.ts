@@ -1,5 +1,32 @@
+import type { NATStatus, PeerId, Reachability } from '@libp2p/interface'
 import type { Multiaddr } from '@multiformats/multiaddr'
 
+export interface ObservedAddress {
+  multiaddr: Multiaddr
+
+  /**
+   * How confident we are that the address is publicly dialable, between 0
+   * and 1. Built from the number of distinct peers that have observed the
+   * address and how recently it was confirmed by AutoNAT.
+   */
+  confidence: number
+
+  /**
+   * How many distinct peers have reported observing this address
+   */
+  observers: number
+
+  /**
+   * True if the address has been confirmed as publicly dialable
+   */
+  confirmed: boolean
+
+  /**
+   * When the address was last confirmed as publicly dialable as a ms timestamp
+   */
+  lastConfirmed?: number
+}
+
 export interface AddressManager {
   /**
    * Get peer listen multiaddrs
@@ -33,8 +60,33 @@ export interface AddressManager {
    * Add peer observed addresses.  These will then appear in the output of getObservedAddrs
    * but not getAddresses() until their dialability has been confirmed via a call to
    * confirmObservedAddr.
+   *
+   * Pass the peer that observed the address to allow inferring the type of
+   * NAT we are behind by comparing the addresses seen by different peers.
+   */
+  addObservedAddr(addr: Multiaddr, observer?: PeerId): void
+
+  /**
+   * Get observed addresses along with how confident we are that they are
+   * publicly dialable, most confident first
+   */
+  getObservedAddrScores(): ObservedAddress[]
+
+  /**
+   * Get the inferred NAT type and reachability of this node
+   */
+  getNATStatus(): NATStatus
+
+  /**
+   * Report whether a subsystem such as AutoNAT or UPnP believes this node can be
+   * dialled by peers on the public internet. Reports from the `autonat` source
+   * take precedence over all others.
+   *
+   * If an address is passed the report only applies to that address. A source
+   * considers the node public if any of the addresses it reported on are
+   * public.
    */
-  addObservedAddr(addr: Multiaddr): void
+  reportReachability(source: string, reachability: Reachability, addr?: Multiaddr): void
 
   /**
    * Get the current node's addresses
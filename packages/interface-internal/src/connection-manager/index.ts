@@ -1,4 +1,4 @@
-import type { AbortOptions, PendingDial, Connection, MultiaddrConnection, PeerId } from '@libp2p/interface'
+import type { AbortOptions, AddressDialHistory, PendingDial, Connection, MultiaddrConnection, PeerId } from '@libp2p/interface'
 import type { PeerMap } from '@libp2p/peer-collections'
 import type { Multiaddr } from '@multiformats/multiaddr'
 
@@ -15,6 +15,20 @@ export interface OpenConnectionOptions extends AbortOptions {
    * to override that and dial a new connection anyway. (default: false)
    */
   force?: boolean
+
+  /**
+   * The remote is expected to be dialing us at the same time, for example while
+   * hole punching. Transports that support it may join both dials into one
+   * connection. (default: false)
+   */
+  simultaneousConnect?: boolean
+
+  /**
+   * Do not dial addresses that have failed recently and are in their backoff
+   * period, failing with `ERR_DIAL_BACKOFF` if there are no other addresses.
+   * Dials started by the user dial every address. (default: false)
+   */
+  backoff?: boolean
 }
 
 export interface ConnectionManager {
@@ -30,6 +44,20 @@ export interface ConnectionManager {
    */
   getConnections(peerId?: PeerId): Connection[]
 
+  /**
+   * Return the connection to the passed peer that new streams should be opened
+   * on. Direct connections are preferred over relayed ones, non-transient
+   * connections over transient ones and then connections with a lower round
+   * trip time.
+   *
+   * @example
+   *
+   * ```TypeScript
+   * const connection = libp2p.connectionManager.getPreferredConnection(peerId)
+   * ```
+   */
+  getPreferredConnection(peerId: PeerId): Connection | undefined
+
   /**
    * Return a map of all connections with their associated PeerIds
    *
@@ -80,4 +108,15 @@ export interface ConnectionManager {
    * ```
    */
   getDialQueue(): PendingDial[]
+
+  /**
+   * Return the outcome of previous dials to each of a peer's addresses
+   *
+   * @example
+   *
+   * ```TypeScript
+   * const history = await libp2p.connectionManager.getDialHistory(peerId)
+   * ```
+   */
+  getDialHistory(peerId: PeerId): Promise<AddressDialHistory[]>
 }
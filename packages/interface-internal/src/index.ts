@@ -2,4 +2,5 @@ export * from './address-manager/index.js'
 export * from './connection-manager/index.js'
 export * from './record/index.js'
 export * from './registrar/index.js'
+export * from './resource-manager/index.js'
 export * from './transport-manager/index.js'
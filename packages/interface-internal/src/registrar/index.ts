@@ -1,4 +1,4 @@
-import type { Connection, Stream, Topology } from '@libp2p/interface'
+import type { Connection, Stream, StreamPriority, Topology } from '@libp2p/interface'
 
 export interface IncomingStreamData {
   /**
@@ -33,6 +33,19 @@ export interface StreamHandlerOptions {
    * connections) (default: false)
    */
   runOnTransientConnection?: boolean
+
+  /**
+   * The name of the service that handles this protocol. If set, streams
+   * opened on this protocol will count towards the limits of the service
+   * scope in the resource manager as well as the protocol scope.
+   */
+  service?: string
+
+  /**
+   * The class used to schedule outgoing data for streams using this protocol,
+   * both incoming and outgoing (default: 'normal')
+   */
+  priority?: StreamPriority
 }
 
 export interface StreamHandlerRecord {
@@ -0,0 +1,32 @@
+import type { ConnectionResourceScope, Direction, ResourceScopeStat } from '@libp2p/interface'
+import type { Multiaddr } from '@multiformats/multiaddr'
+
+export interface ResourceManager {
+  /**
+   * Reserve resources for a new connection. This should be invoked before
+   * any work is done to upgrade the connection, and will throw an error with
+   * the code `ERR_RESOURCE_LIMIT_EXCEEDED` if the system or transport scopes
+   * do not have capacity for it.
+   *
+   * The returned scope must have `.done()` called on it when the connection
+   * closes.
+   *
+   * @example
+   *
+   * ```TypeScript
+   * const scope = resourceManager.openConnection('inbound', maConn.remoteAddr)
+   * ```
+   */
+  openConnection(direction: Direction, remoteAddr: Multiaddr): ConnectionResourceScope
+
+  /**
+   * Return the current usage and limits of every active scope
+   *
+   * @example
+   *
+   * ```TypeScript
+   * const stats = resourceManager.stat()
+   * ```
+   */
+  stat(): ResourceScopeStat[]
+}
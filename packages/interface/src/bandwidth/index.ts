@@ -0,0 +1,36 @@
+/**
+ * Rates in bytes per second, an omitted rate is unlimited
+ */
+export interface BandwidthRate {
+  /**
+   * The maximum number of bytes per second sent to remote peers
+   */
+  upload?: number
+
+  /**
+   * The maximum number of bytes per second read from remote peers
+   */
+  download?: number
+}
+
+/**
+ * Limits on the rate data is sent and received. Traffic over a stream counts
+ * towards the limit of the protocol the stream was opened for as well as the
+ * limits of the remote peer and the node as a whole.
+ */
+export interface BandwidthLimits {
+  /**
+   * Limits applied to all traffic across every connection
+   */
+  global?: BandwidthRate
+
+  /**
+   * Limits applied to each remote peer across all connections to that peer
+   */
+  peer?: BandwidthRate
+
+  /**
+   * Limits applied to each protocol across all streams, keyed by protocol
+   */
+  protocols?: Record<string, BandwidthRate>
+}
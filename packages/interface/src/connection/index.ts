@@ -1,5 +1,6 @@
 import type { AbortOptions, Logger } from '../index.js'
 import type { PeerId } from '../peer-id/index.js'
+import type { StreamResourceScope } from '../resource-manager/index.js'
 import type { Multiaddr } from '@multiformats/multiaddr'
 import type { Duplex, Source } from 'it-stream-types'
 import type { Uint8ArrayList } from 'uint8arraylist'
@@ -84,6 +85,14 @@ export type ReadStatus = 'ready' | 'closing' | 'closed'
  */
 export type WriteStatus = 'ready' | 'writing' | 'done' | 'closing' | 'closed'
 
+/**
+ * The class used to schedule outgoing data when several streams share a
+ * connection. Muxers that support it send data from each class in proportion
+ * to its weight so bulk transfers using `low` do not starve latency sensitive
+ * protocols using `high`.
+ */
+export type StreamPriority = 'high' | 'normal' | 'low'
+
 /**
  * A Stream is a data channel between two peers that
  * can be written to and read from at both ends.
@@ -150,6 +159,17 @@ export interface Stream extends Duplex<AsyncGenerator<Uint8ArrayList>, Source<Ui
    */
   protocol?: string
 
+  /**
+   * The class used to schedule outgoing data for this stream, if the muxer
+   * supports it (default: 'normal')
+   */
+  priority?: StreamPriority
+
+  /**
+   * The resources reserved for this stream, if a resource manager is in use
+   */
+  resourceScope?: StreamResourceScope
+
   /**
    * User defined stream metadata
    */
@@ -170,6 +190,13 @@ export interface Stream extends Duplex<AsyncGenerator<Uint8ArrayList>, Source<Ui
    */
   writeStatus: WriteStatus
 
+  /**
+   * The number of bytes written to the stream that have not been sent to the
+   * remote yet. Writing stops reading from the source passed to the sink
+   * while this is too high.
+   */
+  bufferedAmount: number
+
   /**
    * The stream logger
    */
@@ -184,6 +211,13 @@ export interface NewStreamOptions extends AbortOptions {
    */
   maxOutboundStreams?: number
 
+  /**
+   * The class used to schedule outgoing data for the stream. If not specified
+   * the priority of the handler registered for the negotiated protocol is used
+   * (default: 'normal')
+   */
+  priority?: StreamPriority
+
   /**
    * Opt-in to running over a transient connection - one that has time/data limits
    * placed on it.
@@ -222,6 +256,41 @@ export interface NewStreamOptions extends AbortOptions {
 
 export type ConnectionStatus = 'open' | 'closing' | 'closed'
 
+/**
+ * The remaining budget of a connection that is closed once it has transferred
+ * a certain amount of data or been open for a certain amount of time
+ */
+export interface ConnectionLimits {
+  /**
+   * How many more bytes can be sent and received in total, if data transfer
+   * is limited
+   */
+  readonly bytes?: bigint
+
+  /**
+   * How many more ms the connection can remain open for, if its duration is
+   * limited
+   */
+  readonly duration?: number
+}
+
+export interface ConnectionLimitWarning {
+  /**
+   * The connection that is close to its limits
+   */
+  connection: Connection
+
+  /**
+   * Which limit is close to being reached
+   */
+  limit: 'bytes' | 'duration'
+
+  /**
+   * The fraction of the limit that has been used, e.g. `0.8`
+   */
+  threshold: number
+}
+
 /**
  * A Connection is a high-level representation of a connection
  * to a remote peer that may have been secured by encryption and
@@ -287,6 +356,19 @@ export interface Connection {
    */
   transient: boolean
 
+  /**
+   * For transient connections, how much more data can be transferred and for
+   * how long before the connection is closed by the relay. The values are
+   * updated as data flows over the connection.
+   */
+  limits?: ConnectionLimits
+
+  /**
+   * The most recently measured round trip time to the remote peer over this
+   * connection in ms, if it has been measured
+   */
+  rtt?: number
+
   /**
    * Create a new stream on this connection and negotiate one of the passed protocols
    */
@@ -92,3 +92,4 @@ export const ERR_TIMEOUT = 'ERR_TIMEOUT'
 export const ERR_INVALID_PARAMETERS = 'ERR_INVALID_PARAMETERS'
 export const ERR_NOT_FOUND = 'ERR_NOT_FOUND'
 export const ERR_INVALID_MESSAGE = 'ERR_INVALID_MESSAGE'
+export const ERR_RESOURCE_LIMIT_EXCEEDED = 'ERR_RESOURCE_LIMIT_EXCEEDED'
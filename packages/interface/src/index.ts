@@ -14,7 +14,8 @@
  * ```
  */
 
-import type { Connection, NewStreamOptions, Stream } from './connection/index.js'
+import type { BandwidthLimits } from './bandwidth/index.js'
+import type { Connection, ConnectionLimitWarning, NewStreamOptions, Stream } from './connection/index.js'
 import type { ContentRouting } from './content-routing/index.js'
 import type { TypedEventTarget } from './event-target.js'
 import type { Metrics } from './metrics/index.js'
@@ -22,6 +23,8 @@ import type { PeerId } from './peer-id/index.js'
 import type { PeerInfo } from './peer-info/index.js'
 import type { PeerRouting } from './peer-routing/index.js'
 import type { Address, Peer, PeerStore } from './peer-store/index.js'
+import type { RelayReservationFailover, RelayReservationInfo } from './relay/index.js'
+import type { ResourceScopeStat } from './resource-manager/index.js'
 import type { Startable } from './startable.js'
 import type { StreamHandler, StreamHandlerOptions } from './stream-handler/index.js'
 import type { Topology } from './topology/index.js'
@@ -44,6 +47,23 @@ export interface PeerUpdate {
   previous?: Peer
 }
 
+/**
+ * Event detail emitted when a connection is closed because the connection
+ * limit was exceeded
+ */
+export interface PrunedConnection {
+  /**
+   * The connection that was closed
+   */
+  connection: Connection
+
+  /**
+   * The name of the pruning strategy that selected this connection to be
+   * closed ahead of the others
+   */
+  reason: string
+}
+
 /**
  * Peer data signed by the remote Peer's public key
  */
@@ -236,6 +256,129 @@ export interface Libp2pEvents<T extends ServiceMap = ServiceMap> {
    */
   'connection:prune': CustomEvent<Connection[]>
 
+  /**
+   * This event is dispatched alongside `connection:prune` and contains the
+   * closed connections along with the reason each one was chosen.
+   *
+   * @example
+   *
+   * ```TypeScript
+   * libp2p.addEventListener('connection:prune:reasons', (event) => {
+   *   for (const { connection, reason } of event.detail) {
+   *     // ...
+   *   }
+   * })
+   * ```
+   */
+  'connection:prune:reasons': CustomEvent<PrunedConnection[]>
+
+  /**
+   * This event is dispatched when the connection that new streams to a peer
+   * are opened on changes, for example when a direct connection to a peer
+   * that was previously only reachable via a relay is opened
+   *
+   * @example
+   *
+   * ```TypeScript
+   * libp2p.addEventListener('connection:preferred', (event) => {
+   *   const connection = event.detail
+   *   // ...
+   * })
+   * ```
+   */
+  'connection:preferred': CustomEvent<Connection>
+
+  /**
+   * This event is dispatched when a connection with limits, such as a
+   * relayed connection, has used a configured fraction of its data or
+   * duration limit. Unless disabled, the connection manager will try to open
+   * another connection to the peer and move new streams to it.
+   *
+   * @example
+   *
+   * ```TypeScript
+   * libp2p.addEventListener('connection:limit:warning', (event) => {
+   *   const { connection, limit, threshold } = event.detail
+   *   // ...
+   * })
+   * ```
+   */
+  'connection:limit:warning': CustomEvent<ConnectionLimitWarning>
+
+  /**
+   * This event is dispatched when the inferred NAT type or reachability of
+   * this node changes
+   *
+   * @example
+   *
+   * ```TypeScript
+   * libp2p.addEventListener('self:nat:change', (event) => {
+   *   const { type, reachability } = event.detail
+   *   // ...
+   * })
+   * ```
+   */
+  'self:nat:change': CustomEvent<NATStatus>
+
+  /**
+   * This event is dispatched when our belief about whether this node can be
+   * dialled by peers on the public internet changes
+   *
+   * @example
+   *
+   * ```TypeScript
+   * libp2p.addEventListener('self:reachability:change', (event) => {
+   *   if (event.detail === 'private') {
+   *     // ...
+   *   }
+   * })
+   * ```
+   */
+  'self:reachability:change': CustomEvent<Reachability>
+
+  /**
+   * This event is dispatched when a reservation is made on a circuit relay
+   * server
+   *
+   * @example
+   *
+   * ```TypeScript
+   * libp2p.addEventListener('relay:reservation:create', (event) => {
+   *   const { relay, expires, standby } = event.detail
+   *   // ...
+   * })
+   * ```
+   */
+  'relay:reservation:create': CustomEvent<RelayReservationInfo>
+
+  /**
+   * This event is dispatched when a reservation on a circuit relay server is
+   * refreshed before it expires
+   */
+  'relay:reservation:refresh': CustomEvent<RelayReservationInfo>
+
+  /**
+   * This event is dispatched when a reservation on a circuit relay server is
+   * lost, for example because the connection to the relay closed or the
+   * reservation could not be refreshed
+   */
+  'relay:reservation:remove': CustomEvent<RelayReservationInfo>
+
+  /**
+   * This event is dispatched when a standby reservation starts being used in
+   * place of a relay that went away
+   *
+   * @example
+   *
+   * ```TypeScript
+   * libp2p.addEventListener('relay:reservation:failover', (event) => {
+   *   const { from, to } = event.detail
+   *   console.info('replaced relay', from, 'with', to.relay)
+   * })
+   * ```
+   */
+  'relay:reservation:failover': CustomEvent<RelayReservationFailover>
+
   /**
    * This event notifies listeners when new incoming or outgoing connections
    * are opened.
@@ -322,8 +465,73 @@ export interface PendingDial {
   multiaddrs: Multiaddr[]
 }
 
+/**
+ * The outcome of previous dials to one of a peer's addresses
+ */
+export interface AddressDialHistory {
+  /**
+   * The address that was dialled
+   */
+  multiaddr: Multiaddr
+
+  /**
+   * How many dials to this address have failed since the last successful dial
+   */
+  failures: number
+
+  /**
+   * When the most recent failed dial happened as a ms timestamp
+   */
+  lastFailure?: number
+
+  /**
+   * The error code of the most recent failed dial
+   */
+  lastErrorCode?: string
+
+  /**
+   * When the most recent successful dial happened as a ms timestamp
+   */
+  lastSuccess?: number
+
+  /**
+   * If the address has failed recently, it will not be dialled again until
+   * after this ms timestamp
+   */
+  backoffUntil?: number
+}
+
 export type Libp2pStatus = 'starting' | 'started' | 'stopping' | 'stopped'
 
+/**
+ * How a NAT between this node and the public internet maps internal ports to
+ * external ones. With an `endpoint-independent` mapping the same external port
+ * is used regardless of the remote host so hole punching is likely to succeed.
+ * With an `endpoint-dependent` mapping a different external port is used for
+ * each remote host so hole punching is unlikely to succeed.
+ */
+export type NATType = 'unknown' | 'endpoint-independent' | 'endpoint-dependent'
+
+/**
+ * Whether this node can be dialled by peers on the public internet
+ */
+export type Reachability = 'unknown' | 'public' | 'private'
+
+export interface NATStatus {
+  /**
+   * The NAT mapping behaviour inferred by comparing the ports that different
+   * peers observe us using
+   */
+  type: NATType
+
+  /**
+   * Whether this node can be dialled by peers on the public internet. This
+   * combines the results of AutoNAT and UPnP, if configured, with the addresses
+   * other peers have observed us using. AutoNAT results take precedence.
+   */
+  reachability: Reachability
+}
+
 /**
  * Libp2p nodes implement this interface.
  */
@@ -423,6 +631,31 @@ export interface Libp2p<T extends ServiceMap = ServiceMap> extends Startable, Ty
    */
   status: Libp2pStatus
 
+  /**
+   * What we know about the NAT this node is behind, if any
+   *
+   * @example
+   *
+   * ```TypeScript
+   * console.info(libp2p.nat)
+   * // { type: 'endpoint-independent', reachability: 'private' }
+   * ```
+   */
+  nat: NATStatus
+
+  /**
+   * Whether this node can be dialled by peers on the public internet. This is
+   * the same as `libp2p.nat.reachability`.
+   *
+   * @example
+   *
+   * ```TypeScript
+   * console.info(libp2p.reachability)
+   * // 'public'
+   * ```
+   */
+  reachability: Reachability
+
   /**
    * Get a deduplicated list of peer advertising multiaddrs by concatenating
    * the listen addresses used by transports with any configured
@@ -480,6 +713,68 @@ export interface Libp2p<T extends ServiceMap = ServiceMap> extends Startable, Ty
    */
   getDialQueue(): PendingDial[]
 
+  /**
+   * Return the outcome of previous dials to each of a peer's addresses.
+   * Addresses that have recently failed are dialled after other addresses and
+   * are not dialled again until their backoff period has passed.
+   *
+   * @example
+   *
+   * ```TypeScript
+   * for (const history of await libp2p.getDialHistory(peerId)) {
+   *   console.log(history.multiaddr.toString(), history.failures)
+   * }
+   * ```
+   */
+  getDialHistory(peerId: PeerId): Promise<AddressDialHistory[]>
+
+  /**
+   * Return the current resource usage and limits of every active resource
+   * scope - the system scope as well as any transport, service, protocol and
+   * peer scopes that currently have resources reserved
+   *
+   * @example
+   *
+   * ```TypeScript
+   * for (const scope of libp2p.getResourceUsage()) {
+   *   console.log(scope.type, scope.name, scope.usage)
+   * }
+   * ```
+   */
+  getResourceUsage(): ResourceScopeStat[]
+
+  /**
+   * Return the bandwidth limits currently applied to traffic
+   *
+   * @example
+   *
+   * ```TypeScript
+   * const limits = libp2p.getBandwidthLimits()
+   * console.info(limits.global?.upload)
+   * ```
+   */
+  getBandwidthLimits(): BandwidthLimits
+
+  /**
+   * Replace the bandwidth limits applied to traffic. The new limits apply to
+   * existing connections and streams as well as new ones.
+   *
+   * @example
+   *
+   * ```TypeScript
+   * // send no more than 1MB/s in total, and 64KB/s to any one peer
+   * libp2p.setBandwidthLimits({
+   *   global: {
+   *     upload: 1024 * 1024
+   *   },
+   *   peer: {
+   *     upload: 64 * 1024
+   *   }
+   * })
+   * ```
+   */
+  setBandwidthLimits(limits: BandwidthLimits): void
+
   /**
    * Return a list of all peers we currently have a connection open to
    */
@@ -694,6 +989,7 @@ export interface RoutingOptions extends AbortOptions, ProgressOptions {
   useCache?: boolean
 }
 
+export * from './bandwidth/index.js'
 export * from './connection/index.js'
 export * from './connection-encrypter/index.js'
 export * from './connection-gater/index.js'
@@ -708,6 +1004,8 @@ export * from './peer-store/index.js'
 export * from './peer-store/tags.js'
 export * from './pubsub/index.js'
 export * from './record/index.js'
+export * from './relay/index.js'
+export * from './resource-manager/index.js'
 export * from './stream-handler/index.js'
 export * from './stream-muxer/index.js'
 export * from './topology/index.js'
@@ -111,6 +111,25 @@ export interface TagOptions {
    * An optional duration in ms after which the tag will expire
    */
   ttl?: number
+
+  /**
+   * Optionally reduce the tag value over time so that recent usefulness
+   * counts for more than historical usefulness. The tag is removed when the
+   * value reaches 0, setting the tag again restores the full value.
+   */
+  decay?: TagDecay
+}
+
+export interface TagDecay {
+  /**
+   * How often in ms the tag value is reduced
+   */
+  interval: number
+
+  /**
+   * How much the tag value is reduced by each interval (default: 1)
+   */
+  amount?: number
 }
 
 export interface Tag {
@@ -0,0 +1,46 @@
+import type { PeerId } from '../peer-id/index.js'
+import type { Multiaddr } from '@multiformats/multiaddr'
+
+/**
+ * A reservation this node holds on a circuit relay server
+ */
+export interface RelayReservationInfo {
+  /**
+   * The relay server the reservation is held on
+   */
+  relay: PeerId
+
+  /**
+   * When the reservation expires unless it is refreshed
+   */
+  expires: Date
+
+  /**
+   * The addresses other peers can use to dial this node via the relay
+   */
+  addrs: Multiaddr[]
+
+  /**
+   * The round trip time to the relay in ms, measured when the reservation was
+   * made
+   */
+  rtt?: number
+
+  /**
+   * Standby reservations are kept warm so they can take over when a relay
+   * that is in use goes away. Their addresses are not advertised.
+   */
+  standby: boolean
+}
+
+export interface RelayReservationFailover {
+  /**
+   * The relay that went away
+   */
+  from: PeerId
+
+  /**
+   * The standby reservation that took its place
+   */
+  to: RelayReservationInfo
+}
@@ -0,0 +1,143 @@
+import type { Direction } from '../connection/index.js'
+import type { PeerId } from '../peer-id/index.js'
+
+/**
+ * Resources are accounted for in a hierarchy of scopes - a stream opened on a
+ * connection counts towards the limits of the peer, protocol and service
+ * scopes it belongs to as well as the system scope.
+ */
+export type ResourceScopeType = 'system' | 'transport' | 'service' | 'protocol' | 'peer' | 'connection' | 'stream'
+
+/**
+ * Limits that can be applied to a resource scope. Any omitted limit is
+ * unlimited.
+ */
+export interface ResourceLimits {
+  /**
+   * The maximum number of connections, regardless of direction
+   */
+  connections?: number
+
+  /**
+   * The maximum number of connections opened by remote peers
+   */
+  inboundConnections?: number
+
+  /**
+   * The maximum number of connections opened by this node
+   */
+  outboundConnections?: number
+
+  /**
+   * The maximum number of streams, regardless of direction
+   */
+  streams?: number
+
+  /**
+   * The maximum number of streams opened by remote peers
+   */
+  inboundStreams?: number
+
+  /**
+   * The maximum number of streams opened by this node
+   */
+  outboundStreams?: number
+
+  /**
+   * The maximum number of bytes that can be buffered
+   */
+  memory?: number
+}
+
+/**
+ * The resources currently in use by a scope
+ */
+export interface ResourceUsage {
+  inboundConnections: number
+  outboundConnections: number
+  inboundStreams: number
+  outboundStreams: number
+  memory: number
+}
+
+export interface ResourceScopeStat {
+  /**
+   * The type of the scope
+   */
+  type: ResourceScopeType
+
+  /**
+   * The name of the scope, e.g. a protocol, a peer id or a transport name
+   */
+  name: string
+
+  /**
+   * The resources currently in use
+   */
+  usage: ResourceUsage
+
+  /**
+   * The limits applied to the scope
+   */
+  limits: ResourceLimits
+}
+
+/**
+ * A scope that memory can be reserved from. Reserving memory will throw an
+ * error with the code `ERR_RESOURCE_LIMIT_EXCEEDED` if doing so would exceed
+ * the limits of this scope or any scope above it.
+ */
+export interface ResourceScope {
+  /**
+   * Reserve the passed number of bytes
+   */
+  reserveMemory(bytes: number): void
+
+  /**
+   * Release the passed number of bytes that were previously reserved
+   */
+  releaseMemory(bytes: number): void
+
+  /**
+   * Return the current usage and limits of this scope
+   */
+  stat(): ResourceScopeStat
+}
+
+/**
+ * The resources reserved for a single stream
+ */
+export interface StreamResourceScope extends ResourceScope {
+  /**
+   * Once the stream protocol has been negotiated, account for the stream in
+   * the protocol scope and optionally the scope of the service that handles
+   * the protocol
+   */
+  setProtocol(protocol: string, service?: string): void
+
+  /**
+   * Release all resources held by this scope
+   */
+  done(): void
+}
+
+/**
+ * The resources reserved for a single connection
+ */
+export interface ConnectionResourceScope extends ResourceScope {
+  /**
+   * Once the remote peer has been identified, account for the connection in
+   * the peer scope
+   */
+  setPeer(peerId: PeerId): void
+
+  /**
+   * Reserve resources for a new stream on this connection
+   */
+  openStream(direction: Direction): StreamResourceScope
+
+  /**
+   * Release all resources held by this scope and any streams opened from it
+   */
+  done(): void
+}
@@ -1,4 +1,4 @@
-import type { Connection, Stream } from '../connection/index.js'
+import type { Connection, Stream, StreamPriority } from '../connection/index.js'
 
 export interface IncomingStreamData {
   stream: Stream
@@ -20,6 +20,12 @@ export interface StreamHandlerOptions {
    */
   maxOutboundStreams?: number
 
+  /**
+   * The class used to schedule outgoing data for streams using this protocol,
+   * both incoming and outgoing (default: 'normal')
+   */
+  priority?: StreamPriority
+
   /**
    * Opt-in to running over a transient connection - one that has time/data limits
    * placed on it.
@@ -1,5 +1,6 @@
 import type { Direction, Stream } from '../connection/index.js'
 import type { AbortOptions } from '../index.js'
+import type { ConnectionResourceScope } from '../resource-manager/index.js'
 import type { Duplex } from 'it-stream-types'
 import type { Uint8ArrayList } from 'uint8arraylist'
 
@@ -60,4 +61,12 @@ export interface StreamMuxerInit {
    * Outbound stream muxers are opened by the local node, inbound stream muxers are opened by the remote
    */
   direction?: Direction
+
+  /**
+   * If passed, every stream opened by the muxer will reserve its resources
+   * from a stream scope opened on this scope. Data received from the remote
+   * and buffered by the muxer is reserved from the stream scope until it is
+   * read by the stream consumer.
+   */
+  resourceScope?: ConnectionResourceScope
 }
@@ -1,4 +1,4 @@
-import type { Connection, MultiaddrConnection } from '../connection/index.js'
+import type { Connection, ConnectionLimits, MultiaddrConnection } from '../connection/index.js'
 import type { TypedEventTarget } from '../event-target.js'
 import type { AbortOptions } from '../index.js'
 import type { StreamMuxerFactory } from '../stream-muxer/index.js'
@@ -41,6 +41,12 @@ export interface CreateListenerOptions {
 
 export interface DialOptions extends AbortOptions {
   upgrader: Upgrader
+
+  /**
+   * The remote is expected to be dialing us at the same time, transports that
+   * support it may join both dials into one connection
+   */
+  simultaneousConnect?: boolean
 }
 
 /**
@@ -102,6 +108,21 @@ export interface UpgraderOptions {
    * transfer amounts so is not expected to be open for very long.
    */
   transient?: boolean
+
+  /**
+   * The remaining budget of a transient connection, exposed as
+   * `connection.limits`
+   */
+  limits?: ConnectionLimits
+
+  /**
+   * The remote may have dialed us at the same time as we dialed it and the
+   * transport may have joined both dials into one connection, e.g. a TCP
+   * simultaneous open while hole punching. If so the multistream-select
+   * simultaneous connect extension is used to decide which side acts as the
+   * initiator when the connection is upgraded.
+   */
+  simultaneousConnect?: boolean
 }
 
 export interface Upgrader {
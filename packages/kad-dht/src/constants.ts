@@ -23,6 +23,15 @@ export const PROVIDERS_VALIDITY = 24 * hour
 
 export const PROVIDERS_CLEANUP_INTERVAL = hour
 
+// Keys we provide are stored under this prefix followed by the DHT protocol
+export const PROVIDED_KEY_PREFIX = '/dht/provided'
+
+// How often we look for provider records that need to be re-announced
+export const REPROVIDE_INTERVAL = hour
+
+// Re-announce provider records this long before they expire on remote peers
+export const REPROVIDE_THRESHOLD = 2 * hour
+
 export const READ_MESSAGE_TIMEOUT = 10 * second
 
 // The number of records that will be retrieved on a call to getMany()
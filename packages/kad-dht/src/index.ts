@@ -78,13 +78,77 @@
  *
  * console.info(peerInfo) // peer id, multiaddrs
  * ```
+ *
+ * @example Only acting as a DHT server while publicly reachable
+ *
+ * In `auto` mode the DHT starts as a client and only starts responding to
+ * queries once AutoNAT confirms the node is publicly reachable.
+ *
+ * ```TypeScript
+ * import { kadDHT } from '@libp2p/kad-dht'
+ * import { autoNAT } from '@libp2p/autonat'
+ * import { identify } from '@libp2p/identify'
+ * import { createLibp2p } from 'libp2p'
+ *
+ * const node = await createLibp2p({
+ *   services: {
+ *     autoNAT: autoNAT(),
+ *     identify: identify(),
+ *     dht: kadDHT({
+ *       mode: 'auto'
+ *     })
+ *   }
+ * })
+ *
+ * node.addEventListener('self:reachability:change', () => {
+ *   console.info(node.services.dht.getMode()) // 'client' or 'server'
+ * })
+ * ```
+ *
+ * @example Re-announcing provided content
+ *
+ * Remote peers forget provider records after 24 hours. The keys passed to
+ * `provide` are stored in the datastore and re-announced before this happens.
+ * Keys that are close to each other in the keyspace are announced together so
+ * the peers close to each region only need to be looked up once.
+ * If no peer accepts the record when `provide` is called the key is announced in
+ * the next sweep instead.
+ *
+ * ```TypeScript
+ * import { kadDHT } from '@libp2p/kad-dht'
+ * import { createLibp2p } from 'libp2p'
+ * import { CID } from 'multiformats/cid'
+ *
+ * const node = await createLibp2p({
+ *   services: {
+ *     dht: kadDHT({
+ *       reprovide: {
+ *         // check for records that need re-announcing every 30 minutes
+ *         interval: 30 * 60 * 1000
+ *       }
+ *     })
+ *   }
+ * })
+ *
+ * node.services.dht.addEventListener('reprovide:progress', (evt) => {
+ *   console.info('re-announced %d of %d keys', evt.detail.reprovided, evt.detail.keys)
+ * })
+ *
+ * node.services.dht.addEventListener('reprovide:error', (evt) => {
+ *   console.error('could not re-announce %d keys', evt.detail.keys.length, evt.detail.error)
+ * })
+ *
+ * // stop re-announcing a key
+ * await node.services.dht.cancelReprovide(CID.parse('QmFoo'))
+ * ```
  */
 
 import { KadDHT as KadDHTClass } from './kad-dht.js'
 import { MessageType } from './message/dht.js'
 import { removePrivateAddressesMapper, removePublicAddressesMapper, passthroughMapper } from './utils.js'
 import type { ProvidersInit } from './providers.js'
-import type { Libp2pEvents, ComponentLogger, TypedEventTarget, Metrics, PeerId, PeerInfo, PeerStore, RoutingOptions } from '@libp2p/interface'
+import type { ReprovideInit } from './reprovider.js'
+import type { Libp2pEvents, ComponentLogger, TypedEventTarget, Metrics, PeerId, PeerInfo, PeerStore, RoutingOptions, AbortOptions } from '@libp2p/interface'
 import type { AddressManager, ConnectionManager, Registrar } from '@libp2p/interface-internal'
 import type { Datastore } from 'interface-datastore'
 import type { CID } from 'multiformats/cid'
@@ -224,7 +288,54 @@ export interface PeerInfoMapper {
   (peer: PeerInfo): PeerInfo
 }
 
-export interface KadDHT {
+/**
+ * The state of a sweep that re-announces provider records
+ */
+export interface ReprovideProgress {
+  /**
+   * How many keys are being re-announced
+   */
+  keys: number
+
+  /**
+   * How many regions of the keyspace the keys fall into, the peers close to
+   * each region are looked up once
+   */
+  regions: number
+
+  /**
+   * How many regions have been processed so far
+   */
+  completedRegions: number
+
+  /**
+   * How many keys have been re-announced so far
+   */
+  reprovided: number
+
+  /**
+   * How many keys could not be re-announced so far, they will be retried
+   * during the next sweep
+   */
+  failed: number
+}
+
+/**
+ * Keys that could not be re-announced to any peer
+ */
+export interface ReprovideError {
+  keys: CID[]
+  error: Error
+}
+
+export interface ReprovideEvents {
+  'reprovide:start': CustomEvent<ReprovideProgress>
+  'reprovide:progress': CustomEvent<ReprovideProgress>
+  'reprovide:error': CustomEvent<ReprovideError>
+  'reprovide:end': CustomEvent<ReprovideProgress>
+}
+
+export interface KadDHT extends TypedEventTarget<ReprovideEvents> {
   /**
    * Get a value from the DHT, the final ValueEvent will be the best value
    */
@@ -250,6 +361,12 @@ export interface KadDHT {
    */
   provide(key: CID, options?: RoutingOptions): AsyncIterable<QueryEvent>
 
+  /**
+   * Stop re-announcing provider records for the passed CID. Records already
+   * stored by remote peers will expire
+   */
+  cancelReprovide(key: CID, options?: AbortOptions): Promise<void>
+
   /**
    * Store the passed value under the passed key on the DHT
    */
@@ -262,9 +379,10 @@ export interface KadDHT {
 
   /**
    * If 'server' this node will respond to DHT queries, if 'client' this node
-   * will not.
+   * will not. If 'auto' this node will be a server while it is publicly
+   * reachable and a client otherwise.
    */
-  setMode(mode: 'client' | 'server'): Promise<void>
+  setMode(mode: 'client' | 'server' | 'auto'): Promise<void>
 
   /**
    * Force a routing table refresh
@@ -314,6 +432,18 @@ export interface KadDHTInit {
    */
   clientMode?: boolean
 
+  /**
+   * If 'client' only ever be a DHT client, if 'server' always be a DHT server.
+   *
+   * If 'auto' start as a DHT client and switch to being a DHT server once the
+   * node is publicly reachable, e.g. AutoNAT has confirmed one of our
+   * addresses, then switch back to being a client if that changes. Peers are
+   * told about the change via identify push.
+   *
+   * If set this takes precedence over `clientMode`.
+   */
+  mode?: 'client' | 'server' | 'auto'
+
   /**
    * Record selectors
    */
@@ -400,6 +530,12 @@ export interface KadDHTInit {
    */
   providers?: ProvidersInit
 
+  /**
+   * Options for re-announcing the keys we provide before the provider records
+   * stored by remote peers expire
+   */
+  reprovide?: ReprovideInit
+
   /**
    * For every incoming and outgoing PeerInfo, override address configuration
    * with this filter.
@@ -4,6 +4,7 @@ import pDefer from 'p-defer'
 import { PROTOCOL } from './constants.js'
 import { ContentFetching } from './content-fetching/index.js'
 import { ContentRouting as KADDHTContentRouting } from './content-routing/index.js'
+import { MessageType } from './message/dht.js'
 import { Network } from './network.js'
 import { PeerRouting as KADDHTPeerRouting } from './peer-routing/index.js'
 import { Providers } from './providers.js'
@@ -11,6 +12,7 @@ import { QueryManager } from './query/manager.js'
 import { QuerySelf } from './query-self.js'
 import { selectors as recordSelectors } from './record/selectors.js'
 import { validators as recordValidators } from './record/validators.js'
+import { Reprovider } from './reprovider.js'
 import { RoutingTable } from './routing-table/index.js'
 import { RoutingTableRefresh } from './routing-table/refresh.js'
 import { RPC } from './rpc/index.js'
@@ -19,8 +21,8 @@ import {
   multiaddrIsPublic,
   removePrivateAddressesMapper
 } from './utils.js'
-import type { KadDHTComponents, KadDHTInit, Validators, Selectors, KadDHT as KadDHTInterface, QueryEvent, PeerInfoMapper } from './index.js'
-import type { ContentRouting, Logger, PeerDiscovery, PeerDiscoveryEvents, PeerId, PeerInfo, PeerRouting, RoutingOptions, Startable } from '@libp2p/interface'
+import type { KadDHTComponents, KadDHTInit, Validators, Selectors, KadDHT as KadDHTInterface, QueryEvent, PeerInfoMapper, ReprovideEvents } from './index.js'
+import type { AbortOptions, ContentRouting, Logger, PeerDiscovery, PeerDiscoveryEvents, PeerId, PeerInfo, PeerRouting, Reachability, RoutingOptions, Startable } from '@libp2p/interface'
 import type { CID } from 'multiformats/cid'
 
 /**
@@ -96,18 +98,20 @@ export const DEFAULT_MAX_OUTBOUND_STREAMS = 64
  * A DHT implementation modelled after Kademlia with S/Kademlia modifications.
  * Original implementation in go: https://github.com/libp2p/go-libp2p-kad-dht.
  */
-export class KadDHT extends TypedEventEmitter<PeerDiscoveryEvents> implements KadDHTInterface, Startable {
+export class KadDHT extends TypedEventEmitter<PeerDiscoveryEvents & ReprovideEvents> implements KadDHTInterface, Startable {
   public protocol: string
   public routingTable: RoutingTable
   public providers: Providers
   public network: Network
   public peerRouting: KADDHTPeerRouting
+  public reprovider: Reprovider
 
   public readonly components: KadDHTComponents
   private readonly log: Logger
   private running: boolean
   private readonly kBucketSize: number
   private clientMode: boolean
+  private autoMode: boolean
   private readonly validators: Validators
   private readonly selectors: Selectors
   private readonly queryManager: QueryManager
@@ -142,7 +146,8 @@ export class KadDHT extends TypedEventEmitter<PeerDiscoveryEvents> implements Ka
       pingConcurrency,
       maxInboundStreams,
       maxOutboundStreams,
-      providers: providersInit
+      providers: providersInit,
+      reprovide: reprovideInit
     } = init
 
     const loggingPrefix = logPrefix ?? 'libp2p:kad-dht'
@@ -152,7 +157,8 @@ export class KadDHT extends TypedEventEmitter<PeerDiscoveryEvents> implements Ka
     this.log = components.logger.forComponent(loggingPrefix)
     this.protocol = protocol ?? PROTOCOL
     this.kBucketSize = kBucketSize ?? 20
-    this.clientMode = clientMode ?? true
+    this.clientMode = init.mode == null ? clientMode ?? true : init.mode !== 'server'
+    this.autoMode = init.mode === 'auto'
     this.maxInboundStreams = maxInboundStreams ?? DEFAULT_MAX_INBOUND_STREAMS
     this.maxOutboundStreams = maxOutboundStreams ?? DEFAULT_MAX_OUTBOUND_STREAMS
     this.peerInfoMapper = init.peerInfoMapper ?? removePrivateAddressesMapper
@@ -221,6 +227,14 @@ export class KadDHT extends TypedEventEmitter<PeerDiscoveryEvents> implements Ka
       providers: this.providers,
       logPrefix: loggingPrefix
     })
+    this.reprovider = new Reprovider(components, {
+      ...reprovideInit,
+      protocol: this.protocol,
+      peerRouting: this.peerRouting,
+      network: this.network,
+      routingTable: this.routingTable,
+      logPrefix: loggingPrefix
+    })
     this.routingTableRefresh = new RoutingTableRefresh(components, {
       peerRouting: this.peerRouting,
       routingTable: this.routingTable,
@@ -279,14 +293,27 @@ export class KadDHT extends TypedEventEmitter<PeerDiscoveryEvents> implements Ka
       })
     })
 
+    // re-emit progress of re-announcing provider records
+    const reprovideEvents: Array<keyof ReprovideEvents> = ['reprovide:start', 'reprovide:progress', 'reprovide:error', 'reprovide:end']
+
+    for (const type of reprovideEvents) {
+      this.reprovider.addEventListener(type, (evt) => {
+        this.safeDispatchEvent(type, { detail: evt.detail })
+      })
+    }
+
     this.dhtPeerRouting = new DHTPeerRouting(this)
     this.dhtContentRouting = new DHTContentRouting(this)
 
     // if client mode has not been explicitly specified, auto-switch to server
     // mode when the node's peer data is updated with publicly dialable
     // addresses
-    if (init.clientMode == null) {
+    if (init.clientMode == null && init.mode == null) {
       components.events.addEventListener('self:peer:update', (evt) => {
+        if (this.autoMode) {
+          return
+        }
+
         this.log('received update of self-peer info')
 
         void Promise.resolve().then(async () => {
@@ -296,9 +323,9 @@ export class KadDHT extends TypedEventEmitter<PeerDiscoveryEvents> implements Ka
           const mode = this.getMode()
 
           if (hasPublicAddress && mode === 'client') {
-            await this.setMode('server')
+            await this.switchMode('server')
           } else if (mode === 'server' && !hasPublicAddress) {
-            await this.setMode('client')
+            await this.switchMode('client')
           }
         })
           .catch(err => {
@@ -306,6 +333,17 @@ export class KadDHT extends TypedEventEmitter<PeerDiscoveryEvents> implements Ka
           })
       })
     }
+
+    // in auto mode be a server only while we are publicly reachable
+    components.events.addEventListener('self:reachability:change', (evt) => {
+      if (!this.autoMode || !this.running) {
+        return
+      }
+
+      this.onReachabilityChange(evt.detail).catch(err => {
+        this.log.error('error setting dht mode after reachability change', err)
+      })
+    })
   }
 
   get [contentRoutingSymbol] (): ContentRouting {
@@ -352,9 +390,38 @@ export class KadDHT extends TypedEventEmitter<PeerDiscoveryEvents> implements Ka
   }
 
   /**
-   * If 'server' this node will respond to DHT queries, if 'client' this node will not
+   * If 'server' this node will respond to DHT queries, if 'client' this node
+   * will not, if 'auto' this node will respond to DHT queries while it is
+   * publicly reachable
+   */
+  async setMode (mode: 'client' | 'server' | 'auto'): Promise<void> {
+    if (mode === 'auto') {
+      this.log('enabling auto mode')
+      this.autoMode = true
+      await this.onReachabilityChange(this.components.addressManager.getNATStatus().reachability)
+      return
+    }
+
+    this.autoMode = false
+    await this.switchMode(mode)
+  }
+
+  private async onReachabilityChange (reachability: Reachability): Promise<void> {
+    const mode = reachability === 'public' ? 'server' : 'client'
+
+    if (mode === this.getMode()) {
+      return
+    }
+
+    this.log('reachability is now %s', reachability)
+    await this.switchMode(mode)
+  }
+
+  /**
+   * Adding or removing the protocol handler updates our protocols in the peer
+   * store which causes identify to push the change to connected peers
    */
-  async setMode (mode: 'client' | 'server'): Promise<void> {
+  private async switchMode (mode: 'client' | 'server'): Promise<void> {
     await this.components.registrar.unhandle(this.protocol)
 
     if (mode === 'client') {
@@ -377,7 +444,11 @@ export class KadDHT extends TypedEventEmitter<PeerDiscoveryEvents> implements Ka
     this.running = true
 
     // Only respond to queries when not in client mode
-    await this.setMode(this.clientMode ? 'client' : 'server')
+    await this.switchMode(this.clientMode ? 'client' : 'server')
+
+    if (this.autoMode) {
+      await this.onReachabilityChange(this.components.addressManager.getNATStatus().reachability)
+    }
 
     this.querySelf.start()
 
@@ -387,7 +458,8 @@ export class KadDHT extends TypedEventEmitter<PeerDiscoveryEvents> implements Ka
       this.network.start(),
       this.routingTable.start(),
       this.topologyListener.start(),
-      this.routingTableRefresh.start()
+      this.routingTableRefresh.start(),
+      this.reprovider.start()
     ])
   }
 
@@ -406,7 +478,8 @@ export class KadDHT extends TypedEventEmitter<PeerDiscoveryEvents> implements Ka
       this.network.stop(),
       this.routingTable.stop(),
       this.routingTableRefresh.stop(),
-      this.topologyListener.stop()
+      this.topologyListener.stop(),
+      this.reprovider.stop()
     ])
   }
 
@@ -430,7 +503,29 @@ export class KadDHT extends TypedEventEmitter<PeerDiscoveryEvents> implements Ka
    * Announce to the network that we can provide given key's value
    */
   async * provide (key: CID, options: RoutingOptions = {}): AsyncGenerator<QueryEvent, void, undefined> {
-    yield * this.contentRouting.provide(key, this.components.addressManager.getAddresses(), options)
+    await this.reprovider.track(key, options)
+
+    let sent = 0
+
+    for await (const event of this.contentRouting.provide(key, this.components.addressManager.getAddresses(), options)) {
+      if (event.name === 'PEER_RESPONSE' && event.messageType === MessageType.ADD_PROVIDER) {
+        sent++
+      }
+
+      yield event
+    }
+
+    // if no peer received the record the next sweep will try again
+    if (sent > 0) {
+      await this.reprovider.announced(key, options)
+    }
+  }
+
+  /**
+   * Stop re-announcing that we can provide the given key's value
+   */
+  async cancelReprovide (key: CID, options?: AbortOptions): Promise<void> {
+    await this.reprovider.cancel(key, options)
   }
 
   /**
@@ -148,6 +148,44 @@ export class Network extends TypedEventEmitter<NetworkEvents> implements Startab
     }
   }
 
+  /**
+   * Sends several messages over a single stream without expecting answers,
+   * stopping at the first error
+   */
+  async * sendMessages (to: PeerId, msgs: Array<Partial<Message>>, options: RoutingOptions = {}): AsyncGenerator<QueryEvent> {
+    if (!this.running || msgs.length === 0) {
+      return
+    }
+
+    this.log('sending %d messages to %p', msgs.length, to)
+    yield dialPeerEvent({ peer: to }, options)
+
+    let stream: Stream | undefined
+
+    try {
+      const connection = await this.components.connectionManager.openConnection(to, options)
+      stream = await connection.newStream(this.protocol, options)
+      const pb = pbStream(stream)
+
+      for (const msg of msgs) {
+        const type = msg.type
+
+        if (type == null) {
+          throw new CodeError('Message type was missing', 'ERR_INVALID_PARAMETERS')
+        }
+
+        yield sendQueryEvent({ to, type }, options)
+        await pb.write(msg, Message, options)
+        yield peerResponseEvent({ from: to, messageType: type }, options)
+      }
+
+      await pb.unwrap().close(options)
+    } catch (err: any) {
+      stream?.abort(err)
+      yield queryErrorEvent({ from: to, error: err }, options)
+    }
+  }
+
   /**
    * Write a message to the given stream
    */
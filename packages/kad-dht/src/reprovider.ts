@@ -0,0 +1,548 @@
+import { CodeError, TypedEventEmitter, setMaxListeners } from '@libp2p/interface'
+import { PeerMap } from '@libp2p/peer-collections'
+import { anySignal } from 'any-signal'
+import { Key } from 'interface-datastore/key'
+import parallel from 'it-parallel'
+import { CID } from 'multiformats/cid'
+import * as varint from 'uint8-varint'
+import { compare as uint8ArrayCompare } from 'uint8arrays/compare'
+import { concat as uint8ArrayConcat } from 'uint8arrays/concat'
+import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+import { toString as uint8ArrayToString } from 'uint8arrays/to-string'
+import { xor as uint8ArrayXor } from 'uint8arrays/xor'
+import {
+  ALPHA,
+  PROVIDED_KEY_PREFIX,
+  PROVIDERS_VALIDITY,
+  REPROVIDE_INTERVAL,
+  REPROVIDE_THRESHOLD
+} from './constants.js'
+import { MessageType } from './message/dht.js'
+import { toPbPeerInfo } from './message/utils.js'
+import { convertBuffer, convertPeerId } from './utils.js'
+import type { ReprovideEvents, ReprovideProgress } from './index.js'
+import type { Message } from './message/dht.js'
+import type { Network } from './network.js'
+import type { PeerRouting } from './peer-routing/index.js'
+import type { RoutingTable } from './routing-table/index.js'
+import type { AbortOptions, ComponentLogger, CounterGroup, Logger, Metric, Metrics, PeerId, Startable } from '@libp2p/interface'
+import type { AddressManager } from '@libp2p/interface-internal'
+import type { Datastore } from 'interface-datastore'
+
+export interface ReprovideInit {
+  /**
+   * How often to look for provider records that need to be re-announced (in
+   * ms)
+   *
+   * @default 3600000
+   */
+  interval?: number
+
+  /**
+   * Re-announce provider records this long before they expire on remote
+   * peers (in ms)
+   *
+   * @default 7200000
+   */
+  threshold?: number
+
+  /**
+   * How long remote peers keep provider records for (in ms)
+   *
+   * @default 86400000
+   */
+  validity?: number
+}
+
+export interface ReproviderInit extends ReprovideInit {
+  protocol: string
+  peerRouting: PeerRouting
+  network: Network
+  routingTable: RoutingTable
+  logPrefix: string
+}
+
+export interface ReproviderComponents {
+  peerId: PeerId
+  addressManager: AddressManager
+  datastore: Datastore
+  metrics?: Metrics
+  logger: ComponentLogger
+}
+
+interface ProvidedKey {
+  cid: CID
+
+  /**
+   * The position of the key in the keyspace
+   */
+  kadId: Uint8Array
+
+  /**
+   * When the key was last announced
+   */
+  announced: number
+}
+
+interface RegionResult {
+  reprovided: ProvidedKey[]
+  failed: ProvidedKey[]
+}
+
+/**
+ * Keeps track of the keys we provide and re-announces them before the
+ * provider records stored by remote peers expire.
+ *
+ * Keys that are due are sorted into regions of the keyspace that are expected
+ * to contain around K peers. Each region is looked up once per sweep and every
+ * key in the region is sent to the K closest of the peers that were found, so
+ * re-announcing many keys does not need a separate lookup for each one. Up to
+ * ALPHA regions are announced at once and all of the records for a peer are
+ * sent over a single stream.
+ */
+export class Reprovider extends TypedEventEmitter<ReprovideEvents> implements Startable {
+  private readonly components: ReproviderComponents
+  private readonly log: Logger
+  private readonly peerRouting: PeerRouting
+  private readonly network: Network
+  private readonly routingTable: RoutingTable
+  private readonly interval: number
+  private readonly threshold: number
+  private readonly validity: number
+  private readonly prefix: string
+  private readonly metrics?: {
+    providedKeys: Metric
+    sweepTime: Metric
+    reprovidedKeys: CounterGroup
+  }
+
+  private started: boolean
+  private timeout?: ReturnType<typeof setTimeout>
+  private controller?: AbortController
+  private sweeping?: Promise<void>
+
+  constructor (components: ReproviderComponents, init: ReproviderInit) {
+    super()
+
+    const { protocol, peerRouting, network, routingTable, logPrefix } = init
+
+    this.components = components
+    this.log = components.logger.forComponent(`${logPrefix}:reprovider`)
+    this.peerRouting = peerRouting
+    this.network = network
+    this.routingTable = routingTable
+    this.interval = init.interval ?? REPROVIDE_INTERVAL
+    this.threshold = init.threshold ?? REPROVIDE_THRESHOLD
+    this.validity = init.validity ?? PROVIDERS_VALIDITY
+    // each DHT announces to a different network so the keys it provides and
+    // when they were last announced are stored separately
+    this.prefix = `${PROVIDED_KEY_PREFIX}/${uint8ArrayToString(uint8ArrayFromString(protocol), 'base32')}`
+    this.started = false
+
+    if (components.metrics != null) {
+      this.metrics = {
+        providedKeys: components.metrics.registerMetric(`${logPrefix.replaceAll(':', '_')}_provided_keys`),
+        sweepTime: components.metrics.registerMetric(`${logPrefix.replaceAll(':', '_')}_reprovide_time_seconds`),
+        reprovidedKeys: components.metrics.registerCounterGroup(`${logPrefix.replaceAll(':', '_')}_reprovided_keys_total`, {
+          label: 'result'
+        })
+      }
+    }
+  }
+
+  isStarted (): boolean {
+    return this.started
+  }
+
+  async start (): Promise<void> {
+    if (this.started) {
+      return
+    }
+
+    this.started = true
+    this.controller = new AbortController()
+    // every network request made during a sweep listens to this signal
+    setMaxListeners(Infinity, this.controller.signal)
+
+    // records announced before a restart may be close to expiring so sweep
+    // straight away - queries wait for the initial self-query to complete
+    this.schedule(0)
+  }
+
+  async stop (): Promise<void> {
+    this.started = false
+    clearTimeout(this.timeout)
+    this.controller?.abort()
+    this.controller = undefined
+
+    // wait for a running sweep to notice the abort so it does not write to
+    // the datastore after we have stopped
+    await this.sweeping?.catch(() => {})
+  }
+
+  /**
+   * Start re-announcing the passed key. It is recorded as never having been
+   * announced so the next sweep announces it unless `announced` is called
+   * first.
+   */
+  async track (cid: CID, options?: AbortOptions): Promise<void> {
+    await this.components.datastore.put(this.makeProvidedKey(cid), encodeProvidedKey(cid, 0), options)
+  }
+
+  /**
+   * Record that provider records for a tracked key were sent to the network
+   */
+  async announced (cid: CID, options?: AbortOptions): Promise<void> {
+    await this.markAnnounced([cid], options)
+  }
+
+  /**
+   * Stop re-announcing the passed key
+   */
+  async cancel (cid: CID, options?: AbortOptions): Promise<void> {
+    await this.components.datastore.delete(this.makeProvidedKey(cid), options)
+  }
+
+  /**
+   * Re-announce every key whose provider records are about to expire. If a
+   * sweep is already running this resolves when it completes.
+   */
+  async reprovide (options: AbortOptions = {}): Promise<void> {
+    if (this.sweeping == null) {
+      this.sweeping = this.sweep(options)
+        .finally(() => {
+          this.sweeping = undefined
+        })
+    }
+
+    await this.sweeping
+  }
+
+  private schedule (delay: number): void {
+    clearTimeout(this.timeout)
+    this.timeout = setTimeout(() => {
+      const signal = this.controller?.signal
+
+      if (signal == null) {
+        return
+      }
+
+      this.reprovide({ signal })
+        .catch(err => {
+          this.log.error('error re-announcing provider records', err)
+        })
+        .finally(() => {
+          if (this.started) {
+            this.schedule(this.interval)
+          }
+        })
+    }, delay)
+  }
+
+  private async sweep (options: AbortOptions): Promise<void> {
+    const due = await this.loadDueKeys(options)
+
+    if (due.length === 0) {
+      this.log('no provider records need re-announcing')
+      return
+    }
+
+    const regions = this.groupByRegion(due)
+    const progress: ReprovideProgress = {
+      keys: due.length,
+      regions: regions.length,
+      completedRegions: 0,
+      reprovided: 0,
+      failed: 0
+    }
+
+    this.log('re-announcing %d keys in %d keyspace regions', progress.keys, progress.regions)
+    this.safeDispatchEvent('reprovide:start', { detail: { ...progress } })
+
+    const stopTimer = this.metrics?.sweepTime.timer()
+
+    const jobs = regions.map(region => async () => {
+      options.signal?.throwIfAborted()
+
+      return this.reprovideRegion(region, options)
+    })
+
+    try {
+      for await (const { reprovided, failed } of parallel(jobs, { concurrency: ALPHA, ordered: false })) {
+        progress.completedRegions++
+        progress.reprovided += reprovided.length
+        progress.failed += failed.length
+
+        this.metrics?.reprovidedKeys.increment({
+          success: reprovided.length,
+          failure: failed.length
+        })
+        this.safeDispatchEvent('reprovide:progress', { detail: { ...progress } })
+      }
+    } finally {
+      stopTimer?.()
+
+      this.log('re-announced %d of %d keys', progress.reprovided, progress.keys)
+      this.safeDispatchEvent('reprovide:end', { detail: { ...progress } })
+    }
+  }
+
+  /**
+   * Returns the keys whose provider records will expire within the threshold
+   */
+  private async loadDueKeys (options: AbortOptions): Promise<ProvidedKey[]> {
+    const now = Date.now()
+    const due: ProvidedKey[] = []
+    let count = 0
+
+    for await (const { key, value } of this.components.datastore.query({ prefix: `${this.prefix}/` }, options)) {
+      count++
+
+      try {
+        const { cid, announced } = decodeProvidedKey(value)
+
+        if (announced + this.validity - this.threshold > now) {
+          continue
+        }
+
+        due.push({
+          cid,
+          kadId: await convertBuffer(cid.multihash.bytes),
+          announced
+        })
+      } catch (err: any) {
+        this.log.error('invalid provided key entry %s', key, err)
+      }
+    }
+
+    this.metrics?.providedKeys.update(count)
+
+    return due
+  }
+
+  /**
+   * Sorts the keys into runs that share the leading bits of their position in
+   * the keyspace
+   */
+  private groupByRegion (keys: ProvidedKey[]): ProvidedKey[][] {
+    const prefixLength = this.regionPrefixLength()
+    const regions: ProvidedKey[][] = []
+
+    keys.sort((a, b) => uint8ArrayCompare(a.kadId, b.kadId))
+
+    for (const key of keys) {
+      const region = regions[regions.length - 1]
+
+      if (region != null && commonPrefixLength(region[0].kadId, key.kadId) >= prefixLength) {
+        region.push(key)
+      } else {
+        regions.push([key])
+      }
+    }
+
+    return regions
+  }
+
+  /**
+   * The K closest peers to us share at least this many leading bits with our
+   * kad id, so a region of the keyspace with a prefix this long should contain
+   * around K peers
+   */
+  private regionPrefixLength (): number {
+    const kb = this.routingTable.kb
+
+    if (kb == null) {
+      return 0
+    }
+
+    const closest = kb.closest(kb.localNodeId, this.routingTable.kBucketSize)
+
+    // the network is small enough for a single lookup to find every peer
+    if (closest.length < this.routingTable.kBucketSize) {
+      return 0
+    }
+
+    return Math.min(...closest.map(contact => commonPrefixLength(kb.localNodeId, contact.id)))
+  }
+
+  private async reprovideRegion (keys: ProvidedKey[], options: AbortOptions): Promise<RegionResult> {
+    let peers: Array<{ id: PeerId, kadId: Uint8Array }>
+
+    try {
+      peers = await this.findRegionPeers(keys[Math.floor(keys.length / 2)], options)
+    } catch (err: any) {
+      return this.regionFailed(keys, err)
+    }
+
+    if (peers.length === 0) {
+      return this.regionFailed(keys, new CodeError('No peers found close to keyspace region', 'ERR_NO_PEERS_FOUND'))
+    }
+
+    // send each key to the K peers closest to it
+    const assigned = new PeerMap<ProvidedKey[]>()
+
+    for (const key of keys) {
+      const closest = peers
+        .map(peer => ({ peer, distance: uint8ArrayXor(key.kadId, peer.kadId) }))
+        .sort((a, b) => uint8ArrayCompare(a.distance, b.distance))
+        .slice(0, this.routingTable.kBucketSize)
+
+      for (const { peer } of closest) {
+        assigned.set(peer.id, [...(assigned.get(peer.id) ?? []), key])
+      }
+    }
+
+    const reprovided = new Set<ProvidedKey>()
+    let lastError: Error | undefined
+
+    const jobs = [...assigned.entries()].map(([peer, keys]) => async () => this.sendProviderRecords(peer, keys, options))
+
+    for await (const result of parallel(jobs, { concurrency: ALPHA, ordered: false })) {
+      result.sent.forEach(key => reprovided.add(key))
+      lastError = result.error ?? lastError
+    }
+
+    await this.markAnnounced([...reprovided].map(key => key.cid), options)
+
+    const failed = keys.filter(key => !reprovided.has(key))
+
+    if (failed.length > 0) {
+      this.regionFailed(failed, lastError ?? new CodeError('Could not send provider records to any peer', 'ERR_REPROVIDE_FAILED'))
+    }
+
+    return {
+      reprovided: [...reprovided],
+      failed
+    }
+  }
+
+  /**
+   * Look up the peers close to a key in the region, including the closer
+   * peers returned by each hop so every key in the region has enough peers to
+   * choose from
+   */
+  private async findRegionPeers (key: ProvidedKey, options: AbortOptions): Promise<Array<{ id: PeerId, kadId: Uint8Array }>> {
+    const found = new PeerMap<PeerId>()
+    const signal = anySignal([this.controller?.signal, options.signal])
+    setMaxListeners(Infinity, signal)
+
+    try {
+      for await (const event of this.peerRouting.getClosestPeers(key.cid.multihash.bytes, { ...options, signal })) {
+        if (event.name === 'FINAL_PEER') {
+          found.set(event.peer.id, event.peer.id)
+        } else if (event.name === 'PEER_RESPONSE') {
+          event.closer.forEach(peer => {
+            found.set(peer.id, peer.id)
+          })
+        }
+      }
+    } finally {
+      signal.clear()
+    }
+
+    found.delete(this.components.peerId)
+
+    return Promise.all(
+      [...found.values()].map(async id => ({ id, kadId: await convertPeerId(id) }))
+    )
+  }
+
+  /**
+   * Send provider records for the keys to the peer over a single stream,
+   * giving up on the first error since the peer is probably unreachable
+   */
+  private async sendProviderRecords (peer: PeerId, keys: ProvidedKey[], options: AbortOptions): Promise<{ sent: ProvidedKey[], error?: Error }> {
+    const sent: ProvidedKey[] = []
+    const providers = [
+      toPbPeerInfo({
+        id: this.components.peerId,
+        multiaddrs: this.components.addressManager.getAddresses()
+      })
+    ]
+    const msgs: Array<Partial<Message>> = keys.map(key => ({
+      type: MessageType.ADD_PROVIDER,
+      key: key.cid.multihash.bytes,
+      providers
+    }))
+
+    // messages are written in order so each response is for the next key
+    for await (const event of this.network.sendMessages(peer, msgs, options)) {
+      if (event.name === 'PEER_RESPONSE') {
+        sent.push(keys[sent.length])
+      } else if (event.name === 'QUERY_ERROR') {
+        this.log.error('could not send provider records to %p', peer, event.error)
+        return { sent, error: event.error }
+      }
+    }
+
+    this.log('sent %d provider records to %p', sent.length, peer)
+
+    return { sent }
+  }
+
+  private async markAnnounced (cids: CID[], options?: AbortOptions): Promise<void> {
+    const now = Date.now()
+    const batch = this.components.datastore.batch()
+
+    for (const cid of cids) {
+      const dsKey = this.makeProvidedKey(cid)
+
+      // the key may have been cancelled while it was being announced
+      if (await this.components.datastore.has(dsKey, options)) {
+        batch.put(dsKey, encodeProvidedKey(cid, now))
+      }
+    }
+
+    await batch.commit(options)
+  }
+
+  private makeProvidedKey (cid: CID): Key {
+    return new Key(`${this.prefix}/${uint8ArrayToString(cid.multihash.bytes, 'base32')}`)
+  }
+
+  private regionFailed (keys: ProvidedKey[], error: Error): RegionResult {
+    this.log.error('could not re-announce %d keys', keys.length, error)
+    this.safeDispatchEvent('reprovide:error', {
+      detail: {
+        keys: keys.map(key => key.cid),
+        error
+      }
+    })
+
+    return {
+      reprovided: [],
+      failed: keys
+    }
+  }
+}
+
+/**
+ * How many leading bits the two kad ids have in common
+ */
+function commonPrefixLength (a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < a.byteLength; i++) {
+    const diff = a[i] ^ b[i]
+
+    if (diff !== 0) {
+      return (i * 8) + Math.clz32(diff) - 24
+    }
+  }
+
+  return a.byteLength * 8
+}
+
+/**
+ * Entries are the time the key was last announced followed by the CID
+ */
+function encodeProvidedKey (cid: CID, announced: number): Uint8Array {
+  return uint8ArrayConcat([varint.encode(announced), cid.bytes])
+}
+
+function decodeProvidedKey (buf: Uint8Array): { cid: CID, announced: number } {
+  const announced = varint.decode(buf)
+
+  return {
+    cid: CID.decode(buf.subarray(varint.encodingLength(announced))),
+    announced
+  }
+}
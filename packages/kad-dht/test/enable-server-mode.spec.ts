@@ -1,10 +1,13 @@
 /* eslint-env mocha */
 /* eslint max-nested-callbacks: ["error", 8] */
 
+import { start } from '@libp2p/interface'
 import { multiaddr } from '@multiformats/multiaddr'
 import { expect } from 'aegir/chai'
 import delay from 'delay'
 import { TestDHT } from './utils/test-dht.js'
+import type { AddressManager } from '@libp2p/interface-internal'
+import type { StubbedInstance } from 'sinon-ts'
 
 const testCases: Array<[string, string, string]> = [
   ['should enable server mode when public IP4 addresses are found', '/ip4/139.178.91.71/udp/4001/quic', 'server'],
@@ -71,4 +74,57 @@ describe('enable server mode', () => {
       expect(dht.getMode()).to.equal('client', `did not reset to client mode after updating with address ${addr}`)
     })
   })
+
+  describe('auto mode', () => {
+    it('should switch between client and server mode when reachability changes', async function () {
+      const dht = await tdht.spawn({ mode: 'auto' })
+
+      expect(dht.getMode()).to.equal('client')
+
+      dht.components.events.safeDispatchEvent('self:reachability:change', {
+        detail: 'public'
+      })
+
+      await delay(100)
+
+      expect(dht.getMode()).to.equal('server')
+      expect(dht.components.registrar.getProtocols()).to.include(dht.protocol)
+
+      dht.components.events.safeDispatchEvent('self:reachability:change', {
+        detail: 'private'
+      })
+
+      await delay(100)
+
+      expect(dht.getMode()).to.equal('client')
+      expect(dht.components.registrar.getProtocols()).to.not.include(dht.protocol)
+    })
+
+    it('should start in server mode when already publicly reachable', async function () {
+      const dht = await tdht.spawn({ mode: 'auto' }, false)
+      const addressManager = dht.components.addressManager as StubbedInstance<AddressManager>
+      addressManager.getNATStatus.returns({
+        type: 'unknown',
+        reachability: 'public'
+      })
+
+      await start(dht)
+
+      expect(dht.getMode()).to.equal('server')
+    })
+
+    it('should stop switching modes when the mode is set explicitly', async function () {
+      const dht = await tdht.spawn({ mode: 'auto' })
+
+      await dht.setMode('client')
+
+      dht.components.events.safeDispatchEvent('self:reachability:change', {
+        detail: 'public'
+      })
+
+      await delay(100)
+
+      expect(dht.getMode()).to.equal('client')
+    })
+  })
 })
@@ -16,6 +16,7 @@ import { equals as uint8ArrayEquals } from 'uint8arrays/equals'
 import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
 import * as c from '../src/constants.js'
 import { EventTypes, MessageType } from '../src/index.js'
+import { KadDHT } from '../src/kad-dht.js'
 import { peerResponseEvent } from '../src/query/events.js'
 import { Libp2pRecord } from '../src/record/index.js'
 import * as kadUtils from '../src/utils.js'
@@ -25,7 +26,6 @@ import { countDiffPeers } from './utils/index.js'
 import { sortClosestPeers } from './utils/sort-closest-peers.js'
 import { TestDHT } from './utils/test-dht.js'
 import type { FinalPeerEvent, QueryEvent, ValueEvent } from '../src/index.js'
-import type { KadDHT } from '../src/kad-dht.js'
 import type { PeerId } from '@libp2p/interface'
 import type { CID } from 'multiformats/cid'
 
@@ -502,6 +502,28 @@ describe('KadDHT', () => {
       }
     })
 
+    it('tracks provided keys separately for each DHT sharing a datastore', async function () {
+      const amino = await tdht.spawn({}, false)
+      const lan = new KadDHT(amino.components, {
+        protocol: '/ipfs/lan/kad/1.0.0',
+        logPrefix: 'libp2p:dht-lan'
+      })
+
+      const aminoLookup = sinon.stub(amino.peerRouting, 'getClosestPeers').callsFake(async function * () {})
+      const lanLookup = sinon.stub(lan.peerRouting, 'getClosestPeers').callsFake(async function * () {})
+
+      // the key could not be announced to the Amino DHT but was to the LAN DHT
+      await amino.reprovider.track(values[0].cid)
+      await lan.reprovider.track(values[0].cid)
+      await lan.reprovider.announced(values[0].cid)
+
+      await amino.reprovider.reprovide()
+      await lan.reprovider.reprovide()
+
+      expect(aminoLookup).to.have.property('called', true)
+      expect(lanLookup).to.have.property('called', false)
+    })
+
     it('provides if in server mode', async function () {
       const dhts = await Promise.all([
         tdht.spawn(),
@@ -526,6 +548,38 @@ describe('KadDHT', () => {
       expect(sendMessageSpy.called).to.be.true()
     })
 
+    it('reprovides provided keys', async function () {
+      this.timeout(20 * 1000)
+
+      const dhts = await Promise.all([
+        // provider records are always due to be re-announced
+        tdht.spawn({ reprovide: { validity: 0, threshold: 0 } }),
+        tdht.spawn(),
+        tdht.spawn()
+      ])
+
+      await Promise.all([
+        tdht.connect(dhts[0], dhts[1]),
+        tdht.connect(dhts[1], dhts[2])
+      ])
+
+      await drain(dhts[0].provide(values[0].cid))
+      await drain(dhts[0].provide(values[1].cid))
+      await dhts[0].cancelReprovide(values[1].cid)
+
+      const sendMessagesSpy = sinon.spy(dhts[0].network, 'sendMessages')
+
+      await dhts[0].reprovider.reprovide()
+
+      const keys = sendMessagesSpy.getCalls()
+        .flatMap(call => call.args[1])
+        .filter(msg => msg.type === MessageType.ADD_PROVIDER)
+        .map(msg => msg.key)
+
+      expect(keys).to.not.be.empty()
+      expect(keys).to.deep.equal(keys.map(() => values[0].cid.multihash.bytes))
+    })
+
     it('find providers', async function () {
       this.timeout(20 * 1000)
 
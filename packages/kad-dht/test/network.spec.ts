@@ -101,4 +101,47 @@ describe('Network', () => {
       return defer.promise
     })
   })
+  describe('sendMessages', () => {
+    it('sends every message over a single stream', async () => {
+      const received: Message[] = []
+      let streams = 0
+
+      const msgs: Array<Partial<Message>> = ['hello', 'world'].map(key => ({
+        type: MessageType.ADD_PROVIDER,
+        key: uint8ArrayFromString(key)
+      }))
+
+      // mock it
+      dht.components.connectionManager.openConnection = async (peer: PeerId | Multiaddr | Multiaddr[]) => {
+        // @ts-expect-error incomplete implementation
+        const connection: Connection = {
+          newStream: async (protocols: string | string[]) => {
+            const protocol = Array.isArray(protocols) ? protocols[0] : protocols
+            streams++
+
+            const sink: Sink<Source<Uint8ArrayList | Uint8Array>, Promise<void>> = async source => {
+              for await (const buf of lp.decode(source)) {
+                received.push(Message.decode(buf))
+              }
+            }
+
+            const stream = mockStream({ source: (async function * () {})(), sink })
+
+            return {
+              ...stream,
+              protocol
+            }
+          }
+        }
+
+        return connection
+      }
+
+      const events = await all(dht.network.sendMessages(dht.components.peerId, msgs))
+
+      expect(streams).to.equal(1)
+      expect(received.map(msg => msg.key)).to.deep.equal(msgs.map(msg => msg.key))
+      expect(events.filter(event => event.name === 'PEER_RESPONSE')).to.have.lengthOf(msgs.length)
+    })
+  })
 })
@@ -0,0 +1,322 @@
+/* eslint-env mocha */
+
+import { defaultLogger } from '@libp2p/logger'
+import { createEd25519PeerId } from '@libp2p/peer-id-factory'
+import { expect } from 'aegir/chai'
+import { MemoryDatastore } from 'datastore-core/memory'
+import delay from 'delay'
+import pWaitFor from 'p-wait-for'
+import sinon from 'sinon'
+import { stubInterface, type StubbedInstance } from 'sinon-ts'
+import { MessageType } from '../src/message/dht.js'
+import { finalPeerEvent, peerResponseEvent, queryErrorEvent } from '../src/query/events.js'
+import { Reprovider } from '../src/reprovider.js'
+import { convertBuffer } from '../src/utils.js'
+import { createValues } from './utils/create-values.js'
+import type { ReprovideError, ReprovideProgress } from '../src/index.js'
+import type { Network } from '../src/network.js'
+import type { PeerRouting } from '../src/peer-routing/index.js'
+import type { RoutingTable } from '../src/routing-table/index.js'
+import type { KBucket } from '../src/routing-table/k-bucket.js'
+import type { PeerId } from '@libp2p/interface'
+import type { AddressManager } from '@libp2p/interface-internal'
+import type { CID } from 'multiformats/cid'
+
+const hour = 60 * 60 * 1000
+
+describe('Reprovider', () => {
+  let peerId: PeerId
+  let remotePeers: PeerId[]
+  let peerRouting: StubbedInstance<PeerRouting>
+  let network: StubbedInstance<Network>
+  let routingTable: StubbedInstance<RoutingTable>
+  let reprovider: Reprovider
+
+  beforeEach(async () => {
+    peerId = await createEd25519PeerId()
+    remotePeers = await Promise.all([
+      createEd25519PeerId(),
+      createEd25519PeerId()
+    ])
+    peerRouting = stubInterface<PeerRouting>()
+    network = stubInterface<Network>()
+    routingTable = stubInterface<RoutingTable>({
+      kBucketSize: 20,
+      kb: undefined
+    })
+
+    peerRouting.getClosestPeers.callsFake(async function * () {
+      for (const peer of remotePeers) {
+        yield finalPeerEvent({
+          from: peer,
+          peer: {
+            id: peer,
+            multiaddrs: []
+          }
+        })
+      }
+    })
+    network.sendMessages.callsFake(async function * (to, msgs) {
+      for (const msg of msgs) {
+        yield peerResponseEvent({
+          from: to,
+          messageType: msg.type ?? MessageType.ADD_PROVIDER
+        })
+      }
+    })
+
+    reprovider = createReprovider()
+  })
+
+  afterEach(async () => {
+    sinon.restore()
+    await reprovider?.stop()
+  })
+
+  function createReprovider (init: { validity?: number, threshold?: number } = {}): Reprovider {
+    return new Reprovider({
+      peerId,
+      addressManager: stubInterface<AddressManager>({
+        getAddresses: () => []
+      }),
+      datastore: new MemoryDatastore(),
+      logger: defaultLogger()
+    }, {
+      peerRouting,
+      network,
+      routingTable,
+      protocol: '/ipfs/kad/1.0.0',
+      logPrefix: 'libp2p:kad-dht',
+      ...init
+    })
+  }
+
+  /**
+   * Start tracking the CIDs as if they were announced this long ago
+   */
+  async function trackProvidedAgo (cids: CID[], ago: number): Promise<void> {
+    const clock = sinon.useFakeTimers({
+      now: Date.now() - ago,
+      toFake: ['Date']
+    })
+
+    try {
+      await Promise.all(cids.map(async cid => {
+        await reprovider.track(cid)
+        await reprovider.announced(cid)
+      }))
+    } finally {
+      clock.restore()
+    }
+  }
+
+  /**
+   * The ADD_PROVIDER messages sent to each peer
+   */
+  function sentMessages (): Array<{ to: PeerId, keys: Uint8Array[] }> {
+    return network.sendMessages.getCalls().map(call => ({
+      to: call.args[0],
+      keys: call.args[1].map(msg => {
+        expect(msg).to.have.property('type', MessageType.ADD_PROVIDER)
+        expect(msg.providers?.[0].id).to.equalBytes(peerId.toBytes())
+
+        return msg.key ?? new Uint8Array()
+      })
+    }))
+  }
+
+  it('should not re-announce keys that were provided recently', async () => {
+    const [{ cid }] = await createValues(1)
+    await reprovider.track(cid)
+    await reprovider.announced(cid)
+
+    await reprovider.reprovide()
+
+    expect(peerRouting.getClosestPeers).to.have.property('called', false)
+  })
+
+  it('should announce keys that were tracked but never announced', async () => {
+    const [{ cid }] = await createValues(1)
+    await reprovider.track(cid)
+
+    await reprovider.reprovide()
+
+    expect(sentMessages()).to.have.lengthOf(remotePeers.length)
+  })
+
+  it('should re-announce keys before their provider records expire', async () => {
+    const values = await createValues(2)
+    await trackProvidedAgo(values.map(({ cid }) => cid), 23 * hour)
+
+    await reprovider.reprovide()
+
+    // every key is sent to each peer over a single stream
+    const sent = sentMessages()
+    expect(sent).to.have.lengthOf(remotePeers.length)
+
+    for (const { keys } of sent) {
+      expect(keys).to.have.deep.members(values.map(({ cid }) => cid.multihash.bytes))
+    }
+
+    // the records are fresh again
+    peerRouting.getClosestPeers.resetHistory()
+    await reprovider.reprovide()
+
+    expect(peerRouting.getClosestPeers).to.have.property('called', false)
+  })
+
+  it('should report progress', async () => {
+    const values = await createValues(3)
+    await trackProvidedAgo(values.map(({ cid }) => cid), 23 * hour)
+
+    const events: Array<{ type: string, detail: ReprovideProgress }> = []
+
+    for (const type of ['reprovide:start', 'reprovide:progress', 'reprovide:end'] as const) {
+      reprovider.addEventListener(type, (evt) => {
+        events.push({ type, detail: evt.detail })
+      })
+    }
+
+    await reprovider.reprovide()
+
+    expect(events[0]).to.have.property('type', 'reprovide:start')
+    expect(events[0]).to.have.nested.property('detail.keys', 3)
+    expect(events[events.length - 1]).to.have.property('type', 'reprovide:end')
+    expect(events[events.length - 1]).to.have.deep.property('detail', {
+      keys: 3,
+      regions: 1,
+      completedRegions: 1,
+      reprovided: 3,
+      failed: 0
+    })
+  })
+
+  it('should look up the closest peers once per keyspace region', async () => {
+    // the K closest peers to us share the first bit of our kad id so regions
+    // are keys that share their first bit
+    const localNodeId = new Uint8Array(32)
+    const closest = [0x40, 0x7f].map(byte => ({
+      id: Uint8Array.from([byte, ...new Uint8Array(31)]),
+      peer: peerId
+    }))
+
+    routingTable = stubInterface<RoutingTable>({
+      kBucketSize: 2,
+      kb: stubInterface<KBucket>({
+        localNodeId,
+        closest: () => closest
+      })
+    })
+    reprovider = createReprovider()
+
+    const values = await createValues(10)
+    const regions = new Set(await Promise.all(values.map(async ({ cid }) => {
+      const kadId = await convertBuffer(cid.multihash.bytes)
+      return kadId[0] >> 7
+    })))
+
+    await trackProvidedAgo(values.map(({ cid }) => cid), 23 * hour)
+
+    await reprovider.reprovide()
+
+    expect(peerRouting.getClosestPeers).to.have.property('callCount', regions.size)
+    expect(sentMessages().flatMap(({ keys }) => keys)).to.have.lengthOf(values.length * remotePeers.length)
+  })
+
+  it('should report keys that could not be re-announced and retry them', async () => {
+    const [{ cid }] = await createValues(1)
+    await trackProvidedAgo([cid], 23 * hour)
+
+    network.sendMessages.callsFake(async function * (to) {
+      yield queryErrorEvent({
+        from: to,
+        error: new Error('Urk!')
+      })
+    })
+
+    const errors: ReprovideError[] = []
+    reprovider.addEventListener('reprovide:error', (evt) => {
+      errors.push(evt.detail)
+    })
+
+    await reprovider.reprovide()
+
+    expect(errors).to.have.lengthOf(1)
+    expect(errors[0].keys.map(key => key.toString())).to.deep.equal([cid.toString()])
+    expect(errors[0].error).to.have.property('message', 'Urk!')
+
+    // the key is still due
+    await reprovider.reprovide()
+
+    expect(peerRouting.getClosestPeers).to.have.property('callCount', 2)
+  })
+
+  it('should report keys when no peers are found', async () => {
+    const [{ cid }] = await createValues(1)
+    await trackProvidedAgo([cid], 23 * hour)
+
+    peerRouting.getClosestPeers.callsFake(async function * () {})
+
+    const errors: ReprovideError[] = []
+    reprovider.addEventListener('reprovide:error', (evt) => {
+      errors.push(evt.detail)
+    })
+
+    await reprovider.reprovide()
+
+    expect(errors).to.have.lengthOf(1)
+    expect(errors[0].error).to.have.property('code', 'ERR_NO_PEERS_FOUND')
+    expect(network.sendMessages).to.have.property('called', false)
+  })
+
+  it('should not re-announce cancelled keys', async () => {
+    const [{ cid }] = await createValues(1)
+    await trackProvidedAgo([cid], 23 * hour)
+
+    await reprovider.cancel(cid)
+    await reprovider.reprovide()
+
+    expect(peerRouting.getClosestPeers).to.have.property('called', false)
+  })
+
+  it('should join a sweep that is already running', async () => {
+    const [{ cid }] = await createValues(1)
+    await trackProvidedAgo([cid], 23 * hour)
+
+    await Promise.all([
+      reprovider.reprovide(),
+      reprovider.reprovide()
+    ])
+
+    expect(peerRouting.getClosestPeers).to.have.property('callCount', 1)
+  })
+
+  it('should wait for a running sweep when stopping', async () => {
+    const [{ cid }] = await createValues(1)
+    await trackProvidedAgo([cid], 23 * hour)
+
+    peerRouting.getClosestPeers.callsFake(async function * (key, options) {
+      await delay(100, { signal: options?.signal })
+
+      yield finalPeerEvent({
+        from: remotePeers[0],
+        peer: {
+          id: remotePeers[0],
+          multiaddrs: []
+        }
+      })
+    })
+
+    await reprovider.start()
+    await pWaitFor(() => peerRouting.getClosestPeers.called)
+
+    let ended = false
+    reprovider.addEventListener('reprovide:end', () => {
+      ended = true
+    })
+
+    await reprovider.stop()
+
+    expect(ended).to.be.true()
+  })
+})
@@ -56,6 +56,10 @@ export class TestDHT {
       multiaddr(`/ip4/192.168.1.1/tcp/4002/p2p/${components.peerId.toString()}`),
       multiaddr(`/ip4/85.3.31.0/tcp/4002/p2p/${components.peerId.toString()}`)
     ])
+    addressManager.getNATStatus.returns({
+      type: 'unknown',
+      reachability: 'unknown'
+    })
 
     components.addressManager = addressManager
 
@@ -1,8 +1,10 @@
 import { peerIdFromString } from '@libp2p/peer-id'
+import { isPrivate } from '@libp2p/utils/multiaddr/is-private'
 import { multiaddr } from '@multiformats/multiaddr'
+import { inferNATType } from './nat-type.js'
 import { debounce } from './utils.js'
-import type { ComponentLogger, Libp2pEvents, Logger, TypedEventTarget, PeerId, PeerStore } from '@libp2p/interface'
-import type { TransportManager } from '@libp2p/interface-internal'
+import type { ComponentLogger, Libp2pEvents, Logger, TypedEventTarget, PeerId, PeerStore, NATStatus, Reachability } from '@libp2p/interface'
+import type { ObservedAddress, TransportManager } from '@libp2p/interface-internal'
 import type { Multiaddr } from '@multiformats/multiaddr'
 
 export interface AddressManagerInit {
@@ -26,6 +28,24 @@ export interface AddressManagerInit {
    * list of multiaddrs string representation to never announce
    */
   noAnnounce?: string[]
+
+  /**
+   * How many distinct peers must observe an address before observations alone
+   * contribute fully to our confidence in it (default: 4)
+   */
+  observerThreshold?: number
+
+  /**
+   * How long in ms an AutoNAT confirmation of an address contributes to our
+   * confidence in it, decaying linearly over this period (default: 1 hour)
+   */
+  confirmationTTL?: number
+
+  /**
+   * How many distinct peers must observe our address before the type of NAT we
+   * are behind is inferred (default: 3)
+   */
+  natTypeMinObservers?: number
 }
 
 export interface DefaultAddressManagerComponents {
@@ -48,6 +68,14 @@ const defaultAddressFilter = (addrs: Multiaddr[]): Multiaddr[] => addrs
 
 interface ObservedAddressMetadata {
   confident: boolean
+  observers: Set<string>
+  lastConfirmed?: number
+}
+
+const defaultOptions = {
+  observerThreshold: 4,
+  confirmationTTL: 1000 * 60 * 60,
+  natTypeMinObservers: 3
 }
 
 /**
@@ -69,6 +97,27 @@ function stripPeerId (ma: Multiaddr, peerId: PeerId): Multiaddr {
   return ma
 }
 
+/**
+ * Path addresses such as `/unix` sockets can only be reached from the local
+ * machine so they are never announced unless explicitly configured to be
+ */
+function isPathAddress (ma: Multiaddr): boolean {
+  return ma.protos().some(proto => proto.path === true)
+}
+
+/**
+ * Returns the host, port and transport of a thin waist address
+ */
+function toEndpoint (ma: Multiaddr): string | undefined {
+  try {
+    const { host, port, transport } = ma.toOptions()
+
+    return `${host}:${port}/${transport}`
+  } catch {
+    return undefined
+  }
+}
+
 export class DefaultAddressManager {
   private readonly log: Logger
   private readonly components: DefaultAddressManagerComponents
@@ -77,6 +126,13 @@ export class DefaultAddressManager {
   private readonly announce: Set<string>
   private readonly observed: Map<string, ObservedAddressMetadata>
   private readonly announceFilter: AddressFilter
+  private readonly observerThreshold: number
+  private readonly confirmationTTL: number
+  private readonly natTypeMinObservers: number
+  private natStatus: NATStatus
+  // source -> address -> reachability, reports that do not apply to a
+  // specific address have an empty key
+  private readonly reachabilityReports: Map<string, Map<string, Reachability>>
 
   /**
    * Responsible for managing the peer addresses.
@@ -93,6 +149,14 @@ export class DefaultAddressManager {
     this.announce = new Set(announce.map(ma => ma.toString()))
     this.observed = new Map()
     this.announceFilter = init.announceFilter ?? defaultAddressFilter
+    this.observerThreshold = init.observerThreshold ?? defaultOptions.observerThreshold
+    this.confirmationTTL = init.confirmationTTL ?? defaultOptions.confirmationTTL
+    this.natTypeMinObservers = init.natTypeMinObservers ?? defaultOptions.natTypeMinObservers
+    this.natStatus = {
+      type: 'unknown',
+      reachability: 'unknown'
+    }
+    this.reachabilityReports = new Map()
 
     // this method gets called repeatedly on startup when transports start listening so
     // debounce it so we don't cause multiple self:peer:update events to be emitted
@@ -101,6 +165,7 @@ export class DefaultAddressManager {
     // update our stored addresses when new transports listen
     components.events.addEventListener('transport:listening', () => {
       this._updatePeerStoreAddresses()
+      this.updateNATStatus()
     })
     // update our stored addresses when existing transports stop listening
     components.events.addEventListener('transport:close', () => {
@@ -112,7 +177,7 @@ export class DefaultAddressManager {
     // if announce addresses have been configured, ensure they make it into our peer
     // record for things like identify
     const addrs = this.getAnnounceAddrs()
-      .concat(this.components.transportManager.getAddrs())
+      .concat(this.components.transportManager.getAddrs().filter(ma => !isPathAddress(ma)))
       .concat(
         [...this.observed.entries()]
           .filter(([_, metadata]) => metadata.confident)
@@ -153,21 +218,61 @@ export class DefaultAddressManager {
     return Array.from(this.observed).map(([a]) => multiaddr(a))
   }
 
+  /**
+   * Get observed multiaddrs with how confident we are that they are publicly
+   * dialable, most confident first
+   */
+  getObservedAddrScores (): ObservedAddress[] {
+    const now = Date.now()
+
+    return [...this.observed.entries()]
+      .map(([addr, metadata]) => {
+        const observedAddress: ObservedAddress = {
+          multiaddr: multiaddr(addr),
+          confidence: this.getConfidence(metadata, now),
+          observers: metadata.observers.size,
+          confirmed: metadata.confident
+        }
+
+        if (metadata.lastConfirmed != null) {
+          observedAddress.lastConfirmed = metadata.lastConfirmed
+        }
+
+        return observedAddress
+      })
+      .sort((a, b) => b.confidence - a.confidence)
+  }
+
+  /**
+   * Get the inferred NAT type and reachability of this node
+   */
+  getNATStatus (): NATStatus {
+    return { ...this.natStatus }
+  }
+
   /**
    * Add peer observed addresses
    */
-  addObservedAddr (addr: Multiaddr): void {
+  addObservedAddr (addr: Multiaddr, observer?: PeerId): void {
+    if (isPathAddress(addr)) {
+      return
+    }
+
     addr = stripPeerId(addr, this.components.peerId)
     const addrString = addr.toString()
-
-    // do not trigger the change:addresses event if we already know about this address
-    if (this.observed.has(addrString)) {
-      return
+    const metadata = this.observed.get(addrString) ?? {
+      confident: false,
+      observers: new Set()
     }
 
-    this.observed.set(addrString, {
-      confident: false
-    })
+    this.observed.set(addrString, metadata)
+
+    // do not trigger the change:addresses event if we already know about this
+    // address but record the observer as it may be a new one
+    if (observer != null && !metadata.observers.has(observer.toString())) {
+      metadata.observers.add(observer.toString())
+      this.updateNATStatus()
+    }
   }
 
   confirmObservedAddr (addr: Multiaddr): void {
@@ -175,19 +280,24 @@ export class DefaultAddressManager {
     const addrString = addr.toString()
 
     const metadata = this.observed.get(addrString) ?? {
-      confident: false
+      confident: false,
+      observers: new Set()
     }
 
     const startingConfidence = metadata.confident
 
     this.observed.set(addrString, {
-      confident: true
+      ...metadata,
+      confident: true,
+      lastConfirmed: Date.now()
     })
 
     // only trigger the 'self:peer:update' event if our confidence in an address has changed
     if (!startingConfidence) {
       this._updatePeerStoreAddresses()
     }
+
+    this.updateNATStatus()
   }
 
   removeObservedAddr (addr: Multiaddr): void {
@@ -195,6 +305,136 @@ export class DefaultAddressManager {
     const addrString = addr.toString()
 
     this.observed.delete(addrString)
+    this.updateNATStatus()
+  }
+
+  reportReachability (source: string, reachability: Reachability, addr?: Multiaddr): void {
+    this.log('%s reported reachability %s for %s', source, reachability, addr ?? 'all addresses')
+
+    let reports = this.reachabilityReports.get(source)
+
+    if (reports == null) {
+      reports = new Map()
+      this.reachabilityReports.set(source, reports)
+    }
+
+    reports.set(addr == null ? '' : stripPeerId(addr, this.components.peerId).toString(), reachability)
+    this.updateNATStatus()
+  }
+
+  /**
+   * A source considers us public if any address it reported on is public
+   */
+  private getReportedReachability (source: string): Reachability {
+    const reports = [...this.reachabilityReports.get(source)?.values() ?? []]
+
+    if (reports.includes('public')) {
+      return 'public'
+    }
+
+    if (reports.includes('private')) {
+      return 'private'
+    }
+
+    return 'unknown'
+  }
+
+  private getConfidence (metadata: ObservedAddressMetadata, now: number): number {
+    const observerScore = Math.min(metadata.observers.size / this.observerThreshold, 1)
+    let confirmationScore = 0
+
+    if (metadata.lastConfirmed != null) {
+      confirmationScore = Math.max(1 - ((now - metadata.lastConfirmed) / this.confirmationTTL), 0)
+    }
+
+    return (observerScore + confirmationScore) / 2
+  }
+
+  /**
+   * AutoNAT dials us back so its results take precedence, then any addresses
+   * that have been confirmed as dialable, then reports from other sources such
+   * as UPnP and finally the addresses other peers have observed us using
+   */
+  private getReachability (): Reachability {
+    const autonat = this.getReportedReachability('autonat')
+
+    if (autonat !== 'unknown') {
+      return autonat
+    }
+
+    if ([...this.observed.values()].some(metadata => metadata.confident)) {
+      return 'public'
+    }
+
+    const reports = [...this.reachabilityReports.keys()].map(source => this.getReportedReachability(source))
+
+    if (reports.includes('public')) {
+      return 'public'
+    }
+
+    if (reports.includes('private')) {
+      return 'private'
+    }
+
+    return this.getObservedReachability()
+  }
+
+  /**
+   * If peers observe us using one of our listen addresses we are not behind a
+   * NAT, if they observe us using a different public address we are
+   */
+  private getObservedReachability (): Reachability {
+    const listening = new Set<string>()
+
+    for (const ma of this.components.transportManager.getAddrs() ?? []) {
+      const endpoint = toEndpoint(ma)
+
+      if (endpoint != null) {
+        listening.add(endpoint)
+      }
+    }
+
+    let observed = false
+
+    for (const [addr, metadata] of this.observed) {
+      const ma = multiaddr(addr)
+      const endpoint = toEndpoint(ma)
+
+      if (metadata.observers.size === 0 || endpoint == null || isPrivate(ma)) {
+        continue
+      }
+
+      observed = true
+
+      if (listening.has(endpoint)) {
+        return 'public'
+      }
+    }
+
+    return observed ? 'private' : 'unknown'
+  }
+
+  private updateNATStatus (): void {
+    const natStatus: NATStatus = {
+      type: inferNATType([...this.observed.entries()].map(([addr, { observers }]) => ({
+        multiaddr: multiaddr(addr),
+        observers
+      })), this.natTypeMinObservers),
+      reachability: this.getReachability()
+    }
+
+    if (natStatus.type === this.natStatus.type && natStatus.reachability === this.natStatus.reachability) {
+      return
+    }
+
+    this.log('NAT status changed from %o to %o', this.natStatus, natStatus)
+    const reachabilityChanged = natStatus.reachability !== this.natStatus.reachability
+    this.natStatus = natStatus
+    this.components.events.safeDispatchEvent('self:nat:change', { detail: this.getNATStatus() })
+
+    if (reachabilityChanged) {
+      this.components.events.safeDispatchEvent('self:reachability:change', { detail: natStatus.reachability })
+    }
   }
 
   getAddresses (): Multiaddr[] {
@@ -202,7 +442,9 @@ export class DefaultAddressManager {
 
     if (addrs.length === 0) {
       // no configured announce addrs, add configured listen addresses
-      addrs = this.components.transportManager.getAddrs().map(ma => ma.toString())
+      addrs = this.components.transportManager.getAddrs()
+        .filter(ma => !isPathAddress(ma))
+        .map(ma => ma.toString())
     }
 
     // add observed addresses we are confident in
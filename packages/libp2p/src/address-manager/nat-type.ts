@@ -0,0 +1,82 @@
+import type { NATType } from '@libp2p/interface'
+import type { Multiaddr } from '@multiformats/multiaddr'
+
+export interface Observation {
+  multiaddr: Multiaddr
+  observers: Set<string>
+}
+
+/**
+ * Infer how the NAT we are behind maps ports by comparing the ports different
+ * peers have observed us using.
+ *
+ * If most peers see the same external port the mapping is
+ * endpoint-independent, otherwise it is endpoint-dependent. Each transport
+ * protocol is assessed separately and if any of them has an endpoint-dependent
+ * mapping that is reported as hole punching is unlikely to succeed.
+ *
+ * Transports that do not reuse the listening port for outgoing connections
+ * will cause different ports to be observed regardless of the NAT type.
+ */
+export function inferNATType (observations: Observation[], minObservers: number): NATType {
+  // transport -> ip -> port -> observers
+  const groups = new Map<string, Map<string, Map<number, Set<string>>>>()
+
+  for (const { multiaddr, observers } of observations) {
+    let options
+
+    try {
+      options = multiaddr.toOptions()
+    } catch {
+      continue
+    }
+
+    const hosts = groups.get(options.transport) ?? new Map<string, Map<number, Set<string>>>()
+    groups.set(options.transport, hosts)
+
+    const ports = hosts.get(options.host) ?? new Map<number, Set<string>>()
+    hosts.set(options.host, ports)
+
+    const portObservers = ports.get(options.port) ?? new Set<string>()
+    ports.set(options.port, portObservers)
+
+    observers.forEach(observer => portObservers.add(observer))
+  }
+
+  const results: NATType[] = []
+
+  for (const hosts of groups.values()) {
+    let best: { total: number, max: number } | undefined
+
+    // use the external ip that the most peers have observed
+    for (const ports of hosts.values()) {
+      const all = new Set<string>()
+      let max = 0
+
+      for (const observers of ports.values()) {
+        observers.forEach(observer => all.add(observer))
+        max = Math.max(max, observers.size)
+      }
+
+      if (best == null || all.size > best.total) {
+        best = { total: all.size, max }
+      }
+    }
+
+    if (best == null || best.total < minObservers) {
+      continue
+    }
+
+    results.push(best.max > 1 && best.max * 2 >= best.total ? 'endpoint-independent' : 'endpoint-dependent')
+  }
+
+  if (results.includes('endpoint-dependent')) {
+    return 'endpoint-dependent'
+  }
+
+  if (results.includes('endpoint-independent')) {
+    return 'endpoint-independent'
+  }
+
+  return 'unknown'
+}
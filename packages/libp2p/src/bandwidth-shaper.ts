@@ -0,0 +1,275 @@
+import { CodeError } from '@libp2p/interface'
+import { codes } from './errors.js'
+import type { BandwidthLimits, BandwidthRate, ComponentLogger, Logger, MultiaddrConnection, PeerId, Stream } from '@libp2p/interface'
+import type { Uint8ArrayList } from 'uint8arraylist'
+
+type Direction = keyof BandwidthRate
+
+type Chunk = Uint8Array | Uint8ArrayList
+
+export interface BandwidthShaperComponents {
+  logger: ComponentLogger
+}
+
+/**
+ * A shaped connection only counts towards the limits of the remote peer once
+ * the remote peer is known
+ */
+export interface ShapedConnection {
+  setPeer(peer: PeerId): void
+}
+
+/**
+ * Data is sent in pieces of at most this many bytes so one large chunk cannot
+ * hold up traffic from other connections and streams sharing a bucket
+ */
+const MAX_CHUNK_SIZE = 16 * 1024
+
+interface BucketState {
+  tokens: number
+  updated: number
+}
+
+/**
+ * A token bucket for each key that refills continuously at `rate` bytes per
+ * second up to a burst of one second's worth of tokens.
+ *
+ * Taking tokens always succeeds immediately but may leave the bucket in
+ * debt, in which case the caller waits until the debt has been repaid. This
+ * means callers are served in the order they asked for tokens.
+ */
+class TokenBucket {
+  public readonly rate: number
+
+  /**
+   * The largest number of bytes to take at once, a tenth of a second's worth
+   */
+  public readonly chunkSize: number
+  private readonly buckets: Map<string, BucketState>
+
+  constructor (rate: number) {
+    this.rate = rate
+    this.chunkSize = Math.max(1, Math.min(Math.floor(rate / 10), MAX_CHUNK_SIZE))
+    this.buckets = new Map()
+  }
+
+  /**
+   * Resolves once `bytes` tokens have been taken from the bucket for `key`
+   */
+  async take (key: string, bytes: number): Promise<void> {
+    const now = Date.now()
+    let bucket = this.buckets.get(key)
+
+    if (bucket == null) {
+      this.prune(now)
+
+      bucket = {
+        tokens: this.rate,
+        updated: now
+      }
+      this.buckets.set(key, bucket)
+    }
+
+    this.refill(bucket, now)
+    bucket.tokens -= bytes
+
+    if (bucket.tokens < 0) {
+      await new Promise(resolve => setTimeout(resolve, Math.ceil(-bucket.tokens * 1000 / this.rate)))
+    }
+  }
+
+  private refill (bucket: BucketState, now: number): void {
+    bucket.tokens = Math.min(this.rate, bucket.tokens + ((now - bucket.updated) * this.rate / 1000))
+    bucket.updated = now
+  }
+
+  /**
+   * A bucket that has refilled completely is the same as a new one so remove
+   * them, otherwise there would be an entry for every peer ever seen
+   */
+  private prune (now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      this.refill(bucket, now)
+
+      if (bucket.tokens === this.rate) {
+        this.buckets.delete(key)
+      }
+    }
+  }
+}
+
+interface Buckets {
+  upload?: TokenBucket
+  download?: TokenBucket
+}
+
+interface Take {
+  bucket: TokenBucket
+  key: string
+}
+
+function toBuckets (rate: BandwidthRate = {}): Buckets {
+  const buckets: Buckets = {}
+
+  for (const direction of ['upload', 'download'] as const) {
+    const value = rate[direction]
+
+    if (value == null) {
+      continue
+    }
+
+    if (!Number.isFinite(value) || value < 1) {
+      throw new CodeError(`Bandwidth ${direction} rate must be at least 1 byte per second`, codes.ERR_INVALID_PARAMETERS)
+    }
+
+    buckets[direction] = new TokenBucket(Math.floor(value))
+  }
+
+  return buckets
+}
+
+function slice <T extends Chunk> (buf: T, start: number, end: number): T {
+  if (buf instanceof Uint8Array) {
+    return buf.subarray(start, end) as T
+  }
+
+  return buf.sublist(start, end) as T
+}
+
+/**
+ * Delays traffic so it does not exceed the configured global, per-peer and
+ * per-protocol rates.
+ *
+ * Connections are shaped before they are upgraded so the global and peer
+ * limits include the overhead of encryption and stream multiplexing. Streams
+ * are shaped once their protocol has been negotiated. Connections where the
+ * transport multiplexes streams natively, such as WebRTC and WebTransport,
+ * only count towards the protocol limits.
+ */
+export class BandwidthShaper {
+  private readonly log: Logger
+  private limits: BandwidthLimits
+  private global: Buckets
+  private peer: Buckets
+  private protocols: Map<string, Buckets>
+
+  constructor (components: BandwidthShaperComponents, init: BandwidthLimits = {}) {
+    this.log = components.logger.forComponent('libp2p:bandwidth-shaper')
+    this.limits = {}
+    this.global = {}
+    this.peer = {}
+    this.protocols = new Map()
+
+    this.setLimits(init)
+  }
+
+  getLimits (): BandwidthLimits {
+    return structuredClone(this.limits)
+  }
+
+  /**
+   * Replace the current limits. Data that is already waiting for capacity is
+   * sent at the old rate, everything after it at the new rate.
+   */
+  setLimits (limits: BandwidthLimits): void {
+    const global = toBuckets(limits.global)
+    const peer = toBuckets(limits.peer)
+    const protocols = new Map<string, Buckets>()
+
+    for (const [protocol, rate] of Object.entries(limits.protocols ?? {})) {
+      protocols.set(protocol, toBuckets(rate))
+    }
+
+    this.limits = structuredClone(limits)
+    this.global = global
+    this.peer = peer
+    this.protocols = protocols
+
+    this.log('bandwidth limits set to %o', this.limits)
+  }
+
+  /**
+   * Shape data sent and received over the passed connection
+   */
+  shapeConnection (maConn: MultiaddrConnection): ShapedConnection {
+    let peer: string | undefined
+
+    const getTakes = (direction: Direction): Take[] => {
+      const takes: Take[] = []
+      const global = this.global[direction]
+      const perPeer = this.peer[direction]
+
+      // take from the peer bucket first, otherwise a peer that is over its
+      // limit would hold global tokens while it waits
+      if (perPeer != null && peer != null) {
+        takes.push({ bucket: perPeer, key: peer })
+      }
+
+      if (global != null) {
+        takes.push({ bucket: global, key: 'global' })
+      }
+
+      return takes
+    }
+
+    this.shape(maConn, getTakes)
+
+    return {
+      setPeer: (peerId) => {
+        peer = peerId.toString()
+      }
+    }
+  }
+
+  /**
+   * Shape data sent and received over a stream with a negotiated protocol
+   */
+  shapeStream (stream: Stream, protocol: string): void {
+    this.shape(stream, (direction) => {
+      const bucket = this.protocols.get(protocol)?.[direction]
+
+      if (bucket == null) {
+        return []
+      }
+
+      return [{ bucket, key: protocol }]
+    })
+  }
+
+  private shape <T extends Chunk> (duplex: { source: AsyncGenerator<T>, sink(source: AsyncGenerator<Chunk>): unknown }, getTakes: (direction: Direction) => Take[]): void {
+    const sink = duplex.sink
+    duplex.sink = async (source) => {
+      await sink(this.throttle(source, () => getTakes('upload')))
+    }
+
+    duplex.source = this.throttle(duplex.source, () => getTakes('download'))
+  }
+
+  private async * throttle <T extends Chunk> (source: AsyncGenerator<T> | AsyncIterable<T>, getTakes: () => Take[]): AsyncGenerator<T> {
+    for await (const buf of source) {
+      let offset = 0
+
+      while (offset < buf.byteLength) {
+        // read the limits for every chunk so changes apply to open connections
+        const takes = getTakes()
+
+        if (takes.length === 0) {
+          yield offset === 0 ? buf : slice(buf, offset, buf.byteLength)
+          break
+        }
+
+        // split large chunks so traffic waiting on the same bucket is
+        // interleaved instead of queueing behind them
+        const size = Math.min(buf.byteLength - offset, ...takes.map(take => take.bucket.chunkSize))
+
+        // tokens are taken from the narrowest bucket first
+        for (const { bucket, key } of takes) {
+          await bucket.take(key, size)
+        }
+
+        yield slice(buf, offset, offset + size)
+        offset += size
+      }
+    }
+  }
+}
@@ -1,7 +1,7 @@
 import { CodeError } from '@libp2p/interface'
 import { isStartable, type Startable, type Libp2pEvents, type ComponentLogger, type NodeInfo, type ConnectionProtector, type ConnectionGater, type ContentRouting, type TypedEventTarget, type Metrics, type PeerId, type PeerRouting, type PeerStore, type PrivateKey, type Upgrader } from '@libp2p/interface'
 import { defaultLogger } from '@libp2p/logger'
-import type { AddressManager, ConnectionManager, Registrar, TransportManager } from '@libp2p/interface-internal'
+import type { AddressManager, ConnectionManager, Registrar, ResourceManager, TransportManager } from '@libp2p/interface-internal'
 import type { DNS } from '@multiformats/dns'
 import type { Datastore } from 'interface-datastore'
 
@@ -17,6 +17,7 @@ export interface Components extends Record<string, any>, Startable {
   registrar: Registrar
   connectionManager: ConnectionManager
   transportManager: TransportManager
+  resourceManager: ResourceManager
   connectionGater: ConnectionGater
   contentRouting: ContentRouting
   peerRouting: PeerRouting
@@ -39,6 +40,7 @@ export interface ComponentsInit {
   registrar?: Registrar
   connectionManager?: ConnectionManager
   transportManager?: TransportManager
+  resourceManager?: ResourceManager
   connectionGater?: ConnectionGater
   contentRouting?: ContentRouting
   peerRouting?: PeerRouting
@@ -0,0 +1,315 @@
+import { isPrivate } from '@libp2p/utils/multiaddr/is-private'
+import { sha256 } from 'multiformats/hashes/sha2'
+import type { AutoDialStrategy } from './auto-dial.js'
+import type { ComponentLogger, Peer, PeerId } from '@libp2p/interface'
+import type { Registrar } from '@libp2p/interface-internal'
+import type { Multiaddr } from '@multiformats/multiaddr'
+
+export interface AutoDialStrategyComponents {
+  peerId: PeerId
+  registrar?: Registrar
+  logger: ComponentLogger
+}
+
+export type { AutoDialStrategy, AutoDialContext } from './auto-dial.js'
+
+const IP4_CODE = 4
+const IP6_CODE = 41
+const UNKNOWN = 'unknown'
+
+export interface ProtocolTargetInit {
+  /**
+   * Only consider these protocols - by default all protocols that have a
+   * handler registered with the registrar are considered, or none if there is
+   * no registrar
+   */
+  protocols?: string[]
+
+  /**
+   * How many connected peers should support each protocol (default: 2)
+   */
+  target?: number
+
+  /**
+   * If false, peers that do not support a protocol that is below its target
+   * will not be dialled at all (default: true)
+   */
+  dialOthers?: boolean
+}
+
+/**
+ * Dial peers that support the protocols that are below their target number of
+ * connected peers first, preferring peers that support the most of them
+ */
+export function protocolTarget (init: ProtocolTargetInit = {}): (components: AutoDialStrategyComponents) => AutoDialStrategy {
+  const target = init.target ?? 2
+  const dialOthers = init.dialOthers ?? true
+
+  return (components) => ({
+    name: 'protocol-target',
+    prioritise: (candidates, context) => {
+      // the registrar is read on every auto-dial as handlers can change at runtime
+      const protocols = init.protocols ?? components.registrar?.getProtocols() ?? []
+      const deficits = new Map<string, number>()
+
+      for (const protocol of protocols) {
+        const connected = [...context.peers.values()].filter(peer => peer.protocols.includes(protocol)).length
+
+        if (connected < target) {
+          deficits.set(protocol, target - connected)
+        }
+      }
+
+      const remaining = [...candidates]
+      const output: Peer[] = []
+
+      while (deficits.size > 0 && remaining.length > 0) {
+        let best = -1
+        let bestScore = 0
+
+        remaining.forEach((peer, index) => {
+          const score = peer.protocols.filter(protocol => deficits.has(protocol)).length
+
+          if (score > bestScore) {
+            best = index
+            bestScore = score
+          }
+        })
+
+        if (best === -1) {
+          break
+        }
+
+        const [peer] = remaining.splice(best, 1)
+        output.push(peer)
+
+        for (const protocol of peer.protocols) {
+          const deficit = deficits.get(protocol)
+
+          if (deficit == null) {
+            continue
+          }
+
+          if (deficit > 1) {
+            deficits.set(protocol, deficit - 1)
+          } else {
+            deficits.delete(protocol)
+          }
+        }
+      }
+
+      if (dialOthers) {
+        output.push(...remaining)
+      }
+
+      return output
+    }
+  })
+}
+
+export interface DHTBucketDiversityInit {
+  /**
+   * If set, only peers known to support this protocol are spread across
+   * buckets, other peers are dialled after them
+   */
+  protocol?: string
+}
+
+/**
+ * Spread connections across the k-buckets of the local peer's DHT routing
+ * table by dialling peers in the least populated buckets first. A peer's
+ * bucket is the length of the common prefix of the SHA256 hashes of its peer
+ * id and ours.
+ */
+export function dhtBucketDiversity (init: DHTBucketDiversityInit = {}): (components: AutoDialStrategyComponents) => AutoDialStrategy {
+  return (components) => {
+    let localKadId: Uint8Array | undefined
+
+    return {
+      name: 'dht-bucket-diversity',
+      prioritise: async (candidates, context) => {
+        if (localKadId == null) {
+          localKadId = await toKadId(components.peerId)
+        }
+
+        const kadId = localKadId
+        const getBucket = async (peerId: PeerId): Promise<string> => `${commonPrefixLength(kadId, await toKadId(peerId))}`
+        const dhtPeers = candidates.filter(peer => init.protocol == null || peer.protocols.includes(init.protocol))
+        const others = candidates.filter(peer => !dhtPeers.includes(peer))
+        const connected: string[][] = []
+
+        for (const peer of context.peers.values()) {
+          if (init.protocol == null || peer.protocols.includes(init.protocol)) {
+            connected.push([await getBucket(peer.id)])
+          }
+        }
+
+        const keys = new Map<Peer, string[]>()
+
+        for (const peer of dhtPeers) {
+          keys.set(peer, [await getBucket(peer.id)])
+        }
+
+        return [
+          ...diversify(dhtPeers, connected, peer => keys.get(peer) ?? [UNKNOWN]),
+          ...others
+        ]
+      }
+    }
+  }
+}
+
+export interface NetworkDiversityInit {
+  /**
+   * Peers with public IPv4 addresses that share this many leading bits are
+   * considered to be in the same subnet (default: 16)
+   */
+  ipv4Prefix?: number
+
+  /**
+   * Peers with public IPv6 addresses that share this many leading bits are
+   * considered to be in the same subnet (default: 32)
+   */
+  ipv6Prefix?: number
+
+  /**
+   * libp2p does not ship an ASN database, pass a function that returns the
+   * autonomous system number an IP address belongs to to spread connections
+   * across ASNs before subnets
+   */
+  getAsn?(ip: string): number | string | undefined | Promise<number | string | undefined>
+}
+
+/**
+ * Spread connections across networks by dialling peers whose public address is
+ * in the subnet, or ASN if a lookup function is configured, that we have the
+ * fewest connections to first
+ */
+export function networkDiversity (init: NetworkDiversityInit = {}): (components: AutoDialStrategyComponents) => AutoDialStrategy {
+  const ipv4Prefix = init.ipv4Prefix ?? 16
+  const ipv6Prefix = init.ipv6Prefix ?? 32
+
+  const getKeys = async (ma?: Multiaddr): Promise<string[]> => {
+    const subnet = ma == null ? UNKNOWN : toSubnet(ma, ipv4Prefix, ipv6Prefix)
+
+    if (init.getAsn == null) {
+      return [subnet]
+    }
+
+    const asn = ma == null ? undefined : await init.getAsn(ma.nodeAddress().address)
+
+    return [asn == null ? UNKNOWN : `${asn}`, subnet]
+  }
+
+  return () => ({
+    name: 'network-diversity',
+    prioritise: async (candidates, context) => {
+      const connected: string[][] = []
+
+      for (const connection of context.connections) {
+        connected.push(await getKeys(findPublicIpAddress([connection.remoteAddr])))
+      }
+
+      const keys = new Map<Peer, string[]>()
+
+      for (const peer of candidates) {
+        keys.set(peer, await getKeys(findPublicIpAddress(peer.addresses.map(({ multiaddr }) => multiaddr))))
+      }
+
+      return diversify(candidates, connected, peer => keys.get(peer) ?? [UNKNOWN])
+    }
+  })
+}
+
+/**
+ * Repeatedly select the candidate whose groups have the fewest members among
+ * the connected and already selected peers. Groups are compared in order so
+ * the first group takes precedence and ties preserve the incoming order.
+ */
+function diversify (candidates: Peer[], connected: string[][], getKeys: (peer: Peer) => string[]): Peer[] {
+  const counts: Array<Map<string, number>> = []
+
+  const add = (keys: string[]): void => {
+    keys.forEach((key, level) => {
+      counts[level] = counts[level] ?? new Map()
+      counts[level].set(key, (counts[level].get(key) ?? 0) + 1)
+    })
+  }
+
+  const compare = (a: string[], b: string[]): number => {
+    for (let level = 0; level < Math.max(a.length, b.length); level++) {
+      const countA = counts[level]?.get(a[level]) ?? 0
+      const countB = counts[level]?.get(b[level]) ?? 0
+
+      if (countA !== countB) {
+        return countA - countB
+      }
+    }
+
+    return 0
+  }
+
+  connected.forEach(add)
+
+  const remaining = [...candidates]
+  const output: Peer[] = []
+
+  while (remaining.length > 0) {
+    let best = 0
+
+    for (let i = 1; i < remaining.length; i++) {
+      if (compare(getKeys(remaining[i]), getKeys(remaining[best])) < 0) {
+        best = i
+      }
+    }
+
+    const [peer] = remaining.splice(best, 1)
+    add(getKeys(peer))
+    output.push(peer)
+  }
+
+  return output
+}
+
+async function toKadId (peerId: PeerId): Promise<Uint8Array> {
+  const multihash = await sha256.digest(peerId.toBytes())
+
+  return multihash.digest
+}
+
+function commonPrefixLength (a: Uint8Array, b: Uint8Array): number {
+  for (let i = 0; i < a.length; i++) {
+    const xor = a[i] ^ b[i]
+
+    if (xor !== 0) {
+      return (i * 8) + Math.clz32(xor) - 24
+    }
+  }
+
+  return a.length * 8
+}
+
+function findPublicIpAddress (addrs: Multiaddr[]): Multiaddr | undefined {
+  return addrs.find(ma => {
+    const [code] = ma.tuples()[0] ?? []
+
+    return (code === IP4_CODE || code === IP6_CODE) && !isPrivate(ma)
+  })
+}
+
+function toSubnet (ma: Multiaddr, ipv4Prefix: number, ipv6Prefix: number): string {
+  const [code, bytes] = ma.tuples()[0]
+
+  if (bytes == null) {
+    return UNKNOWN
+  }
+
+  const prefix = code === IP4_CODE ? ipv4Prefix : ipv6Prefix
+  const masked = Uint8Array.from(bytes, (byte, i) => {
+    const bits = Math.min(Math.max(prefix - (i * 8), 0), 8)
+
+    return byte & (0xff << (8 - bits))
+  })
+
+  return `${code}/${masked.join('.')}/${prefix}`
+}
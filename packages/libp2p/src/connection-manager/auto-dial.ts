@@ -2,9 +2,45 @@ import { PeerMap, PeerSet } from '@libp2p/peer-collections'
 import { PeerQueue } from '@libp2p/utils/peer-queue'
 import { toString as uint8ArrayToString } from 'uint8arrays/to-string'
 import { AUTO_DIAL_CONCURRENCY, AUTO_DIAL_DISCOVERED_PEERS_DEBOUNCE, AUTO_DIAL_INTERVAL, AUTO_DIAL_MAX_QUEUE_LENGTH, AUTO_DIAL_PEER_RETRY_THRESHOLD, AUTO_DIAL_PRIORITY, LAST_DIAL_FAILURE_KEY, MIN_CONNECTIONS } from './constants.js'
-import type { Libp2pEvents, Logger, ComponentLogger, TypedEventTarget, PeerStore, Startable, Metrics } from '@libp2p/interface'
+import type { DialHistory } from './dial-history.js'
+import type { Libp2pEvents, Logger, ComponentLogger, TypedEventTarget, PeerStore, Startable, Metrics, Connection, Peer } from '@libp2p/interface'
 import type { ConnectionManager } from '@libp2p/interface-internal'
 
+/**
+ * Information available to auto-dial strategies while peers are being
+ * selected for dialling
+ */
+export interface AutoDialContext {
+  /**
+   * All currently open connections
+   */
+  connections: Connection[]
+
+  /**
+   * Peer store data for each connected peer, if any is held
+   */
+  peers: PeerMap<Peer>
+}
+
+/**
+ * When there are fewer than `minConnections` connections open, peers from the
+ * peer store are dialled to make up the difference. An auto-dial strategy
+ * decides which of the eligible peers are dialled and in which order.
+ */
+export interface AutoDialStrategy {
+  /**
+   * Used when logging the outcome of the strategy
+   */
+  name: string
+
+  /**
+   * Receives the peers that are eligible to be dialled, shuffled then sorted by
+   * tag value with the highest first, and returns them in the order they should
+   * be dialled. Peers that are omitted from the returned list are not dialled.
+   */
+  prioritise(candidates: Peer[], context: AutoDialContext): Peer[] | Promise<Peer[]>
+}
+
 interface AutoDialInit {
   minConnections?: number
   maxQueueLength?: number
@@ -13,6 +49,8 @@ interface AutoDialInit {
   autoDialInterval?: number
   autoDialPeerRetryThreshold?: number
   autoDialDiscoveredPeersDebounce?: number
+  dialHistory?: DialHistory
+  strategy?: AutoDialStrategy
 }
 
 interface AutoDialComponents {
@@ -36,6 +74,8 @@ const defaultOptions = {
 export class AutoDial implements Startable {
   private readonly connectionManager: ConnectionManager
   private readonly peerStore: PeerStore
+  private readonly dialHistory?: DialHistory
+  private readonly strategy?: AutoDialStrategy
   private readonly queue: PeerQueue<void>
   private readonly minConnections: number
   private readonly autoDialPriority: number
@@ -56,6 +96,8 @@ export class AutoDial implements Startable {
   constructor (components: AutoDialComponents, init: AutoDialInit) {
     this.connectionManager = components.connectionManager
     this.peerStore = components.peerStore
+    this.dialHistory = init.dialHistory
+    this.strategy = init.strategy
     this.minConnections = init.minConnections ?? defaultOptions.minConnections
     this.autoDialPriority = init.autoDialPriority ?? defaultOptions.autoDialPriority
     this.autoDialIntervalMs = init.autoDialInterval ?? defaultOptions.autoDialInterval
@@ -226,6 +268,11 @@ export class AutoDial implements Startable {
     })
 
     const peersThatHaveNotFailed = sortedPeers.filter(peer => {
+      // every address the peer has has failed recently
+      if (this.dialHistory?.isBackedOff(peer) === true) {
+        return false
+      }
+
       const lastDialFailure = peer.metadata.get(LAST_DIAL_FAILURE_KEY)
 
       if (lastDialFailure == null) {
@@ -242,9 +289,20 @@ export class AutoDial implements Startable {
       return Date.now() - lastDialFailureTimestamp > this.autoDialPeerRetryThresholdMs
     })
 
-    this.log('selected %d/%d peers to dial', peersThatHaveNotFailed.length, peers.length)
+    let peersToDial = peersThatHaveNotFailed
 
-    for (const peer of peersThatHaveNotFailed) {
+    if (this.strategy != null) {
+      try {
+        peersToDial = await this.strategy.prioritise(peersThatHaveNotFailed, await this.getContext())
+        this.log('%s strategy prioritised %d/%d peers', this.strategy.name, peersToDial.length, peersThatHaveNotFailed.length)
+      } catch (err) {
+        this.log.error('%s strategy failed to prioritise peers', this.strategy.name, err)
+      }
+    }
+
+    this.log('selected %d/%d peers to dial', peersToDial.length, peers.length)
+
+    for (const peer of peersToDial) {
       this.queue.add(async () => {
         const numConnections = this.connectionManager.getConnectionsMap().size
 
@@ -257,7 +315,8 @@ export class AutoDial implements Startable {
 
         this.log('connecting to a peerStore stored peer %p', peer.id)
         await this.connectionManager.openConnection(peer.id, {
-          priority: this.autoDialPriority
+          priority: this.autoDialPriority,
+          backoff: true
         })
       }, {
         peerId: peer.id
@@ -270,6 +329,31 @@ export class AutoDial implements Startable {
     this.sheduleNextAutodial()
   }
 
+  private async getContext (): Promise<AutoDialContext> {
+    const context: AutoDialContext = {
+      connections: this.connectionManager.getConnections(),
+      peers: new PeerMap()
+    }
+
+    for (const connection of context.connections) {
+      const remotePeer = connection.remotePeer
+
+      if (context.peers.has(remotePeer)) {
+        continue
+      }
+
+      try {
+        context.peers.set(remotePeer, await this.peerStore.get(remotePeer))
+      } catch (err: any) {
+        if (err.code !== 'ERR_NOT_FOUND') {
+          this.log.error('error loading connected peer', err)
+        }
+      }
+    }
+
+    return context
+  }
+
   private sheduleNextAutodial (): void {
     if (!this.started) {
       return
@@ -1,12 +1,62 @@
 import { PeerMap } from '@libp2p/peer-collections'
-import { MAX_CONNECTIONS } from './constants.js'
-import type { Libp2pEvents, Logger, ComponentLogger, TypedEventTarget, PeerStore } from '@libp2p/interface'
+import { MAX_CONNECTIONS, PRUNE_SILENCE_PERIOD } from './constants.js'
+import type { Libp2pEvents, Logger, ComponentLogger, TypedEventTarget, PeerStore, Connection, Peer, PrunedConnection } from '@libp2p/interface'
 import type { ConnectionManager } from '@libp2p/interface-internal'
 import type { Multiaddr } from '@multiformats/multiaddr'
 
-interface ConnectionPrunerInit {
+/**
+ * Information available to pruning strategies while connections are being
+ * selected for closing
+ */
+export interface ConnectionPruneContext {
+  /**
+   * All open connections that have not yet been selected to be closed
+   */
+  connections: Connection[]
+
+  /**
+   * The sum of the tag values of each connected peer
+   */
+  peerValues: PeerMap<number>
+
+  /**
+   * Peer store data for each connected peer, if any is held
+   */
+  peers: PeerMap<Peer>
+}
+
+/**
+ * When the connection limit is exceeded, connections are selected for closing
+ * one at a time. Before each selection every strategy can exclude connections
+ * from being chosen, then the remaining connections are sorted by each
+ * strategy in turn until one of them expresses a preference.
+ */
+export interface ConnectionPruneStrategy {
+  /**
+   * Reported as the reason for closing a connection when this strategy caused
+   * it to be chosen ahead of the others
+   */
+  name: string
+
+  /**
+   * Return true if the connection must not be closed
+   */
+  shouldKeep?(connection: Connection, context: ConnectionPruneContext): boolean
+
+  /**
+   * Return a negative number if connection `a` should be closed before
+   * connection `b`, a positive number if `b` should be closed before `a` or 0
+   * to defer to the next strategy
+   */
+  compare?(a: Connection, b: Connection, context: ConnectionPruneContext): number
+}
+
+export interface ConnectionPrunerInit {
   maxConnections?: number
+  lowWatermark?: number
+  silencePeriod?: number
   allow?: Multiaddr[]
+  strategies?: ConnectionPruneStrategy[]
 }
 
 interface ConnectionPrunerComponents {
@@ -18,23 +68,72 @@ interface ConnectionPrunerComponents {
 
 const defaultOptions = {
   maxConnections: MAX_CONNECTIONS,
-  allow: []
+  silencePeriod: PRUNE_SILENCE_PERIOD,
+  allow: [],
+  strategies: []
+}
+
+/**
+ * The default strategy, always applied after any configured strategies -
+ * close connections to peers with low tag values first and if the values are
+ * equal close short-lived connections first
+ */
+export const peerValueStrategy: ConnectionPruneStrategy = {
+  name: 'peer-value',
+  compare: (a, b, context) => {
+    const peerAValue = context.peerValues.get(a.remotePeer) ?? 0
+    const peerBValue = context.peerValues.get(b.remotePeer) ?? 0
+
+    if (peerAValue > peerBValue) {
+      return 1
+    }
+
+    if (peerAValue < peerBValue) {
+      return -1
+    }
+
+    // if the peers have an equal tag value then we want to close short-lived connections first
+    const connectionALifespan = a.timeline.open
+    const connectionBLifespan = b.timeline.open
+
+    if (connectionALifespan < connectionBLifespan) {
+      return 1
+    }
+
+    if (connectionALifespan > connectionBLifespan) {
+      return -1
+    }
+
+    return 0
+  }
 }
 
 /**
- * If we go over the max connections limit, choose some connections to close
+ * If we go over the max connections limit (the high watermark), choose some
+ * connections to close to bring us down to the low watermark
  */
 export class ConnectionPruner {
   private readonly maxConnections: number
+  private readonly lowWatermark: number
+  private readonly silencePeriod: number
+  private lastPrune: number
+  private pruning: boolean
+  private pruneTimeout?: ReturnType<typeof setTimeout>
   private readonly connectionManager: ConnectionManager
   private readonly peerStore: PeerStore
   private readonly allow: Multiaddr[]
+  private readonly strategies: ConnectionPruneStrategy[]
   private readonly events: TypedEventTarget<Libp2pEvents>
   private readonly log: Logger
 
   constructor (components: ConnectionPrunerComponents, init: ConnectionPrunerInit = {}) {
     this.maxConnections = init.maxConnections ?? defaultOptions.maxConnections
+    this.lowWatermark = init.lowWatermark ?? this.maxConnections
+    this.silencePeriod = init.silencePeriod ?? defaultOptions.silencePeriod
+    this.lastPrune = 0
+    this.pruning = false
     this.allow = init.allow ?? defaultOptions.allow
+    this.strategies = [...(init.strategies ?? defaultOptions.strategies), peerValueStrategy]
     this.connectionManager = components.connectionManager
     this.peerStore = components.peerStore
     this.events = components.events
@@ -49,38 +148,79 @@ export class ConnectionPruner {
     })
   }
 
+  stop (): void {
+    clearTimeout(this.pruneTimeout)
+    this.pruneTimeout = undefined
+  }
+
   /**
    * If we have more connections than our maximum, select some excess connections
-   * to prune based on peer value
+   * to prune based on the configured strategies
    */
   async maybePruneConnections (): Promise<void> {
     const connections = this.connectionManager.getConnections()
     const numConnections = connections.length
-    const toPrune = Math.max(numConnections - this.maxConnections, 0)
 
     this.log('checking max connections limit %d/%d', numConnections, this.maxConnections)
-    if (numConnections <= this.maxConnections) {
+    if (numConnections <= this.maxConnections || this.pruning) {
+      return
+    }
+
+    const silenceRemaining = this.lastPrune + this.silencePeriod - Date.now()
+
+    if (silenceRemaining > 0) {
+      this.log('max connections limit exceeded %d/%d but pruned recently, checking again in %dms', numConnections, this.maxConnections, silenceRemaining)
+
+      if (this.pruneTimeout == null) {
+        this.pruneTimeout = setTimeout(() => {
+          this.pruneTimeout = undefined
+          this.maybePruneConnections()
+            .catch(err => {
+              this.log.error(err)
+            })
+        }, silenceRemaining)
+      }
+
       return
     }
 
-    this.log('max connections limit exceeded %d/%d, pruning %d connection(s)', numConnections, this.maxConnections, toPrune)
-    const peerValues = new PeerMap<number>()
+    this.pruning = true
+
+    try {
+      await this.pruneConnections(connections)
+    } finally {
+      this.lastPrune = Date.now()
+      this.pruning = false
+    }
+  }
+
+  private async pruneConnections (connections: Connection[]): Promise<void> {
+    const numConnections = connections.length
+    const toPrune = Math.max(numConnections - this.lowWatermark, 0)
+
+    this.log('max connections limit exceeded %d/%d, pruning %d connection(s) to reach %d', numConnections, this.maxConnections, toPrune, this.lowWatermark)
+    const context: ConnectionPruneContext = {
+      connections,
+      peerValues: new PeerMap(),
+      peers: new PeerMap()
+    }
 
     // work out peer values
     for (const connection of connections) {
       const remotePeer = connection.remotePeer
 
-      if (peerValues.has(remotePeer)) {
+      if (context.peerValues.has(remotePeer)) {
         continue
       }
 
-      peerValues.set(remotePeer, 0)
+      context.peerValues.set(remotePeer, 0)
 
       try {
         const peer = await this.peerStore.get(remotePeer)
+        context.peers.set(remotePeer, peer)
 
         // sum all tag values
-        peerValues.set(remotePeer, [...peer.tags.values()].reduce((acc, curr) => {
+        context.peerValues.set(remotePeer, [...peer.tags.values()].reduce((acc, curr) => {
           return acc + curr.value
         }, 0))
       } catch (err: any) {
@@ -90,57 +230,31 @@ export class ConnectionPruner {
       }
     }
 
-    // sort by value, lowest to highest
-    const sortedConnections = connections.sort((a, b) => {
-      const peerAValue = peerValues.get(a.remotePeer) ?? 0
-      const peerBValue = peerValues.get(b.remotePeer) ?? 0
+    // select connections to close one at a time since the decisions of some
+    // strategies depend on which connections will remain open
+    const toClose: PrunedConnection[] = []
 
-      if (peerAValue > peerBValue) {
-        return 1
-      }
-
-      if (peerAValue < peerBValue) {
-        return -1
-      }
-
-      // if the peers have an equal tag value then we want to close short-lived connections first
-      const connectionALifespan = a.timeline.open
-      const connectionBLifespan = b.timeline.open
-
-      if (connectionALifespan < connectionBLifespan) {
-        return 1
-      }
+    while (toClose.length < toPrune) {
+      const candidates = context.connections.filter(connection => this.isPrunable(connection, context))
 
-      if (connectionALifespan > connectionBLifespan) {
-        return -1
+      if (candidates.length === 0) {
+        this.log('no more connections can be pruned')
+        break
       }
 
-      return 0
-    })
-
-    // close some connections
-    const toClose = []
-
-    for (const connection of sortedConnections) {
-      this.log('too many connections open - closing a connection to %p', connection.remotePeer)
-      // check allow list
-      const connectionInAllowList = this.allow.some((ma) => {
-        return connection.remoteAddr.toString().startsWith(ma.toString())
-      })
+      candidates.sort((a, b) => this.compare(a, b, context).result)
 
-      // Connections in the allow list should be excluded from pruning
-      if (!connectionInAllowList) {
-        toClose.push(connection)
-      }
+      const [connection, ...rest] = candidates
+      const reason = this.getReason(connection, rest, context)
 
-      if (toClose.length === toPrune) {
-        break
-      }
+      this.log('too many connections open - closing a connection to %p, reason %s', connection.remotePeer, reason)
+      toClose.push({ connection, reason })
+      context.connections = context.connections.filter(conn => conn !== connection)
     }
 
     // close connections
     await Promise.all(
-      toClose.map(async connection => {
+      toClose.map(async ({ connection }) => {
         try {
           await connection.close()
         } catch (err) {
@@ -150,6 +264,46 @@ export class ConnectionPruner {
     )
 
     // despatch prune event
-    this.events.safeDispatchEvent('connection:prune', { detail: toClose })
+    this.events.safeDispatchEvent('connection:prune', { detail: toClose.map(({ connection }) => connection) })
+    this.events.safeDispatchEvent('connection:prune:reasons', { detail: toClose })
+  }
+
+  private isPrunable (connection: Connection, context: ConnectionPruneContext): boolean {
+    // Connections in the allow list should be excluded from pruning
+    const connectionInAllowList = this.allow.some((ma) => {
+      return connection.remoteAddr.toString().startsWith(ma.toString())
+    })
+
+    if (connectionInAllowList) {
+      return false
+    }
+
+    return this.strategies.every(strategy => strategy.shouldKeep?.(connection, context) !== true)
+  }
+
+  private compare (a: Connection, b: Connection, context: ConnectionPruneContext): { result: number, index: number } {
+    for (let index = 0; index < this.strategies.length; index++) {
+      const result = this.strategies[index].compare?.(a, b, context) ?? 0
+
+      if (result !== 0) {
+        return { result, index }
+      }
+    }
+
+    return { result: 0, index: this.strategies.length - 1 }
+  }
+
+  /**
+   * The reason a connection was selected is the first strategy that ranked it
+   * ahead of any of the other candidates
+   */
+  private getReason (connection: Connection, others: Connection[], context: ConnectionPruneContext): string {
+    let index = this.strategies.length - 1
+
+    for (const other of others) {
+      index = Math.min(index, this.compare(connection, other, context).index)
+    }
+
+    return this.strategies[index].name
   }
 }
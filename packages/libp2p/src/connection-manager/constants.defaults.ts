@@ -48,6 +48,56 @@ export const INBOUND_CONNECTION_THRESHOLD = 5
  */
 export const MAX_INCOMING_PENDING_CONNECTIONS = 10
 
+/**
+ * @see https://libp2p.github.io/js-libp2p/interfaces/libp2p.index.unknown.ConnectionManagerInit.html#dialStagger
+ */
+export const DIAL_STAGGER_DELAY = 250
+
+/**
+ * @see https://libp2p.github.io/js-libp2p/interfaces/libp2p.index.unknown.ConnectionManagerInit.html#dialStagger
+ */
+export const MAX_PARALLEL_DIALS_PER_PEER = 4
+
+/**
+ * @see https://libp2p.github.io/js-libp2p/interfaces/libp2p.index.unknown.ConnectionManagerInit.html#dialStagger
+ */
+export const RELAYED_DIAL_STAGGER_DELAY = 500
+
+/**
+ * @see https://libp2p.github.io/js-libp2p/interfaces/libp2p.index.unknown.ConnectionManagerInit.html#pruneStrategies
+ */
+export const PRUNE_GRACE_PERIOD = 20000
+
+/**
+ * @see https://libp2p.github.io/js-libp2p/interfaces/libp2p.index.unknown.ConnectionManagerInit.html#pruneSilencePeriod
+ */
+export const PRUNE_SILENCE_PERIOD = 0
+
+/**
+ * @see https://libp2p.github.io/js-libp2p/interfaces/libp2p.index.unknown.ConnectionManagerInit.html#dialBackoffBase
+ */
+export const DIAL_BACKOFF_BASE = 5000
+
+/**
+ * @see https://libp2p.github.io/js-libp2p/interfaces/libp2p.index.unknown.ConnectionManagerInit.html#dialBackoffMax
+ */
+export const DIAL_BACKOFF_MAX = 1000 * 60 * 60
+
+/**
+ * @see https://libp2p.github.io/js-libp2p/interfaces/libp2p.index.unknown.ConnectionManagerInit.html#dialFailureHalfLife
+ */
+export const DIAL_FAILURE_HALF_LIFE = 1000 * 60 * 10
+
+/**
+ * @see https://libp2p.github.io/js-libp2p/interfaces/libp2p.index.unknown.ConnectionManagerInit.html#drainCheckInterval
+ */
+export const DRAIN_CHECK_INTERVAL = 1000
+
+/**
+ * @see https://libp2p.github.io/js-libp2p/interfaces/libp2p.index.unknown.ConnectionManagerInit.html#drainTimeout
+ */
+export const DRAIN_TIMEOUT = 1000 * 60 * 5
+
 /**
  * Store as part of the peer store metadata for a given peer, the value for this
  * key is a timestamp of the last time a dial attempted failed with the relevant
@@ -57,3 +107,12 @@ export const MAX_INCOMING_PENDING_CONNECTIONS = 10
  * failed to dial.
  */
 export const LAST_DIAL_FAILURE_KEY = 'last-dial-failure'
+
+/**
+ * Stored as part of the peer store metadata for a given peer, the value for
+ * this key is a JSON encoded record of the outcome of previous dials to each
+ * of the peer's addresses.
+ *
+ * Used to back off from and deprioritise addresses that keep failing.
+ */
+export const DIAL_HISTORY_KEY = 'dial-history'
@@ -0,0 +1,305 @@
+import { ERR_TIMEOUT } from '@libp2p/interface'
+import { PeerMap } from '@libp2p/peer-collections'
+import { multiaddr, type Multiaddr } from '@multiformats/multiaddr'
+import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+import { toString as uint8ArrayToString } from 'uint8arrays/to-string'
+import { codes } from '../errors.js'
+import { DIAL_BACKOFF_BASE, DIAL_BACKOFF_MAX, DIAL_FAILURE_HALF_LIFE, DIAL_HISTORY_KEY, LAST_DIAL_FAILURE_KEY } from './constants.js'
+import type { AddressDialHistory, Logger, Peer, PeerId, PeerStore } from '@libp2p/interface'
+
+export interface DialHistoryInit {
+  /**
+   * How long in ms to wait before dialling an address again after it has
+   * failed once. Each subsequent failure doubles the wait. (default: 5000)
+   */
+  backoffBase?: number
+
+  /**
+   * The maximum amount of time in ms to wait before dialling a failing
+   * address again. (default: 1 hour)
+   */
+  backoffMax?: number
+
+  /**
+   * The number of failures recorded for an address is halved every this many
+   * ms when deciding which addresses to dial first. (default: 10 minutes)
+   */
+  failureHalfLife?: number
+}
+
+export interface DialHistoryComponents {
+  peerStore: PeerStore
+}
+
+/**
+ * The persisted form of an address dial history entry
+ */
+interface DialHistoryEntry {
+  failures: number
+  lastFailure?: number
+  lastErrorCode?: string
+  lastSuccess?: number
+}
+
+/**
+ * Records the outcome of dials to each address of a peer in the peer store
+ * metadata and uses it to back off from addresses that keep failing
+ */
+export class DialHistory {
+  private readonly peerStore: PeerStore
+  private readonly backoffBase: number
+  private readonly backoffMax: number
+  private readonly failureHalfLife: number
+  private readonly log: Logger
+  private readonly updates: PeerMap<Promise<void>>
+
+  constructor (components: DialHistoryComponents, init: DialHistoryInit & { log: Logger }) {
+    this.peerStore = components.peerStore
+    this.backoffBase = init.backoffBase ?? DIAL_BACKOFF_BASE
+    this.backoffMax = init.backoffMax ?? DIAL_BACKOFF_MAX
+    this.failureHalfLife = init.failureHalfLife ?? DIAL_FAILURE_HALF_LIFE
+    this.log = init.log
+    this.updates = new PeerMap()
+  }
+
+  /**
+   * Returns the dial history for each address of the passed peer that has been
+   * dialled
+   */
+  async get (peerId: PeerId): Promise<AddressDialHistory[]> {
+    const entries = await this.load(peerId)
+
+    return [...entries.entries()].map(([addr, entry]) => this.toAddressDialHistory(addr, entry))
+  }
+
+  /**
+   * Returns the dial history for the passed peer as a map of multiaddr string
+   * to history
+   */
+  async getMap (peerId: PeerId): Promise<Map<string, AddressDialHistory>> {
+    const entries = await this.load(peerId)
+    const output = new Map<string, AddressDialHistory>()
+
+    for (const [addr, entry] of entries) {
+      output.set(addr, this.toAddressDialHistory(addr, entry))
+    }
+
+    return output
+  }
+
+  /**
+   * Returns true if every address of the passed peer that has a dial history
+   * is in its backoff period and there are no addresses that have not been
+   * dialled
+   */
+  isBackedOff (peer: Peer, now: number = Date.now()): boolean {
+    const entries = decodeDialHistory(peer)
+
+    if (peer.addresses.length === 0 || entries.size === 0) {
+      return false
+    }
+
+    return peer.addresses.every(({ multiaddr }) => {
+      const entry = entries.get(multiaddr.encapsulate(`/p2p/${peer.id}`).toString()) ?? entries.get(multiaddr.toString())
+
+      if (entry == null) {
+        return false
+      }
+
+      return (this.getBackoffUntil(entry) ?? 0) > now
+    })
+  }
+
+  /**
+   * Records a failed dial to the address. Dials that were aborted or timed out
+   * say nothing about whether the address works so they are ignored.
+   */
+  async recordFailure (peerId: PeerId, ma: Multiaddr, err: any): Promise<void> {
+    if (isAbortError(err)) {
+      return
+    }
+
+    const now = Date.now()
+
+    await this.update(peerId, ma, (entry) => ({
+      ...entry,
+      failures: entry.failures + 1,
+      lastFailure: now,
+      lastErrorCode: err?.code ?? err?.name
+    }), {
+      // kept for compatibility with code that reads the last failure
+      [LAST_DIAL_FAILURE_KEY]: uint8ArrayFromString(now.toString())
+    })
+  }
+
+  /**
+   * Records a successful dial to the address. The peer store is only written
+   * to if the address had failed or had never been dialled successfully.
+   */
+  async recordSuccess (peerId: PeerId, ma: Multiaddr): Promise<void> {
+    await this.update(peerId, ma, (entry) => {
+      if (entry.failures === 0 && entry.lastSuccess != null) {
+        return
+      }
+
+      return {
+        ...entry,
+        failures: 0,
+        lastSuccess: Date.now()
+      }
+    })
+  }
+
+  /**
+   * Sort addresses so that those which failed recently come after those that
+   * have not, preserving the existing order otherwise. Addresses that have
+   * failed more times are sorted after those that have failed fewer times, the
+   * failures are halved every `failureHalfLife` ms so old failures stop
+   * overriding the existing order.
+   */
+  sort <T extends { multiaddr: Multiaddr }> (addrs: T[], history: Map<string, AddressDialHistory>, now: number = Date.now()): T[] {
+    const score = (addr: T): number => {
+      const entry = history.get(addr.multiaddr.toString())
+
+      if (entry == null || entry.failures === 0 || entry.lastFailure == null) {
+        return 0
+      }
+
+      return Math.round(entry.failures * Math.pow(0.5, Math.max(0, now - entry.lastFailure) / this.failureHalfLife))
+    }
+
+    return addrs.sort((a, b) => score(a) - score(b))
+  }
+
+  private getBackoffUntil (entry: DialHistoryEntry): number | undefined {
+    if (entry.failures === 0 || entry.lastFailure == null) {
+      return
+    }
+
+    const backoff = Math.min(this.backoffBase * Math.pow(2, entry.failures - 1), this.backoffMax)
+
+    return entry.lastFailure + backoff
+  }
+
+  private toAddressDialHistory (addr: string, entry: DialHistoryEntry): AddressDialHistory {
+    const history: AddressDialHistory = {
+      multiaddr: multiaddr(addr),
+      ...entry
+    }
+    const backoffUntil = this.getBackoffUntil(entry)
+
+    if (backoffUntil != null) {
+      history.backoffUntil = backoffUntil
+    }
+
+    return history
+  }
+
+  private async load (peerId: PeerId): Promise<Map<string, DialHistoryEntry>> {
+    const peer = await this.loadPeer(peerId)
+
+    return peer == null ? new Map() : decodeDialHistory(peer)
+  }
+
+  private async loadPeer (peerId: PeerId): Promise<Peer | undefined> {
+    try {
+      return await this.peerStore.get(peerId)
+    } catch (err: any) {
+      // the history is advisory so failing to load it should not fail a dial
+      if (err.code !== codes.ERR_NOT_FOUND) {
+        this.log.error('could not load dial history for %p', peerId, err)
+      }
+    }
+  }
+
+  /**
+   * Removes entries for addresses the peer no longer advertises or that have
+   * not been dialled for longer than the maximum backoff, apart from the entry
+   * for the address that is being updated
+   */
+  private prune (peer: Peer | undefined, entries: Map<string, DialHistoryEntry>, key: string, now: number): void {
+    const advertised = new Set<string>()
+
+    if (peer != null) {
+      for (const { multiaddr } of peer.addresses) {
+        advertised.add(multiaddr.toString())
+        advertised.add(multiaddr.encapsulate(`/p2p/${peer.id}`).toString())
+      }
+    }
+
+    for (const [addr, entry] of entries) {
+      if (addr === key) {
+        continue
+      }
+
+      const lastActivity = Math.max(entry.lastFailure ?? 0, entry.lastSuccess ?? 0)
+
+      if (!advertised.has(addr) || lastActivity + this.backoffMax < now) {
+        entries.delete(addr)
+      }
+    }
+  }
+
+  /**
+   * Updates to a peer's history are applied one at a time so concurrent dials
+   * to several addresses of the same peer do not overwrite each other
+   */
+  private async update (peerId: PeerId, ma: Multiaddr, fn: (entry: DialHistoryEntry) => DialHistoryEntry | undefined, metadata: Record<string, Uint8Array> = {}): Promise<void> {
+    const previous = this.updates.get(peerId) ?? Promise.resolve()
+    const next = previous.then(async () => {
+      const peer = await this.loadPeer(peerId)
+      const entries = peer == null ? new Map<string, DialHistoryEntry>() : decodeDialHistory(peer)
+      const key = ma.toString()
+      const entry = fn(entries.get(key) ?? { failures: 0 })
+
+      // nothing changed
+      if (entry == null) {
+        return
+      }
+
+      entries.set(key, entry)
+      this.prune(peer, entries, key, Date.now())
+
+      await this.peerStore.merge(peerId, {
+        metadata: {
+          ...metadata,
+          [DIAL_HISTORY_KEY]: encodeDialHistory(entries)
+        }
+      })
+    })
+      .catch(err => {
+        this.log.error('could not update dial history for %p', peerId, err)
+      })
+      .finally(() => {
+        if (this.updates.get(peerId) === next) {
+          this.updates.delete(peerId)
+        }
+      })
+
+    this.updates.set(peerId, next)
+
+    await next
+  }
+}
+
+function isAbortError (err: any): boolean {
+  return err?.name === 'AbortError' || err?.code === 'ABORT_ERR' || err?.code === ERR_TIMEOUT || err?.code === codes.ERR_ALREADY_ABORTED
+}
+
+function decodeDialHistory (peer: Peer): Map<string, DialHistoryEntry> {
+  const buf = peer.metadata.get(DIAL_HISTORY_KEY)
+
+  if (buf == null) {
+    return new Map()
+  }
+
+  try {
+    return new Map(Object.entries(JSON.parse(uint8ArrayToString(buf))))
+  } catch {
+    return new Map()
+  }
+}
+
+function encodeDialHistory (entries: Map<string, DialHistoryEntry>): Uint8Array {
+  return uint8ArrayFromString(JSON.stringify(Object.fromEntries(entries)))
+}
@@ -1,4 +1,3 @@
-/* eslint-disable max-depth */
 import { CodeError, AggregateCodeError, ERR_TIMEOUT, setMaxListeners } from '@libp2p/interface'
 import { PeerMap } from '@libp2p/peer-collections'
 import { defaultAddressSort } from '@libp2p/utils/address-sort'
@@ -6,15 +5,15 @@ import { Queue, type QueueAddOptions } from '@libp2p/utils/queue'
 import { type Multiaddr, type Resolver, resolvers, multiaddr } from '@multiformats/multiaddr'
 import { dnsaddrResolver } from '@multiformats/multiaddr/resolvers'
 import { type ClearableSignal, anySignal } from 'any-signal'
-import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
 import { codes } from '../errors.js'
 import { getPeerAddress } from '../get-peer.js'
 import {
   DIAL_TIMEOUT,
   MAX_PARALLEL_DIALS,
-  MAX_PEER_ADDRS_TO_DIAL,
-  LAST_DIAL_FAILURE_KEY
+  MAX_PEER_ADDRS_TO_DIAL
 } from './constants.js'
+import { DialHistory, type DialHistoryInit } from './dial-history.js'
+import { DialStagger, type DialStaggerInit } from './dial-stagger.js'
 import { resolveMultiaddrs } from './utils.js'
 import type { AddressSorter, AbortOptions, ComponentLogger, Logger, Connection, ConnectionGater, Metrics, PeerId, Address, PeerStore, PeerRouting } from '@libp2p/interface'
 import type { TransportManager } from '@libp2p/interface-internal'
@@ -28,11 +27,16 @@ export interface PendingDialTarget {
 export interface DialOptions extends AbortOptions {
   priority?: number
   force?: boolean
+  simultaneousConnect?: boolean
+  backoff?: boolean
 }
 
 interface DialQueueJobOptions extends QueueAddOptions {
   peerId?: PeerId
   multiaddrs: Set<string>
+  force?: boolean
+  simultaneousConnect?: boolean
+  backoff?: boolean
 }
 
 interface DialerInit {
@@ -42,6 +46,8 @@ interface DialerInit {
   dialTimeout?: number
   resolvers?: Record<string, Resolver>
   connections?: PeerMap<Connection[]>
+  dialStagger?: DialStaggerInit | false
+  dialHistory?: DialHistoryInit
 }
 
 const defaultOptions = {
@@ -67,10 +73,12 @@ interface DialQueueComponents {
 
 export class DialQueue {
   public queue: Queue<Connection, DialQueueJobOptions>
+  public readonly dialHistory: DialHistory
   private readonly components: DialQueueComponents
   private readonly addressSorter: AddressSorter
   private readonly maxPeerAddrsToDial: number
   private readonly dialTimeout: number
+  private readonly dialStagger: DialStagger
   private shutDownController: AbortController
   private readonly connections: PeerMap<Connection[]>
   private readonly log: Logger
@@ -79,9 +87,14 @@ export class DialQueue {
     this.addressSorter = init.addressSorter ?? defaultOptions.addressSorter
     this.maxPeerAddrsToDial = init.maxPeerAddrsToDial ?? defaultOptions.maxPeerAddrsToDial
     this.dialTimeout = init.dialTimeout ?? defaultOptions.dialTimeout
+    this.dialStagger = new DialStagger(init.dialStagger)
     this.connections = init.connections ?? new PeerMap()
     this.log = components.logger.forComponent('libp2p:connection-manager:dial-queue')
     this.components = components
+    this.dialHistory = new DialHistory(components, {
+      ...init.dialHistory,
+      log: this.log
+    })
 
     this.shutDownController = new AbortController()
     setMaxListeners(Infinity, this.shutDownController.signal)
@@ -124,8 +137,10 @@ export class DialQueue {
    * Where a list of multiaddrs is passed, if any contain a peer id then all
    * multiaddrs in the list must contain the same peer id.
    *
-   * The dial to the first address that is successfully able to upgrade a
-   * connection will be used, all other dials will be aborted when that happens.
+   * Addresses are dialled in order but a dial does not wait for the previous
+   * one to fail, instead it starts after a short delay. The dial to the first
+   * address that is successfully able to upgrade a connection will be used,
+   * all other dials will be aborted when that happens.
    */
   async dial (peerIdOrMultiaddr: PeerId | Multiaddr | Multiaddr[], options: DialOptions = {}): Promise<Connection> {
     const { peerId, multiaddrs } = getPeerAddress(peerIdOrMultiaddr)
@@ -210,66 +225,166 @@ export class DialQueue {
       }
 
       try {
-        let dialed = 0
-        const errors: Error[] = []
+        return await this.dialAddresses(peerId, addrsToDial, {
+          ...options,
+          signal
+        })
+      } finally {
+        // clean up abort signals/controllers
+        signal.clear()
+      }
+    }, {
+      peerId,
+      priority: options.priority,
+      multiaddrs: new Set(multiaddrs.map(ma => ma.toString())),
+      force: options.force,
+      simultaneousConnect: options.simultaneousConnect,
+      backoff: options.backoff,
+      signal: options.signal
+    })
+  }
 
-        for (const address of addrsToDial) {
-          if (dialed === this.maxPeerAddrsToDial) {
-            this.log('dialed maxPeerAddrsToDial (%d) addresses for %p, not trying any others', dialed, peerId)
+  /**
+   * Dials the passed addresses in order, staggering the start of each dial so
+   * that a slow or dead address does not hold up the rest. The first dial that
+   * results in an upgraded connection wins and all other dials are aborted.
+   *
+   * @see https://datatracker.ietf.org/doc/html/rfc8305
+   */
+  private async dialAddresses (peerId: PeerId | undefined, addrs: Address[], options: AbortOptions & { signal: AbortSignal }): Promise<Connection> {
+    const addrsToDial = addrs.slice(0, this.maxPeerAddrsToDial)
+    const errors: Error[] = []
+    const controllers = new Set<AbortController>()
+    let next = 0
+    let pending = 0
+    let settled = false
+    let timeout: ReturnType<typeof setTimeout> | undefined
+
+    return new Promise<Connection>((resolve, reject) => {
+      const settle = (err?: Error, conn?: Connection): void => {
+        settled = true
+        clearTimeout(timeout)
+
+        // abort any dials that are still in progress
+        for (const controller of controllers) {
+          controller.abort()
+        }
 
-            throw new CodeError('Peer had more than maxPeerAddrsToDial', codes.ERR_TOO_MANY_ADDRESSES)
-          }
+        if (conn != null) {
+          resolve(conn)
+        } else {
+          reject(err)
+        }
+      }
+
+      const onAllFailed = (): void => {
+        if (addrs.length > addrsToDial.length) {
+          this.log('dialed maxPeerAddrsToDial (%d) addresses for %p, not trying any others', addrsToDial.length, peerId)
+          settle(new CodeError('Peer had more than maxPeerAddrsToDial', codes.ERR_TOO_MANY_ADDRESSES))
+          return
+        }
+
+        if (errors.length === 1) {
+          settle(errors[0])
+          return
+        }
 
-          dialed++
+        settle(new AggregateCodeError(errors, 'All multiaddr dials failed', codes.ERR_TRANSPORT_DIAL_FAILED))
+      }
+
+      const dialNext = (): void => {
+        clearTimeout(timeout)
+
+        if (settled || next === addrsToDial.length || pending === this.dialStagger.maxParallelDialsPerPeer) {
+          return
+        }
+
+        const address = addrsToDial[next]
+        next++
+        pending++
 
-          try {
-            const conn = await this.components.transportManager.dial(address.multiaddr, {
-              ...options,
-              signal
-            })
+        const controller = new AbortController()
+        controllers.add(controller)
+        const signal = anySignal([options.signal, controller.signal])
+        setMaxListeners(Infinity, signal)
+
+        this.log('dialing %a', address.multiaddr)
+
+        this.components.transportManager.dial(address.multiaddr, {
+          ...options,
+          signal
+        })
+          .then(async conn => {
+            pending--
+            // the connection may be bound to the dial signal so it must not be
+            // aborted along with the other dials
+            controllers.delete(controller)
+            signal.clear()
+
+            if (settled) {
+              // another address won the race
+              this.log('dial to %a succeeded after another dial to %p succeeded, closing connection', address.multiaddr, peerId)
+              await conn.close()
+              return
+            }
 
             this.log('dial to %a succeeded', address.multiaddr)
+            settle(undefined, conn)
+
+            void this.dialHistory.recordSuccess(conn.remotePeer, address.multiaddr)
+          }, (err: any) => {
+            pending--
+
+            if (settled) {
+              return
+            }
 
-            return conn
-          } catch (err: any) {
             this.log.error('dial failed to %a', address.multiaddr, err)
 
+            // the user/dial timeout/shutdown controller signal aborted - this
+            // says nothing about the address so it is not recorded
+            if (options.signal.aborted) {
+              settle(new CodeError(err.message, ERR_TIMEOUT))
+              return
+            }
+
+            errors.push(err)
+
             if (peerId != null) {
-              // record the failed dial
-              try {
-                await this.components.peerStore.patch(peerId, {
-                  metadata: {
-                    [LAST_DIAL_FAILURE_KEY]: uint8ArrayFromString(Date.now().toString())
-                  }
+              // record the failed dial without delaying the next address
+              void this.dialHistory.recordFailure(peerId, address.multiaddr, err)
+                .catch(err => {
+                  this.log.error('could not record failed dial to %a', address.multiaddr, err)
                 })
-              } catch (err: any) {
-                this.log.error('could not update last dial failure key for %p', peerId, err)
-              }
             }
 
-            // the user/dial timeout/shutdown controller signal aborted
-            if (signal.aborted) {
-              throw new CodeError(err.message, ERR_TIMEOUT)
+            if (pending === 0 && next === addrsToDial.length) {
+              onAllFailed()
+              return
             }
 
-            errors.push(err)
+            // do not wait for the stagger delay, try the next address now
+            dialNext()
+          })
+          .catch(err => {
+            this.log.error('error while dialing %a', address.multiaddr, err)
+          })
+          .finally(() => {
+            controllers.delete(controller)
+            signal.clear()
+          })
+
+        // schedule the next dial
+        if (next < addrsToDial.length) {
+          const delay = this.dialStagger.getDelay(addrsToDial[next].multiaddr)
+
+          if (isFinite(delay)) {
+            timeout = setTimeout(dialNext, delay)
           }
         }
-
-        if (errors.length === 1) {
-          throw errors[0]
-        }
-
-        throw new AggregateCodeError(errors, 'All multiaddr dials failed', codes.ERR_TRANSPORT_DIAL_FAILED)
-      } finally {
-        // clean up abort signals/controllers
-        signal.clear()
       }
-    }, {
-      peerId,
-      priority: options.priority,
-      multiaddrs: new Set(multiaddrs.map(ma => ma.toString())),
-      signal: options.signal
+
+      dialNext()
     })
   }
 
@@ -435,13 +550,40 @@ export class DialQueue {
       gatedAdrs.push(addr)
     }
 
-    const sortedGatedAddrs = gatedAdrs.sort(this.addressSorter)
+    let sortedGatedAddrs = gatedAdrs.sort(this.addressSorter)
 
     // make sure we actually have some addresses to dial
     if (sortedGatedAddrs.length === 0) {
       throw new CodeError('The connection gater denied all addresses in the dial request', codes.ERR_NO_VALID_ADDRESSES)
     }
 
+    if (peerId != null) {
+      const history = await this.dialHistory.getMap(peerId)
+
+      // skip addresses that have failed recently if the dial asked for it
+      if (options.backoff === true) {
+        const now = Date.now()
+
+        sortedGatedAddrs = sortedGatedAddrs.filter(addr => {
+          const backoffUntil = history.get(addr.multiaddr.toString())?.backoffUntil ?? 0
+
+          if (backoffUntil > now) {
+            this.log('not dialing %a as it is in backoff for another %dms', addr.multiaddr, backoffUntil - now)
+            return false
+          }
+
+          return true
+        })
+
+        if (sortedGatedAddrs.length === 0) {
+          throw new CodeError('All addresses of the peer have failed recently and are in dial backoff', codes.ERR_DIAL_BACKOFF)
+        }
+      }
+
+      // dial addresses that have failed previously last
+      sortedGatedAddrs = this.dialHistory.sort(sortedGatedAddrs, history)
+    }
+
     this.log.trace('addresses for %p before filtering', peerId ?? 'unknown peer', resolvedAddresses.map(({ multiaddr }) => multiaddr.toString()))
     this.log.trace('addresses for %p after filtering', peerId ?? 'unknown peer', sortedGatedAddrs.map(({ multiaddr }) => multiaddr.toString()))
 
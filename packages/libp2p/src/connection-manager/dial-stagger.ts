@@ -0,0 +1,93 @@
+import { DIAL_STAGGER_DELAY, MAX_PARALLEL_DIALS_PER_PEER, RELAYED_DIAL_STAGGER_DELAY } from './constants.js'
+import type { Multiaddr } from '@multiformats/multiaddr'
+
+/**
+ * Controls how long to wait before starting a dial to an address, in the style
+ * of RFC 8305 "Happy Eyeballs" connection attempt delays
+ */
+export interface DialStaggerPolicy {
+  /**
+   * A name for the policy, used in log messages
+   */
+  name: string
+
+  /**
+   * Return true if this policy applies to the passed multiaddr
+   */
+  filter(ma: Multiaddr): boolean
+
+  /**
+   * How long in ms to wait after the previous dial to a peer was started
+   * before starting a dial to an address that matches this policy
+   */
+  delay: number
+}
+
+export interface DialStaggerInit {
+  /**
+   * How long in ms to wait after a dial to one of a peer's addresses has
+   * started before starting a dial to the next address, unless a more specific
+   * policy matches the address. The next dial always starts immediately when
+   * the previous one fails. (default: 250)
+   */
+  delay?: number
+
+  /**
+   * The maximum number of addresses of a single peer that may be dialled in
+   * parallel. (default: 4)
+   */
+  maxParallelDialsPerPeer?: number
+
+  /**
+   * Per-transport staggering policies, the first policy that matches an
+   * address will be used to decide how long to wait before dialling it. By
+   * default relayed addresses are given a longer delay than direct addresses
+   * so a direct connection is preferred where one is possible.
+   */
+  policies?: DialStaggerPolicy[]
+}
+
+/**
+ * The default staggering policies - relayed addresses are delayed so that any
+ * direct addresses have a chance to succeed first
+ */
+export const defaultDialStaggerPolicies: DialStaggerPolicy[] = [{
+  name: 'relayed',
+  filter: (ma) => ma.protoNames().includes('p2p-circuit'),
+  delay: RELAYED_DIAL_STAGGER_DELAY
+}]
+
+export class DialStagger {
+  public readonly maxParallelDialsPerPeer: number
+  private readonly delay: number
+  private readonly policies: DialStaggerPolicy[]
+
+  constructor (init: DialStaggerInit | false = {}) {
+    if (init === false) {
+      // dial addresses one at a time, the next dial starts when the previous
+      // one fails
+      this.maxParallelDialsPerPeer = 1
+      this.delay = Infinity
+      this.policies = []
+      return
+    }
+
+    this.maxParallelDialsPerPeer = init.maxParallelDialsPerPeer ?? MAX_PARALLEL_DIALS_PER_PEER
+    this.delay = init.delay ?? DIAL_STAGGER_DELAY
+    this.policies = init.policies ?? defaultDialStaggerPolicies
+  }
+
+  /**
+   * Returns how long to wait after the previous dial started before starting a
+   * dial to the passed multiaddr
+   */
+  getDelay (ma: Multiaddr): number {
+    for (const policy of this.policies) {
+      if (policy.filter(ma)) {
+        return policy.delay
+      }
+    }
+
+    return this.delay
+  }
+}
@@ -10,8 +10,12 @@ import { AutoDial } from './auto-dial.js'
 import { ConnectionPruner } from './connection-pruner.js'
 import { AUTO_DIAL_CONCURRENCY, AUTO_DIAL_MAX_QUEUE_LENGTH, AUTO_DIAL_PRIORITY, DIAL_TIMEOUT, INBOUND_CONNECTION_THRESHOLD, MAX_CONNECTIONS, MAX_INCOMING_PENDING_CONNECTIONS, MAX_PARALLEL_DIALS, MAX_PEER_ADDRS_TO_DIAL, MIN_CONNECTIONS } from './constants.js'
 import { DialQueue } from './dial-queue.js'
-import type { PendingDial, AddressSorter, Libp2pEvents, AbortOptions, ComponentLogger, Logger, Connection, MultiaddrConnection, ConnectionGater, TypedEventTarget, Metrics, PeerId, Peer, PeerStore, Startable, PendingDialStatus, PeerRouting } from '@libp2p/interface'
-import type { ConnectionManager, OpenConnectionOptions, TransportManager } from '@libp2p/interface-internal'
+import { PreferredConnections } from './preferred-connections.js'
+import type { AutoDialStrategy, AutoDialStrategyComponents } from './auto-dial-strategies.js'
+import type { DialStaggerInit } from './dial-stagger.js'
+import type { ConnectionPruneStrategy, ConnectionPruneStrategyComponents } from './prune-strategies.js'
+import type { AddressDialHistory, PendingDial, AddressSorter, Libp2pEvents, AbortOptions, ComponentLogger, Logger, Connection, ConnectionLimitWarning, MultiaddrConnection, ConnectionGater, TypedEventTarget, Metrics, PeerId, Peer, PeerStore, Startable, PendingDialStatus, PeerRouting } from '@libp2p/interface'
+import type { ConnectionManager, OpenConnectionOptions, Registrar, TransportManager } from '@libp2p/interface-internal'
 import type { JobStatus } from '@libp2p/utils/queue'
 
 const DEFAULT_DIAL_PRIORITY = 50
@@ -23,6 +27,22 @@ export interface ConnectionManagerInit {
    */
   maxConnections?: number
 
+  /**
+   * When the number of open connections exceeds `maxConnections`, connections
+   * are closed until only this many remain. Leaving a gap between the two
+   * prevents connections being opened and closed repeatedly when the number
+   * of connections is close to the limit. Must be between `minConnections`
+   * and `maxConnections`. (default: maxConnections)
+   */
+  lowWatermark?: number
+
+  /**
+   * The minimum amount of time in ms between one round of pruning connections
+   * and the next. If the limit is exceeded during this period the connections
+   * will be pruned once it has elapsed. (default: 0)
+   */
+  pruneSilencePeriod?: number
+
   /**
    * The minimum number of connections below which libp2p will start to dial peers
    * from the peer book. Setting this to 0 effectively disables this behaviour.
@@ -69,6 +89,29 @@ export interface ConnectionManagerInit {
    */
   autoDialDiscoveredPeersDebounce?: number
 
+  /**
+   * When dialling peers from the peer book to keep the number of open
+   * connections above `minConnections`, this strategy decides which peers are
+   * dialled and in which order. By default peers with the highest tag values
+   * are dialled first.
+   *
+   * @example
+   *
+   * ```TypeScript
+   * import { createLibp2p, protocolTarget } from 'libp2p'
+   *
+   * const node = await createLibp2p({
+   *   connectionManager: {
+   *     autoDialStrategy: protocolTarget({
+   *       protocols: ['/my-app/1.0.0'],
+   *       target: 5
+   *     })
+   *   }
+   * })
+   * ```
+   */
+  autoDialStrategy?(components: AutoDialStrategyComponents): AutoDialStrategy
+
   /**
    * Sort the known addresses of a peer before trying to dial, By default public
    * addresses will be dialled before private (e.g. loopback or LAN) addresses.
@@ -94,6 +137,36 @@ export interface ConnectionManagerInit {
    */
   dialTimeout?: number
 
+  /**
+   * When a peer has multiple addresses, start dialling the next address a
+   * short time after the previous dial started instead of waiting for it to
+   * fail, and use whichever connection is upgraded first - see RFC 8305 "Happy
+   * Eyeballs". The delay can be configured per-transport, pass `false` to dial
+   * addresses one at a time.
+   */
+  dialStagger?: DialStaggerInit | false
+
+  /**
+   * When a dial to an address fails, do not auto-dial it again for this many
+   * ms. The wait doubles with each consecutive failure, dials started by the
+   * user are not affected. (default: 5000)
+   */
+  dialBackoffBase?: number
+
+  /**
+   * The longest time in ms to wait before dialling an address that keeps
+   * failing again. (default: 1 hour)
+   */
+  dialBackoffMax?: number
+
+  /**
+   * Addresses that have failed are dialled after those that have not. Old
+   * failures count for less so an address that failed a while ago is not
+   * dialled last forever - the number of failures is halved every this many
+   * ms. (default: 10 minutes)
+   */
+  dialFailureHalfLife?: number
+
   /**
    * When a new inbound connection is opened, the upgrade process (e.g. protect,
    * encrypt, multiplex etc) must complete within this number of ms. (default: 30s)
@@ -111,6 +184,30 @@ export interface ConnectionManagerInit {
    */
   allow?: string[]
 
+  /**
+   * When there are more than `maxConnections` connections open, these
+   * strategies are used to decide which connections to close. They are applied
+   * before the default strategy of closing connections to peers with the
+   * lowest tag values first, and connections in the `allow` list are never
+   * closed.
+   *
+   * @example
+   *
+   * ```TypeScript
+   * import { createLibp2p, gracePeriod, protectedPeers } from 'libp2p'
+   *
+   * const node = await createLibp2p({
+   *   connectionManager: {
+   *     pruneStrategies: [
+   *       protectedPeers({ tags: ['my-tag'] }),
+   *       gracePeriod()
+   *     ]
+   *   }
+   * })
+   * ```
+   */
+  pruneStrategies?: Array<(components: ConnectionPruneStrategyComponents) => ConnectionPruneStrategy>
+
   /**
    * A list of multiaddrs that will never be allowed to open connections to
    * this node under any circumstances
@@ -129,6 +226,34 @@ export interface ConnectionManagerInit {
    * (default: 10)
    */
   maxIncomingPendingConnections?: number
+
+  /**
+   * When a better connection to a peer opens, for example a direct connection
+   * to a peer previously only reachable via a relay, new streams are opened on
+   * the better connection. If this is true, worse connections to the same peer
+   * are closed once their existing streams have closed. (default: true)
+   */
+  drainRedundantConnections?: boolean
+
+  /**
+   * How often in ms to check whether redundant connections have finished
+   * draining. (default: 1000)
+   */
+  drainCheckInterval?: number
+
+  /**
+   * How long in ms to wait for the streams on a redundant connection to close
+   * before closing the connection anyway. (default: 5 minutes)
+   */
+  drainTimeout?: number
+
+  /**
+   * When a connection with limits, such as a relayed connection, is close to
+   * reaching them, try to open another connection to the peer - either a
+   * direct one or a new relayed one - and open new streams on that instead.
+   * (default: true)
+   */
+  replaceLimitedConnections?: boolean
 }
 
 const defaultOptions = {
@@ -148,6 +273,7 @@ export interface DefaultConnectionManagerComponents {
   peerRouting: PeerRouting
   transportManager: TransportManager
   connectionGater: ConnectionGater
+  registrar?: Registrar
   events: TypedEventTarget<Libp2pEvents>
   logger: ComponentLogger
 }
@@ -163,10 +289,13 @@ export class DefaultConnectionManager implements ConnectionManager, Startable {
   private readonly maxIncomingPendingConnections: number
   private incomingPendingConnections: number
   private readonly maxConnections: number
+  private readonly replaceLimitedConnections: boolean
+  private readonly replacing: WeakSet<Connection>
 
   public readonly dialQueue: DialQueue
   public readonly autoDial: AutoDial
   public readonly connectionPruner: ConnectionPruner
+  public readonly preferredConnections: PreferredConnections
   private readonly inboundConnectionRateLimiter: RateLimiter
 
   private readonly peerStore: PeerStore
@@ -182,6 +311,12 @@ export class DefaultConnectionManager implements ConnectionManager, Startable {
       throw new CodeError('Connection Manager maxConnections must be greater than minConnections', codes.ERR_INVALID_PARAMETERS)
     }
 
+    const lowWatermark = init.lowWatermark ?? this.maxConnections
+
+    if (lowWatermark > this.maxConnections || lowWatermark < minConnections) {
+      throw new CodeError('Connection Manager lowWatermark must be between minConnections and maxConnections', codes.ERR_INVALID_PARAMETERS)
+    }
+
     /**
      * Map of connections per peer
      */
@@ -195,8 +330,13 @@ export class DefaultConnectionManager implements ConnectionManager, Startable {
 
     this.onConnect = this.onConnect.bind(this)
     this.onDisconnect = this.onDisconnect.bind(this)
+    this.onConnectionLimitWarning = this.onConnectionLimitWarning.bind(this)
     this.events.addEventListener('connection:open', this.onConnect)
     this.events.addEventListener('connection:close', this.onDisconnect)
+    this.events.addEventListener('connection:limit:warning', this.onConnectionLimitWarning)
+
+    this.replaceLimitedConnections = init.replaceLimitedConnections ?? true
+    this.replacing = new WeakSet()
 
     // allow/deny lists
     this.allow = (init.allow ?? []).map(ma => multiaddr(ma))
@@ -211,6 +351,23 @@ export class DefaultConnectionManager implements ConnectionManager, Startable {
       duration: 1
     })
 
+    this.dialQueue = new DialQueue(components, {
+      addressSorter: init.addressSorter ?? defaultAddressSort,
+      maxParallelDials: init.maxParallelDials ?? MAX_PARALLEL_DIALS,
+      maxPeerAddrsToDial: init.maxPeerAddrsToDial ?? MAX_PEER_ADDRS_TO_DIAL,
+      dialTimeout: init.dialTimeout ?? DIAL_TIMEOUT,
+      resolvers: init.resolvers ?? {
+        dnsaddr: dnsaddrResolver
+      },
+      connections: this.connections,
+      dialStagger: init.dialStagger,
+      dialHistory: {
+        backoffBase: init.dialBackoffBase,
+        backoffMax: init.dialBackoffMax,
+        failureHalfLife: init.dialFailureHalfLife
+      }
+    })
+
     // controls what happens when we don't have enough connections
     this.autoDial = new AutoDial({
       connectionManager: this,
@@ -219,6 +376,8 @@ export class DefaultConnectionManager implements ConnectionManager, Startable {
       logger: components.logger
     }, {
       minConnections,
+      dialHistory: this.dialQueue.dialHistory,
+      strategy: init.autoDialStrategy?.(components),
       autoDialConcurrency: init.autoDialConcurrency ?? defaultOptions.autoDialConcurrency,
       autoDialPriority: init.autoDialPriority ?? defaultOptions.autoDialPriority,
       maxQueueLength: init.autoDialMaxQueueLength ?? defaultOptions.autoDialMaxQueueLength
@@ -232,18 +391,21 @@ export class DefaultConnectionManager implements ConnectionManager, Startable {
       logger: components.logger
     }, {
       maxConnections: this.maxConnections,
-      allow: this.allow
+      lowWatermark,
+      silencePeriod: init.pruneSilencePeriod,
+      allow: this.allow,
+      strategies: (init.pruneStrategies ?? []).map(fn => fn(components))
     })
 
-    this.dialQueue = new DialQueue(components, {
-      addressSorter: init.addressSorter ?? defaultAddressSort,
-      maxParallelDials: init.maxParallelDials ?? MAX_PARALLEL_DIALS,
-      maxPeerAddrsToDial: init.maxPeerAddrsToDial ?? MAX_PEER_ADDRS_TO_DIAL,
-      dialTimeout: init.dialTimeout ?? DIAL_TIMEOUT,
-      resolvers: init.resolvers ?? {
-        dnsaddr: dnsaddrResolver
-      },
-      connections: this.connections
+    // controls which connection to a peer new streams are opened on
+    this.preferredConnections = new PreferredConnections({
+      events: components.events,
+      logger: components.logger
+    }, {
+      connections: this.connections,
+      drainRedundantConnections: init.drainRedundantConnections,
+      drainCheckInterval: init.drainCheckInterval,
+      drainTimeout: init.drainTimeout
     })
   }
 
@@ -373,6 +535,8 @@ export class DefaultConnectionManager implements ConnectionManager, Startable {
   async stop (): Promise<void> {
     this.dialQueue.stop()
     this.autoDial.stop()
+    this.connectionPruner.stop()
+    this.preferredConnections.stop()
 
     // Close all connections we're tracking
     const tasks: Array<Promise<void>> = []
@@ -424,6 +588,8 @@ export class DefaultConnectionManager implements ConnectionManager, Startable {
       this.connections.set(peerId, [connection])
     }
 
+    this.preferredConnections.update(peerId)
+
     // only need to store RSA public keys, all other types are embedded in the peer id
     if (peerId.publicKey != null && peerId.type === 'RSA') {
       await this.peerStore.patch(peerId, {
@@ -457,6 +623,37 @@ export class DefaultConnectionManager implements ConnectionManager, Startable {
       this.connections.delete(peerId)
       this.events.safeDispatchEvent('peer:disconnect', { detail: connection.remotePeer })
     }
+
+    this.preferredConnections.update(peerId)
+  }
+
+  /**
+   * Opens another connection to a peer whose connection is close to its limits
+   * and moves new streams to it
+   */
+  onConnectionLimitWarning (evt: CustomEvent<ConnectionLimitWarning>): void {
+    const { connection } = evt.detail
+
+    if (!this.started || !this.replaceLimitedConnections || connection.status !== 'open' || this.replacing.has(connection)) {
+      return
+    }
+
+    this.replacing.add(connection)
+    this.log('connection to %p on %a is close to its %s limit, opening another connection', connection.remotePeer, connection.remoteAddr, evt.detail.limit)
+
+    this.openConnection(connection.remotePeer, {
+      force: true
+    })
+      .then(replacement => {
+        this.log('replaced connection to %p on %a with %a', connection.remotePeer, connection.remoteAddr, replacement.remoteAddr)
+        this.preferredConnections.retire(connection)
+      })
+      .catch(err => {
+        this.log.error('could not replace connection to %p', connection.remotePeer, err)
+
+        // allow another attempt on the next warning
+        this.replacing.delete(connection)
+      })
   }
 
   getConnections (peerId?: PeerId): Connection[] {
@@ -473,6 +670,10 @@ export class DefaultConnectionManager implements ConnectionManager, Startable {
     return conns
   }
 
+  getPreferredConnection (peerId: PeerId): Connection | undefined {
+    return this.preferredConnections.get(peerId)
+  }
+
   getConnectionsMap (): PeerMap<Connection[]> {
     return this.connections
   }
@@ -488,10 +689,9 @@ export class DefaultConnectionManager implements ConnectionManager, Startable {
 
     if (peerId != null && options.force !== true) {
       this.log('dial %p', peerId)
-      const existingConnection = this.getConnections(peerId)
-        .find(conn => !conn.transient)
+      const existingConnection = this.getPreferredConnection(peerId)
 
-      if (existingConnection != null) {
+      if (existingConnection != null && !existingConnection.transient) {
         this.log('had an existing non-transient connection to %p', peerId)
 
         return existingConnection
@@ -522,6 +722,7 @@ export class DefaultConnectionManager implements ConnectionManager, Startable {
 
     if (!trackedConnection) {
       peerConnections.push(connection)
+      this.preferredConnections.update(connection.remotePeer)
     }
 
     return connection
@@ -594,6 +795,10 @@ export class DefaultConnectionManager implements ConnectionManager, Startable {
     this.incomingPendingConnections--
   }
 
+  async getDialHistory (peerId: PeerId): Promise<AddressDialHistory[]> {
+    return this.dialQueue.dialHistory.get(peerId)
+  }
+
   getDialQueue (): PendingDial[] {
     const statusMap: Record<JobStatus, PendingDialStatus> = {
       queued: 'queued',
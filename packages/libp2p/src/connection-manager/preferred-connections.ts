@@ -0,0 +1,222 @@
+import { PeerMap } from '@libp2p/peer-collections'
+import { DRAIN_CHECK_INTERVAL, DRAIN_TIMEOUT } from './constants.js'
+import type { Libp2pEvents, Logger, ComponentLogger, TypedEventTarget, Connection, PeerId } from '@libp2p/interface'
+
+export interface PreferredConnectionsInit {
+  /**
+   * The connections tracked by the connection manager
+   */
+  connections: PeerMap<Connection[]>
+
+  /**
+   * Close connections that are worse than the preferred connection to the same
+   * peer once they have no open streams
+   */
+  drainRedundantConnections?: boolean
+
+  /**
+   * How often in ms to check whether redundant connections have any open
+   * streams
+   */
+  drainCheckInterval?: number
+
+  /**
+   * How long in ms to wait for the streams of a redundant connection to close
+   * before closing the connection anyway
+   */
+  drainTimeout?: number
+}
+
+interface PreferredConnectionsComponents {
+  events: TypedEventTarget<Libp2pEvents>
+  logger: ComponentLogger
+}
+
+interface DrainingConnection {
+  connection: Connection
+  since: number
+}
+
+export function isRelayed (connection: Connection): boolean {
+  return connection.remoteAddr.protoNames().includes('p2p-circuit')
+}
+
+/**
+ * Sorts connections so the most preferred connection comes first - direct
+ * connections before relayed ones, non-transient connections before transient
+ * ones, then lower round trip times before higher or unknown ones and finally
+ * older connections before newer ones so the preferred connection does not
+ * change needlessly
+ */
+export function compareConnections (a: Connection, b: Connection): number {
+  const relayedA = isRelayed(a)
+  const relayedB = isRelayed(b)
+
+  if (relayedA !== relayedB) {
+    return relayedA ? 1 : -1
+  }
+
+  if (a.transient !== b.transient) {
+    return a.transient ? 1 : -1
+  }
+
+  const rttA = a.rtt ?? Infinity
+  const rttB = b.rtt ?? Infinity
+
+  if (rttA !== rttB) {
+    return rttA < rttB ? -1 : 1
+  }
+
+  return a.timeline.open - b.timeline.open
+}
+
+/**
+ * Returns true if the connection offers nothing over the preferred connection
+ * and so can be closed once it is idle
+ */
+function isRedundant (connection: Connection, preferred: Connection): boolean {
+  return (isRelayed(connection) && !isRelayed(preferred)) || (connection.transient && !preferred.transient)
+}
+
+/**
+ * Keeps track of which connection to each peer new streams should be opened on
+ * and closes connections that have been superseded by a better one once their
+ * streams have finished
+ */
+export class PreferredConnections {
+  private readonly connections: PeerMap<Connection[]>
+  private readonly preferred: PeerMap<Connection>
+  private readonly draining: Map<string, DrainingConnection>
+  private readonly retired: WeakSet<Connection>
+  private readonly drainRedundantConnections: boolean
+  private readonly drainCheckInterval: number
+  private readonly drainTimeout: number
+  private drainCheckTimeout?: ReturnType<typeof setTimeout>
+  private readonly events: TypedEventTarget<Libp2pEvents>
+  private readonly log: Logger
+
+  constructor (components: PreferredConnectionsComponents, init: PreferredConnectionsInit) {
+    this.connections = init.connections
+    this.preferred = new PeerMap()
+    this.draining = new Map()
+    this.retired = new WeakSet()
+    this.drainRedundantConnections = init.drainRedundantConnections ?? true
+    this.drainCheckInterval = init.drainCheckInterval ?? DRAIN_CHECK_INTERVAL
+    this.drainTimeout = init.drainTimeout ?? DRAIN_TIMEOUT
+    this.events = components.events
+    this.log = components.logger.forComponent('libp2p:connection-manager:preferred-connections')
+  }
+
+  stop (): void {
+    clearTimeout(this.drainCheckTimeout)
+    this.drainCheckTimeout = undefined
+    this.preferred.clear()
+    this.draining.clear()
+  }
+
+  /**
+   * Returns the connection new streams to the passed peer should be opened on
+   */
+  get (peerId: PeerId): Connection | undefined {
+    // round trip times can change without any connections opening or closing
+    this.update(peerId)
+
+    return this.preferred.get(peerId)
+  }
+
+  /**
+   * Open new streams on any other connection to the peer in preference to the
+   * passed one and drain it, e.g. because it is about to reach its limits
+   */
+  retire (connection: Connection): void {
+    this.retired.add(connection)
+    this.update(connection.remotePeer)
+  }
+
+  /**
+   * Re-evaluate which connection to the passed peer is preferred, emitting an
+   * event if it has changed
+   */
+  update (peerId: PeerId): void {
+    const connections = (this.connections.get(peerId) ?? [])
+      .filter(conn => conn.status === 'open')
+      .sort((a, b) => {
+        const retiredA = this.retired.has(a)
+        const retiredB = this.retired.has(b)
+
+        if (retiredA !== retiredB) {
+          return retiredA ? 1 : -1
+        }
+
+        return compareConnections(a, b)
+      })
+    const [preferred, ...others] = connections
+    const previous = this.preferred.get(peerId)
+
+    if (preferred == null) {
+      this.preferred.delete(peerId)
+      return
+    }
+
+    this.preferred.set(peerId, preferred)
+
+    if (previous != null && previous.id !== preferred.id) {
+      this.log('preferred connection to %p changed from %a to %a', peerId, previous.remoteAddr, preferred.remoteAddr)
+      this.events.safeDispatchEvent('connection:preferred', { detail: preferred })
+    }
+
+    if (!this.drainRedundantConnections) {
+      return
+    }
+
+    for (const connection of others) {
+      if (this.draining.has(connection.id) || (!this.retired.has(connection) && !isRedundant(connection, preferred))) {
+        continue
+      }
+
+      this.log('draining redundant connection to %p on %a', peerId, connection.remoteAddr)
+      this.draining.set(connection.id, {
+        connection,
+        since: Date.now()
+      })
+    }
+
+    this.scheduleDrainCheck()
+  }
+
+  private scheduleDrainCheck (): void {
+    if (this.drainCheckTimeout != null || this.draining.size === 0) {
+      return
+    }
+
+    this.drainCheckTimeout = setTimeout(() => {
+      this.drainCheckTimeout = undefined
+      this.checkDrainingConnections()
+      this.scheduleDrainCheck()
+    }, this.drainCheckInterval)
+  }
+
+  private checkDrainingConnections (): void {
+    for (const [id, { connection, since }] of this.draining) {
+      if (connection.status !== 'open') {
+        this.draining.delete(id)
+        continue
+      }
+
+      const timedOut = Date.now() - since > this.drainTimeout
+
+      if (connection.streams.length > 0 && !timedOut) {
+        continue
+      }
+
+      this.draining.delete(id)
+      this.log('closing redundant connection to %p on %a%s', connection.remotePeer, connection.remoteAddr, timedOut ? ' after drain timeout' : '')
+
+      connection.close()
+        .catch(err => {
+          this.log.error('error closing redundant connection', err)
+          connection.abort(err)
+        })
+    }
+  }
+}
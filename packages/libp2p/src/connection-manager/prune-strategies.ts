@@ -0,0 +1,161 @@
+import { PRUNE_GRACE_PERIOD } from './constants.js'
+import type { ConnectionPruneStrategy } from './connection-pruner.js'
+import type { ComponentLogger, PeerId } from '@libp2p/interface'
+import type { Registrar } from '@libp2p/interface-internal'
+
+export interface ConnectionPruneStrategyComponents {
+  registrar?: Registrar
+  logger: ComponentLogger
+}
+
+export type { ConnectionPruneStrategy, ConnectionPruneContext } from './connection-pruner.js'
+
+export interface ProtectedPeersInit {
+  /**
+   * Connections to these peers will never be pruned
+   */
+  peers?: PeerId[]
+
+  /**
+   * Connections to peers that have any of these tags in the peer store will
+   * never be pruned
+   */
+  tags?: string[]
+}
+
+/**
+ * Never prune connections to the passed peers or to peers with the passed tags
+ */
+export function protectedPeers (init: ProtectedPeersInit = {}): (components: ConnectionPruneStrategyComponents) => ConnectionPruneStrategy {
+  const peers = init.peers ?? []
+  const tags = init.tags ?? []
+
+  return () => ({
+    name: 'protected-peers',
+    shouldKeep: (connection, context) => {
+      if (peers.some(peerId => peerId.equals(connection.remotePeer))) {
+        return true
+      }
+
+      const peer = context.peers.get(connection.remotePeer)
+
+      return tags.some(tag => peer?.tags.has(tag) === true)
+    }
+  })
+}
+
+export interface GracePeriodInit {
+  /**
+   * How long in ms a new connection is protected from pruning for
+   * (default: 20000)
+   */
+  duration?: number
+}
+
+/**
+ * Do not prune connections that have only just been opened, this gives them
+ * a chance to run identify, be tagged by topologies, etc before their value
+ * is judged
+ */
+export function gracePeriod (init: GracePeriodInit = {}): (components: ConnectionPruneStrategyComponents) => ConnectionPruneStrategy {
+  const duration = init.duration ?? PRUNE_GRACE_PERIOD
+
+  return () => ({
+    name: 'grace-period',
+    shouldKeep: (connection) => {
+      return Date.now() - connection.timeline.open < duration
+    }
+  })
+}
+
+export interface ProtocolDiversityInit {
+  /**
+   * Only consider these protocols - by default all protocols that have a
+   * handler registered with the registrar are considered, or every protocol
+   * if there is no registrar
+   */
+  protocols?: string[]
+}
+
+/**
+ * Never prune the last connection to a peer if no other connected peer
+ * supports a protocol that it does
+ */
+export function protocolDiversity (init: ProtocolDiversityInit = {}): (components: ConnectionPruneStrategyComponents) => ConnectionPruneStrategy {
+  return (components) => ({
+    name: 'protocol-diversity',
+    shouldKeep: (connection, context) => {
+      const remotePeer = connection.remotePeer
+      const peer = context.peers.get(remotePeer)
+
+      if (peer == null) {
+        return false
+      }
+
+      // there are other connections to this peer that will remain open
+      if (context.connections.some(conn => conn !== connection && conn.remotePeer.equals(remotePeer))) {
+        return false
+      }
+
+      // the registrar is read on every prune as handlers can change at runtime
+      const protocols = init.protocols ?? components.registrar?.getProtocols()
+
+      return peer.protocols
+        .filter(protocol => protocols == null || protocols.includes(protocol))
+        .some(protocol => {
+          return !context.connections.some(conn => {
+            if (conn.remotePeer.equals(remotePeer)) {
+              return false
+            }
+
+            return context.peers.get(conn.remotePeer)?.protocols.includes(protocol) === true
+          })
+        })
+    }
+  })
+}
+
+export interface InboundOutboundBalanceInit {
+  /**
+   * The desired proportion of open connections that were opened by remote
+   * peers, between 0 and 1 (default: 0.5)
+   */
+  inboundRatio?: number
+
+  /**
+   * How far the actual proportion of inbound connections may stray from
+   * `inboundRatio` before connections in the over-represented direction are
+   * preferred for pruning (default: 0.1)
+   */
+  tolerance?: number
+}
+
+/**
+ * Prefer to prune connections in whichever direction is over-represented so
+ * the node is not dominated by connections opened by remote peers, or the
+ * other way round
+ */
+export function inboundOutboundBalance (init: InboundOutboundBalanceInit = {}): (components: ConnectionPruneStrategyComponents) => ConnectionPruneStrategy {
+  const inboundRatio = init.inboundRatio ?? 0.5
+  const tolerance = init.tolerance ?? 0.1
+
+  return () => ({
+    name: 'inbound-outbound-balance',
+    compare: (a, b, context) => {
+      if (a.direction === b.direction || context.connections.length === 0) {
+        return 0
+      }
+
+      const inbound = context.connections.filter(conn => conn.direction === 'inbound').length
+      const ratio = inbound / context.connections.length
+
+      if (Math.abs(ratio - inboundRatio) <= tolerance) {
+        return 0
+      }
+
+      const overRepresented = ratio > inboundRatio ? 'inbound' : 'outbound'
+
+      return a.direction === overRepresented ? -1 : 1
+    }
+  })
+}
@@ -1,5 +1,5 @@
 import { connectionSymbol, CodeError, setMaxListeners } from '@libp2p/interface'
-import type { AbortOptions, Logger, ComponentLogger, Direction, Connection, Stream, ConnectionTimeline, ConnectionStatus, NewStreamOptions, PeerId } from '@libp2p/interface'
+import type { AbortOptions, Logger, ComponentLogger, Direction, Connection, ConnectionLimits, Stream, ConnectionTimeline, ConnectionStatus, NewStreamOptions, PeerId } from '@libp2p/interface'
 import type { Multiaddr } from '@multiformats/multiaddr'
 
 const CLOSE_TIMEOUT = 500
@@ -17,6 +17,7 @@ interface ConnectionInit {
   multiplexer?: string
   encryption?: string
   transient?: boolean
+  limits?: ConnectionLimits
   logger: ComponentLogger
 }
 
@@ -46,6 +47,8 @@ export class ConnectionImpl implements Connection {
   public encryption?: string
   public status: ConnectionStatus
   public transient: boolean
+  public limits?: ConnectionLimits
+  public rtt?: number
   public readonly log: Logger
 
   /**
@@ -87,6 +90,7 @@ export class ConnectionImpl implements Connection {
     this.multiplexer = init.multiplexer
     this.encryption = init.encryption
     this.transient = init.transient ?? false
+    this.limits = init.limits
     this.log = init.logger.forComponent(`libp2p:connection:${this.direction}:${this.id}`)
 
     if (this.remoteAddr.getPeerId() == null) {
@@ -14,6 +14,7 @@ export enum codes {
   ERR_NODE_NOT_STARTED = 'ERR_NODE_NOT_STARTED',
   ERR_ALREADY_ABORTED = 'ERR_ALREADY_ABORTED',
   ERR_TOO_MANY_ADDRESSES = 'ERR_TOO_MANY_ADDRESSES',
+  ERR_DIAL_BACKOFF = 'ERR_DIAL_BACKOFF',
   ERR_NO_VALID_ADDRESSES = 'ERR_NO_VALID_ADDRESSES',
   ERR_RELAYED_DIAL = 'ERR_RELAYED_DIAL',
   ERR_DIALED_SELF = 'ERR_DIALED_SELF',
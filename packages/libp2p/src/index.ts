@@ -18,8 +18,9 @@ import { createLibp2pNode } from './libp2p.js'
 import type { AddressManagerInit } from './address-manager/index.js'
 import type { Components } from './components.js'
 import type { ConnectionManagerInit } from './connection-manager/index.js'
+import type { ResourceManagerInit } from './resource-manager/index.js'
 import type { TransportManagerInit } from './transport-manager.js'
-import type { Libp2p, ServiceMap, RecursivePartial, ComponentLogger, NodeInfo, ConnectionProtector, ConnectionEncrypter, ConnectionGater, ContentRouting, Metrics, PeerDiscovery, PeerId, PeerRouting, StreamMuxerFactory, Transport, PrivateKey } from '@libp2p/interface'
+import type { BandwidthLimits, Libp2p, ServiceMap, RecursivePartial, ComponentLogger, NodeInfo, ConnectionProtector, ConnectionEncrypter, ConnectionGater, ContentRouting, Metrics, PeerDiscovery, PeerId, PeerRouting, StreamMuxerFactory, Transport, PrivateKey } from '@libp2p/interface'
 import type { PersistentPeerStoreInit } from '@libp2p/peer-store'
 import type { DNS } from '@multiformats/dns'
 import type { Datastore } from 'interface-datastore'
@@ -57,6 +58,20 @@ export interface Libp2pInit<T extends ServiceMap = { x: Record<string, unknown>
    */
   connectionManager: ConnectionManagerInit
 
+  /**
+   * libp2p Resource Manager configuration - limits the number of connections,
+   * streams and the amount of buffered data at system, transport, service,
+   * protocol and peer scope
+   */
+  resourceManager: ResourceManagerInit
+
+  /**
+   * Limits on the rate data is sent to and read from remote peers, in bytes
+   * per second. These can be changed while the node is running with
+   * `libp2p.setBandwidthLimits`.
+   */
+  bandwidth: BandwidthLimits
+
   /**
    * A connection gater can deny new connections based on user criteria
    */
@@ -135,6 +150,11 @@ export interface Libp2pInit<T extends ServiceMap = { x: Record<string, unknown>
 
 export type { Libp2p }
 
+export { protocolTarget, dhtBucketDiversity, networkDiversity } from './connection-manager/auto-dial-strategies.js'
+export type { AutoDialStrategy, AutoDialContext, AutoDialStrategyComponents, ProtocolTargetInit, DHTBucketDiversityInit, NetworkDiversityInit } from './connection-manager/auto-dial-strategies.js'
+export { protectedPeers, gracePeriod, protocolDiversity, inboundOutboundBalance } from './connection-manager/prune-strategies.js'
+export type { ConnectionPruneStrategy, ConnectionPruneContext, ConnectionPruneStrategyComponents, ProtectedPeersInit, GracePeriodInit, ProtocolDiversityInit, InboundOutboundBalanceInit } from './connection-manager/prune-strategies.js'
+
 export type Libp2pOptions<T extends ServiceMap = Record<string, unknown>> = RecursivePartial<Libp2pInit<T>> & { start?: boolean }
 
 /**
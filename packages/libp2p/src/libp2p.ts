@@ -10,6 +10,7 @@ import { MemoryDatastore } from 'datastore-core/memory'
 import { concat as uint8ArrayConcat } from 'uint8arrays/concat'
 import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
 import { DefaultAddressManager } from './address-manager/index.js'
+import { BandwidthShaper } from './bandwidth-shaper.js'
 import { defaultComponents } from './components.js'
 import { connectionGater } from './config/connection-gater.js'
 import { validateConfig } from './config.js'
@@ -18,12 +19,13 @@ import { CompoundContentRouting } from './content-routing.js'
 import { codes } from './errors.js'
 import { DefaultPeerRouting } from './peer-routing.js'
 import { DefaultRegistrar } from './registrar.js'
+import { DefaultResourceManager } from './resource-manager/index.js'
 import { DefaultTransportManager } from './transport-manager.js'
 import { DefaultUpgrader } from './upgrader.js'
 import * as pkg from './version.js'
 import type { Components } from './components.js'
 import type { Libp2p, Libp2pInit, Libp2pOptions } from './index.js'
-import type { PeerRouting, ContentRouting, Libp2pEvents, PendingDial, ServiceMap, AbortOptions, ComponentLogger, Logger, Connection, NewStreamOptions, Stream, Metrics, PeerId, PeerInfo, PeerStore, Topology, Libp2pStatus } from '@libp2p/interface'
+import type { AddressDialHistory, BandwidthLimits, PeerRouting, ContentRouting, Libp2pEvents, PendingDial, ResourceScopeStat, ServiceMap, AbortOptions, ComponentLogger, Logger, Connection, NewStreamOptions, Stream, Metrics, PeerId, PeerInfo, PeerStore, Topology, Libp2pStatus, NATStatus, Reachability } from '@libp2p/interface'
 import type { StreamHandler, StreamHandlerOptions } from '@libp2p/interface-internal'
 
 export class Libp2pNode<T extends ServiceMap = Record<string, unknown>> extends TypedEventEmitter<Libp2pEvents> implements Libp2p<T> {
@@ -38,6 +40,7 @@ export class Libp2pNode<T extends ServiceMap = Record<string, unknown>> extends
 
   public components: Components
   private readonly log: Logger
+  private readonly bandwidthShaper: BandwidthShaper
 
   constructor (init: Libp2pInit<T>) {
     super()
@@ -106,8 +109,15 @@ export class Libp2pNode<T extends ServiceMap = Record<string, unknown>> extends
       this.configureComponent('connectionProtector', init.connectionProtector(components))
     }
 
+    // Create the Resource Manager
+    this.configureComponent('resourceManager', new DefaultResourceManager(this.components, init.resourceManager))
+
+    // Shape traffic to keep within any bandwidth limits
+    this.bandwidthShaper = new BandwidthShaper(this.components, init.bandwidth)
+
     // Set up the Upgrader
     this.components.upgrader = new DefaultUpgrader(this.components, {
+      bandwidthShaper: this.bandwidthShaper,
       connectionEncryption: (init.connectionEncryption ?? []).map((fn, index) => this.configureComponent(`connection-encryption-${index}`, fn(this.components))),
       muxers: (init.streamMuxers ?? []).map((fn, index) => this.configureComponent(`stream-muxers-${index}`, fn(this.components))),
       inboundUpgradeTimeout: init.connectionManager.inboundUpgradeTimeout
@@ -253,6 +263,22 @@ export class Libp2pNode<T extends ServiceMap = Record<string, unknown>> extends
     return this.components.connectionManager.getDialQueue()
   }
 
+  async getDialHistory (peerId: PeerId): Promise<AddressDialHistory[]> {
+    return this.components.connectionManager.getDialHistory(peerId)
+  }
+
+  getResourceUsage (): ResourceScopeStat[] {
+    return this.components.resourceManager.stat()
+  }
+
+  getBandwidthLimits (): BandwidthLimits {
+    return this.bandwidthShaper.getLimits()
+  }
+
+  setBandwidthLimits (limits: BandwidthLimits): void {
+    this.bandwidthShaper.setLimits(limits)
+  }
+
   getPeers (): PeerId[] {
     const peerSet = new PeerSet()
 
@@ -287,6 +313,14 @@ export class Libp2pNode<T extends ServiceMap = Record<string, unknown>> extends
     return connection.newStream(protocols, options)
   }
 
+  get nat (): NATStatus {
+    return this.components.addressManager.getNATStatus()
+  }
+
+  get reachability (): Reachability {
+    return this.components.addressManager.getNATStatus().reachability
+  }
+
   getMultiaddrs (): Multiaddr[] {
     return this.components.addressManager.getAddresses()
   }
@@ -0,0 +1,205 @@
+import { PeerMap } from '@libp2p/peer-collections'
+import { peerIdFromString } from '@libp2p/peer-id'
+import { DefaultConnectionResourceScope, ResourceAccount, type ScopeManager } from './scope.js'
+import type { ComponentLogger, ConnectionResourceScope, Direction, Logger, Metrics, PeerId, ResourceLimits, ResourceScopeStat } from '@libp2p/interface'
+import type { ResourceManager } from '@libp2p/interface-internal'
+import type { Multiaddr } from '@multiformats/multiaddr'
+
+export interface ResourceManagerInit {
+  /**
+   * Limits applied to the whole node
+   */
+  system?: ResourceLimits
+
+  /**
+   * Limits applied to each transport, e.g. all TCP connections or all
+   * WebSocket connections
+   */
+  transport?: ResourceLimits
+
+  /**
+   * Override the transport limits for specific transports, keyed by transport
+   * name, e.g. `tcp`, `ws`, `webrtc` or `p2p-circuit`
+   */
+  transports?: Record<string, ResourceLimits>
+
+  /**
+   * Limits applied to each remote peer across all connections to that peer
+   */
+  peer?: ResourceLimits
+
+  /**
+   * Limits applied to each connection
+   */
+  connection?: ResourceLimits
+
+  /**
+   * Limits applied to each protocol across all peers
+   */
+  protocol?: ResourceLimits
+
+  /**
+   * Override the protocol limits for specific protocols
+   */
+  protocols?: Record<string, ResourceLimits>
+
+  /**
+   * Limits applied to each service across all of the protocols it handles
+   */
+  service?: ResourceLimits
+
+  /**
+   * Override the service limits for specific services
+   */
+  services?: Record<string, ResourceLimits>
+}
+
+export interface DefaultResourceManagerComponents {
+  metrics?: Metrics
+  logger: ComponentLogger
+}
+
+const defaultLimits: Required<Pick<ResourceManagerInit, 'system' | 'transport' | 'peer' | 'connection' | 'protocol' | 'service'>> = {
+  system: {
+    inboundStreams: 4096,
+    streams: 8192,
+    memory: 1024 * 1024 * 512
+  },
+  transport: {},
+  peer: {
+    inboundStreams: 512,
+    streams: 1024,
+    memory: 1024 * 1024 * 64
+  },
+  connection: {},
+  protocol: {},
+  service: {}
+}
+
+/**
+ * Returns the name of the transport a multiaddr will be dialled or was
+ * received on, e.g. `/ip4/123.123.123.123/tcp/123/ws` returns `ws`
+ */
+export function getTransportName (ma: Multiaddr): string {
+  const names = ma.protoNames()
+
+  if (names.includes('p2p-circuit')) {
+    return 'p2p-circuit'
+  }
+
+  return names.filter(name => name !== 'p2p' && name !== 'certhash').pop() ?? 'unknown'
+}
+
+/**
+ * Enforces hierarchical limits on connections, streams and buffered memory
+ */
+export class DefaultResourceManager implements ResourceManager, ScopeManager {
+  private readonly log: Logger
+  private readonly init: ResourceManagerInit
+  private readonly system: ResourceAccount
+  private readonly transports: Map<string, ResourceAccount>
+  private readonly peers: PeerMap<ResourceAccount>
+  private readonly protocols: Map<string, ResourceAccount>
+  private readonly services: Map<string, ResourceAccount>
+
+  constructor (components: DefaultResourceManagerComponents, init: ResourceManagerInit = {}) {
+    this.log = components.logger.forComponent('libp2p:resource-manager')
+    this.init = init
+    this.system = new ResourceAccount('system', 'system', init.system ?? defaultLimits.system)
+    this.transports = new Map()
+    this.peers = new PeerMap()
+    this.protocols = new Map()
+    this.services = new Map()
+
+    components.metrics?.registerMetricGroup('libp2p_resource_manager_system_usage', {
+      calculate: () => {
+        return { ...this.system.usage }
+      }
+    })
+  }
+
+  openConnection (direction: Direction, remoteAddr: Multiaddr): ConnectionResourceScope {
+    const transportName = getTransportName(remoteAddr)
+    let transport = this.transports.get(transportName)
+
+    if (transport == null) {
+      transport = new ResourceAccount('transport', transportName, this.init.transports?.[transportName] ?? this.init.transport ?? defaultLimits.transport)
+      this.transports.set(transportName, transport)
+    }
+
+    const account = new ResourceAccount('connection', remoteAddr.toString(), this.init.connection ?? defaultLimits.connection)
+
+    try {
+      return new DefaultConnectionResourceScope(this, account, [this.system, transport], direction)
+    } catch (err) {
+      this.log('could not reserve resources for %s connection to %a', direction, remoteAddr, err)
+      this.collect([transport])
+      throw err
+    }
+  }
+
+  stat (): ResourceScopeStat[] {
+    return [
+      this.system,
+      ...this.transports.values(),
+      ...this.services.values(),
+      ...this.protocols.values(),
+      ...this.peers.values()
+    ].map(account => account.stat())
+  }
+
+  getPeerAccount (peerId: PeerId): ResourceAccount {
+    let account = this.peers.get(peerId)
+
+    if (account == null) {
+      account = new ResourceAccount('peer', peerId.toString(), this.init.peer ?? defaultLimits.peer)
+      this.peers.set(peerId, account)
+    }
+
+    return account
+  }
+
+  getProtocolAccount (protocol: string): ResourceAccount {
+    let account = this.protocols.get(protocol)
+
+    if (account == null) {
+      account = new ResourceAccount('protocol', protocol, this.init.protocols?.[protocol] ?? this.init.protocol ?? defaultLimits.protocol)
+      this.protocols.set(protocol, account)
+    }
+
+    return account
+  }
+
+  getServiceAccount (service: string): ResourceAccount {
+    let account = this.services.get(service)
+
+    if (account == null) {
+      account = new ResourceAccount('service', service, this.init.services?.[service] ?? this.init.service ?? defaultLimits.service)
+      this.services.set(service, account)
+    }
+
+    return account
+  }
+
+  /**
+   * Stop tracking any of the passed accounts that no longer have resources
+   * reserved
+   */
+  collect (accounts: ResourceAccount[]): void {
+    for (const account of accounts) {
+      if (!account.isEmpty()) {
+        continue
+      }
+
+      if (account.type === 'transport') {
+        this.transports.delete(account.name)
+      } else if (account.type === 'protocol') {
+        this.protocols.delete(account.name)
+      } else if (account.type === 'service') {
+        this.services.delete(account.name)
+      } else if (account.type === 'peer') {
+        this.peers.delete(peerIdFromString(account.name))
+      }
+    }
+  }
+}
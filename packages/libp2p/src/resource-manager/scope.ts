@@ -0,0 +1,327 @@
+import { CodeError, ERR_RESOURCE_LIMIT_EXCEEDED } from '@libp2p/interface'
+import type { ConnectionResourceScope, Direction, PeerId, ResourceLimits, ResourceScopeStat, ResourceScopeType, ResourceUsage, StreamResourceScope } from '@libp2p/interface'
+
+/**
+ * Holds the current usage and the limits of a single named scope
+ */
+export class ResourceAccount {
+  public readonly type: ResourceScopeType
+  public readonly name: string
+  public readonly limits: ResourceLimits
+  public readonly usage: ResourceUsage
+
+  constructor (type: ResourceScopeType, name: string, limits: ResourceLimits = {}) {
+    this.type = type
+    this.name = name
+    this.limits = limits
+    this.usage = {
+      inboundConnections: 0,
+      outboundConnections: 0,
+      inboundStreams: 0,
+      outboundStreams: 0,
+      memory: 0
+    }
+  }
+
+  /**
+   * Returns the name of the first limit that would be exceeded by adding the
+   * passed usage, or undefined if there is capacity for it
+   */
+  exceeds (delta: Partial<ResourceUsage>): keyof ResourceLimits | undefined {
+    const usage = this.usage
+    const limits = this.limits
+    const inboundConnections = usage.inboundConnections + (delta.inboundConnections ?? 0)
+    const outboundConnections = usage.outboundConnections + (delta.outboundConnections ?? 0)
+    const inboundStreams = usage.inboundStreams + (delta.inboundStreams ?? 0)
+    const outboundStreams = usage.outboundStreams + (delta.outboundStreams ?? 0)
+    const memory = usage.memory + (delta.memory ?? 0)
+
+    if (delta.inboundConnections != null && inboundConnections > (limits.inboundConnections ?? Infinity)) {
+      return 'inboundConnections'
+    }
+
+    if (delta.outboundConnections != null && outboundConnections > (limits.outboundConnections ?? Infinity)) {
+      return 'outboundConnections'
+    }
+
+    if ((delta.inboundConnections != null || delta.outboundConnections != null) && inboundConnections + outboundConnections > (limits.connections ?? Infinity)) {
+      return 'connections'
+    }
+
+    if (delta.inboundStreams != null && inboundStreams > (limits.inboundStreams ?? Infinity)) {
+      return 'inboundStreams'
+    }
+
+    if (delta.outboundStreams != null && outboundStreams > (limits.outboundStreams ?? Infinity)) {
+      return 'outboundStreams'
+    }
+
+    if ((delta.inboundStreams != null || delta.outboundStreams != null) && inboundStreams + outboundStreams > (limits.streams ?? Infinity)) {
+      return 'streams'
+    }
+
+    if (delta.memory != null && memory > (limits.memory ?? Infinity)) {
+      return 'memory'
+    }
+  }
+
+  add (delta: Partial<ResourceUsage>): void {
+    this.usage.inboundConnections += delta.inboundConnections ?? 0
+    this.usage.outboundConnections += delta.outboundConnections ?? 0
+    this.usage.inboundStreams += delta.inboundStreams ?? 0
+    this.usage.outboundStreams += delta.outboundStreams ?? 0
+    this.usage.memory += delta.memory ?? 0
+  }
+
+  remove (delta: Partial<ResourceUsage>): void {
+    this.usage.inboundConnections = Math.max(0, this.usage.inboundConnections - (delta.inboundConnections ?? 0))
+    this.usage.outboundConnections = Math.max(0, this.usage.outboundConnections - (delta.outboundConnections ?? 0))
+    this.usage.inboundStreams = Math.max(0, this.usage.inboundStreams - (delta.inboundStreams ?? 0))
+    this.usage.outboundStreams = Math.max(0, this.usage.outboundStreams - (delta.outboundStreams ?? 0))
+    this.usage.memory = Math.max(0, this.usage.memory - (delta.memory ?? 0))
+  }
+
+  isEmpty (): boolean {
+    return Object.values(this.usage).every(value => value === 0)
+  }
+
+  stat (): ResourceScopeStat {
+    return {
+      type: this.type,
+      name: this.name,
+      usage: { ...this.usage },
+      limits: { ...this.limits }
+    }
+  }
+}
+
+/**
+ * Adds the passed usage to every account, throws without changing any account
+ * if doing so would exceed a limit of any of them
+ */
+export function reserve (accounts: ResourceAccount[], delta: Partial<ResourceUsage>): void {
+  for (const account of accounts) {
+    const limit = account.exceeds(delta)
+
+    if (limit != null) {
+      throw new CodeError(`${account.type} scope "${account.name}" has reached the ${limit} limit of ${account.limits[limit]}`, ERR_RESOURCE_LIMIT_EXCEEDED, {
+        scope: account.type,
+        limit
+      })
+    }
+  }
+
+  for (const account of accounts) {
+    account.add(delta)
+  }
+}
+
+export function release (accounts: ResourceAccount[], delta: Partial<ResourceUsage>): void {
+  for (const account of accounts) {
+    account.remove(delta)
+  }
+}
+
+export interface ScopeManager {
+  getPeerAccount(peerId: PeerId): ResourceAccount
+  getProtocolAccount(protocol: string): ResourceAccount
+  getServiceAccount(service: string): ResourceAccount
+  collect(accounts: ResourceAccount[]): void
+}
+
+export class DefaultConnectionResourceScope implements ConnectionResourceScope {
+  public readonly direction: Direction
+  private readonly manager: ScopeManager
+  private readonly account: ResourceAccount
+  // the system and transport accounts
+  private readonly parents: ResourceAccount[]
+  private peer?: ResourceAccount
+  private readonly streams: Set<DefaultStreamResourceScope>
+  private closed: boolean
+
+  constructor (manager: ScopeManager, account: ResourceAccount, parents: ResourceAccount[], direction: Direction) {
+    this.manager = manager
+    this.account = account
+    this.parents = parents
+    this.direction = direction
+    this.streams = new Set()
+    this.closed = false
+
+    reserve(this.parents, this.connectionUsage())
+  }
+
+  setPeer (peerId: PeerId): void {
+    if (this.peer != null) {
+      return
+    }
+
+    const peer = this.manager.getPeerAccount(peerId)
+
+    try {
+      // move any resources already reserved by this connection into the peer
+      // scope
+      reserve([peer], {
+        ...this.account.usage,
+        ...this.connectionUsage()
+      })
+    } catch (err) {
+      this.manager.collect([peer])
+      throw err
+    }
+
+    this.peer = peer
+  }
+
+  openStream (direction: Direction): StreamResourceScope {
+    if (this.closed) {
+      throw new CodeError('Connection resource scope is closed', ERR_RESOURCE_LIMIT_EXCEEDED)
+    }
+
+    const stream = new DefaultStreamResourceScope(this.manager, this, direction)
+    this.streams.add(stream)
+
+    return stream
+  }
+
+  reserveMemory (bytes: number): void {
+    reserve(this.getAccounts(), { memory: bytes })
+  }
+
+  releaseMemory (bytes: number): void {
+    release(this.getAccounts(), { memory: Math.min(bytes, this.account.usage.memory) })
+  }
+
+  stat (): ResourceScopeStat {
+    return this.account.stat()
+  }
+
+  done (): void {
+    if (this.closed) {
+      return
+    }
+
+    this.closed = true
+
+    for (const stream of this.streams) {
+      stream.done()
+    }
+
+    release(this.getAccounts(), { memory: this.account.usage.memory })
+    release(this.getParentAccounts(), this.connectionUsage())
+    this.manager.collect(this.getParentAccounts())
+  }
+
+  /**
+   * Returns the accounts that streams opened on this connection are counted
+   * against
+   */
+  getStreamAccounts (): ResourceAccount[] {
+    return this.getAccounts()
+  }
+
+  onStreamDone (stream: DefaultStreamResourceScope): void {
+    this.streams.delete(stream)
+  }
+
+  private getAccounts (): ResourceAccount[] {
+    return [this.account, ...this.getParentAccounts()]
+  }
+
+  private getParentAccounts (): ResourceAccount[] {
+    if (this.peer != null) {
+      return [...this.parents, this.peer]
+    }
+
+    return this.parents
+  }
+
+  private connectionUsage (): Partial<ResourceUsage> {
+    return this.direction === 'inbound' ? { inboundConnections: 1 } : { outboundConnections: 1 }
+  }
+}
+
+export class DefaultStreamResourceScope implements StreamResourceScope {
+  public readonly direction: Direction
+  private readonly manager: ScopeManager
+  private readonly connection: DefaultConnectionResourceScope
+  private readonly accounts: ResourceAccount[]
+  private memory: number
+  private closed: boolean
+
+  constructor (manager: ScopeManager, connection: DefaultConnectionResourceScope, direction: Direction) {
+    this.manager = manager
+    this.connection = connection
+    this.direction = direction
+    this.accounts = connection.getStreamAccounts()
+    this.memory = 0
+    this.closed = false
+
+    reserve(this.accounts, this.streamUsage())
+  }
+
+  setProtocol (protocol: string, service?: string): void {
+    const accounts = [this.manager.getProtocolAccount(protocol)]
+
+    if (service != null) {
+      accounts.push(this.manager.getServiceAccount(service))
+    }
+
+    try {
+      reserve(accounts, {
+        ...this.streamUsage(),
+        memory: this.memory
+      })
+    } catch (err) {
+      this.manager.collect(accounts)
+      throw err
+    }
+
+    this.accounts.push(...accounts)
+  }
+
+  reserveMemory (bytes: number): void {
+    reserve(this.accounts, { memory: bytes })
+    this.memory += bytes
+  }
+
+  releaseMemory (bytes: number): void {
+    bytes = Math.min(bytes, this.memory)
+    release(this.accounts, { memory: bytes })
+    this.memory -= bytes
+  }
+
+  stat (): ResourceScopeStat {
+    return {
+      type: 'stream',
+      name: this.direction,
+      usage: {
+        inboundConnections: 0,
+        outboundConnections: 0,
+        inboundStreams: this.direction === 'inbound' ? 1 : 0,
+        outboundStreams: this.direction === 'outbound' ? 1 : 0,
+        memory: this.memory
+      },
+      limits: {}
+    }
+  }
+
+  done (): void {
+    if (this.closed) {
+      return
+    }
+
+    this.closed = true
+
+    release(this.accounts, {
+      ...this.streamUsage(),
+      memory: this.memory
+    })
+    this.memory = 0
+    this.connection.onStreamDone(this)
+    this.manager.collect(this.accounts)
+  }
+
+  private streamUsage (): Partial<ResourceUsage> {
+    return this.direction === 'inbound' ? { inboundStreams: 1 } : { outboundStreams: 1 }
+  }
+}
@@ -5,8 +5,9 @@ import { createConnection } from './connection/index.js'
 import { INBOUND_UPGRADE_TIMEOUT } from './connection-manager/constants.js'
 import { codes } from './errors.js'
 import { DEFAULT_MAX_INBOUND_STREAMS, DEFAULT_MAX_OUTBOUND_STREAMS } from './registrar.js'
-import type { Libp2pEvents, AbortOptions, ComponentLogger, MultiaddrConnection, Connection, Stream, ConnectionProtector, NewStreamOptions, ConnectionEncrypter, SecuredConnection, ConnectionGater, TypedEventTarget, Metrics, PeerId, PeerStore, StreamMuxer, StreamMuxerFactory, Upgrader, UpgraderOptions } from '@libp2p/interface'
-import type { ConnectionManager, Registrar } from '@libp2p/interface-internal'
+import type { BandwidthShaper, ShapedConnection } from './bandwidth-shaper.js'
+import type { Libp2pEvents, AbortOptions, ComponentLogger, MultiaddrConnection, Connection, ConnectionLimits, Stream, ConnectionProtector, NewStreamOptions, ConnectionEncrypter, ConnectionResourceScope, SecuredConnection, SecureConnectionOptions, ConnectionGater, TypedEventTarget, Metrics, PeerId, PeerStore, StreamMuxer, StreamMuxerFactory, StreamPriority, Upgrader, UpgraderOptions } from '@libp2p/interface'
+import type { ConnectionManager, Registrar, ResourceManager } from '@libp2p/interface-internal'
 
 const DEFAULT_PROTOCOL_SELECT_TIMEOUT = 30000
 
@@ -18,6 +19,15 @@ interface CreateConnectionOptions {
   remotePeer: PeerId
   muxerFactory?: StreamMuxerFactory
   transient?: boolean
+  limits?: ConnectionLimits
+  resourceScope?: ConnectionResourceScope
+
+  /**
+   * The direction the stream muxer is created with if it differs from the
+   * direction of the connection, e.g. when the remote acted as the initiator
+   * during a simultaneous connect
+   */
+  muxerDirection?: 'inbound' | 'outbound'
 }
 
 interface OnStreamOptions {
@@ -28,6 +38,15 @@ interface OnStreamOptions {
 
 export interface CryptoResult extends SecuredConnection<MultiaddrConnection> {
   protocol: string
+
+  /**
+   * False if the remote acted as the initiator during a simultaneous connect
+   */
+  initiator?: boolean
+}
+
+export interface EncryptOutboundOptions extends SecureConnectionOptions {
+  simultaneousConnect?: boolean
 }
 
 export interface UpgraderInit {
@@ -39,6 +58,12 @@ export interface UpgraderInit {
    * must complete
    */
   inboundUpgradeTimeout?: number
+
+  /**
+   * If passed, traffic over upgraded connections and their streams is delayed
+   * to keep within the configured bandwidth limits
+   */
+  bandwidthShaper?: BandwidthShaper
 }
 
 function findIncomingStreamLimit (protocol: string, registrar: Registrar): number | undefined {
@@ -71,6 +96,30 @@ function findOutgoingStreamLimit (protocol: string, registrar: Registrar, option
   return options.maxOutboundStreams ?? DEFAULT_MAX_OUTBOUND_STREAMS
 }
 
+function findService (protocol: string, registrar: Registrar): string | undefined {
+  try {
+    const { options } = registrar.getHandler(protocol)
+
+    return options.service
+  } catch (err: any) {
+    if (err.code !== codes.ERR_NO_HANDLER_FOR_PROTOCOL) {
+      throw err
+    }
+  }
+}
+
+function findStreamPriority (protocol: string, registrar: Registrar): StreamPriority | undefined {
+  try {
+    const { options } = registrar.getHandler(protocol)
+
+    return options.priority
+  } catch (err: any) {
+    if (err.code !== codes.ERR_NO_HANDLER_FOR_PROTOCOL) {
+      throw err
+    }
+  }
+}
+
 function countStreams (protocol: string, direction: 'inbound' | 'outbound', connection: Connection): number {
   let streamCount = 0
 
@@ -90,6 +139,7 @@ export interface DefaultUpgraderComponents {
   connectionGater: ConnectionGater
   connectionProtector?: ConnectionProtector
   registrar: Registrar
+  resourceManager: ResourceManager
   peerStore: PeerStore
   events: TypedEventTarget<Libp2pEvents>
   logger: ComponentLogger
@@ -103,6 +153,7 @@ export class DefaultUpgrader implements Upgrader {
   private readonly muxers: Map<string, StreamMuxerFactory>
   private readonly inboundUpgradeTimeout: number
   private readonly events: TypedEventTarget<Libp2pEvents>
+  private readonly bandwidthShaper?: BandwidthShaper
 
   constructor (components: DefaultUpgraderComponents, init: UpgraderInit) {
     this.components = components
@@ -120,6 +171,7 @@ export class DefaultUpgrader implements Upgrader {
 
     this.inboundUpgradeTimeout = init.inboundUpgradeTimeout ?? INBOUND_UPGRADE_TIMEOUT
     this.events = components.events
+    this.bandwidthShaper = init.bandwidthShaper
   }
 
   async shouldBlockConnection (remotePeer: PeerId, maConn: MultiaddrConnection, connectionType: ConnectionDeniedType): Promise<void> {
@@ -146,7 +198,10 @@ export class DefaultUpgrader implements Upgrader {
     let remotePeer
     let upgradedConn: MultiaddrConnection
     let muxerFactory: StreamMuxerFactory | undefined
+    let streamMuxer: string | undefined
     let cryptoProtocol
+    let resourceScope: ConnectionResourceScope | undefined
+    let shapedConn: ShapedConnection | undefined
 
     const signal = AbortSignal.timeout(this.inboundUpgradeTimeout)
 
@@ -163,7 +218,11 @@ export class DefaultUpgrader implements Upgrader {
         throw new CodeError('The multiaddr connection is blocked by gater.acceptConnection', codes.ERR_CONNECTION_INTERCEPTED)
       }
 
+      // reserve resources for the connection before doing any work
+      resourceScope = this.components.resourceManager.openConnection('inbound', maConn.remoteAddr)
+
       this.components.metrics?.trackMultiaddrConnection(maConn)
+      shapedConn = this.bandwidthShaper?.shapeConnection(maConn)
 
       maConn.log('starting the inbound connection upgrade')
 
@@ -186,8 +245,12 @@ export class DefaultUpgrader implements Upgrader {
           ({
             conn: encryptedConn,
             remotePeer,
-            protocol: cryptoProtocol
-          } = await this._encryptInbound(protectedConn))
+            protocol: cryptoProtocol,
+            streamMuxer
+          } = await this._encryptInbound(protectedConn, {
+            streamMuxers: opts?.muxerFactory == null ? [...this.muxers.keys()] : [],
+            signal
+          }))
 
           const maConn: MultiaddrConnection = {
             ...protectedConn,
@@ -211,6 +274,9 @@ export class DefaultUpgrader implements Upgrader {
         upgradedConn = encryptedConn
         if (opts?.muxerFactory != null) {
           muxerFactory = opts.muxerFactory
+        } else if (streamMuxer != null && this.muxers.has(streamMuxer)) {
+          maConn.log('using stream muxer %s agreed during the security handshake', streamMuxer)
+          muxerFactory = this.muxers.get(streamMuxer)
         } else if (this.muxers.size > 0) {
           // Multiplex the connection
           const multiplexed = await this._multiplexInbound({
@@ -227,6 +293,9 @@ export class DefaultUpgrader implements Upgrader {
 
       await this.shouldBlockConnection(remotePeer, maConn, 'denyInboundUpgradedConnection')
 
+      resourceScope?.setPeer(remotePeer)
+      shapedConn?.setPeer(remotePeer)
+
       maConn.log('successfully upgraded inbound connection')
 
       return this._createConnection({
@@ -236,8 +305,14 @@ export class DefaultUpgrader implements Upgrader {
         upgradedConn,
         muxerFactory,
         remotePeer,
-        transient: opts?.transient
+        transient: opts?.transient,
+        limits: opts?.limits,
+        resourceScope
       })
+    } catch (err) {
+      resourceScope?.done()
+
+      throw err
     } finally {
       signal.removeEventListener('abort', onAbort)
 
@@ -258,13 +333,29 @@ export class DefaultUpgrader implements Upgrader {
       await this.shouldBlockConnection(remotePeerId, maConn, 'denyOutboundConnection')
     }
 
+    // reserve resources for the connection before doing any work
+    const resourceScope = this.components.resourceManager.openConnection('outbound', maConn.remoteAddr)
+
+    try {
+      return await this._upgradeOutbound(maConn, remotePeerId, resourceScope, opts)
+    } catch (err) {
+      resourceScope?.done()
+
+      throw err
+    }
+  }
+
+  async _upgradeOutbound (maConn: MultiaddrConnection, remotePeerId?: PeerId, resourceScope?: ConnectionResourceScope, opts?: UpgraderOptions): Promise<Connection> {
     let encryptedConn: MultiaddrConnection
     let remotePeer: PeerId
     let upgradedConn: MultiaddrConnection
     let cryptoProtocol
     let muxerFactory
+    let streamMuxer: string | undefined
+    let initiator: boolean | undefined
 
     this.components.metrics?.trackMultiaddrConnection(maConn)
+    const shapedConn = this.bandwidthShaper?.shapeConnection(maConn)
 
     maConn.log('starting the outbound connection upgrade')
 
@@ -288,8 +379,13 @@ export class DefaultUpgrader implements Upgrader {
         ({
           conn: encryptedConn,
           remotePeer,
-          protocol: cryptoProtocol
-        } = await this._encryptOutbound(protectedConn, remotePeerId))
+          protocol: cryptoProtocol,
+          streamMuxer,
+          initiator
+        } = await this._encryptOutbound(protectedConn, remotePeerId, {
+          streamMuxers: opts?.muxerFactory == null ? [...this.muxers.keys()] : [],
+          simultaneousConnect: opts?.simultaneousConnect
+        }))
 
         const maConn: MultiaddrConnection = {
           ...protectedConn,
@@ -309,9 +405,14 @@ export class DefaultUpgrader implements Upgrader {
       upgradedConn = encryptedConn
       if (opts?.muxerFactory != null) {
         muxerFactory = opts.muxerFactory
+      } else if (streamMuxer != null && this.muxers.has(streamMuxer)) {
+        maConn.log('using stream muxer %s agreed during the security handshake', streamMuxer)
+        muxerFactory = this.muxers.get(streamMuxer)
       } else if (this.muxers.size > 0) {
-        // Multiplex the connection
-        const multiplexed = await this._multiplexOutbound({
+        // Multiplex the connection, if the remote was the initiator during a
+        // simultaneous connect it will select the muxer
+        const multiplex = initiator === false ? this._multiplexInbound.bind(this) : this._multiplexOutbound.bind(this)
+        const multiplexed = await multiplex({
           ...protectedConn,
           ...encryptedConn
         }, this.muxers)
@@ -326,16 +427,22 @@ export class DefaultUpgrader implements Upgrader {
 
     await this.shouldBlockConnection(remotePeer, maConn, 'denyOutboundUpgradedConnection')
 
+    resourceScope?.setPeer(remotePeer)
+    shapedConn?.setPeer(remotePeer)
+
     maConn.log('successfully upgraded outbound connection')
 
     return this._createConnection({
       cryptoProtocol,
       direction: 'outbound',
+      muxerDirection: initiator === false ? 'inbound' : 'outbound',
       maConn,
       upgradedConn,
       muxerFactory,
       remotePeer,
-      transient: opts?.transient
+      transient: opts?.transient,
+      limits: opts?.limits,
+      resourceScope
     })
   }
 
@@ -350,7 +457,10 @@ export class DefaultUpgrader implements Upgrader {
       upgradedConn,
       remotePeer,
       muxerFactory,
-      transient
+      transient,
+      limits,
+      resourceScope,
+      muxerDirection
     } = opts
 
     let muxer: StreamMuxer | undefined
@@ -360,13 +470,26 @@ export class DefaultUpgrader implements Upgrader {
     if (muxerFactory != null) {
       // Create the muxer
       muxer = muxerFactory.createStreamMuxer({
-        direction,
+        direction: muxerDirection ?? direction,
+        resourceScope,
         // Run anytime a remote stream is created
         onIncomingStream: muxedStream => {
           if (connection == null) {
             return
           }
 
+          // muxers that do not reserve resources for their streams are
+          // accounted for here
+          if (resourceScope != null && muxedStream.resourceScope == null) {
+            try {
+              muxedStream.resourceScope = resourceScope.openStream('inbound')
+            } catch (err: any) {
+              connection.log.error('could not reserve resources for incoming stream id %s', muxedStream.id, err)
+              muxedStream.abort(err)
+              return
+            }
+          }
+
           void Promise.resolve()
             .then(async () => {
               const protocols = this.components.registrar.getProtocols()
@@ -381,6 +504,8 @@ export class DefaultUpgrader implements Upgrader {
 
               connection.log('incoming stream opened on %s', protocol)
 
+              muxedStream.resourceScope?.setProtocol(protocol, findService(protocol, this.components.registrar))
+
               const incomingLimit = findIncomingStreamLimit(protocol, this.components.registrar)
               const streamCount = countStreams(protocol, 'inbound', connection)
 
@@ -396,6 +521,7 @@ export class DefaultUpgrader implements Upgrader {
               muxedStream.source = stream.source
               muxedStream.sink = stream.sink
               muxedStream.protocol = protocol
+              muxedStream.priority = findStreamPriority(protocol, this.components.registrar) ?? muxedStream.priority
 
               // allow closing the write end of a not-yet-negotiated stream
               if (stream.closeWrite != null) {
@@ -419,6 +545,7 @@ export class DefaultUpgrader implements Upgrader {
               })
 
               this.components.metrics?.trackProtocolStream(muxedStream, connection)
+              this.bandwidthShaper?.shapeStream(muxedStream, protocol)
 
               this._onStream({ connection, stream: muxedStream, protocol })
             })
@@ -429,6 +556,10 @@ export class DefaultUpgrader implements Upgrader {
                 await muxedStream.close()
               }
             })
+        },
+        // Run anytime a stream ends
+        onStreamEnd: muxedStream => {
+          muxedStream.resourceScope?.done()
         }
       })
 
@@ -438,7 +569,24 @@ export class DefaultUpgrader implements Upgrader {
         }
 
         connection.log('starting new stream for protocols %s', protocols)
+
         const muxedStream = await muxer.newStream()
+
+        // muxers that do not reserve resources for their streams are
+        // accounted for here
+        if (resourceScope != null && muxedStream.resourceScope == null) {
+          try {
+            muxedStream.resourceScope = resourceScope.openStream('outbound')
+          } catch (err: any) {
+            muxedStream.abort(err)
+            throw err
+          }
+        }
+
+        if (options.priority != null) {
+          muxedStream.priority = options.priority
+        }
+
         connection.log.trace('started new stream %s for protocols %s', muxedStream.id, protocols)
 
         try {
@@ -467,6 +615,8 @@ export class DefaultUpgrader implements Upgrader {
 
           muxedStream.log('selected protocol %s', protocol)
 
+          muxedStream.resourceScope?.setProtocol(protocol, findService(protocol, this.components.registrar))
+
           const outgoingLimit = findOutgoingStreamLimit(protocol, this.components.registrar, options)
           const streamCount = countStreams(protocol, 'outbound', connection)
 
@@ -488,6 +638,7 @@ export class DefaultUpgrader implements Upgrader {
           muxedStream.source = stream.source
           muxedStream.sink = stream.sink
           muxedStream.protocol = protocol
+          muxedStream.priority = options.priority ?? findStreamPriority(protocol, this.components.registrar) ?? muxedStream.priority
 
           // allow closing the write end of a not-yet-negotiated stream
           if (stream.closeWrite != null) {
@@ -505,6 +656,7 @@ export class DefaultUpgrader implements Upgrader {
           }
 
           this.components.metrics?.trackProtocolStream(muxedStream, connection)
+          this.bandwidthShaper?.shapeStream(muxedStream, protocol)
 
           return muxedStream
         } catch (err: any) {
@@ -544,6 +696,8 @@ export class DefaultUpgrader implements Upgrader {
             } catch (err: any) {
               connection.log.error('error closing connection after timeline close', err)
             } finally {
+              resourceScope?.done()
+
               this.events.safeDispatchEvent('connection:close', {
                 detail: connection
               })
@@ -572,6 +726,7 @@ export class DefaultUpgrader implements Upgrader {
       multiplexer: muxer?.protocol,
       encryption: cryptoProtocol,
       transient,
+      limits,
       logger: this.components.logger,
       newStream: newStream ?? errConnectionNotMultiplexed,
       getStreams: () => { if (muxer != null) { return muxer.streams } else { return [] } },
@@ -618,9 +773,11 @@ export class DefaultUpgrader implements Upgrader {
   }
 
   /**
-   * Attempts to encrypt the incoming `connection` with the provided `cryptos`
+   * Attempts to encrypt the incoming `connection` with the provided `cryptos`.
+   * If the encrypter supports it a stream muxer from `options.streamMuxers`
+   * may be agreed during the handshake
    */
-  async _encryptInbound (connection: MultiaddrConnection): Promise<CryptoResult> {
+  async _encryptInbound (connection: MultiaddrConnection, options?: SecureConnectionOptions): Promise<CryptoResult> {
     const protocols = Array.from(this.connectionEncryption.keys())
     connection.log('handling inbound crypto protocol selection', protocols)
 
@@ -637,7 +794,7 @@ export class DefaultUpgrader implements Upgrader {
       connection.log('encrypting inbound connection using', protocol)
 
       return {
-        ...await encrypter.secureInbound(this.components.peerId, stream),
+        ...await encrypter.secureInbound(this.components.peerId, stream, undefined, options),
         protocol
       }
     } catch (err: any) {
@@ -648,9 +805,16 @@ export class DefaultUpgrader implements Upgrader {
 
   /**
    * Attempts to encrypt the given `connection` with the provided connection encrypters.
-   * The first `ConnectionEncrypter` module to succeed will be used
+   * The first `ConnectionEncrypter` module to succeed will be used. If it
+   * supports it a stream muxer from `options.streamMuxers` may be agreed
+   * during the handshake.
+   *
+   * If `options.simultaneousConnect` is true and the remote was also dialing
+   * and won the initiator tie-break, the remote selects the encrypter and we
+   * act as the responder during the handshake.
    */
-  async _encryptOutbound (connection: MultiaddrConnection, remotePeerId?: PeerId): Promise<CryptoResult> {
+  async _encryptOutbound (connection: MultiaddrConnection, remotePeerId?: PeerId, options: EncryptOutboundOptions = {}): Promise<CryptoResult> {
+    const { simultaneousConnect, ...secureOptions } = options
     const protocols = Array.from(this.connectionEncryption.keys())
     connection.log('selecting outbound crypto protocol', protocols)
 
@@ -659,10 +823,12 @@ export class DefaultUpgrader implements Upgrader {
 
       const {
         stream,
-        protocol
+        protocol,
+        initiator
       } = await mss.select(connection, protocols, {
         log: connection.log,
-        yieldBytes: true
+        yieldBytes: true,
+        simultaneousConnect
       })
 
       const encrypter = this.connectionEncryption.get(protocol)
@@ -671,11 +837,22 @@ export class DefaultUpgrader implements Upgrader {
         throw new Error(`no crypto module found for ${protocol}`)
       }
 
+      if (initiator === false) {
+        connection.log('remote is the initiator of the simultaneous connect, encrypting connection to %p as the responder using %s', remotePeerId, encrypter)
+
+        return {
+          ...await encrypter.secureInbound(this.components.peerId, stream, remotePeerId, secureOptions),
+          protocol,
+          initiator
+        }
+      }
+
       connection.log('encrypting outbound connection to %p using %s', remotePeerId, encrypter)
 
       return {
-        ...await encrypter.secureOutbound(this.components.peerId, stream, remotePeerId),
-        protocol
+        ...await encrypter.secureOutbound(this.components.peerId, stream, remotePeerId, secureOptions),
+        protocol,
+        initiator
       }
     } catch (err: any) {
       connection.log.error('encrypting outbound connection to %p failed', err)
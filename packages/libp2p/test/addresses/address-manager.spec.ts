@@ -1,11 +1,12 @@
 /* eslint-env mocha */
 
-import { TypedEventEmitter, type TypedEventTarget, type Libp2pEvents, type PeerId, type PeerStore } from '@libp2p/interface'
+import { TypedEventEmitter, type TypedEventTarget, type Libp2pEvents, type NATStatus, type PeerId, type PeerStore, type Reachability } from '@libp2p/interface'
 import { defaultLogger } from '@libp2p/logger'
 import { createEd25519PeerId } from '@libp2p/peer-id-factory'
 import { multiaddr } from '@multiformats/multiaddr'
 import { expect } from 'aegir/chai'
 import delay from 'delay'
+import { pEvent } from 'p-event'
 import Sinon from 'sinon'
 import { type StubbedInstance, stubInterface } from 'sinon-ts'
 import { type AddressFilter, DefaultAddressManager } from '../../src/address-manager/index.js'
@@ -207,8 +208,8 @@ describe('Address Manager', () => {
     expect(am.getObservedAddrs().map(ma => ma.toString())).to.include(ma.toString())
   })
 
-  it('should not add our peer id to path multiaddrs', () => {
-    const ma = '/unix/foo/bar/baz'
+  it('should not announce path multiaddrs', () => {
+    const ma = `/unix/${encodeURIComponent('/foo/bar/baz')}`
     const transportManager = stubInterface<TransportManager>()
     const am = new DefaultAddressManager({
       peerId,
@@ -217,14 +218,223 @@ describe('Address Manager', () => {
       events,
       logger: defaultLogger()
     }, {
-      listen: [ma],
+      listen: [ma, '/ip4/127.0.0.1/tcp/15006'],
       announce: []
     })
 
-    transportManager.getAddrs.returns([multiaddr(ma)])
+    transportManager.getAddrs.returns([multiaddr(ma), multiaddr('/ip4/127.0.0.1/tcp/15006')])
+
+    const addrs = am.getAddresses()
+    expect(addrs.map(ma => ma.toString())).to.deep.equal([
+      `/ip4/127.0.0.1/tcp/15006/p2p/${peerId.toString()}`
+    ])
+  })
+
+  it('should not add path multiaddrs as observed addresses', () => {
+    const am = new DefaultAddressManager({
+      peerId,
+      transportManager: stubInterface<TransportManager>(),
+      peerStore,
+      events,
+      logger: defaultLogger()
+    })
+
+    am.addObservedAddr(multiaddr(`/unix/${encodeURIComponent('/foo/bar/baz')}`))
+
+    expect(am.getObservedAddrs()).to.be.empty()
+  })
+
+  it('should not add our peer id to announced path multiaddrs', () => {
+    const ma = `/unix/${encodeURIComponent('/foo/bar/baz')}`
+    const am = new DefaultAddressManager({
+      peerId,
+      transportManager: stubInterface<TransportManager>(),
+      peerStore,
+      events,
+      logger: defaultLogger()
+    }, {
+      listen: [ma],
+      announce: [ma]
+    })
 
     const addrs = am.getAddresses()
     expect(addrs).to.have.lengthOf(1)
-    expect(addrs[0].toString()).to.not.include(`/p2p/${peerId.toString()}`)
+    expect(addrs[0].toString()).to.equal(ma)
+  })
+
+  it('should score observed addresses', async () => {
+    const am = new DefaultAddressManager({
+      peerId,
+      transportManager: stubInterface<TransportManager>({
+        getAddrs: Sinon.stub().returns([])
+      }),
+      peerStore,
+      events,
+      logger: defaultLogger()
+    }, {
+      observerThreshold: 2
+    })
+
+    const confirmed = multiaddr('/ip4/123.123.123.123/tcp/39201')
+    const observed = multiaddr('/ip4/123.123.123.123/tcp/39202')
+
+    am.addObservedAddr(observed, await createEd25519PeerId())
+    am.addObservedAddr(confirmed, await createEd25519PeerId())
+    am.addObservedAddr(confirmed, await createEd25519PeerId())
+    am.confirmObservedAddr(confirmed)
+
+    const scores = am.getObservedAddrScores()
+
+    expect(scores).to.have.lengthOf(2)
+    expect(scores[0].multiaddr.toString()).to.equal(confirmed.toString())
+    expect(scores[0]).to.have.property('observers', 2)
+    expect(scores[0]).to.have.property('confirmed', true)
+    expect(scores[0].confidence).to.be.closeTo(1, 0.01)
+    expect(scores[1].multiaddr.toString()).to.equal(observed.toString())
+    expect(scores[1]).to.have.property('observers', 1)
+    expect(scores[1]).to.have.property('confirmed', false)
+    expect(scores[1]).to.have.property('confidence', 0.25)
+  })
+
+  it('should infer an endpoint-independent NAT mapping', async () => {
+    const am = new DefaultAddressManager({
+      peerId,
+      transportManager: stubInterface<TransportManager>(),
+      peerStore,
+      events,
+      logger: defaultLogger()
+    })
+
+    const eventPromise = pEvent<'self:nat:change', CustomEvent<NATStatus>>(events, 'self:nat:change', {
+      filter: (event) => event.detail.type !== 'unknown'
+    })
+
+    for (let i = 0; i < 3; i++) {
+      am.addObservedAddr(multiaddr('/ip4/123.123.123.123/udp/39201/quic-v1'), await createEd25519PeerId())
+    }
+
+    const event = await eventPromise
+    expect(event.detail).to.have.property('type', 'endpoint-independent')
+    expect(am.getNATStatus()).to.have.property('type', 'endpoint-independent')
+  })
+
+  it('should infer an endpoint-dependent NAT mapping', async () => {
+    const am = new DefaultAddressManager({
+      peerId,
+      transportManager: stubInterface<TransportManager>(),
+      peerStore,
+      events,
+      logger: defaultLogger()
+    })
+
+    for (let i = 0; i < 3; i++) {
+      am.addObservedAddr(multiaddr(`/ip4/123.123.123.123/udp/${39201 + i}/quic-v1`), await createEd25519PeerId())
+    }
+
+    expect(am.getNATStatus()).to.have.property('type', 'endpoint-dependent')
+  })
+
+  it('should update reachability from AutoNAT results', async () => {
+    const am = new DefaultAddressManager({
+      peerId,
+      transportManager: stubInterface<TransportManager>({
+        getAddrs: Sinon.stub().returns([])
+      }),
+      peerStore,
+      events,
+      logger: defaultLogger()
+    })
+
+    expect(am.getNATStatus()).to.have.property('reachability', 'unknown')
+
+    am.reportReachability('autonat', 'private')
+    expect(am.getNATStatus()).to.have.property('reachability', 'private')
+
+    am.reportReachability('autonat', 'public')
+    expect(am.getNATStatus()).to.have.property('reachability', 'public')
+  })
+
+  it('should be public if any address is reported as public', async () => {
+    const am = new DefaultAddressManager({
+      peerId,
+      transportManager: stubInterface<TransportManager>({
+        getAddrs: Sinon.stub().returns([])
+      }),
+      peerStore,
+      events,
+      logger: defaultLogger()
+    })
+
+    const tcpAddr = multiaddr('/ip4/123.123.123.123/tcp/4001')
+    const quicAddr = multiaddr('/ip4/123.123.123.123/udp/4001/quic-v1')
+
+    am.reportReachability('autonat', 'public', tcpAddr)
+    am.reportReachability('autonat', 'private', quicAddr)
+    expect(am.getNATStatus()).to.have.property('reachability', 'public')
+
+    am.reportReachability('autonat', 'private', tcpAddr)
+    expect(am.getNATStatus()).to.have.property('reachability', 'private')
+
+    am.reportReachability('autonat', 'public', quicAddr)
+    expect(am.getNATStatus()).to.have.property('reachability', 'public')
+  })
+
+  it('should prefer AutoNAT results over other reachability reports', async () => {
+    const am = new DefaultAddressManager({
+      peerId,
+      transportManager: stubInterface<TransportManager>({
+        getAddrs: Sinon.stub().returns([])
+      }),
+      peerStore,
+      events,
+      logger: defaultLogger()
+    })
+
+    am.reportReachability('upnp', 'public')
+    expect(am.getNATStatus()).to.have.property('reachability', 'public')
+
+    am.reportReachability('autonat', 'private')
+    expect(am.getNATStatus()).to.have.property('reachability', 'private')
+  })
+
+  it('should infer reachability from observed addresses', async () => {
+    const transportManager = stubInterface<TransportManager>({
+      getAddrs: Sinon.stub().returns([])
+    })
+    const am = new DefaultAddressManager({
+      peerId,
+      transportManager,
+      peerStore,
+      events,
+      logger: defaultLogger()
+    })
+
+    am.addObservedAddr(multiaddr('/ip4/123.123.123.123/tcp/39201'), await createEd25519PeerId())
+    expect(am.getNATStatus()).to.have.property('reachability', 'private')
+
+    transportManager.getAddrs.returns([
+      multiaddr('/ip4/123.123.123.123/tcp/39201')
+    ])
+    am.addObservedAddr(multiaddr('/ip4/123.123.123.123/tcp/39201'), await createEd25519PeerId())
+    expect(am.getNATStatus()).to.have.property('reachability', 'public')
+  })
+
+  it('should emit an event when reachability changes', async () => {
+    const am = new DefaultAddressManager({
+      peerId,
+      transportManager: stubInterface<TransportManager>({
+        getAddrs: Sinon.stub().returns([])
+      }),
+      peerStore,
+      events,
+      logger: defaultLogger()
+    })
+
+    const eventPromise = pEvent<'self:reachability:change', CustomEvent<Reachability>>(events, 'self:reachability:change')
+
+    am.reportReachability('upnp', 'public')
+
+    const event = await eventPromise
+    expect(event.detail).to.equal('public')
   })
 })
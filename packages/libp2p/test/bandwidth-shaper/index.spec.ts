@@ -0,0 +1,316 @@
+/* eslint-env mocha */
+
+import { defaultLogger } from '@libp2p/logger'
+import { createEd25519PeerId } from '@libp2p/peer-id-factory'
+import { expect } from 'aegir/chai'
+import { pushable } from 'it-pushable'
+import Sinon from 'sinon'
+import { stubInterface } from 'sinon-ts'
+import { Uint8ArrayList } from 'uint8arraylist'
+import { BandwidthShaper } from '../../src/bandwidth-shaper.js'
+import type { MultiaddrConnection, PeerId, Stream } from '@libp2p/interface'
+
+interface TestConnection {
+  maConn: MultiaddrConnection
+  incoming: ReturnType<typeof pushable>
+
+  /**
+   * The number of bytes the remote has received
+   */
+  sent(): number
+}
+
+function createConnection (): TestConnection {
+  const incoming = pushable()
+  let sent = 0
+
+  const maConn = stubInterface<MultiaddrConnection>({
+    source: incoming,
+    sink: async (source) => {
+      for await (const buf of source) {
+        sent += buf.byteLength
+      }
+    }
+  })
+
+  return {
+    maConn,
+    incoming,
+    sent: () => sent
+  }
+}
+
+async function * toSource <T> (...bufs: T[]): AsyncGenerator<T> {
+  for (const buf of bufs) {
+    yield buf
+  }
+}
+
+async function send (conn: TestConnection, bytes: number): Promise<void> {
+  await conn.maConn.sink(toSource(new Uint8Array(bytes)))
+}
+
+function read (conn: TestConnection): { received(): number } {
+  let received = 0
+
+  void Promise.resolve().then(async () => {
+    for await (const buf of conn.maConn.source) {
+      received += buf.byteLength
+    }
+  })
+
+  return {
+    received: () => received
+  }
+}
+
+describe('bandwidth shaper', () => {
+  let clock: Sinon.SinonFakeTimers
+  let peerA: PeerId
+  let peerB: PeerId
+
+  beforeEach(async () => {
+    peerA = await createEd25519PeerId()
+    peerB = await createEd25519PeerId()
+    clock = Sinon.useFakeTimers()
+  })
+
+  afterEach(() => {
+    clock.restore()
+  })
+
+  it('should not delay traffic without limits', async () => {
+    const shaper = new BandwidthShaper({
+      logger: defaultLogger()
+    })
+    const conn = createConnection()
+    shaper.shapeConnection(conn.maConn)
+
+    await send(conn, 1024 * 1024)
+
+    expect(conn.sent()).to.equal(1024 * 1024)
+  })
+
+  it('should limit the global upload rate', async () => {
+    const shaper = new BandwidthShaper({
+      logger: defaultLogger()
+    }, {
+      global: {
+        upload: 100
+      }
+    })
+    const connA = createConnection()
+    const connB = createConnection()
+    shaper.shapeConnection(connA.maConn)
+    shaper.shapeConnection(connB.maConn)
+
+    void send(connA, 150)
+    void send(connB, 150)
+
+    await clock.tickAsync(0)
+    expect(connA.sent() + connB.sent()).to.equal(100)
+
+    await clock.tickAsync(1000)
+    expect(connA.sent() + connB.sent()).to.equal(200)
+
+    await clock.tickAsync(1000)
+    expect(connA.sent() + connB.sent()).to.equal(300)
+  })
+
+  it('should limit the download rate for each peer once the peer is known', async () => {
+    const shaper = new BandwidthShaper({
+      logger: defaultLogger()
+    }, {
+      peer: {
+        download: 100
+      }
+    })
+    const connA = createConnection()
+    const connB = createConnection()
+    const shapedA = shaper.shapeConnection(connA.maConn)
+    const shapedB = shaper.shapeConnection(connB.maConn)
+    const readerA = read(connA)
+    const readerB = read(connB)
+
+    // the remote peer is not known until the connection is upgraded
+    connA.incoming.push(new Uint8Array(150))
+    await clock.tickAsync(0)
+    expect(readerA.received()).to.equal(150)
+
+    shapedA.setPeer(peerA)
+    shapedB.setPeer(peerB)
+
+    connA.incoming.push(new Uint8Array(150))
+    connB.incoming.push(new Uint8Array(150))
+    await clock.tickAsync(0)
+    expect(readerA.received()).to.equal(250)
+    expect(readerB.received()).to.equal(100)
+
+    await clock.tickAsync(1000)
+    expect(readerA.received()).to.equal(300)
+    expect(readerB.received()).to.equal(150)
+  })
+
+  it('should limit the rate of streams for a protocol', async () => {
+    const shaper = new BandwidthShaper({
+      logger: defaultLogger()
+    }, {
+      protocols: {
+        '/limited/1.0.0': {
+          upload: 100
+        }
+      }
+    })
+    let sent = 0
+    const stream = stubInterface<Stream>({
+      sink: async (source) => {
+        for await (const buf of source) {
+          sent += buf.byteLength
+        }
+      }
+    })
+    let unlimitedSent = 0
+    const unlimited = stubInterface<Stream>({
+      sink: async (source) => {
+        for await (const buf of source) {
+          unlimitedSent += buf.byteLength
+        }
+      }
+    })
+
+    shaper.shapeStream(stream, '/limited/1.0.0')
+    shaper.shapeStream(unlimited, '/unlimited/1.0.0')
+
+    void stream.sink(toSource(new Uint8ArrayList(new Uint8Array(150))))
+    void unlimited.sink(toSource(new Uint8Array(150)))
+
+    await clock.tickAsync(0)
+    expect(sent).to.equal(100)
+    expect(unlimitedSent).to.equal(150)
+
+    await clock.tickAsync(1000)
+    expect(sent).to.equal(150)
+  })
+
+  it('should apply limits changed at runtime to open connections', async () => {
+    const shaper = new BandwidthShaper({
+      logger: defaultLogger()
+    }, {
+      global: {
+        upload: 100
+      }
+    })
+    const conn = createConnection()
+    shaper.shapeConnection(conn.maConn)
+
+    void send(conn, 1000)
+
+    await clock.tickAsync(0)
+    expect(conn.sent()).to.equal(100)
+
+    shaper.setLimits({
+      global: {
+        upload: 400
+      }
+    })
+
+    // the chunk waiting for capacity is sent at the old rate, after that the
+    // new bucket allows a burst of 400 bytes then 40 bytes every 100ms
+    await clock.tickAsync(1000)
+    expect(conn.sent()).to.equal(870)
+
+    shaper.setLimits({})
+
+    await clock.tickAsync(1000)
+    expect(conn.sent()).to.equal(1000)
+  })
+
+  it('should not hold global tokens while waiting for peer tokens', async () => {
+    const shaper = new BandwidthShaper({
+      logger: defaultLogger()
+    }, {
+      global: {
+        upload: 1000
+      },
+      peer: {
+        upload: 100
+      }
+    })
+    const connA = createConnection()
+    const connB = createConnection()
+    shaper.shapeConnection(connA.maConn).setPeer(peerA)
+    shaper.shapeConnection(connB.maConn)
+
+    void send(connA, 1000)
+
+    await clock.tickAsync(50)
+    expect(connA.sent()).to.equal(100)
+
+    // peer A is waiting for its own bucket to refill so everything else in
+    // the global bucket, including what was refilled, is available to the
+    // other connection
+    void send(connB, 950)
+
+    await clock.tickAsync(0)
+    expect(connB.sent()).to.equal(950)
+  })
+
+  it('should split large chunks so connections share a bucket', async () => {
+    const shaper = new BandwidthShaper({
+      logger: defaultLogger()
+    }, {
+      global: {
+        upload: 100
+      }
+    })
+    const connA = createConnection()
+    const connB = createConnection()
+    shaper.shapeConnection(connA.maConn)
+    shaper.shapeConnection(connB.maConn)
+
+    void send(connA, 1000)
+    await clock.tickAsync(0)
+    void send(connB, 1000)
+
+    // the large chunk from the first connection does not delay the second
+    // connection until it has all been sent
+    await clock.tickAsync(1000)
+    expect(connA.sent()).to.be.lessThan(200)
+    expect(connB.sent()).to.be.greaterThan(0)
+    expect(connA.sent() + connB.sent()).to.equal(200)
+  })
+
+  it('should return a copy of the limits', () => {
+    const shaper = new BandwidthShaper({
+      logger: defaultLogger()
+    }, {
+      global: {
+        upload: 100
+      }
+    })
+
+    const limits = shaper.getLimits()
+    expect(limits).to.deep.equal({
+      global: {
+        upload: 100
+      }
+    })
+
+    limits.global = {}
+    expect(shaper.getLimits()).to.have.nested.property('global.upload', 100)
+  })
+
+  it('should reject invalid rates', () => {
+    const shaper = new BandwidthShaper({
+      logger: defaultLogger()
+    })
+
+    expect(() => {
+      shaper.setLimits({
+        peer: {
+          download: 0
+        }
+      })
+    }).to.throw().with.property('code', 'ERR_INVALID_PARAMETERS')
+  })
+})
@@ -0,0 +1,177 @@
+/* eslint-env mocha */
+
+import { defaultLogger } from '@libp2p/logger'
+import { PeerMap } from '@libp2p/peer-collections'
+import { createEd25519PeerId } from '@libp2p/peer-id-factory'
+import { multiaddr } from '@multiformats/multiaddr'
+import { expect } from 'aegir/chai'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { stubInterface, type StubbedInstance } from 'sinon-ts'
+import { dhtBucketDiversity, networkDiversity, protocolTarget, type AutoDialContext, type AutoDialStrategyComponents } from '../../src/connection-manager/auto-dial-strategies.js'
+import type { Connection, Peer, PeerId } from '@libp2p/interface'
+import type { Registrar } from '@libp2p/interface-internal'
+
+interface TestPeer {
+  peerId?: PeerId
+  protocols?: string[]
+  addresses?: string[]
+}
+
+async function createPeer (init: TestPeer = {}): Promise<Peer> {
+  return {
+    id: init.peerId ?? await createEd25519PeerId(),
+    protocols: init.protocols ?? [],
+    addresses: (init.addresses ?? ['/ip4/123.123.123.123/tcp/4001']).map(addr => ({
+      multiaddr: multiaddr(addr),
+      isCertified: false
+    })),
+    metadata: new Map(),
+    tags: new Map()
+  }
+}
+
+function createContext (peers: Peer[]): AutoDialContext {
+  const context: AutoDialContext = {
+    connections: [],
+    peers: new PeerMap()
+  }
+
+  for (const peer of peers) {
+    context.peers.set(peer.id, peer)
+    context.connections.push(stubInterface<Connection>({
+      remotePeer: peer.id,
+      remoteAddr: peer.addresses[0].multiaddr
+    }))
+  }
+
+  return context
+}
+
+async function getBucket (a: PeerId, b: PeerId): Promise<number> {
+  const digestA = (await sha256.digest(a.toBytes())).digest
+  const digestB = (await sha256.digest(b.toBytes())).digest
+
+  for (let i = 0; i < digestA.length; i++) {
+    const xor = digestA[i] ^ digestB[i]
+
+    if (xor !== 0) {
+      return (i * 8) + Math.clz32(xor) - 24
+    }
+  }
+
+  return digestA.length * 8
+}
+
+describe('auto-dial strategies', () => {
+  let registrar: StubbedInstance<Registrar>
+  let components: AutoDialStrategyComponents
+
+  beforeEach(async () => {
+    registrar = stubInterface<Registrar>()
+    components = {
+      peerId: await createEd25519PeerId(),
+      registrar,
+      logger: defaultLogger()
+    }
+  })
+
+  describe('protocol target', () => {
+    it('should dial peers that support protocols below their target first', async () => {
+      registrar.getProtocols.returns(['/a/1.0.0', '/b/1.0.0'])
+
+      const connected = await createPeer({ protocols: ['/a/1.0.0'] })
+      const candidates = await Promise.all([
+        createPeer(),
+        createPeer({ protocols: ['/b/1.0.0'] }),
+        createPeer({ protocols: ['/a/1.0.0', '/b/1.0.0'] }),
+        createPeer({ protocols: ['/a/1.0.0'] })
+      ])
+
+      const strategy = protocolTarget({ target: 2 })(components)
+      const prioritised = await strategy.prioritise(candidates, createContext([connected]))
+
+      expect(prioritised).to.deep.equal([candidates[2], candidates[1], candidates[0], candidates[3]])
+    })
+
+    it('should not dial peers that do not help reach the target', async () => {
+      const candidates = await Promise.all([
+        createPeer(),
+        createPeer({ protocols: ['/a/1.0.0'] })
+      ])
+
+      const strategy = protocolTarget({ protocols: ['/a/1.0.0'], dialOthers: false })(components)
+      const prioritised = await strategy.prioritise(candidates, createContext([]))
+
+      expect(prioritised).to.deep.equal([candidates[1]])
+    })
+  })
+
+  describe('dht bucket diversity', () => {
+    it('should dial peers in under-represented buckets first', async () => {
+      const connected = await createPeer()
+      const connectedBucket = await getBucket(components.peerId, connected.id)
+      let sameBucket: Peer | undefined
+      let otherBucket: Peer | undefined
+
+      while (sameBucket == null || otherBucket == null) {
+        const peer = await createPeer()
+        const bucket = await getBucket(components.peerId, peer.id)
+
+        if (bucket === connectedBucket) {
+          sameBucket = sameBucket ?? peer
+        } else {
+          otherBucket = otherBucket ?? peer
+        }
+      }
+
+      const strategy = dhtBucketDiversity()(components)
+      const prioritised = await strategy.prioritise([sameBucket, otherBucket], createContext([connected]))
+
+      expect(prioritised).to.deep.equal([otherBucket, sameBucket])
+    })
+
+    it('should dial peers that do not support the DHT protocol last', async () => {
+      const candidates = await Promise.all([
+        createPeer(),
+        createPeer({ protocols: ['/ipfs/kad/1.0.0'] })
+      ])
+
+      const strategy = dhtBucketDiversity({ protocol: '/ipfs/kad/1.0.0' })(components)
+      const prioritised = await strategy.prioritise(candidates, createContext([]))
+
+      expect(prioritised).to.deep.equal([candidates[1], candidates[0]])
+    })
+  })
+
+  describe('network diversity', () => {
+    it('should dial peers in under-represented subnets first', async () => {
+      const connected = await createPeer({ addresses: ['/ip4/1.2.3.4/tcp/4001'] })
+      const candidates = await Promise.all([
+        createPeer({ addresses: ['/ip4/1.2.9.9/tcp/4001'] }),
+        createPeer({ addresses: ['/ip4/5.6.7.8/tcp/4001'] }),
+        createPeer({ addresses: ['/ip4/1.2.100.1/tcp/4001'] }),
+        createPeer({ addresses: ['/ip4/192.168.1.1/tcp/4001'] })
+      ])
+
+      const strategy = networkDiversity()(components)
+      const prioritised = await strategy.prioritise(candidates, createContext([connected]))
+
+      expect(prioritised).to.deep.equal([candidates[1], candidates[3], candidates[0], candidates[2]])
+    })
+
+    it('should dial peers in under-represented ASNs first', async () => {
+      const connected = await createPeer({ addresses: ['/ip4/1.2.3.4/tcp/4001'] })
+      const candidates = await Promise.all([
+        createPeer({ addresses: ['/ip4/5.6.7.8/tcp/4001'] }),
+        createPeer({ addresses: ['/ip4/9.9.9.9/tcp/4001'] })
+      ])
+
+      const strategy = networkDiversity({
+        getAsn: (ip) => ip.startsWith('9.') ? 2 : 1
+      })(components)
+      const prioritised = await strategy.prioritise(candidates, createContext([connected]))
+
+      expect(prioritised).to.deep.equal([candidates[1], candidates[0]])
+    })
+  })
+})
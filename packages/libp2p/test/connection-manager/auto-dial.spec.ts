@@ -290,4 +290,55 @@ describe('auto-dial', () => {
     // should have retried the unreachable peer
     expect(connectionManager.openConnection.calledWith(matchPeerId(undialablePeer.id))).to.be.true()
   })
+
+  it('should dial peers in the order chosen by the strategy', async () => {
+    const peers: Peer[] = []
+
+    for (let i = 0; i < 3; i++) {
+      const peer: Peer = {
+        id: await createEd25519PeerId(),
+        protocols: [],
+        addresses: [{
+          multiaddr: multiaddr(`/ip4/127.0.0.1/tcp/${4001 + i}`),
+          isCertified: true
+        }],
+        metadata: new Map(),
+        tags: new Map()
+      }
+
+      await peerStore.save(peer.id, peer)
+      peers.push(peer)
+    }
+
+    const connectionManager = stubInterface<ConnectionManager>({
+      getConnectionsMap: Sinon.stub().returns(new PeerMap()),
+      getConnections: Sinon.stub().returns([]),
+      getDialQueue: Sinon.stub().returns([])
+    })
+
+    autoDialer = new AutoDial(defaultComponents({
+      peerStore,
+      connectionManager,
+      events
+    }), {
+      minConnections: 10,
+      autoDialConcurrency: 1,
+      strategy: {
+        name: 'test',
+        // dial the last peer first and never dial the first peer
+        prioritise: (candidates) => [peers[2], peers[1]].filter(peer => candidates.some(c => c.id.equals(peer.id)))
+      }
+    })
+    autoDialer.start()
+    void autoDialer.autoDial()
+
+    await pWaitFor(() => {
+      return connectionManager.openConnection.callCount === 2
+    })
+    await delay(100)
+
+    expect(connectionManager.openConnection.callCount).to.equal(2)
+    expect(connectionManager.openConnection.getCall(0).args[0]).to.satisfy((peerId: PeerId) => peerId.equals(peers[2].id))
+    expect(connectionManager.openConnection.getCall(1).args[0]).to.satisfy((peerId: PeerId) => peerId.equals(peers[1].id))
+  })
 })
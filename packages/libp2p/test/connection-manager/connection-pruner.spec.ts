@@ -0,0 +1,246 @@
+/* eslint-env mocha */
+
+import { TypedEventEmitter, type Libp2pEvents, type Connection, type Direction, type PeerStore, type Peer, type PrunedConnection, type TypedEventTarget } from '@libp2p/interface'
+import { defaultLogger } from '@libp2p/logger'
+import { createEd25519PeerId } from '@libp2p/peer-id-factory'
+import { multiaddr } from '@multiformats/multiaddr'
+import { expect } from 'aegir/chai'
+import { pEvent } from 'p-event'
+import { stubInterface, type StubbedInstance } from 'sinon-ts'
+import { ConnectionPruner, type ConnectionPrunerInit, type ConnectionPruneStrategy } from '../../src/connection-manager/connection-pruner.js'
+import { gracePeriod, inboundOutboundBalance, protectedPeers, protocolDiversity, type ConnectionPruneStrategyComponents } from '../../src/connection-manager/prune-strategies.js'
+import type { ConnectionManager, Registrar } from '@libp2p/interface-internal'
+
+interface TestPeer {
+  value?: number
+  tags?: string[]
+  protocols?: string[]
+  direction?: Direction
+  opened?: number
+}
+
+describe('connection pruner', () => {
+  let connectionManager: StubbedInstance<ConnectionManager>
+  let peerStore: StubbedInstance<PeerStore>
+  let registrar: StubbedInstance<Registrar>
+  let events: TypedEventTarget<Libp2pEvents>
+  let strategyComponents: ConnectionPruneStrategyComponents
+  let pruner: ConnectionPruner | undefined
+
+  afterEach(() => {
+    pruner?.stop()
+  })
+
+  beforeEach(() => {
+    connectionManager = stubInterface<ConnectionManager>()
+    peerStore = stubInterface<PeerStore>()
+    registrar = stubInterface<Registrar>()
+    events = new TypedEventEmitter()
+    strategyComponents = {
+      registrar,
+      logger: defaultLogger()
+    }
+  })
+
+  async function createPeers (peers: TestPeer[]): Promise<Connection[]> {
+    const connections: Connection[] = []
+    const peerData = new Map<string, Peer>()
+
+    for (const init of peers) {
+      const peerId = await createEd25519PeerId()
+
+      peerData.set(peerId.toString(), stubInterface<Peer>({
+        id: peerId,
+        protocols: init.protocols ?? [],
+        tags: new Map([
+          ['test-tag', { value: init.value ?? 0 }],
+          ...(init.tags ?? []).map((tag): [string, { value: number }] => [tag, { value: 0 }])
+        ])
+      }))
+
+      connections.push(stubInterface<Connection>({
+        remotePeer: peerId,
+        remoteAddr: multiaddr(`/ip4/123.123.123.123/tcp/${connections.length + 1000}/p2p/${peerId}`),
+        direction: init.direction ?? 'inbound',
+        timeline: {
+          open: init.opened ?? Date.now() - 60000
+        }
+      }))
+    }
+
+    connectionManager.getConnections.returns(connections)
+    peerStore.get.callsFake(async (peerId) => {
+      const peer = peerData.get(peerId.toString())
+
+      if (peer == null) {
+        throw new Error('Not found')
+      }
+
+      return peer
+    })
+
+    return connections
+  }
+
+  function createPruner (init: ConnectionPrunerInit): ConnectionPruner {
+    pruner = new ConnectionPruner({
+      connectionManager,
+      peerStore,
+      events,
+      logger: defaultLogger()
+    }, init)
+
+    return pruner
+  }
+
+  async function prune (maxConnections: number, strategies: ConnectionPruneStrategy[] = []): Promise<PrunedConnection[]> {
+    const pruner = createPruner({
+      maxConnections,
+      strategies
+    })
+
+    const prunedPromise = pEvent<'connection:prune', CustomEvent<Connection[]>>(events, 'connection:prune')
+    const eventPromise = pEvent<'connection:prune:reasons', CustomEvent<PrunedConnection[]>>(events, 'connection:prune:reasons')
+    await pruner.maybePruneConnections()
+    const [pruned, event] = await Promise.all([prunedPromise, eventPromise])
+
+    // the original event only carries the connections
+    expect(pruned.detail).to.deep.equal(event.detail.map(({ connection }) => connection))
+
+    return event.detail
+  }
+
+  it('should close connections to peers with low tag values first', async () => {
+    const connections = await createPeers([{ value: 10 }, { value: 0 }, { value: 5 }])
+
+    const pruned = await prune(1)
+
+    expect(pruned).to.deep.equal([{
+      connection: connections[1],
+      reason: 'peer-value'
+    }, {
+      connection: connections[2],
+      reason: 'peer-value'
+    }])
+    expect(connections[1].close).to.have.property('called', true)
+    expect(connections[2].close).to.have.property('called', true)
+    expect(connections[0].close).to.have.property('called', false)
+  })
+
+  it('should not close connections to protected peers', async () => {
+    const connections = await createPeers([{ value: 10 }, { value: 0, tags: ['important'] }, { value: 5 }])
+
+    const pruned = await prune(2, [
+      protectedPeers({ tags: ['important'] })(strategyComponents)
+    ])
+
+    expect(pruned.map(({ connection }) => connection)).to.deep.equal([connections[2]])
+  })
+
+  it('should not close connections to protected peer ids', async () => {
+    const connections = await createPeers([{ value: 10 }, { value: 0 }, { value: 5 }])
+
+    const pruned = await prune(2, [
+      protectedPeers({ peers: [connections[1].remotePeer] })(strategyComponents)
+    ])
+
+    expect(pruned.map(({ connection }) => connection)).to.deep.equal([connections[2]])
+  })
+
+  it('should not close new connections during the grace period', async () => {
+    const connections = await createPeers([{ value: 10 }, { value: 0, opened: Date.now() }, { value: 5 }])
+
+    const pruned = await prune(2, [
+      gracePeriod({ duration: 10000 })(strategyComponents)
+    ])
+
+    expect(pruned.map(({ connection }) => connection)).to.deep.equal([connections[2]])
+  })
+
+  it('should not close the last connection to a peer that supports a registered protocol', async () => {
+    registrar.getProtocols.returns(['/rare/1.0.0', '/common/1.0.0'])
+
+    const connections = await createPeers([
+      { value: 10, protocols: ['/common/1.0.0'] },
+      { value: 0, protocols: ['/rare/1.0.0', '/common/1.0.0'] },
+      { value: 5, protocols: ['/common/1.0.0'] },
+      { value: 6, protocols: ['/common/1.0.0'] }
+    ])
+
+    const pruned = await prune(1, [
+      protocolDiversity()(strategyComponents)
+    ])
+
+    // the only peer speaking /rare/1.0.0 is kept
+    expect(pruned.map(({ connection }) => connection)).to.deep.equal([connections[2], connections[3], connections[0]])
+  })
+
+  it('should prefer closing connections in the over-represented direction', async () => {
+    const connections = await createPeers([
+      { value: 0, direction: 'outbound' },
+      { value: 1, direction: 'inbound' },
+      { value: 2, direction: 'inbound' },
+      { value: 3, direction: 'inbound' }
+    ])
+
+    const pruned = await prune(2, [
+      inboundOutboundBalance()(strategyComponents)
+    ])
+
+    expect(pruned).to.deep.equal([{
+      connection: connections[1],
+      reason: 'inbound-outbound-balance'
+    }, {
+      connection: connections[2],
+      reason: 'inbound-outbound-balance'
+    }])
+  })
+
+  it('should stop pruning when no connections can be closed', async () => {
+    const connections = await createPeers([{ value: 0 }, { value: 0 }])
+
+    const pruned = await prune(1, [
+      protectedPeers({ tags: ['test-tag'] })(strategyComponents)
+    ])
+
+    expect(pruned).to.be.empty()
+    expect(connections[0].close).to.have.property('called', false)
+    expect(connections[1].close).to.have.property('called', false)
+  })
+
+  it('should prune down to the low watermark', async () => {
+    const connections = await createPeers([{ value: 10 }, { value: 0 }, { value: 5 }, { value: 7 }, { value: 3 }])
+
+    const pruner = createPruner({
+      maxConnections: 4,
+      lowWatermark: 2
+    })
+
+    const eventPromise = pEvent<'connection:prune:reasons', CustomEvent<PrunedConnection[]>>(events, 'connection:prune:reasons')
+    await pruner.maybePruneConnections()
+    const event = await eventPromise
+
+    expect(event.detail.map(({ connection }) => connection)).to.deep.equal([connections[1], connections[4], connections[2]])
+  })
+
+  it('should not prune again during the silence period', async () => {
+    const connections = await createPeers([{ value: 10 }, { value: 0 }, { value: 5 }])
+
+    const pruner = createPruner({
+      maxConnections: 2,
+      silencePeriod: 100
+    })
+
+    await pruner.maybePruneConnections()
+    expect(connections[1].close).to.have.property('callCount', 1)
+
+    // still over the limit but within the silence period
+    const eventPromise = pEvent<'connection:prune:reasons', CustomEvent<PrunedConnection[]>>(events, 'connection:prune:reasons')
+    await pruner.maybePruneConnections()
+    expect(connections[1].close).to.have.property('callCount', 1)
+
+    // prunes once the silence period has passed
+    await eventPromise
+    expect(connections[1].close).to.have.property('callCount', 2)
+  })
+})
@@ -0,0 +1,298 @@
+/* eslint-env mocha */
+
+import { CodeError, ERR_TIMEOUT, TypedEventEmitter, type ComponentLogger, type ConnectionGater, type PeerId, type PeerRouting, type PeerStore, type Transport } from '@libp2p/interface'
+import { mockConnection, mockDuplex, mockMultiaddrConnection } from '@libp2p/interface-compliance-tests/mocks'
+import { defaultLogger } from '@libp2p/logger'
+import { createEd25519PeerId } from '@libp2p/peer-id-factory'
+import { PersistentPeerStore } from '@libp2p/peer-store'
+import { multiaddr } from '@multiformats/multiaddr'
+import { expect } from 'aegir/chai'
+import { MemoryDatastore } from 'datastore-core'
+import { pEvent } from 'p-event'
+import pWaitFor from 'p-wait-for'
+import sinon from 'sinon'
+import { type StubbedInstance, stubInterface } from 'sinon-ts'
+import { DialQueue } from '../../src/connection-manager/dial-queue.js'
+import { codes } from '../../src/errors.js'
+import type { TransportManager } from '@libp2p/interface-internal'
+
+describe('dial history', () => {
+  let components: {
+    peerId: PeerId
+    peerStore: PeerStore
+    peerRouting: StubbedInstance<PeerRouting>
+    transportManager: StubbedInstance<TransportManager>
+    connectionGater: StubbedInstance<ConnectionGater>
+    logger: ComponentLogger
+  }
+  let dialer: DialQueue
+  let remotePeer: PeerId
+
+  beforeEach(async () => {
+    const peerId = await createEd25519PeerId()
+    remotePeer = await createEd25519PeerId()
+
+    components = {
+      peerId,
+      peerStore: new PersistentPeerStore({
+        peerId,
+        datastore: new MemoryDatastore(),
+        events: new TypedEventEmitter(),
+        logger: defaultLogger()
+      }),
+      peerRouting: stubInterface<PeerRouting>(),
+      transportManager: stubInterface<TransportManager>(),
+      connectionGater: stubInterface<ConnectionGater>(),
+      logger: defaultLogger()
+    }
+
+    components.transportManager.transportForMultiaddr.returns(stubInterface<Transport>())
+  })
+
+  afterEach(() => {
+    if (dialer != null) {
+      dialer.stop()
+    }
+  })
+
+  it('should record failed dials and back off from the failing address', async () => {
+    const addr = multiaddr(`/ip4/127.0.0.1/tcp/1231/p2p/${remotePeer}`)
+    const err = Object.assign(new Error('dial failure'), { code: 'ERR_CONNECTION_REFUSED' })
+    components.transportManager.dial.rejects(err)
+
+    await components.peerStore.merge(remotePeer, {
+      multiaddrs: [addr]
+    })
+
+    dialer = new DialQueue(components)
+
+    await expect(dialer.dial(remotePeer)).to.eventually.be.rejected
+      .with.property('code', 'ERR_CONNECTION_REFUSED')
+
+    const history = await dialer.dialHistory.get(remotePeer)
+
+    expect(history).to.have.lengthOf(1)
+    expect(history[0].multiaddr.toString()).to.equal(addr.toString())
+    expect(history[0]).to.have.property('failures', 1)
+    expect(history[0]).to.have.property('lastErrorCode', 'ERR_CONNECTION_REFUSED')
+    expect(history[0]).to.have.property('backoffUntil').that.is.greaterThan(Date.now())
+
+    // the address is in backoff
+    await expect(dialer.dial(remotePeer, { backoff: true })).to.eventually.be.rejected
+      .with.property('code', codes.ERR_DIAL_BACKOFF)
+    expect(components.transportManager.dial).to.have.property('callCount', 1)
+
+    // dials that do not ask for backoff ignore it
+    await expect(dialer.dial(remotePeer)).to.eventually.be.rejected
+      .with.property('code', 'ERR_CONNECTION_REFUSED')
+    expect(components.transportManager.dial).to.have.property('callCount', 2)
+
+    const updatedHistory = await dialer.dialHistory.get(remotePeer)
+    expect(updatedHistory[0]).to.have.property('failures', 2)
+  })
+
+  it('should not record dials aborted by the user', async () => {
+    const addr = multiaddr(`/ip4/127.0.0.1/tcp/1231/p2p/${remotePeer}`)
+    components.transportManager.dial.callsFake(async (ma, options) => {
+      await pEvent(options?.signal as AbortSignal, 'abort')
+
+      throw new CodeError('dial aborted', 'ABORT_ERR')
+    })
+
+    dialer = new DialQueue(components)
+
+    const controller = new AbortController()
+    const dial = dialer.dial(addr, { signal: controller.signal })
+    controller.abort()
+
+    await expect(dial).to.eventually.be.rejected()
+    await expect(dialer.dialHistory.get(remotePeer)).to.eventually.be.empty()
+  })
+
+  it('should not record dials that time out', async () => {
+    const addr = multiaddr(`/ip4/127.0.0.1/tcp/1231/p2p/${remotePeer}`)
+    components.transportManager.dial.rejects(new CodeError('dial timed out', ERR_TIMEOUT))
+
+    dialer = new DialQueue(components)
+
+    await expect(dialer.dial(addr)).to.eventually.be.rejected()
+    await expect(dialer.dialHistory.get(remotePeer)).to.eventually.be.empty()
+  })
+
+  it('should increase the backoff exponentially', async () => {
+    const addr = multiaddr(`/ip4/127.0.0.1/tcp/1231/p2p/${remotePeer}`)
+    components.transportManager.dial.rejects(new Error('dial failure'))
+
+    dialer = new DialQueue(components, {
+      dialHistory: {
+        backoffBase: 100,
+        backoffMax: 350
+      }
+    })
+
+    const backoffs: number[] = []
+
+    for (let i = 0; i < 4; i++) {
+      await expect(dialer.dial(addr, { force: true })).to.eventually.be.rejected()
+
+      const [history] = await dialer.dialHistory.get(remotePeer)
+      backoffs.push((history.backoffUntil ?? 0) - (history.lastFailure ?? 0))
+    }
+
+    expect(backoffs).to.deep.equal([100, 200, 350, 350])
+  })
+
+  it('should dial addresses that failed previously last', async () => {
+    const failingAddr = multiaddr(`/ip4/127.0.0.1/tcp/1231/p2p/${remotePeer}`)
+    const workingAddr = multiaddr(`/ip4/127.0.0.1/tcp/1232/p2p/${remotePeer}`)
+    const connection = mockConnection(mockMultiaddrConnection(mockDuplex(), remotePeer))
+
+    components.transportManager.dial.callsFake(async (ma) => {
+      if (ma.equals(failingAddr)) {
+        throw new Error('dial failure')
+      }
+
+      return connection
+    })
+
+    await components.peerStore.merge(remotePeer, {
+      multiaddrs: [failingAddr, workingAddr]
+    })
+
+    dialer = new DialQueue(components, {
+      dialStagger: false,
+      dialHistory: {
+        backoffBase: 1
+      }
+    })
+
+    // record a failure for the first address
+    await expect(dialer.dial(failingAddr)).to.eventually.be.rejected()
+
+    const conn = await dialer.dial(remotePeer)
+    expect(conn).to.equal(connection)
+
+    // the working address was dialled first
+    expect(components.transportManager.dial.getCall(1).args[0].toString()).to.equal(workingAddr.toString())
+    expect(components.transportManager.dial).to.have.property('callCount', 2)
+  })
+
+  it('should reset the failure count after a successful dial', async () => {
+    const addr = multiaddr(`/ip4/127.0.0.1/tcp/1231/p2p/${remotePeer}`)
+    const connection = mockConnection(mockMultiaddrConnection(mockDuplex(), remotePeer))
+
+    components.transportManager.dial.onFirstCall().rejects(new Error('dial failure'))
+    components.transportManager.dial.onSecondCall().resolves(connection)
+
+    dialer = new DialQueue(components)
+
+    await expect(dialer.dial(addr)).to.eventually.be.rejected()
+    await expect(dialer.dial(addr, { force: true })).to.eventually.equal(connection)
+
+    // success is recorded in the background
+    await pWaitFor(async () => {
+      const history = await dialer.dialHistory.get(remotePeer)
+
+      return history[0].failures === 0
+    })
+
+    const history = await dialer.dialHistory.get(remotePeer)
+    expect(history[0]).to.have.property('failures', 0)
+    expect(history[0]).to.have.property('lastSuccess').that.is.a('number')
+    expect(history[0]).to.not.have.property('backoffUntil')
+  })
+
+  it('should only update the peer store when a successful dial changes the history', async () => {
+    const addr = multiaddr(`/ip4/127.0.0.1/tcp/1231/p2p/${remotePeer}`)
+    const merge = sinon.spy(components.peerStore, 'merge')
+
+    dialer = new DialQueue(components)
+
+    await dialer.dialHistory.recordSuccess(remotePeer, addr)
+    expect(merge).to.have.property('callCount', 1)
+
+    await dialer.dialHistory.recordSuccess(remotePeer, addr)
+    expect(merge).to.have.property('callCount', 1)
+
+    await dialer.dialHistory.recordFailure(remotePeer, addr, new Error('dial failure'))
+    await dialer.dialHistory.recordSuccess(remotePeer, addr)
+    expect(merge).to.have.property('callCount', 3)
+  })
+
+  it('should stop sorting addresses that failed a long time ago last', async () => {
+    const failedAddr = multiaddr(`/ip4/127.0.0.1/tcp/1231/p2p/${remotePeer}`)
+    const otherAddr = multiaddr(`/ip4/127.0.0.1/tcp/1232/p2p/${remotePeer}`)
+    const now = Date.now()
+
+    dialer = new DialQueue(components, {
+      dialHistory: {
+        failureHalfLife: 1000
+      }
+    })
+
+    const history = new Map([[failedAddr.toString(), {
+      multiaddr: failedAddr,
+      failures: 2,
+      lastFailure: now
+    }]])
+
+    const sort = (now: number): string[] => dialer.dialHistory.sort([{ multiaddr: failedAddr }, { multiaddr: otherAddr }], history, now)
+      .map(({ multiaddr }) => multiaddr.toString())
+
+    expect(sort(now)).to.deep.equal([otherAddr.toString(), failedAddr.toString()])
+    expect(sort(now + 1000)).to.deep.equal([otherAddr.toString(), failedAddr.toString()])
+    expect(sort(now + 3000)).to.deep.equal([failedAddr.toString(), otherAddr.toString()])
+  })
+
+  it('should drop history for addresses the peer no longer advertises', async () => {
+    const oldAddr = multiaddr(`/ip4/127.0.0.1/tcp/1231/p2p/${remotePeer}`)
+    const newAddr = multiaddr(`/ip4/127.0.0.1/tcp/1232/p2p/${remotePeer}`)
+
+    await components.peerStore.merge(remotePeer, {
+      multiaddrs: [oldAddr]
+    })
+
+    dialer = new DialQueue(components)
+
+    await dialer.dialHistory.recordFailure(remotePeer, oldAddr, new Error('dial failure'))
+
+    await components.peerStore.patch(remotePeer, {
+      multiaddrs: [newAddr]
+    })
+    await dialer.dialHistory.recordFailure(remotePeer, newAddr, new Error('dial failure'))
+
+    const history = await dialer.dialHistory.get(remotePeer)
+    expect(history.map(({ multiaddr }) => multiaddr.toString())).to.deep.equal([newAddr.toString()])
+  })
+
+  it('should drop history for addresses that have not been dialled for longer than the maximum backoff', async () => {
+    const staleAddr = multiaddr(`/ip4/127.0.0.1/tcp/1231/p2p/${remotePeer}`)
+    const addr = multiaddr(`/ip4/127.0.0.1/tcp/1232/p2p/${remotePeer}`)
+
+    await components.peerStore.merge(remotePeer, {
+      multiaddrs: [staleAddr, addr]
+    })
+
+    dialer = new DialQueue(components, {
+      dialHistory: {
+        backoffMax: 1000
+      }
+    })
+
+    const clock = sinon.useFakeTimers({
+      now: Date.now() - 2000,
+      toFake: ['Date']
+    })
+
+    try {
+      await dialer.dialHistory.recordFailure(remotePeer, staleAddr, new Error('dial failure'))
+    } finally {
+      clock.restore()
+    }
+
+    await dialer.dialHistory.recordFailure(remotePeer, addr, new Error('dial failure'))
+
+    const history = await dialer.dialHistory.get(remotePeer)
+    expect(history.map(({ multiaddr }) => multiaddr.toString())).to.deep.equal([addr.toString()])
+  })
+})
@@ -13,7 +13,7 @@ import pDefer from 'p-defer'
 import sinon from 'sinon'
 import { type StubbedInstance, stubInterface } from 'sinon-ts'
 import { DialQueue } from '../../src/connection-manager/dial-queue.js'
-import type { ComponentLogger, Connection, ConnectionGater, PeerId, PeerRouting, PeerStore, Transport } from '@libp2p/interface'
+import type { AbortOptions, ComponentLogger, Connection, ConnectionGater, PeerId, PeerRouting, PeerStore, Transport } from '@libp2p/interface'
 import type { TransportManager } from '@libp2p/interface-internal'
 
 describe('dial queue', () => {
@@ -206,6 +206,49 @@ describe('dial queue', () => {
     expect(actions['/ip4/127.0.0.1/tcp/1233']).to.have.property('callCount', 1)
   })
 
+  it('should throw an AggregateError if parallel dials fail while their failures are being recorded', async () => {
+    const peerId = await createEd25519PeerId()
+    const addrs = [
+      multiaddr('/ip4/127.0.0.1/tcp/1231'),
+      multiaddr('/ip4/127.0.0.1/tcp/1232')
+    ]
+    const failed = pDefer()
+
+    components.peerStore.get.withArgs(peerId).resolves({
+      id: peerId,
+      protocols: [],
+      metadata: new Map(),
+      tags: new Map(),
+      addresses: addrs.map(multiaddr => ({ multiaddr, isCertified: false }))
+    })
+    // recording the failures is slow
+    components.peerStore.merge.callsFake(async () => {
+      await delay(100)
+      return stubInterface()
+    })
+
+    components.transportManager.transportForMultiaddr.returns(stubInterface<Transport>())
+    components.transportManager.dial.callsFake(async () => {
+      // both dials fail at the same time
+      await failed.promise
+      throw new Error('dial failure')
+    })
+
+    dialer = new DialQueue(components, {
+      dialStagger: {
+        delay: 10
+      }
+    })
+
+    const dial = dialer.dial(peerId)
+    await delay(20)
+    failed.resolve()
+
+    await expect(dial).to.eventually.be.rejected
+      .with.property('errors').with.lengthOf(2)
+    expect(components.peerStore.merge).to.have.property('called', true)
+  })
+
   it('should handle a large number of addrs', async () => {
     const reject = sinon.stub().callsFake(async () => Promise.reject(new Error('dial failure')))
     const actions: Record<string, () => Promise<Connection>> = {}
@@ -324,4 +367,163 @@ describe('dial queue', () => {
     dialer = new DialQueue(components)
     await expect(dialer.dial(remotePeer)).to.eventually.equal(connection)
   })
+
+  it('should start dialling the next address before the previous dial fails', async () => {
+    const connection = mockConnection(mockMultiaddrConnection(mockDuplex(), await createEd25519PeerId()))
+    const slowDial = pDefer<Connection>()
+    let slowDialSignal: AbortSignal | undefined
+    const actions: Record<string, (options: AbortOptions) => Promise<Connection>> = {
+      '/ip4/127.0.0.1/tcp/1231': async (options) => {
+        slowDialSignal = options.signal
+        return slowDial.promise
+      },
+      '/ip4/127.0.0.1/tcp/1232': async () => Promise.resolve(connection)
+    }
+
+    components.transportManager.transportForMultiaddr.returns(stubInterface<Transport>())
+    components.transportManager.dial.callsFake(async (ma, options = {}) => {
+      const maStr = ma.toString()
+      const action = actions[maStr]
+
+      if (action != null) {
+        return action(options)
+      }
+
+      throw new Error(`No action found for multiaddr ${maStr}`)
+    })
+
+    dialer = new DialQueue(components, {
+      dialStagger: {
+        delay: 10
+      }
+    })
+
+    await expect(dialer.dial(Object.keys(actions).map(str => multiaddr(str))))
+      .to.eventually.equal(connection)
+
+    expect(slowDialSignal?.aborted).to.be.true('did not abort slow dial')
+
+    slowDial.reject(new Error('Aborted'))
+    await expect(slowDial.promise).to.eventually.be.rejected()
+  })
+
+  it('should close connections from dials that succeed after another dial', async () => {
+    const remotePeer = await createEd25519PeerId()
+    const connection = mockConnection(mockMultiaddrConnection(mockDuplex(), remotePeer))
+    const lateConnection = mockConnection(mockMultiaddrConnection(mockDuplex(), remotePeer))
+    const lateDial = pDefer<Connection>()
+    const actions: Record<string, () => Promise<Connection>> = {
+      '/ip4/127.0.0.1/tcp/1231': async () => lateDial.promise,
+      '/ip4/127.0.0.1/tcp/1232': async () => Promise.resolve(connection)
+    }
+
+    components.transportManager.transportForMultiaddr.returns(stubInterface<Transport>())
+    components.transportManager.dial.callsFake(async ma => {
+      const maStr = ma.toString()
+      const action = actions[maStr]
+
+      if (action != null) {
+        return action()
+      }
+
+      throw new Error(`No action found for multiaddr ${maStr}`)
+    })
+
+    dialer = new DialQueue(components, {
+      dialStagger: {
+        delay: 10
+      }
+    })
+
+    await expect(dialer.dial(Object.keys(actions).map(str => multiaddr(str))))
+      .to.eventually.equal(connection)
+
+    const closeSpy = sinon.spy(lateConnection, 'close')
+    lateDial.resolve(lateConnection)
+
+    await delay(10)
+    expect(closeSpy.called).to.be.true('did not close late connection')
+  })
+
+  it('should apply per-transport stagger policies', async () => {
+    const connection = mockConnection(mockMultiaddrConnection(mockDuplex(), await createEd25519PeerId()))
+    const slowDial = pDefer<Connection>()
+    const actions: Record<string, () => Promise<Connection>> = {
+      '/ip4/127.0.0.1/tcp/1231': async () => slowDial.promise,
+      '/ip4/127.0.0.1/tcp/1232/ws': async () => Promise.resolve(connection)
+    }
+    const dialed: string[] = []
+
+    components.transportManager.transportForMultiaddr.returns(stubInterface<Transport>())
+    components.transportManager.dial.callsFake(async ma => {
+      const maStr = ma.toString()
+      const action = actions[maStr]
+      dialed.push(maStr)
+
+      if (action != null) {
+        return action()
+      }
+
+      throw new Error(`No action found for multiaddr ${maStr}`)
+    })
+
+    dialer = new DialQueue(components, {
+      dialStagger: {
+        delay: 10,
+        policies: [{
+          name: 'websockets',
+          filter: (ma) => ma.protoNames().includes('ws'),
+          delay: 200
+        }]
+      }
+    })
+
+    const dialPromise = dialer.dial(Object.keys(actions).map(str => multiaddr(str)))
+
+    await delay(50)
+    expect(dialed).to.deep.equal(['/ip4/127.0.0.1/tcp/1231'])
+
+    await expect(dialPromise).to.eventually.equal(connection)
+    expect(dialed).to.deep.equal(Object.keys(actions))
+
+    slowDial.reject(new Error('Aborted'))
+    await expect(slowDial.promise).to.eventually.be.rejected()
+  })
+
+  it('should dial addresses one at a time when staggering is disabled', async () => {
+    const connection = mockConnection(mockMultiaddrConnection(mockDuplex(), await createEd25519PeerId()))
+    const firstDial = pDefer<Connection>()
+    const actions: Record<string, () => Promise<Connection>> = {
+      '/ip4/127.0.0.1/tcp/1231': async () => firstDial.promise,
+      '/ip4/127.0.0.1/tcp/1232': async () => Promise.resolve(connection)
+    }
+    const dialed: string[] = []
+
+    components.transportManager.transportForMultiaddr.returns(stubInterface<Transport>())
+    components.transportManager.dial.callsFake(async ma => {
+      const maStr = ma.toString()
+      const action = actions[maStr]
+      dialed.push(maStr)
+
+      if (action != null) {
+        return action()
+      }
+
+      throw new Error(`No action found for multiaddr ${maStr}`)
+    })
+
+    dialer = new DialQueue(components, {
+      dialStagger: false
+    })
+
+    const dialPromise = dialer.dial(Object.keys(actions).map(str => multiaddr(str)))
+
+    await delay(500)
+    expect(dialed).to.deep.equal(['/ip4/127.0.0.1/tcp/1231'])
+
+    firstDial.reject(new Error('dial failure'))
+
+    await expect(dialPromise).to.eventually.equal(connection)
+    expect(dialed).to.deep.equal(Object.keys(actions))
+  })
 })
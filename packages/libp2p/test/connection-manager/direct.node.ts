@@ -599,7 +599,7 @@ describe('libp2p.dialer (direct, TCP)', () => {
     }
 
     const unixAddr = path.join(os.tmpdir(), `test-${Math.random()}.sock`)
-    const unixMultiaddr = multiaddr('/unix' + unixAddr)
+    const unixMultiaddr = multiaddr(`/unix/${encodeURIComponent(unixAddr)}`)
 
     remoteLibp2p = await createLibp2pNode({
       peerId: remotePeerId,
@@ -643,6 +643,7 @@ describe('libp2p.dialer (direct, TCP)', () => {
     const connection = await libp2p.dial(unixMultiaddr)
 
     expect(connection.remotePeer.toString()).to.equal(remotePeerId.toString())
+    expect(remoteLibp2p.getMultiaddrs()).to.be.empty()
   })
 
   it('should negotiate protocol fully when dialing a protocol', async () => {
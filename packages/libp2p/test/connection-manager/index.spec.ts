@@ -6,6 +6,7 @@ import { defaultLogger } from '@libp2p/logger'
 import { createEd25519PeerId } from '@libp2p/peer-id-factory'
 import { multiaddr } from '@multiformats/multiaddr'
 import { expect } from 'aegir/chai'
+import delay from 'delay'
 import { pEvent } from 'p-event'
 import pWaitFor from 'p-wait-for'
 import sinon from 'sinon'
@@ -335,6 +336,30 @@ describe('Connection Manager', () => {
     })).to.eventually.rejected('maxConnections must be greater')
   })
 
+  it('should fail if the low watermark is outside the connection limits', async () => {
+    await expect(createNode({
+      config: createBaseOptions({
+        connectionManager: {
+          maxConnections: 10,
+          minConnections: 5,
+          lowWatermark: 4
+        }
+      }),
+      started: false
+    })).to.eventually.rejected('lowWatermark must be between')
+
+    await expect(createNode({
+      config: createBaseOptions({
+        connectionManager: {
+          maxConnections: 10,
+          minConnections: 5,
+          lowWatermark: 11
+        }
+      }),
+      started: false
+    })).to.eventually.rejected('lowWatermark must be between')
+  })
+
   it('should reconnect to important peers on startup', async () => {
     const peerId = await createEd25519PeerId()
 
@@ -545,4 +570,111 @@ describe('Connection Manager', () => {
 
     expect(conn).to.equal(newConnection)
   })
+
+  it('should open another connection when a connection is close to its limits', async () => {
+    const components = defaultComponents(libp2p.peerId)
+    connectionManager = new DefaultConnectionManager(components, defaultOptions)
+    await connectionManager.start()
+
+    const targetPeer = await createEd25519PeerId()
+    const limitedConnection = stubInterface<Connection>({
+      remotePeer: targetPeer,
+      remoteAddr: multiaddr(`/ip4/123.123.123.123/tcp/123/p2p/${targetPeer}/p2p-circuit/p2p/${targetPeer}`),
+      transient: true,
+      status: 'open'
+    })
+    const newConnection = stubInterface<Connection>({
+      remotePeer: targetPeer,
+      remoteAddr: multiaddr(`/ip4/124.124.124.124/tcp/123/p2p/${targetPeer}`),
+      status: 'open'
+    })
+
+    const dial = sinon.stub(connectionManager.dialQueue, 'dial')
+      .resolves(newConnection)
+    const retire = sinon.spy(connectionManager.preferredConnections, 'retire')
+
+    connectionManager.getConnectionsMap().set(targetPeer, [
+      limitedConnection
+    ])
+
+    const warning = {
+      detail: {
+        connection: limitedConnection,
+        limit: 'bytes' as const,
+        threshold: 0.8
+      }
+    }
+
+    components.events.safeDispatchEvent('connection:limit:warning', warning)
+    // only one replacement is attempted per connection
+    components.events.safeDispatchEvent('connection:limit:warning', warning)
+
+    await pWaitFor(() => retire.called)
+
+    expect(dial.callCount).to.equal(1)
+    expect(dial.getCall(0).args[0]).to.equal(targetPeer)
+    expect(dial.getCall(0).args[1]).to.have.property('force', true)
+    expect(retire.getCall(0).args[0]).to.equal(limitedConnection)
+  })
+
+  it('should retry replacing a limited connection after a failed attempt', async () => {
+    const components = defaultComponents(libp2p.peerId)
+    connectionManager = new DefaultConnectionManager(components, defaultOptions)
+    await connectionManager.start()
+
+    const targetPeer = await createEd25519PeerId()
+    const limitedConnection = stubInterface<Connection>({
+      remotePeer: targetPeer,
+      remoteAddr: multiaddr(`/ip4/123.123.123.123/tcp/123/p2p/${targetPeer}/p2p-circuit/p2p/${targetPeer}`),
+      transient: true,
+      status: 'open'
+    })
+
+    const dial = sinon.stub(connectionManager.dialQueue, 'dial')
+      .rejects(new Error('Urk!'))
+
+    connectionManager.getConnectionsMap().set(targetPeer, [
+      limitedConnection
+    ])
+
+    const warning = {
+      detail: {
+        connection: limitedConnection,
+        limit: 'duration' as const,
+        threshold: 0.8
+      }
+    }
+
+    components.events.safeDispatchEvent('connection:limit:warning', warning)
+    await pWaitFor(() => dial.callCount === 1)
+    await delay(10)
+
+    components.events.safeDispatchEvent('connection:limit:warning', warning)
+    await pWaitFor(() => dial.callCount === 2)
+  })
+
+  it('should not replace limited connections when disabled', async () => {
+    const components = defaultComponents(libp2p.peerId)
+    connectionManager = new DefaultConnectionManager(components, {
+      ...defaultOptions,
+      replaceLimitedConnections: false
+    })
+    await connectionManager.start()
+
+    const dial = sinon.stub(connectionManager.dialQueue, 'dial')
+
+    components.events.safeDispatchEvent('connection:limit:warning', {
+      detail: {
+        connection: stubInterface<Connection>({
+          remotePeer: await createEd25519PeerId(),
+          status: 'open'
+        }),
+        limit: 'duration',
+        threshold: 0.8
+      }
+    })
+
+    await delay(10)
+    expect(dial.called).to.be.false()
+  })
 })
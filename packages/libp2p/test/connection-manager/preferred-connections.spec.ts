@@ -0,0 +1,175 @@
+/* eslint-env mocha */
+
+import { TypedEventEmitter, type Connection, type Libp2pEvents, type PeerId, type Stream, type TypedEventTarget } from '@libp2p/interface'
+import { defaultLogger } from '@libp2p/logger'
+import { PeerMap } from '@libp2p/peer-collections'
+import { createEd25519PeerId } from '@libp2p/peer-id-factory'
+import { multiaddr } from '@multiformats/multiaddr'
+import { expect } from 'aegir/chai'
+import delay from 'delay'
+import { pEvent } from 'p-event'
+import { stubInterface, type StubbedInstance } from 'sinon-ts'
+import { PreferredConnections, type PreferredConnectionsInit } from '../../src/connection-manager/preferred-connections.js'
+
+interface TestConnection {
+  relayed?: boolean
+  transient?: boolean
+  rtt?: number
+  opened?: number
+  streams?: number
+}
+
+describe('preferred connections', () => {
+  let events: TypedEventTarget<Libp2pEvents>
+  let connections: PeerMap<Connection[]>
+  let remotePeer: PeerId
+  let preferred: PreferredConnections | undefined
+
+  beforeEach(async () => {
+    events = new TypedEventEmitter()
+    connections = new PeerMap()
+    remotePeer = await createEd25519PeerId()
+  })
+
+  afterEach(() => {
+    preferred?.stop()
+  })
+
+  function createPreferredConnections (init: Partial<PreferredConnectionsInit> = {}): PreferredConnections {
+    preferred = new PreferredConnections({
+      events,
+      logger: defaultLogger()
+    }, {
+      connections,
+      ...init
+    })
+
+    return preferred
+  }
+
+  function addConnection (init: TestConnection = {}): StubbedInstance<Connection> {
+    const addr = init.relayed === true
+      ? `/ip4/123.123.123.123/tcp/4001/p2p/${remotePeer}/p2p-circuit/p2p/${remotePeer}`
+      : `/ip4/123.123.123.123/tcp/4001/p2p/${remotePeer}`
+
+    const connection = stubInterface<Connection>({
+      id: `connection-${Math.random()}`,
+      remotePeer,
+      remoteAddr: multiaddr(addr),
+      transient: init.transient ?? false,
+      rtt: init.rtt,
+      status: 'open',
+      streams: new Array(init.streams ?? 0).fill(stubInterface<Stream>()),
+      timeline: {
+        open: init.opened ?? Date.now()
+      }
+    })
+    connection.close.resolves()
+
+    connections.set(remotePeer, [...(connections.get(remotePeer) ?? []), connection])
+
+    return connection
+  }
+
+  it('should prefer direct connections over relayed connections', () => {
+    const relayed = addConnection({ relayed: true, rtt: 10 })
+    const direct = addConnection({ rtt: 100 })
+
+    const preferred = createPreferredConnections()
+
+    expect(preferred.get(remotePeer)).to.equal(direct)
+    expect(preferred.get(remotePeer)).to.not.equal(relayed)
+  })
+
+  it('should prefer non-transient connections over transient connections', () => {
+    addConnection({ transient: true })
+    const nonTransient = addConnection()
+
+    const preferred = createPreferredConnections()
+
+    expect(preferred.get(remotePeer)).to.equal(nonTransient)
+  })
+
+  it('should prefer connections with a lower round trip time', () => {
+    const slow = addConnection({ rtt: 100, opened: 1 })
+    const unknown = addConnection({ opened: 2 })
+    const fast = addConnection({ rtt: 10, opened: 3 })
+
+    const preferred = createPreferredConnections({ drainRedundantConnections: false })
+
+    expect(preferred.get(remotePeer)).to.equal(fast)
+
+    fast.status = 'closed'
+    expect(preferred.get(remotePeer)).to.equal(slow)
+
+    slow.status = 'closed'
+    expect(preferred.get(remotePeer)).to.equal(unknown)
+  })
+
+  it('should emit an event when the preferred connection changes', async () => {
+    addConnection({ relayed: true, transient: true })
+
+    const preferred = createPreferredConnections()
+    preferred.update(remotePeer)
+
+    const eventPromise = pEvent<'connection:preferred', CustomEvent<Connection>>(events, 'connection:preferred')
+    const direct = addConnection()
+    preferred.update(remotePeer)
+
+    const event = await eventPromise
+    expect(event.detail).to.equal(direct)
+  })
+
+  it('should close redundant connections once their streams have closed', async () => {
+    const relayed = addConnection({ relayed: true, transient: true, streams: 1 })
+    addConnection()
+
+    const preferred = createPreferredConnections({ drainCheckInterval: 10 })
+    preferred.update(remotePeer)
+
+    await delay(50)
+    expect(relayed.close).to.have.property('called', false)
+
+    relayed.streams = []
+
+    await delay(50)
+    expect(relayed.close).to.have.property('called', true)
+  })
+
+  it('should close redundant connections after the drain timeout', async () => {
+    const relayed = addConnection({ relayed: true, transient: true, streams: 1 })
+    addConnection()
+
+    const preferred = createPreferredConnections({ drainCheckInterval: 10, drainTimeout: 50 })
+    preferred.update(remotePeer)
+
+    await delay(100)
+    expect(relayed.close).to.have.property('called', true)
+  })
+
+  it('should not close connections that are as good as the preferred connection', async () => {
+    addConnection({ rtt: 10 })
+    const other = addConnection({ rtt: 100 })
+
+    const preferred = createPreferredConnections({ drainCheckInterval: 10 })
+    preferred.update(remotePeer)
+
+    await delay(50)
+    expect(other.close).to.have.property('called', false)
+  })
+
+  it('should move new streams off a retired connection and drain it', async () => {
+    const retiring = addConnection({ relayed: true, transient: true, opened: 1 })
+    const replacement = addConnection({ relayed: true, transient: true, opened: 2 })
+
+    const preferred = createPreferredConnections({ drainCheckInterval: 10 })
+    expect(preferred.get(remotePeer)).to.equal(retiring)
+
+    preferred.retire(retiring)
+    expect(preferred.get(remotePeer)).to.equal(replacement)
+
+    await delay(50)
+    expect(retiring.close).to.have.property('called', true)
+    expect(replacement.close).to.have.property('called', false)
+  })
+})
@@ -55,6 +55,7 @@ describe('connection compliance', () => {
             status: 'open',
             writeStatus: 'ready',
             readStatus: 'ready',
+            bufferedAmount: 0,
             log: logger('test')
           }
 
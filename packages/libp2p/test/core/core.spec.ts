@@ -1,14 +1,16 @@
 /* eslint-env mocha */
 
 import { expect } from 'aegir/chai'
+import { pEvent } from 'p-event'
 import { createLibp2p } from '../../src/index.js'
-import type { Libp2p } from '@libp2p/interface'
+import { createLibp2pNode } from '../../src/libp2p.js'
+import type { Libp2p, Reachability } from '@libp2p/interface'
 
 describe('core', () => {
   let libp2p: Libp2p
 
-  after(async () => {
-    await libp2p.stop()
+  afterEach(async () => {
+    await libp2p?.stop()
   })
 
   it('should start a minimal node', async () => {
@@ -16,4 +18,18 @@ describe('core', () => {
 
     expect(libp2p).to.have.property('status', 'started')
   })
+
+  it('should report reachability', async () => {
+    const node = await createLibp2pNode()
+    libp2p = node
+
+    expect(node).to.have.property('reachability', 'unknown')
+
+    const change = pEvent<'self:reachability:change', CustomEvent<Reachability>>(node, 'self:reachability:change')
+    node.components.addressManager.reportReachability('test', 'public')
+
+    await expect(change).to.eventually.have.property('detail', 'public')
+    expect(node).to.have.property('reachability', 'public')
+    expect(node.nat).to.have.property('reachability', 'public')
+  })
 })
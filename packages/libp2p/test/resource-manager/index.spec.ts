@@ -0,0 +1,217 @@
+/* eslint-env mocha */
+
+import { ERR_RESOURCE_LIMIT_EXCEEDED } from '@libp2p/interface'
+import { defaultLogger } from '@libp2p/logger'
+import { createEd25519PeerId } from '@libp2p/peer-id-factory'
+import { multiaddr } from '@multiformats/multiaddr'
+import { expect } from 'aegir/chai'
+import { DefaultResourceManager, getTransportName } from '../../src/resource-manager/index.js'
+import type { PeerId, ResourceScopeStat } from '@libp2p/interface'
+
+const remoteAddr = multiaddr('/ip4/123.123.123.123/tcp/4001')
+
+function findScope (stats: ResourceScopeStat[], type: string, name: string): ResourceScopeStat | undefined {
+  return stats.find(stat => stat.type === type && stat.name === name)
+}
+
+describe('resource manager', () => {
+  let peerId: PeerId
+
+  beforeEach(async () => {
+    peerId = await createEd25519PeerId()
+  })
+
+  it('should derive transport names from multiaddrs', () => {
+    expect(getTransportName(multiaddr('/ip4/123.123.123.123/tcp/4001'))).to.equal('tcp')
+    expect(getTransportName(multiaddr('/ip4/123.123.123.123/tcp/4001/ws'))).to.equal('ws')
+    expect(getTransportName(multiaddr(`/ip4/123.123.123.123/tcp/4001/p2p/${peerId}/p2p-circuit`))).to.equal('p2p-circuit')
+  })
+
+  it('should limit connections at the system scope', () => {
+    const resourceManager = new DefaultResourceManager({
+      logger: defaultLogger()
+    }, {
+      system: {
+        inboundConnections: 1
+      }
+    })
+
+    const scope = resourceManager.openConnection('inbound', remoteAddr)
+
+    expect(() => resourceManager.openConnection('inbound', remoteAddr))
+      .to.throw().with.property('code', ERR_RESOURCE_LIMIT_EXCEEDED)
+
+    // outbound connections are not limited
+    resourceManager.openConnection('outbound', remoteAddr)
+
+    scope.done()
+
+    resourceManager.openConnection('inbound', remoteAddr)
+  })
+
+  it('should limit connections at the transport scope', () => {
+    const resourceManager = new DefaultResourceManager({
+      logger: defaultLogger()
+    }, {
+      transports: {
+        ws: {
+          connections: 1
+        }
+      }
+    })
+
+    resourceManager.openConnection('inbound', remoteAddr.encapsulate('/ws'))
+
+    expect(() => resourceManager.openConnection('outbound', remoteAddr.encapsulate('/ws')))
+      .to.throw().with.property('code', ERR_RESOURCE_LIMIT_EXCEEDED)
+
+    resourceManager.openConnection('outbound', remoteAddr)
+  })
+
+  it('should limit connections at the peer scope', () => {
+    const resourceManager = new DefaultResourceManager({
+      logger: defaultLogger()
+    }, {
+      peer: {
+        connections: 1
+      }
+    })
+
+    resourceManager.openConnection('inbound', remoteAddr).setPeer(peerId)
+    const scope = resourceManager.openConnection('inbound', remoteAddr)
+
+    expect(() => { scope.setPeer(peerId) })
+      .to.throw().with.property('code', ERR_RESOURCE_LIMIT_EXCEEDED)
+  })
+
+  it('should limit streams at the protocol and service scopes', () => {
+    const resourceManager = new DefaultResourceManager({
+      logger: defaultLogger()
+    }, {
+      protocols: {
+        '/test/1.0.0': {
+          inboundStreams: 1
+        }
+      },
+      services: {
+        test: {
+          streams: 2
+        }
+      }
+    })
+
+    const scope = resourceManager.openConnection('inbound', remoteAddr)
+    scope.setPeer(peerId)
+
+    scope.openStream('inbound').setProtocol('/test/1.0.0', 'test')
+
+    expect(() => { scope.openStream('inbound').setProtocol('/test/1.0.0', 'test') })
+      .to.throw().with.property('code', ERR_RESOURCE_LIMIT_EXCEEDED)
+
+    scope.openStream('outbound').setProtocol('/test/1.0.0', 'test')
+
+    expect(() => { scope.openStream('outbound').setProtocol('/test/2.0.0', 'test') })
+      .to.throw().with.property('code', ERR_RESOURCE_LIMIT_EXCEEDED)
+  })
+
+  it('should limit memory across the scope hierarchy', () => {
+    const resourceManager = new DefaultResourceManager({
+      logger: defaultLogger()
+    }, {
+      peer: {
+        memory: 100
+      }
+    })
+
+    const scope = resourceManager.openConnection('inbound', remoteAddr)
+    scope.setPeer(peerId)
+    scope.reserveMemory(60)
+
+    const otherScope = resourceManager.openConnection('outbound', remoteAddr)
+    otherScope.setPeer(peerId)
+
+    expect(() => { otherScope.reserveMemory(60) })
+      .to.throw().with.property('code', ERR_RESOURCE_LIMIT_EXCEEDED)
+
+    scope.releaseMemory(60)
+    otherScope.reserveMemory(60)
+  })
+
+  it('should charge stream memory to the transport, protocol and service scopes', () => {
+    const resourceManager = new DefaultResourceManager({
+      logger: defaultLogger()
+    }, {
+      transports: {
+        ws: {
+          streams: 1
+        }
+      },
+      services: {
+        test: {
+          memory: 100
+        }
+      }
+    })
+
+    const scope = resourceManager.openConnection('inbound', remoteAddr.encapsulate('/ws'))
+    scope.setPeer(peerId)
+
+    const stream = scope.openStream('inbound')
+    stream.setProtocol('/test/1.0.0', 'test')
+    stream.reserveMemory(60)
+
+    expect(() => scope.openStream('outbound'))
+      .to.throw().with.property('code', ERR_RESOURCE_LIMIT_EXCEEDED)
+    expect(() => { stream.reserveMemory(60) })
+      .to.throw().with.property('code', ERR_RESOURCE_LIMIT_EXCEEDED)
+
+    const stats = resourceManager.stat()
+
+    expect(findScope(stats, 'transport', 'ws')).to.have.nested.property('usage.memory', 60)
+    expect(findScope(stats, 'protocol', '/test/1.0.0')).to.have.nested.property('usage.memory', 60)
+    expect(findScope(stats, 'service', 'test')).to.have.nested.property('usage.memory', 60)
+    expect(findScope(stats, 'peer', peerId.toString())).to.have.nested.property('usage.memory', 60)
+
+    stream.done()
+
+    expect(findScope(resourceManager.stat(), 'system', 'system')).to.have.nested.property('usage.memory', 0)
+  })
+
+  it('should report usage per scope and release it when done', () => {
+    const resourceManager = new DefaultResourceManager({
+      logger: defaultLogger()
+    })
+
+    const scope = resourceManager.openConnection('inbound', remoteAddr)
+    scope.setPeer(peerId)
+    scope.reserveMemory(10)
+    scope.openStream('outbound').setProtocol('/test/1.0.0', 'test')
+
+    let stats = resourceManager.stat()
+
+    expect(findScope(stats, 'system', 'system')).to.have.deep.property('usage', {
+      inboundConnections: 1,
+      outboundConnections: 0,
+      inboundStreams: 0,
+      outboundStreams: 1,
+      memory: 10
+    })
+    expect(findScope(stats, 'transport', 'tcp')).to.have.nested.property('usage.inboundConnections', 1)
+    expect(findScope(stats, 'peer', peerId.toString())).to.have.nested.property('usage.memory', 10)
+    expect(findScope(stats, 'protocol', '/test/1.0.0')).to.have.nested.property('usage.outboundStreams', 1)
+    expect(findScope(stats, 'service', 'test')).to.have.nested.property('usage.outboundStreams', 1)
+
+    scope.done()
+
+    stats = resourceManager.stat()
+
+    expect(stats).to.have.lengthOf(1)
+    expect(findScope(stats, 'system', 'system')).to.have.deep.property('usage', {
+      inboundConnections: 0,
+      outboundConnections: 0,
+      inboundStreams: 0,
+      outboundStreams: 0,
+      memory: 0
+    })
+  })
+})
@@ -2,7 +2,7 @@
 
 import { yamux } from '@chainsafe/libp2p-yamux'
 import { circuitRelayTransport } from '@libp2p/circuit-relay-v2'
-import { TypedEventEmitter } from '@libp2p/interface'
+import { ERR_RESOURCE_LIMIT_EXCEEDED, TypedEventEmitter } from '@libp2p/interface'
 import { mockConnectionGater, mockConnectionManager, mockMultiaddrConnPair, mockRegistrar, mockStream, mockMuxer } from '@libp2p/interface-compliance-tests/mocks'
 import { mplex } from '@libp2p/mplex'
 import { createEd25519PeerId } from '@libp2p/peer-id-factory'
@@ -17,16 +17,19 @@ import delay from 'delay'
 import all from 'it-all'
 import drain from 'it-drain'
 import { pipe } from 'it-pipe'
+import { pushable } from 'it-pushable'
 import pDefer from 'p-defer'
 import { pEvent } from 'p-event'
 import sinon from 'sinon'
 import { type StubbedInstance, stubInterface } from 'sinon-ts'
 import { Uint8ArrayList } from 'uint8arraylist'
 import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+import { BandwidthShaper } from '../../src/bandwidth-shaper.js'
 import { type Components, defaultComponents } from '../../src/components.js'
 import { codes } from '../../src/errors.js'
 import { createLibp2p } from '../../src/index.js'
 import { DEFAULT_MAX_OUTBOUND_STREAMS } from '../../src/registrar.js'
+import { DefaultResourceManager } from '../../src/resource-manager/index.js'
 import { DefaultUpgrader } from '../../src/upgrader.js'
 import type { Libp2p, Connection, ConnectionProtector, Stream, ConnectionEncrypter, SecuredConnection, PeerId, StreamMuxer, StreamMuxerFactory, StreamMuxerInit, Upgrader } from '@libp2p/interface'
 
@@ -73,6 +76,7 @@ describe('Upgrader', () => {
     })
     localComponents.peerStore = new PersistentPeerStore(localComponents)
     localComponents.connectionManager = mockConnectionManager(localComponents)
+    localComponents.resourceManager = new DefaultResourceManager(localComponents)
     localMuxerFactory = mplex()(localComponents)
     localYamuxerFactory = yamux()(localComponents)
     localConnectionEncrypter = plaintext()(localComponents)
@@ -100,6 +104,7 @@ describe('Upgrader', () => {
     })
     remoteComponents.peerStore = new PersistentPeerStore(remoteComponents)
     remoteComponents.connectionManager = mockConnectionManager(remoteComponents)
+    remoteComponents.resourceManager = new DefaultResourceManager(remoteComponents)
     remoteMuxerFactory = mplex()(remoteComponents)
     remoteYamuxerFactory = yamux()(remoteComponents)
     remoteConnectionEncrypter = plaintext()(remoteComponents)
@@ -160,6 +165,117 @@ describe('Upgrader', () => {
     expect(result).to.eql([hello])
   })
 
+  it('should use a stream muxer agreed during the security handshake', async () => {
+    const { inbound, outbound } = mockMultiaddrConnPair({ addrs, remotePeer })
+
+    // simulate an encrypter that selects the muxer as part of the handshake
+    const localSecureOutbound = localConnectionEncrypter.secureOutbound.bind(localConnectionEncrypter)
+    const localSecureOutboundStub = sinon.stub(localConnectionEncrypter, 'secureOutbound').callsFake(async (...args) => ({
+      ...await localSecureOutbound(...args),
+      streamMuxer: '/yamux/1.0.0'
+    }))
+    const remoteSecureInbound = remoteConnectionEncrypter.secureInbound.bind(remoteConnectionEncrypter)
+    const remoteSecureInboundStub = sinon.stub(remoteConnectionEncrypter, 'secureInbound').callsFake(async (...args) => ({
+      ...await remoteSecureInbound(...args),
+      streamMuxer: '/yamux/1.0.0'
+    }))
+
+    const localMultiplexSpy = sinon.spy(localUpgrader as DefaultUpgrader, '_multiplexOutbound')
+    const remoteMultiplexSpy = sinon.spy(remoteUpgrader as DefaultUpgrader, '_multiplexInbound')
+
+    const connections = await Promise.all([
+      localUpgrader.upgradeOutbound(outbound),
+      remoteUpgrader.upgradeInbound(inbound)
+    ])
+
+    expect(localSecureOutboundStub.getCall(0).args[3]).to.deep.equal({
+      streamMuxers: ['/mplex/6.7.0', '/yamux/1.0.0']
+    })
+    expect(remoteSecureInboundStub.getCall(0).args[3]).to.have.deep.property('streamMuxers', ['/mplex/6.7.0', '/yamux/1.0.0'])
+    expect(remoteSecureInboundStub.getCall(0).args[3]).to.have.property('signal').that.is.an.instanceOf(AbortSignal)
+    expect(localMultiplexSpy.called).to.be.false()
+    expect(remoteMultiplexSpy.called).to.be.false()
+    expect(connections[0]).to.have.property('multiplexer', '/yamux/1.0.0')
+    expect(connections[1]).to.have.property('multiplexer', '/yamux/1.0.0')
+
+    const stream = await connections[0].newStream('/echo/1.0.0')
+    const hello = uint8ArrayFromString('hello there!')
+    const result = await pipe(
+      [hello],
+      stream,
+      async (source) => all(source)
+    )
+
+    expect(new Uint8ArrayList(...result).subarray()).to.equalBytes(hello)
+
+    await Promise.all(connections.map(async conn => { await conn.close() }))
+  })
+
+  it('should negotiate a stream muxer if none was agreed during the security handshake', async () => {
+    const { inbound, outbound } = mockMultiaddrConnPair({ addrs, remotePeer })
+
+    const localMultiplexSpy = sinon.spy(localUpgrader as DefaultUpgrader, '_multiplexOutbound')
+    const remoteMultiplexSpy = sinon.spy(remoteUpgrader as DefaultUpgrader, '_multiplexInbound')
+
+    const connections = await Promise.all([
+      localUpgrader.upgradeOutbound(outbound),
+      remoteUpgrader.upgradeInbound(inbound)
+    ])
+
+    expect(localMultiplexSpy.calledOnce).to.be.true()
+    expect(remoteMultiplexSpy.calledOnce).to.be.true()
+    expect(connections[0]).to.have.property('multiplexer', '/mplex/6.7.0')
+
+    await Promise.all(connections.map(async conn => { await conn.close() }))
+  })
+
+  it('should upgrade a connection both sides dialed with simultaneous connect', async () => {
+    const { inbound, outbound } = mockMultiaddrConnPair({ addrs, remotePeer })
+
+    // both sides write before they read during a simultaneous connect so use
+    // streams that do not wait for the other side to read, like sockets
+    const outboundSource = pushable<Uint8Array | Uint8ArrayList>({ objectMode: true })
+    const inboundSource = pushable<Uint8Array | Uint8ArrayList>({ objectMode: true })
+
+    outbound.source = outboundSource
+    outbound.sink = async (source) => {
+      for await (const buf of source) {
+        inboundSource.push(buf)
+      }
+
+      inboundSource.end()
+    }
+    inbound.source = inboundSource
+    inbound.sink = async (source) => {
+      for await (const buf of source) {
+        outboundSource.push(buf)
+      }
+
+      outboundSource.end()
+    }
+
+    const connections = await Promise.all([
+      localUpgrader.upgradeOutbound(outbound, { simultaneousConnect: true }),
+      remoteUpgrader.upgradeOutbound(inbound, { simultaneousConnect: true })
+    ])
+
+    expect(connections[0]).to.have.property('direction', 'outbound')
+    expect(connections[0].remotePeer.equals(remotePeer)).to.be.true()
+    expect(connections[1]).to.have.property('direction', 'outbound')
+    expect(connections[1].remotePeer.equals(localPeer)).to.be.true()
+
+    // both sides can open streams
+    for (const connection of connections) {
+      const stream = await connection.newStream('/echo/1.0.0')
+      const hello = uint8ArrayFromString('hello there!')
+      const result = await pipe([hello], stream, async (source) => all(source))
+
+      expect(new Uint8ArrayList(...result).subarray()).to.equalBytes(hello)
+    }
+
+    await Promise.all(connections.map(async conn => { await conn.close() }))
+  })
+
   it('should upgrade with only crypto', async () => {
     const { inbound, outbound } = mockMultiaddrConnPair({ addrs, remotePeer })
 
@@ -529,6 +645,122 @@ describe('Upgrader', () => {
     expect(connections[1].streams).to.have.lengthOf(0)
   })
 
+  it('should reserve resources for connections and streams', async () => {
+    const { inbound, outbound } = mockMultiaddrConnPair({ addrs, remotePeer })
+
+    const connections = await Promise.all([
+      localUpgrader.upgradeOutbound(outbound),
+      remoteUpgrader.upgradeInbound(inbound)
+    ])
+
+    await connections[0].newStream('/echo/1.0.0')
+
+    expect(localComponents.resourceManager.stat()).to.deep.include({
+      type: 'peer',
+      name: remotePeer.toString(),
+      usage: {
+        inboundConnections: 0,
+        outboundConnections: 1,
+        inboundStreams: 0,
+        outboundStreams: 1,
+        memory: 0
+      },
+      limits: {
+        inboundStreams: 512,
+        streams: 1024,
+        memory: 1024 * 1024 * 64
+      }
+    })
+
+    await Promise.all(connections.map(async conn => { await conn.close() }))
+
+    await delay(10)
+
+    expect(localComponents.resourceManager.stat().map(stat => stat.type)).to.deep.equal(['system'])
+    expect(remoteComponents.resourceManager.stat().map(stat => stat.type)).to.deep.equal(['system'])
+  })
+
+  it('should fail to upgrade a connection when resource limits are reached', async () => {
+    remoteComponents.resourceManager = new DefaultResourceManager(remoteComponents, {
+      system: {
+        inboundConnections: 0
+      }
+    })
+
+    const { inbound } = mockMultiaddrConnPair({ addrs, remotePeer })
+
+    await expect(remoteUpgrader.upgradeInbound(inbound)).to.eventually.be.rejected
+      .with.property('code', ERR_RESOURCE_LIMIT_EXCEEDED)
+  })
+
+  it('should fail to open a stream when resource limits are reached', async () => {
+    localComponents.resourceManager = new DefaultResourceManager(localComponents, {
+      protocols: {
+        '/echo/1.0.0': {
+          outboundStreams: 1
+        }
+      }
+    })
+
+    const { inbound, outbound } = mockMultiaddrConnPair({ addrs, remotePeer })
+
+    const connections = await Promise.all([
+      localUpgrader.upgradeOutbound(outbound),
+      remoteUpgrader.upgradeInbound(inbound)
+    ])
+
+    await connections[0].newStream('/echo/1.0.0')
+
+    await expect(connections[0].newStream('/echo/1.0.0')).to.eventually.be.rejected
+      .with.property('code', ERR_RESOURCE_LIMIT_EXCEEDED)
+  })
+
+  it('should shape connections and streams', async () => {
+    const bandwidthShaper = new BandwidthShaper(localComponents, {
+      peer: {
+        upload: 1024 * 1024
+      },
+      protocols: {
+        '/echo/1.0.0': {
+          upload: 1024
+        }
+      }
+    })
+    const shapeConnectionSpy = sinon.spy(bandwidthShaper, 'shapeConnection')
+    const shapeStreamSpy = sinon.spy(bandwidthShaper, 'shapeStream')
+
+    localUpgrader = new DefaultUpgrader(localComponents, {
+      connectionEncryption: [
+        localConnectionEncrypter
+      ],
+      muxers: [
+        localMuxerFactory
+      ],
+      bandwidthShaper
+    })
+
+    const { inbound, outbound } = mockMultiaddrConnPair({ addrs, remotePeer })
+
+    const connections = await Promise.all([
+      localUpgrader.upgradeOutbound(outbound),
+      remoteUpgrader.upgradeInbound(inbound)
+    ])
+
+    expect(shapeConnectionSpy.calledWith(outbound)).to.be.true()
+
+    const stream = await connections[0].newStream('/echo/1.0.0')
+    expect(shapeStreamSpy.calledWith(stream, '/echo/1.0.0')).to.be.true()
+
+    const hello = uint8ArrayFromString('hello there!')
+    const result = await pipe(
+      [hello],
+      stream,
+      async (source) => all(source)
+    )
+
+    expect(result.map(buf => buf.subarray())).to.deep.equal([hello])
+  })
+
   it('should allow skipping encryption, protection and muxing', async () => {
     const localStreamMuxerFactorySpy = sinon.spy(localMuxerFactory, 'createStreamMuxer')
     const localMuxerFactoryOverride = mockMuxer()
@@ -1026,4 +1258,74 @@ describe('libp2p.upgrader', () => {
     })).to.eventually.be.rejected()
       .with.property('code', codes.ERR_TOO_MANY_OUTBOUND_PROTOCOL_STREAMS)
   })
+  it('should set the priority of streams from the protocol handler', async () => {
+    const localDeferred = pDefer<Components>()
+    const remoteDeferred = pDefer<Components>()
+    const protocol = '/a-test-protocol/1.0.0'
+    const remotePeer = peers[1]
+    libp2p = await createLibp2p({
+      peerId: peers[0],
+      transports: [
+        webSockets()
+      ],
+      streamMuxers: [
+        yamux()
+      ],
+      connectionEncryption: [
+        plaintext()
+      ],
+      services: {
+        test: (components: any) => {
+          localDeferred.resolve(components)
+        }
+      }
+    })
+
+    remoteLibp2p = await createLibp2p({
+      peerId: remotePeer,
+      transports: [
+        webSockets()
+      ],
+      streamMuxers: [
+        yamux()
+      ],
+      connectionEncryption: [
+        plaintext()
+      ],
+      services: {
+        test: (components: any) => {
+          remoteDeferred.resolve(components)
+        }
+      }
+    })
+
+    const { inbound, outbound } = mockMultiaddrConnPair({ addrs, remotePeer })
+
+    const localComponents = await localDeferred.promise
+    const remoteComponents = await remoteDeferred.promise
+
+    const [localToRemote] = await Promise.all([
+      localComponents.upgrader.upgradeOutbound(outbound),
+      remoteComponents.upgrader.upgradeInbound(inbound)
+    ])
+
+    const incomingStream = pDefer<Stream>()
+
+    await libp2p.handle(protocol, () => {}, {
+      priority: 'high'
+    })
+    await remoteLibp2p.handle(protocol, ({ stream }) => {
+      incomingStream.resolve(stream)
+    }, {
+      priority: 'low'
+    })
+
+    const stream = await localToRemote.newStream(protocol)
+
+    expect(stream).to.have.property('priority', 'high')
+    await expect(incomingStream.promise).to.eventually.have.property('priority', 'low')
+
+    // the priority passed when opening the stream takes precedence
+    await expect(localToRemote.newStream(protocol, { priority: 'normal' })).to.eventually.have.property('priority', 'normal')
+  })
 })
@@ -1,5 +1,8 @@
 export const PROTOCOL_ID = '/multistream/1.0.0'
 
+// https://github.com/libp2p/specs/blob/master/connections/simopen.md
+export const SIMULTANEOUS_CONNECT_PROTOCOL = '/libp2p/simultaneous-connect'
+
 // Conforming to go-libp2p
 // See https://github.com/multiformats/go-multistream/blob/master/multistream.go#L297
 export const MAX_PROTOCOL_LENGTH = 1024
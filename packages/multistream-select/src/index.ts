@@ -18,17 +18,48 @@
  * > <dht-message>
  * > <dht-message>
  * ```
+ *
+ * ## Simultaneous connect
+ *
+ * When two peers dial each other at the same time, for example while hole
+ * punching, a TCP simultaneous open can result in a single connection that
+ * both peers think they dialed. Passing `simultaneousConnect: true` to `select`
+ * uses the [simultaneous connect extension](https://github.com/libp2p/specs/blob/master/connections/simopen.md)
+ * to decide which peer acts as the initiator:
+ *
+ * ```
+ * > /multistream/1.0.0
+ * > /libp2p/simultaneous-connect
+ * < /multistream/1.0.0
+ * < /libp2p/simultaneous-connect  # the remote is dialing too, a listener would send "na"
+ * > select:9823751093475012       # each side sends a random nonce
+ * < select:1204587309842322
+ * > initiator                     # the side with the larger nonce is the initiator
+ * < responder
+ * > /noise                        # the initiator selects a protocol as usual
+ * < /noise
+ * ```
+ *
+ * The `initiator` property of the returned object is false if the remote won
+ * the tie-break, in which case the protocol was handled as a listener.
  */
 
-import { PROTOCOL_ID } from './constants.js'
+import { PROTOCOL_ID, SIMULTANEOUS_CONNECT_PROTOCOL } from './constants.js'
 import type { AbortOptions, LoggerOptions } from '@libp2p/interface'
 import type { LengthPrefixedStreamOpts } from 'it-length-prefixed-stream'
 
-export { PROTOCOL_ID }
+export { PROTOCOL_ID, SIMULTANEOUS_CONNECT_PROTOCOL }
 
 export interface ProtocolStream<Stream> {
   stream: Stream
   protocol: string
+
+  /**
+   * Set when the simultaneous connect extension was used, false if the remote
+   * was also dialing and won the tie-break so the protocol was handled as a
+   * listener
+   */
+  initiator?: boolean
 }
 
 export interface MultistreamSelectInit extends AbortOptions, LoggerOptions, Partial<LengthPrefixedStreamOpts> {
@@ -40,6 +71,15 @@ export interface MultistreamSelectInit extends AbortOptions, LoggerOptions, Part
    * @default true
    */
   negotiateFully?: boolean
+
+  /**
+   * When selecting a protocol on a connection that the remote may also have
+   * dialed, use the simultaneous connect extension to decide which side acts
+   * as the initiator. Only used by `select`.
+   *
+   * @default false
+   */
+  simultaneousConnect?: boolean
 }
 
 export { select } from './select.js'
@@ -5,11 +5,13 @@ import { raceSignal } from 'race-signal'
 import * as varint from 'uint8-varint'
 import { Uint8ArrayList } from 'uint8arraylist'
 import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
-import { MAX_PROTOCOL_LENGTH } from './constants.js'
+import { MAX_PROTOCOL_LENGTH, SIMULTANEOUS_CONNECT_PROTOCOL } from './constants.js'
+import { handle } from './handle.js'
 import * as multistream from './multistream.js'
 import { PROTOCOL_ID } from './index.js'
 import type { MultistreamSelectInit, ProtocolStream } from './index.js'
 import type { AbortOptions } from '@libp2p/interface'
+import type { LengthPrefixedStream } from 'it-length-prefixed-stream'
 import type { Duplex } from 'it-stream-types'
 
 export interface SelectStream extends Duplex<any, any, any> {
@@ -65,7 +67,7 @@ export interface SelectStream extends Duplex<any, any, any> {
 export async function select <Stream extends SelectStream> (stream: Stream, protocols: string | string[], options: MultistreamSelectInit): Promise<ProtocolStream<Stream>> {
   protocols = Array.isArray(protocols) ? [...protocols] : [protocols]
 
-  if (protocols.length === 1 && options.negotiateFully === false) {
+  if (protocols.length === 1 && options.negotiateFully === false && options.simultaneousConnect !== true) {
     return optimisticSelect(stream, protocols[0], options)
   }
 
@@ -79,6 +81,10 @@ export async function select <Stream extends SelectStream> (stream: Stream, prot
     throw new Error('At least one protocol must be specified')
   }
 
+  if (options.simultaneousConnect === true) {
+    return simultaneousSelect(lp, [protocol, ...protocols], options)
+  }
+
   options.log.trace('select: write ["%s", "%s"]', PROTOCOL_ID, protocol)
   const p1 = uint8ArrayFromString(`${PROTOCOL_ID}\n`)
   const p2 = uint8ArrayFromString(`${protocol}\n`)
@@ -101,6 +107,15 @@ export async function select <Stream extends SelectStream> (stream: Stream, prot
   }
 
   // We haven't gotten a valid ack, try the other protocols
+  const selected = await proposeProtocols(lp, protocols, options)
+
+  return { stream: lp.unwrap(), protocol: selected }
+}
+
+/**
+ * Propose each protocol in turn until the remote accepts one
+ */
+async function proposeProtocols (lp: LengthPrefixedStream<any>, protocols: string[], options: MultistreamSelectInit): Promise<string> {
   for (const protocol of protocols) {
     options.log.trace('select: write "%s"', protocol)
     await multistream.write(lp, uint8ArrayFromString(`${protocol}\n`), options)
@@ -109,13 +124,115 @@ export async function select <Stream extends SelectStream> (stream: Stream, prot
     options.log.trace('select: read "%s" for "%s"', response, protocol)
 
     if (response === protocol) {
-      return { stream: lp.unwrap(), protocol }
+      return protocol
     }
   }
 
   throw new CodeError('protocol selection failed', 'ERR_UNSUPPORTED_PROTOCOL')
 }
 
+/**
+ * Negotiates a protocol using the simultaneous connect extension. If the
+ * remote is a listener it responds to the extension with "na" and we select a
+ * protocol as usual, if it is also dialing then a nonce is exchanged to decide
+ * which side selects the protocol and which side handles it.
+ *
+ * @see https://github.com/libp2p/specs/blob/master/connections/simopen.md
+ */
+async function simultaneousSelect <Stream extends SelectStream> (lp: LengthPrefixedStream<Stream>, protocols: string[], options: MultistreamSelectInit): Promise<ProtocolStream<Stream>> {
+  options.log.trace('select: write ["%s", "%s"]', PROTOCOL_ID, SIMULTANEOUS_CONNECT_PROTOCOL)
+  await multistream.writeAll(lp, [
+    uint8ArrayFromString(`${PROTOCOL_ID}\n`),
+    uint8ArrayFromString(`${SIMULTANEOUS_CONNECT_PROTOCOL}\n`)
+  ], options)
+
+  options.log.trace('select: reading multistream-select header')
+  let response = await multistream.readString(lp, options)
+  options.log.trace('select: read "%s"', response)
+
+  if (response === PROTOCOL_ID) {
+    options.log.trace('select: reading simultaneous connect response')
+    response = await multistream.readString(lp, options)
+    options.log.trace('select: read "%s"', response)
+  }
+
+  if (response === SIMULTANEOUS_CONNECT_PROTOCOL) {
+    options.log('select: remote is also dialing, deciding which side is the initiator')
+
+    if (!(await negotiateInitiator(lp, options))) {
+      options.log('select: remote is the initiator, handling protocols')
+      const result = await handle(lp.unwrap(), protocols, options)
+
+      return { ...result, initiator: false }
+    }
+
+    options.log('select: we are the initiator, selecting protocol')
+  } else if (response !== 'na') {
+    throw new CodeError(`unexpected response to simultaneous connect "${response}"`, 'ERR_INVALID_MULTISTREAM_SELECT_MESSAGE')
+  }
+
+  const selected = await proposeProtocols(lp, protocols, options)
+
+  return { stream: lp.unwrap(), protocol: selected, initiator: true }
+}
+
+/**
+ * Both sides send a random nonce, the side with the larger nonce is the
+ * initiator. If the nonces are equal new ones are exchanged.
+ */
+async function negotiateInitiator (lp: LengthPrefixedStream<any>, options: MultistreamSelectInit): Promise<boolean> {
+  while (true) {
+    const nonce = randomNonce()
+
+    const message = `select:${nonce}`
+
+    options.log.trace('select: write "%s"', message)
+    await multistream.write(lp, uint8ArrayFromString(`${message}\n`), options)
+
+    const response = await multistream.readString(lp, options)
+    options.log.trace('select: read "%s"', response)
+
+    const remoteNonce = parseNonce(response)
+
+    if (remoteNonce === nonce) {
+      options.log('select: nonces were equal, trying again')
+      continue
+    }
+
+    const initiator = nonce > remoteNonce
+    const role = initiator ? 'initiator' : 'responder'
+    const remoteRole = initiator ? 'responder' : 'initiator'
+
+    options.log.trace('select: write "%s"', role)
+    await multistream.write(lp, uint8ArrayFromString(`${role}\n`), options)
+
+    const remoteResponse = await multistream.readString(lp, options)
+    options.log.trace('select: read "%s"', remoteResponse)
+
+    if (remoteResponse !== remoteRole) {
+      throw new CodeError(`remote sent "${remoteResponse}" but should have sent "${remoteRole}"`, 'ERR_INVALID_MULTISTREAM_SELECT_MESSAGE')
+    }
+
+    return initiator
+  }
+}
+
+function randomNonce (): bigint {
+  const buf = crypto.getRandomValues(new Uint8Array(8))
+
+  return new DataView(buf.buffer).getBigUint64(0)
+}
+
+function parseNonce (message: string): bigint {
+  if (message.startsWith('select:')) {
+    try {
+      return BigInt(message.substring('select:'.length))
+    } catch {}
+  }
+
+  throw new CodeError(`expected a simultaneous connect nonce but got "${message}"`, 'ERR_INVALID_MULTISTREAM_SELECT_MESSAGE')
+}
+
 /**
  * Optimistically negotiates a protocol.
  *
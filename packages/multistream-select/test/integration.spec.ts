@@ -4,10 +4,43 @@ import { logger } from '@libp2p/logger'
 import { expect } from 'aegir/chai'
 import randomBytes from 'iso-random-stream/src/random.js'
 import all from 'it-all'
+import { encode } from 'it-length-prefixed'
 import { duplexPair } from 'it-pair/duplex'
 import { pipe } from 'it-pipe'
+import { pushable } from 'it-pushable'
 import { Uint8ArrayList } from 'uint8arraylist'
+import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
 import * as mss from '../src/index.js'
+import type { Duplex, Source } from 'it-stream-types'
+
+/**
+ * Unlike `duplexPair`, writes to these streams do not wait for the other side
+ * to read so both sides can write before they read like they can with a socket
+ */
+function bufferedDuplexPair (): [Duplex<AsyncGenerator<Uint8Array | Uint8ArrayList>, Source<Uint8Array | Uint8ArrayList>, Promise<void>>, Duplex<AsyncGenerator<Uint8Array | Uint8ArrayList>, Source<Uint8Array | Uint8ArrayList>, Promise<void>>] {
+  const a = pushable<Uint8Array | Uint8ArrayList>({ objectMode: true })
+  const b = pushable<Uint8Array | Uint8ArrayList>({ objectMode: true })
+
+  return [{
+    source: a,
+    sink: async (source) => {
+      for await (const buf of source) {
+        b.push(buf)
+      }
+
+      b.end()
+    }
+  }, {
+    source: b,
+    sink: async (source) => {
+      for await (const buf of source) {
+        a.push(buf)
+      }
+
+      a.end()
+    }
+  }]
+}
 
 describe('Dialer and Listener integration', () => {
   it('should handle and select', async () => {
@@ -246,4 +279,75 @@ describe('Dialer and Listener integration', () => {
     await expect(dialerResultPromise).to.eventually.be.rejected()
       .with.property('code', 'ERR_UNSUPPORTED_PROTOCOL')
   })
+
+  it('should select as the initiator with simultaneous connect when the remote is a listener', async () => {
+    const protocols = ['/echo/2.0.0', '/echo/1.0.0']
+    const pair = duplexPair<Uint8ArrayList | Uint8Array>()
+
+    const [dialerSelection, listenerSelection] = await Promise.all([
+      mss.select(pair[0], protocols, {
+        log: logger('mss:test'),
+        simultaneousConnect: true
+      }),
+      mss.handle(pair[1], '/echo/1.0.0', {
+        log: logger('mss:test')
+      })
+    ])
+
+    expect(dialerSelection).to.have.property('protocol', '/echo/1.0.0')
+    expect(dialerSelection).to.have.property('initiator', true)
+    expect(listenerSelection).to.have.property('protocol', '/echo/1.0.0')
+  })
+
+  it('should keep data that arrives with the protocol response when selecting with simultaneous connect', async () => {
+    const data = randomBytes(10)
+    const pair = bufferedDuplexPair()
+
+    const messages = (...messages: string[]): Uint8ArrayList[] => messages.map(message => encode.single(uint8ArrayFromString(`${message}\n`)))
+
+    // the listener's response to the protocol and the first bytes of the
+    // protocol arrive in a single chunk, like they can with a socket
+    void pair[1].sink([
+      new Uint8ArrayList(...messages('/multistream/1.0.0', 'na')),
+      new Uint8ArrayList(...messages('na', '/echo/1.0.0'), data)
+    ])
+
+    const selection = await mss.select(pair[0], ['/echo/2.0.0', '/echo/1.0.0'], {
+      log: logger('mss:test'),
+      simultaneousConnect: true
+    })
+
+    expect(selection).to.have.property('protocol', '/echo/1.0.0')
+
+    const output = await all(selection.stream.source)
+    expect(new Uint8ArrayList(...output).slice()).to.equalBytes(data)
+  })
+
+  it('should decide which side is the initiator when both sides select with simultaneous connect', async () => {
+    const protocols = ['/echo/2.0.0', '/echo/1.0.0']
+    const pair = bufferedDuplexPair()
+
+    const [selectionA, selectionB] = await Promise.all([
+      mss.select(pair[0], protocols, {
+        log: logger('mss:test-a'),
+        simultaneousConnect: true
+      }),
+      mss.select(pair[1], ['/echo/1.0.0'], {
+        log: logger('mss:test-b'),
+        simultaneousConnect: true
+      })
+    ])
+
+    expect(selectionA.protocol).to.equal('/echo/1.0.0')
+    expect(selectionB.protocol).to.equal('/echo/1.0.0')
+    expect(selectionA.initiator).to.not.equal(selectionB.initiator)
+
+    // Ensure stream is usable after selection
+    const input = [new Uint8ArrayList(randomBytes(10), randomBytes(64), randomBytes(3))]
+    const output = await Promise.all([
+      pipe(input, selectionA.stream, async (source) => all(source)),
+      pipe(selectionB.stream, selectionB.stream)
+    ])
+    expect(new Uint8ArrayList(...output[0]).slice()).to.eql(new Uint8ArrayList(...input).slice())
+  })
 })
@@ -331,6 +331,9 @@ export namespace Address {
 export interface Tag {
   value: number
   expiry?: bigint
+  updated?: bigint
+  decayInterval?: number
+  decayAmount?: number
 }
 
 export namespace Tag {
@@ -353,6 +356,21 @@ export namespace Tag {
           w.uint64(obj.expiry)
         }
 
+        if (obj.updated != null) {
+          w.uint32(24)
+          w.uint64(obj.updated)
+        }
+
+        if (obj.decayInterval != null) {
+          w.uint32(32)
+          w.uint32(obj.decayInterval)
+        }
+
+        if (obj.decayAmount != null) {
+          w.uint32(40)
+          w.uint32(obj.decayAmount)
+        }
+
         if (opts.lengthDelimited !== false) {
           w.ldelim()
         }
@@ -373,6 +391,15 @@ export namespace Tag {
             case 2:
               obj.expiry = reader.uint64()
               break
+            case 3:
+              obj.updated = reader.uint64()
+              break
+            case 4:
+              obj.decayInterval = reader.uint32()
+              break
+            case 5:
+              obj.decayAmount = reader.uint32()
+              break
             default:
               reader.skipType(tag & 7)
               break
@@ -1,6 +1,6 @@
 import { peerIdFromPeerId } from '@libp2p/peer-id'
 import { multiaddr } from '@multiformats/multiaddr'
-import { Peer as PeerPB } from '../pb/peer.js'
+import { Peer as PeerPB, type Tag as TagPB } from '../pb/peer.js'
 import type { PeerId, Peer, Tag } from '@libp2p/interface'
 
 export function bytesToPeer (peerId: PeerId, buf: Uint8Array): Peer {
@@ -23,7 +23,14 @@ export function bytesToPeer (peerId: PeerId, buf: Uint8Array): Peer {
       continue
     }
 
-    tags.set(key, tag)
+    const decayed = decayTag(tag, now)
+
+    // the tag value has decayed to nothing
+    if (decayed.value === 0 && tag.decayInterval != null) {
+      continue
+    }
+
+    tags.set(key, decayed)
   }
 
   return {
@@ -40,3 +47,27 @@ export function bytesToPeer (peerId: PeerId, buf: Uint8Array): Peer {
     tags
   }
 }
+
+/**
+ * Reduce the value of a decaying tag by the number of whole intervals that
+ * have elapsed since it was set. The updated timestamp is moved forward by the
+ * same number of intervals so the tag can be persisted again without the
+ * decay being applied twice.
+ */
+function decayTag (tag: TagPB, now: bigint): TagPB {
+  if (tag.decayInterval == null || tag.decayInterval === 0 || tag.updated == null) {
+    return tag
+  }
+
+  const intervals = (now - tag.updated) / BigInt(tag.decayInterval)
+
+  if (intervals <= 0n) {
+    return tag
+  }
+
+  return {
+    ...tag,
+    value: Math.max(0, tag.value - Number(intervals) * (tag.decayAmount ?? 1)),
+    updated: tag.updated + intervals * BigInt(tag.decayInterval)
+  }
+}
@@ -216,6 +216,16 @@ function validateTag (key: string, tag: TagOptions): void {
       throw new CodeError('Tag ttl must be between greater than 0', codes.ERR_INVALID_PARAMETERS)
     }
   }
+
+  if (tag.decay != null) {
+    if (parseInt(`${tag.decay.interval}`, 10) !== tag.decay.interval || tag.decay.interval < 1) {
+      throw new CodeError('Tag decay interval must be a positive integer', codes.ERR_INVALID_PARAMETERS)
+    }
+
+    if (tag.decay.amount != null && (parseInt(`${tag.decay.amount}`, 10) !== tag.decay.amount || tag.decay.amount < 1)) {
+      throw new CodeError('Tag decay amount must be a positive integer', codes.ERR_INVALID_PARAMETERS)
+    }
+  }
 }
 
 function mapTag (key: string, tag: any): Tag {
@@ -229,6 +239,27 @@ function mapTag (key: string, tag: any): Tag {
     expiry = BigInt(Date.now() + Number(tag.ttl))
   }
 
+  if (tag.decay != null) {
+    return {
+      value: tag.value ?? 0,
+      expiry,
+      updated: BigInt(Date.now()),
+      decayInterval: tag.decay.interval,
+      decayAmount: tag.decay.amount ?? 1
+    }
+  }
+
+  // an existing decaying tag being merged with other tags
+  if (tag.decayInterval != null) {
+    return {
+      value: tag.value ?? 0,
+      expiry,
+      updated: tag.updated,
+      decayInterval: tag.decayInterval,
+      decayAmount: tag.decayAmount
+    }
+  }
+
   return {
     value: tag.value ?? 0,
     expiry
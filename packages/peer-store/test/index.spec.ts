@@ -148,6 +148,91 @@ describe('PersistentPeerStore', () => {
         .that.does.not.have.key(name)
     })
 
+    it('tags a peer with a decaying value', async () => {
+      const name = 'a-tag'
+      await peerStore.save(peerId, {
+        tags: {
+          [name]: {
+            value: 10,
+            decay: {
+              interval: 50,
+              amount: 3
+            }
+          }
+        }
+      })
+
+      await delay(120)
+
+      const peer = await peerStore.get(peerId)
+
+      expect(peer.tags.get(name)).to.have.property('value').that.is.lessThan(10)
+
+      // setting the tag again restores the full value
+      const updatedPeer = await peerStore.merge(peerId, {
+        tags: {
+          [name]: {
+            value: 10,
+            decay: {
+              interval: 50,
+              amount: 3
+            }
+          }
+        }
+      })
+
+      expect(updatedPeer.tags.get(name)).to.have.property('value', 10)
+    })
+
+    it('removes a tag that has fully decayed', async () => {
+      const name = 'a-tag'
+      await peerStore.save(peerId, {
+        tags: {
+          [name]: {
+            value: 2,
+            decay: {
+              interval: 20
+            }
+          },
+          'other-tag': {}
+        }
+      })
+
+      await delay(100)
+
+      const peer = await peerStore.get(peerId)
+
+      expect(peer).to.have.property('tags')
+        .that.does.not.have.key(name)
+    })
+
+    it('does not decay a tag twice when merging other tags', async () => {
+      const name = 'a-tag'
+      await peerStore.save(peerId, {
+        tags: {
+          [name]: {
+            value: 50,
+            decay: {
+              interval: 100,
+              amount: 10
+            }
+          }
+        }
+      })
+
+      await delay(150)
+
+      await peerStore.merge(peerId, {
+        tags: {
+          'other-tag': {}
+        }
+      })
+
+      const peer = await peerStore.get(peerId)
+
+      expect(peer.tags.get(name)).to.have.property('value', 40)
+    })
+
     it('untags a peer', async () => {
       const name = 'a-tag'
       const peer = await peerStore.save(peerId, {
@@ -500,6 +500,7 @@ export class AutoNATService implements Startable {
             // we are now convinced
             this.log('%a is externally dialable', addr)
             addressManager.confirmObservedAddr(addr)
+            addressManager.reportReachability('autonat', 'public', addr)
             return
           }
 
@@ -507,6 +508,7 @@ export class AutoNATService implements Startable {
             // we are now unconvinced
             this.log('%a is not externally dialable', addr)
             addressManager.removeObservedAddr(addr)
+            addressManager.reportReachability('autonat', 'private', addr)
             return
           }
         } catch (err) {
@@ -134,6 +134,8 @@ describe('autonat', () => {
 
       expect(addressManager.confirmObservedAddr.calledWith(observedAddress))
         .to.be.true('Did not confirm observed multiaddr')
+      expect(addressManager.reportReachability.calledWith('autonat', 'public', observedAddress))
+        .to.be.true('Did not report the address as public')
     })
 
     it('should mark observed address as low confidence when dialing fails', async () => {
@@ -164,6 +166,8 @@ describe('autonat', () => {
 
       expect(addressManager.removeObservedAddr.calledWith(observedAddress))
         .to.be.true('Did not verify external multiaddr')
+      expect(addressManager.reportReachability.calledWith('autonat', 'private', observedAddress))
+        .to.be.true('Did not report the address as private')
     })
 
     it('should ignore non error or success statuses', async () => {
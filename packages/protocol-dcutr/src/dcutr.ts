@@ -123,6 +123,13 @@ export class DefaultDCUtRService implements Startable {
       return
     }
 
+    // a NAT that uses a different external port for each remote host will not
+    // let the remote's packets through to the port we punch a hole with
+    if (this.addressManager.getNATStatus().type === 'endpoint-dependent') {
+      this.log('not attempting DCUtR with %p as our NAT has an endpoint-dependent mapping', relayedConnection.remotePeer)
+      return
+    }
+
     let stream: Stream | undefined
 
     for (let i = 0; i < this.retries; i++) {
@@ -185,10 +192,14 @@ export class DefaultDCUtRService implements Startable {
         // https://github.com/libp2p/specs/blob/master/relay/DCUtR.md#the-protocol
 
         this.log('B dialing', multiaddrs)
-        // Upon expiry of the timer, B dials the address to A.
+        // Upon expiry of the timer, B dials the address to A. A is dialing B at
+        // the same time so a TCP simultaneous open may join both dials into
+        // one connection that both sides think they dialed
         const conn = await this.connectionManager.openConnection(multiaddrs, {
           signal: options.signal,
-          priority: DCUTR_DIAL_PRIORITY
+          priority: DCUTR_DIAL_PRIORITY,
+          force: true,
+          simultaneousConnect: true
         })
 
         this.log('DCUtR to %p succeeded to address %a, closing relayed connection', relayedConnection.remotePeer, conn.remoteAddr)
@@ -244,10 +255,13 @@ export class DefaultDCUtRService implements Startable {
         this.log('attempting unilateral connection upgrade to %a', publicAddresses)
 
         // force-dial the multiaddr(s), otherwise `connectionManager.openConnection`
-        // will return the existing relayed connection
+        // will return the existing relayed connection. If A is behind a NAT
+        // after all, the dial may still be in progress when the hole punch
+        // starts and be joined with A's dial by a TCP simultaneous open
         const connection = await this.connectionManager.openConnection(publicAddresses, {
           signal,
-          force: true
+          force: true,
+          simultaneousConnect: true
         })
 
         if (connection.transient) {
@@ -326,12 +340,15 @@ export class DefaultDCUtRService implements Startable {
       // now we only have tcp support
       // https://github.com/libp2p/specs/blob/master/relay/DCUtR.md#the-protocol
 
-      // Upon receiving the Sync, A immediately dials the address to B
+      // Upon receiving the Sync, A immediately dials the address to B. B is
+      // dialing A at the same time so a TCP simultaneous open may join both
+      // dials into one connection that both sides think they dialed
       this.log('A dialing', multiaddrs)
       const connection = await this.connectionManager.openConnection(multiaddrs, {
         signal: options.signal,
         priority: DCUTR_DIAL_PRIORITY,
-        force: true
+        force: true,
+        simultaneousConnect: true
       })
 
       this.log('DCUtR to %p succeeded via %a, closing relayed connection', relayedConnection.remotePeer, connection.remoteAddr)
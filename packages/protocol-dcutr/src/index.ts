@@ -9,6 +9,17 @@
  * using the relay to synchronise connection timings so that they dial each other
  * at precisely the same moment.
  *
+ * When hole punching with TCP both peers dial each other from the port they
+ * listen on, which can result in a TCP simultaneous open - a single connection
+ * that both peers think they dialed. The multistream-select simultaneous
+ * connect extension is then used to decide which peer acts as the initiator
+ * while the connection is upgraded.
+ *
+ * Both peers can only dial from the port they listen on if the TCP transport
+ * is configured with `reusePort: true`, which requires Node.js 22.12.0 or
+ * later. Without it the dials are made from ephemeral ports which most NATs
+ * will not let through.
+ *
  * @example
  *
  * ```TypeScript
@@ -22,7 +33,9 @@
  * const node = await createLibp2p({
  *   transports: [
  *     circuitRelayTransport(),
- *     tcp()
+ *     tcp({
+ *       reusePort: true
+ *     })
  *   ],
  *   services: {
  *     identify: identify(),
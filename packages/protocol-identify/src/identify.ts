@@ -310,7 +310,7 @@ export class Identify implements Startable, IdentifyInterface {
     if (cleanObservedAddr != null &&
         this.addressManager.getObservedAddrs().length < (this.maxObservedAddresses ?? Infinity)) {
       this.log('storing our observed address %a', cleanObservedAddr)
-      this.addressManager.addObservedAddr(cleanObservedAddr)
+      this.addressManager.addObservedAddr(cleanObservedAddr, id)
     }
 
     return this.#consumeIdentifyMessage(connection, message)
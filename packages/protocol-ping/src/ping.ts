@@ -104,6 +104,7 @@ export class PingService implements Startable, PingServiceInterface {
       // make stream abortable
       options.signal?.addEventListener('abort', onAbort, { once: true })
 
+      const sent = Date.now()
       const result = await pipe(
         [data],
         stream,
@@ -120,6 +121,10 @@ export class PingService implements Startable, PingServiceInterface {
         throw new CodeError(`Received wrong ping ack after ${ms}ms`, ERR_WRONG_PING_ACK)
       }
 
+      // the total time includes opening the connection and stream so record the
+      // time the ping itself took as the round trip time of the connection
+      connection.rtt = Date.now() - sent
+
       this.log('ping %p complete in %dms', connection.remotePeer, ms)
 
       return ms
@@ -59,6 +59,24 @@ describe('ping', () => {
     await expect(ping.ping(remotePeer)).to.eventually.be.gte(0)
   })
 
+  it('should record the round trip time on the connection', async () => {
+    const ping = new PingService(components)
+
+    await start(ping)
+
+    const remotePeer = await createEd25519PeerId()
+
+    const connection = stubInterface<Connection>()
+    components.connectionManager.openConnection.withArgs(remotePeer).resolves(connection)
+
+    const stream = echoStream()
+    connection.newStream.withArgs(PING_PROTOCOL).resolves(stream)
+
+    const ms = await ping.ping(remotePeer)
+
+    expect(connection).to.have.property('rtt').that.is.a('number').and.is.at.most(ms)
+  })
+
   it('should time out pinging another peer when waiting for a pong', async () => {
     const timeout = 10
     const ping = new PingService(components)
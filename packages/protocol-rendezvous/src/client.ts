@@ -0,0 +1,380 @@
+import { CodeError, TypedEventEmitter, peerDiscoverySymbol, setMaxListeners } from '@libp2p/interface'
+import { peerIdFromString } from '@libp2p/peer-id'
+import { PeerRecord, RecordEnvelope } from '@libp2p/peer-record'
+import { multiaddr, protocols } from '@multiformats/multiaddr'
+import { pbStream } from 'it-protobuf-stream'
+import { DEFAULT_DISCOVER_INTERVAL, DEFAULT_DISCOVER_LIMIT, DEFAULT_TIMEOUT, DEFAULT_TTL, MAX_MESSAGE_SIZE, PROTOCOL, REFRESH_RATIO } from './constants.js'
+import { Message } from './pb/index.js'
+import type { DiscoverOptions, RegisterOptions, RendezvousDiscovery as RendezvousDiscoveryInterface, RendezvousDiscoveryComponents, RendezvousDiscoveryInit } from './index.js'
+import type { AbortOptions, Logger, PeerDiscoveryEvents, PeerId, PeerInfo, Startable } from '@libp2p/interface'
+import type { Multiaddr } from '@multiformats/multiaddr'
+
+interface RendezvousPoint {
+  peerId: PeerId
+  multiaddr: Multiaddr
+}
+
+interface ActiveRegistration {
+  ttl: number
+  refresh?: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Registers this node with one or more rendezvous points and periodically
+ * discovers other peers registered in the same namespaces
+ */
+export class RendezvousDiscovery extends TypedEventEmitter<PeerDiscoveryEvents> implements RendezvousDiscoveryInterface, Startable {
+  private readonly components: RendezvousDiscoveryComponents
+  private readonly log: Logger
+  private readonly points: RendezvousPoint[]
+  private readonly namespaces: string[]
+  private readonly ttl: number
+  private readonly discoverInterval: number
+  private readonly discoverLimit: number
+  private readonly timeout: number
+  private readonly registrations: Map<string, ActiveRegistration>
+  private readonly cookies: Map<string, Uint8Array>
+  private discoverTimeout?: ReturnType<typeof setTimeout>
+  private registeredAddresses: string
+  private started: boolean
+
+  constructor (components: RendezvousDiscoveryComponents, init: RendezvousDiscoveryInit) {
+    super()
+
+    this.components = components
+    this.log = components.logger.forComponent('libp2p:rendezvous:discovery')
+    this.namespaces = init.namespaces
+    this.ttl = init.ttl ?? DEFAULT_TTL
+    this.discoverInterval = init.discoverInterval ?? DEFAULT_DISCOVER_INTERVAL
+    this.discoverLimit = init.discoverLimit ?? DEFAULT_DISCOVER_LIMIT
+    this.timeout = init.timeout ?? DEFAULT_TIMEOUT
+    this.registrations = new Map()
+    this.cookies = new Map()
+    this.registeredAddresses = ''
+    this.started = false
+    this.points = init.rendezvousPoints.map(addr => {
+      const ma = multiaddr(addr)
+      const peerId = ma.getPeerId()
+
+      if (peerId == null) {
+        throw new CodeError(`Rendezvous point ${addr.toString()} must include a peer id`, 'ERR_INVALID_PARAMETERS')
+      }
+
+      return {
+        peerId: peerIdFromString(peerId),
+        multiaddr: ma
+      }
+    })
+
+    if (this.points.length === 0) {
+      throw new CodeError('At least one rendezvous point is required', 'ERR_INVALID_PARAMETERS')
+    }
+
+    this.onSelfUpdate = this.onSelfUpdate.bind(this)
+  }
+
+  readonly [peerDiscoverySymbol] = this
+
+  readonly [Symbol.toStringTag] = '@libp2p/rendezvous'
+
+  isStarted (): boolean {
+    return this.started
+  }
+
+  start (): void {
+    this.started = true
+    this.components.events.addEventListener('self:peer:update', this.onSelfUpdate)
+  }
+
+  /**
+   * Register and discover once the node is listening on its addresses
+   */
+  afterStart (): void {
+    this.registerNamespaces()
+    this.discoverPeers()
+  }
+
+  async stop (): Promise<void> {
+    this.started = false
+    this.components.events.removeEventListener('self:peer:update', this.onSelfUpdate)
+
+    clearTimeout(this.discoverTimeout)
+
+    for (const registration of this.registrations.values()) {
+      clearTimeout(registration.refresh)
+    }
+
+    this.registrations.clear()
+    this.cookies.clear()
+    this.registeredAddresses = ''
+  }
+
+  /**
+   * Register this node in the namespace with every rendezvous point and keep
+   * the registration alive until `unregister` is called or the node stops
+   */
+  async register (ns: string, options: RegisterOptions = {}): Promise<void> {
+    const ttl = options.ttl ?? this.ttl
+    const signedPeerRecord = await this.createSignedPeerRecord()
+    const registration: ActiveRegistration = { ttl }
+
+    clearTimeout(this.registrations.get(ns)?.refresh)
+    this.registrations.set(ns, registration)
+
+    const results = await Promise.allSettled(this.points.map(async point => {
+      const response = await this.sendRequest(point, {
+        type: Message.MessageType.REGISTER,
+        register: {
+          ns,
+          signedPeerRecord,
+          ttl: BigInt(ttl)
+        }
+      }, options)
+
+      const status = response?.registerResponse?.status
+
+      if (status !== Message.ResponseStatus.OK) {
+        throw new CodeError(response?.registerResponse?.statusText ?? 'Registration failed', status ?? 'ERR_INVALID_MESSAGE')
+      }
+
+      this.log('registered in namespace %s with %p', ns, point.peerId)
+
+      return Number(response?.registerResponse?.ttl ?? ttl)
+    }))
+
+    let refreshAfter = ttl
+    const errors: Error[] = []
+
+    for (const result of results) {
+      if (result.status === 'fulfilled') {
+        refreshAfter = Math.min(refreshAfter, result.value)
+      } else {
+        errors.push(result.reason)
+      }
+    }
+
+    // the registration may have been removed or replaced while the requests
+    // were in flight
+    if (this.started && this.registrations.get(ns) === registration) {
+      registration.refresh = setTimeout(() => {
+        this.register(ns, { ttl }).catch(err => {
+          this.log.error('could not refresh registration in namespace %s', ns, err)
+        })
+      }, refreshAfter * 1000 * REFRESH_RATIO)
+    }
+
+    if (errors.length === this.points.length) {
+      throw errors[0]
+    }
+
+    for (const err of errors) {
+      this.log.error('could not register in namespace %s', ns, err)
+    }
+  }
+
+  /**
+   * Remove the registration in the namespace from every rendezvous point
+   */
+  async unregister (ns: string, options: AbortOptions = {}): Promise<void> {
+    clearTimeout(this.registrations.get(ns)?.refresh)
+    this.registrations.delete(ns)
+
+    await Promise.all(this.points.map(async point => {
+      await this.sendRequest(point, {
+        type: Message.MessageType.UNREGISTER,
+        unregister: {
+          ns
+        }
+      }, options)
+    }))
+  }
+
+  /**
+   * Discover peers registered in the namespace with any rendezvous point.
+   * Each rendezvous point only returns registrations that are new since the
+   * last time the namespace was discovered.
+   */
+  async discover (ns: string, options: DiscoverOptions = {}): Promise<PeerInfo[]> {
+    const peers: PeerInfo[] = []
+
+    await Promise.all(this.points.map(async point => {
+      const cookieKey = `${point.peerId.toString()}/${ns}`
+
+      try {
+        const response = await this.sendRequest(point, {
+          type: Message.MessageType.DISCOVER,
+          discover: {
+            ns,
+            limit: BigInt(options.limit ?? this.discoverLimit),
+            cookie: this.cookies.get(cookieKey)
+          }
+        }, options)
+
+        const status = response?.discoverResponse?.status
+
+        if (status === Message.ResponseStatus.E_INVALID_COOKIE) {
+          // the rendezvous point may have lost its state, start again
+          this.cookies.delete(cookieKey)
+        }
+
+        if (status !== Message.ResponseStatus.OK) {
+          throw new CodeError(response?.discoverResponse?.statusText ?? 'Discovery failed', status ?? 'ERR_INVALID_MESSAGE')
+        }
+
+        if (response?.discoverResponse?.cookie != null) {
+          this.cookies.set(cookieKey, response.discoverResponse.cookie)
+        }
+
+        for (const registration of response?.discoverResponse?.registrations ?? []) {
+          const peer = await this.consumeRegistration(registration)
+
+          if (peer != null) {
+            peers.push(peer)
+          }
+        }
+      } catch (err: any) {
+        this.log.error('could not discover peers in namespace %s from %p', ns, point.peerId, err)
+      }
+    }))
+
+    return peers
+  }
+
+  private onSelfUpdate (): void {
+    // only register again when our addresses change
+    if (this.addressesKey() !== this.registeredAddresses) {
+      this.registerNamespaces()
+    }
+  }
+
+  private registerNamespaces (): void {
+    if (this.components.addressManager.getAddresses().length === 0) {
+      this.log('not registering until this node has addresses')
+      return
+    }
+
+    this.registeredAddresses = this.addressesKey()
+
+    const namespaces = new Map(this.namespaces.map(ns => [ns, this.ttl]))
+
+    for (const [ns, registration] of this.registrations) {
+      namespaces.set(ns, registration.ttl)
+    }
+
+    for (const [ns, ttl] of namespaces) {
+      this.register(ns, { ttl }).catch(err => {
+        this.log.error('could not register in namespace %s', ns, err)
+      })
+    }
+  }
+
+  private discoverPeers (): void {
+    if (!this.started) {
+      return
+    }
+
+    Promise.all(this.namespaces.map(async ns => {
+      for (const peer of await this.discover(ns)) {
+        this.safeDispatchEvent('peer', { detail: peer })
+      }
+    }))
+      .catch(err => {
+        this.log.error('could not discover peers', err)
+      })
+      .finally(() => {
+        if (this.started) {
+          this.discoverTimeout = setTimeout(() => {
+            this.discoverPeers()
+          }, this.discoverInterval)
+        }
+      })
+  }
+
+  /**
+   * Adds the addresses from a registration to the peer store
+   */
+  private async consumeRegistration (registration: Message.Register): Promise<PeerInfo | undefined> {
+    if (registration.signedPeerRecord == null) {
+      return
+    }
+
+    const envelope = await RecordEnvelope.openAndCertify(registration.signedPeerRecord, PeerRecord.DOMAIN)
+    const record = PeerRecord.createFromProtobuf(envelope.payload)
+
+    if (!record.peerId.equals(envelope.peerId)) {
+      this.log('ignoring registration with a peer record signed by a different peer')
+      return
+    }
+
+    if (record.peerId.equals(this.components.peerId)) {
+      return
+    }
+
+    await this.components.peerStore.consumePeerRecord(registration.signedPeerRecord, record.peerId)
+
+    return {
+      id: record.peerId,
+      multiaddrs: record.multiaddrs
+    }
+  }
+
+  private addressesKey (): string {
+    return this.components.addressManager.getAddresses()
+      .map(ma => ma.toString())
+      .sort()
+      .join(',')
+  }
+
+  private async createSignedPeerRecord (): Promise<Uint8Array> {
+    const peerRecord = new PeerRecord({
+      peerId: this.components.peerId,
+      multiaddrs: this.components.addressManager.getAddresses().map(ma => ma.decapsulateCode(protocols('p2p').code))
+    })
+    const envelope = await RecordEnvelope.seal(peerRecord, this.components.peerId)
+
+    return envelope.marshal().subarray()
+  }
+
+  /**
+   * Sends a request to the rendezvous point and returns the response, if one
+   * is expected
+   */
+  private async sendRequest (point: RendezvousPoint, request: Message, options: AbortOptions): Promise<Message | undefined> {
+    const signal = options.signal ?? AbortSignal.timeout(this.timeout)
+    setMaxListeners(Infinity, signal)
+
+    const connection = await this.components.connectionManager.openConnection(point.multiaddr, {
+      signal
+    })
+    const stream = await connection.newStream(PROTOCOL, {
+      signal
+    })
+
+    try {
+      const pb = pbStream(stream, {
+        maxDataLength: MAX_MESSAGE_SIZE
+      }).pb(Message)
+
+      await pb.write(request, {
+        signal
+      })
+
+      let response: Message | undefined
+
+      if (request.type !== Message.MessageType.UNREGISTER) {
+        response = await pb.read({
+          signal
+        })
+      }
+
+      await pb.unwrap().unwrap().close({
+        signal
+      })
+
+      return response
+    } catch (err: any) {
+      stream.abort(err)
+      throw err
+    }
+  }
+}
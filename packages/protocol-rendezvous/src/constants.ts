@@ -0,0 +1,27 @@
+// https://github.com/libp2p/specs/blob/master/rendezvous/README.md#protocol
+export const PROTOCOL = '/rendezvous/1.0.0'
+
+/**
+ * Registration TTLs are in seconds
+ */
+export const DEFAULT_TTL = 7200
+export const MIN_TTL = 120
+export const MAX_TTL = 259200
+
+export const MAX_NAMESPACE_LENGTH = 255
+export const MAX_PEER_RECORD_SIZE = 8192
+export const MAX_MESSAGE_SIZE = 1024 * 1024 * 4
+
+export const DEFAULT_DISCOVER_LIMIT = 100
+export const MAX_DISCOVER_LIMIT = 1000
+export const MAX_REGISTRATIONS_PER_PEER = 1000
+
+export const DEFAULT_TIMEOUT = 10000
+export const DEFAULT_DISCOVER_INTERVAL = 60000
+
+/**
+ * Registrations are refreshed when this fraction of their TTL has passed
+ */
+export const REFRESH_RATIO = 0.8
+
+export const DATASTORE_PREFIX = '/rendezvous'
@@ -0,0 +1,274 @@
+/**
+ * @packageDocumentation
+ *
+ * An implementation of the [rendezvous protocol](https://github.com/libp2p/specs/blob/master/rendezvous/README.md).
+ *
+ * Peers register themselves under one or more namespaces with a rendezvous
+ * point, other peers then ask the rendezvous point for the peers registered
+ * under a namespace. Registrations contain a signed peer record so the
+ * addresses returned by a rendezvous point cannot be forged.
+ *
+ * @example Running a rendezvous point
+ *
+ * Registrations are stored in the node's datastore by default, pass a
+ * `RegistrationStore` to keep them somewhere else.
+ *
+ * ```TypeScript
+ * import { createLibp2p } from 'libp2p'
+ * import { rendezvousServer } from '@libp2p/rendezvous'
+ *
+ * const node = await createLibp2p({
+ *   services: {
+ *     rendezvous: rendezvousServer({
+ *       // the longest registration a peer may make, in seconds
+ *       maxTtl: 7200
+ *     })
+ *   }
+ * })
+ * ```
+ *
+ * @example Discovering peers with a rendezvous point
+ *
+ * The node registers itself in the configured namespaces once it has
+ * addresses, refreshes the registrations before they expire and periodically
+ * discovers other peers registered in the same namespaces.
+ *
+ * ```TypeScript
+ * import { createLibp2p } from 'libp2p'
+ * import { rendezvousDiscovery } from '@libp2p/rendezvous'
+ *
+ * const node = await createLibp2p({
+ *   peerDiscovery: [
+ *     rendezvousDiscovery({
+ *       rendezvousPoints: [
+ *         '/dnsaddr/rendezvous.example.com/p2p/QmRendezvous'
+ *       ],
+ *       namespaces: [
+ *         'my-app'
+ *       ]
+ *     })
+ *   ]
+ * })
+ *
+ * node.addEventListener('peer:discovery', (evt) => {
+ *   console.log('found peer: ', evt.detail.id.toString())
+ * })
+ * ```
+ */
+
+import { RendezvousDiscovery as RendezvousDiscoveryClass } from './client.js'
+import { RendezvousServer } from './server.js'
+import type { AbortOptions, ComponentLogger, Libp2pEvents, PeerDiscovery, PeerId, PeerInfo, PeerStore, TypedEventTarget } from '@libp2p/interface'
+import type { AddressManager, ConnectionManager, Registrar } from '@libp2p/interface-internal'
+import type { Multiaddr } from '@multiformats/multiaddr'
+import type { Datastore } from 'interface-datastore'
+
+export { PROTOCOL } from './constants.js'
+
+export interface Registration {
+  /**
+   * The namespace the peer registered in
+   */
+  ns: string
+
+  /**
+   * The registered peer
+   */
+  peerId: PeerId
+
+  /**
+   * The marshalled envelope containing the peer record of the registered peer
+   */
+  signedPeerRecord: Uint8Array
+
+  /**
+   * When the registration expires, in ms since the epoch
+   */
+  expires: number
+
+  /**
+   * Identifies the registration, every new registration has a higher id than
+   * the ones stored before it
+   */
+  id: bigint
+}
+
+export type NewRegistration = Omit<Registration, 'id'>
+
+export interface FindRegistrationsOptions {
+  /**
+   * Only return registrations in this namespace, otherwise registrations in
+   * all namespaces are returned
+   */
+  ns?: string
+
+  /**
+   * Only return registrations with an id greater than this
+   */
+  after?: bigint
+
+  /**
+   * Return at most this many registrations
+   */
+  limit: number
+}
+
+/**
+ * Stores the registrations accepted by a rendezvous server
+ */
+export interface RegistrationStore {
+  /**
+   * Store a registration, replacing any existing registration for the peer in
+   * the same namespace, and return it with a newly assigned id
+   */
+  put(registration: NewRegistration): Promise<Registration>
+
+  /**
+   * Returns true if the peer has a registration in the namespace
+   */
+  has(ns: string, peerId: PeerId): Promise<boolean>
+
+  /**
+   * Remove the registration for the peer in the namespace, if any
+   */
+  delete(ns: string, peerId: PeerId): Promise<void>
+
+  /**
+   * Returns unexpired registrations ordered by id
+   */
+  find(options: FindRegistrationsOptions): Promise<Registration[]>
+
+  /**
+   * Returns the number of unexpired registrations the peer has
+   */
+  count(peerId: PeerId): Promise<number>
+}
+
+export interface RendezvousServerInit {
+  /**
+   * Where to keep registrations (default: the node's datastore)
+   */
+  store?: RegistrationStore
+
+  /**
+   * The shortest TTL a peer may register with in seconds (default: 120)
+   */
+  minTtl?: number
+
+  /**
+   * The longest TTL a peer may register with in seconds (default: 259200)
+   */
+  maxTtl?: number
+
+  /**
+   * How many namespaces a single peer may register in (default: 1000)
+   */
+  maxRegistrationsPerPeer?: number
+
+  /**
+   * The most registrations returned in response to a single discover request
+   * (default: 1000)
+   */
+  maxDiscoverLimit?: number
+
+  /**
+   * How long to wait for a peer to send a request in ms, streams that stay
+   * idle for longer are closed (default: 10000)
+   */
+  timeout?: number
+
+  maxInboundStreams?: number
+  maxOutboundStreams?: number
+}
+
+export interface RendezvousServerComponents {
+  registrar: Registrar
+  datastore: Datastore
+  logger: ComponentLogger
+}
+
+export interface RendezvousDiscoveryInit {
+  /**
+   * The rendezvous points to register with and discover peers from, each
+   * address must include a peer id
+   */
+  rendezvousPoints: Array<string | Multiaddr>
+
+  /**
+   * Register in and discover peers from these namespaces
+   */
+  namespaces: string[]
+
+  /**
+   * How long registrations should last in seconds, they are refreshed before
+   * they expire (default: 7200)
+   */
+  ttl?: number
+
+  /**
+   * How often to discover peers in ms (default: 60000)
+   */
+  discoverInterval?: number
+
+  /**
+   * The most registrations to request from a rendezvous point at once
+   * (default: 100)
+   */
+  discoverLimit?: number
+
+  /**
+   * How long to wait for a rendezvous point to respond in ms (default: 10000)
+   */
+  timeout?: number
+}
+
+export interface RendezvousDiscoveryComponents {
+  peerId: PeerId
+  addressManager: AddressManager
+  connectionManager: ConnectionManager
+  peerStore: PeerStore
+  events: TypedEventTarget<Libp2pEvents>
+  logger: ComponentLogger
+}
+
+export interface RegisterOptions extends AbortOptions {
+  /**
+   * How long the registration should last in seconds
+   */
+  ttl?: number
+}
+
+export interface DiscoverOptions extends AbortOptions {
+  /**
+   * The most registrations to request from each rendezvous point
+   */
+  limit?: number
+}
+
+export interface RendezvousDiscovery extends PeerDiscovery {
+  /**
+   * Register this node in the namespace with every rendezvous point. The
+   * registration is refreshed before it expires until `unregister` is called
+   * or the node stops.
+   */
+  register(ns: string, options?: RegisterOptions): Promise<void>
+
+  /**
+   * Remove this node's registration in the namespace
+   */
+  unregister(ns: string, options?: AbortOptions): Promise<void>
+
+  /**
+   * Returns peers registered in the namespace that have not been returned by
+   * a previous call and adds their addresses to the peer store
+   */
+  discover(ns: string, options?: DiscoverOptions): Promise<PeerInfo[]>
+}
+
+export function rendezvousServer (init: RendezvousServerInit = {}): (components: RendezvousServerComponents) => unknown {
+  return (components) => new RendezvousServer(components, init)
+}
+
+export function rendezvousDiscovery (init: RendezvousDiscoveryInit): (components: RendezvousDiscoveryComponents) => RendezvousDiscovery {
+  return (components) => new RendezvousDiscoveryClass(components, init)
+}
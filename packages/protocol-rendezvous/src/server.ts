@@ -0,0 +1,283 @@
+import { CodeError } from '@libp2p/interface'
+import { PeerRecord, RecordEnvelope } from '@libp2p/peer-record'
+import { pbStream } from 'it-protobuf-stream'
+import { DEFAULT_DISCOVER_LIMIT, DEFAULT_TIMEOUT, DEFAULT_TTL, MAX_DISCOVER_LIMIT, MAX_MESSAGE_SIZE, MAX_NAMESPACE_LENGTH, MAX_PEER_RECORD_SIZE, MAX_REGISTRATIONS_PER_PEER, MAX_TTL, MIN_TTL, PROTOCOL } from './constants.js'
+import { Cookie, Message } from './pb/index.js'
+import { DatastoreRegistrationStore } from './store.js'
+import type { RegistrationStore, RendezvousServerComponents, RendezvousServerInit } from './index.js'
+import type { Logger, PeerId, Startable } from '@libp2p/interface'
+import type { IncomingStreamData } from '@libp2p/interface-internal'
+
+function isValidNamespace (ns?: string): ns is string {
+  return ns != null && ns.length > 0 && ns.length <= MAX_NAMESPACE_LENGTH
+}
+
+function registerResponse (status: Message.ResponseStatus, statusText?: string, ttl?: number): Message {
+  return {
+    type: Message.MessageType.REGISTER_RESPONSE,
+    registerResponse: {
+      status,
+      statusText,
+      ttl: ttl == null ? undefined : BigInt(ttl)
+    }
+  }
+}
+
+function discoverResponse (status: Message.ResponseStatus, statusText?: string): Message {
+  return {
+    type: Message.MessageType.DISCOVER_RESPONSE,
+    discoverResponse: {
+      registrations: [],
+      status,
+      statusText
+    }
+  }
+}
+
+/**
+ * Accepts registrations from peers and answers discover requests with the
+ * registrations stored for a namespace
+ */
+export class RendezvousServer implements Startable {
+  public readonly store: RegistrationStore
+  private readonly components: RendezvousServerComponents
+  private readonly log: Logger
+  private readonly minTtl: number
+  private readonly maxTtl: number
+  private readonly maxRegistrationsPerPeer: number
+  private readonly maxDiscoverLimit: number
+  private readonly timeout: number
+  private readonly maxInboundStreams?: number
+  private readonly maxOutboundStreams?: number
+  private started: boolean
+
+  constructor (components: RendezvousServerComponents, init: RendezvousServerInit = {}) {
+    this.components = components
+    this.log = components.logger.forComponent('libp2p:rendezvous:server')
+    this.store = init.store ?? new DatastoreRegistrationStore(components.datastore)
+    this.minTtl = init.minTtl ?? MIN_TTL
+    this.maxTtl = init.maxTtl ?? MAX_TTL
+    this.maxRegistrationsPerPeer = init.maxRegistrationsPerPeer ?? MAX_REGISTRATIONS_PER_PEER
+    this.maxDiscoverLimit = init.maxDiscoverLimit ?? MAX_DISCOVER_LIMIT
+    this.timeout = init.timeout ?? DEFAULT_TIMEOUT
+    this.maxInboundStreams = init.maxInboundStreams
+    this.maxOutboundStreams = init.maxOutboundStreams
+    this.started = false
+
+    if (this.minTtl > this.maxTtl) {
+      throw new CodeError('minTtl must not be greater than maxTtl', 'ERR_INVALID_PARAMETERS')
+    }
+  }
+
+  readonly [Symbol.toStringTag] = '@libp2p/rendezvous-server'
+
+  async start (): Promise<void> {
+    await this.components.registrar.handle(PROTOCOL, (data) => {
+      void this.handleStream(data)
+        .catch(err => {
+          this.log.error('error handling rendezvous stream from %p', data.connection.remotePeer, err)
+          data.stream.abort(err)
+        })
+    }, {
+      maxInboundStreams: this.maxInboundStreams,
+      maxOutboundStreams: this.maxOutboundStreams
+    })
+
+    this.started = true
+  }
+
+  async stop (): Promise<void> {
+    await this.components.registrar.unhandle(PROTOCOL)
+
+    this.started = false
+  }
+
+  isStarted (): boolean {
+    return this.started
+  }
+
+  /**
+   * Peers may send several requests over the same stream so keep answering
+   * them until the remote closes its end
+   */
+  async handleStream ({ stream, connection }: IncomingStreamData): Promise<void> {
+    const pb = pbStream(stream, {
+      maxDataLength: MAX_MESSAGE_SIZE
+    }).pb(Message)
+
+    while (true) {
+      const signal = AbortSignal.timeout(this.timeout)
+      let request: Message
+
+      try {
+        request = await pb.read({
+          signal
+        })
+      } catch (err: any) {
+        if (err.code === 'ERR_UNEXPECTED_EOF') {
+          break
+        }
+
+        // the remote has not sent another request in time, this is not an
+        // error as clients may keep the stream open between requests
+        if (signal.aborted) {
+          this.log('closing idle rendezvous stream from %p', connection.remotePeer)
+          break
+        }
+
+        throw err
+      }
+
+      const response = await this.handleMessage(connection.remotePeer, request)
+
+      if (response != null) {
+        await pb.write(response, {
+          signal
+        })
+      }
+    }
+
+    await pb.unwrap().unwrap().close()
+  }
+
+  /**
+   * Returns the response to send for the passed request, if any
+   */
+  async handleMessage (peer: PeerId, request: Message): Promise<Message | undefined> {
+    switch (request.type) {
+      case Message.MessageType.REGISTER: {
+        try {
+          return await this.register(peer, request.register)
+        } catch (err: any) {
+          this.log.error('could not store registration from %p', peer, err)
+          return registerResponse(Message.ResponseStatus.E_INTERNAL_ERROR, 'Could not store registration')
+        }
+      }
+      case Message.MessageType.UNREGISTER: {
+        await this.unregister(peer, request.unregister)
+        return
+      }
+      case Message.MessageType.DISCOVER: {
+        try {
+          return await this.discover(request.discover)
+        } catch (err: any) {
+          this.log.error('could not answer discover request from %p', peer, err)
+          return discoverResponse(Message.ResponseStatus.E_INTERNAL_ERROR, 'Could not load registrations')
+        }
+      }
+      default: {
+        throw new CodeError(`Unexpected message type ${request.type}`, 'ERR_INVALID_MESSAGE')
+      }
+    }
+  }
+
+  private async register (peer: PeerId, request: Message.Register = {}): Promise<Message> {
+    const { ns, signedPeerRecord } = request
+
+    if (!isValidNamespace(ns)) {
+      return registerResponse(Message.ResponseStatus.E_INVALID_NAMESPACE, 'Invalid namespace')
+    }
+
+    const ttl = request.ttl == null ? DEFAULT_TTL : Number(request.ttl)
+
+    if (ttl < this.minTtl || ttl > this.maxTtl) {
+      return registerResponse(Message.ResponseStatus.E_INVALID_TTL, `TTL must be between ${this.minTtl} and ${this.maxTtl} seconds`)
+    }
+
+    if (signedPeerRecord == null || signedPeerRecord.byteLength > MAX_PEER_RECORD_SIZE) {
+      return registerResponse(Message.ResponseStatus.E_INVALID_SIGNED_PEER_RECORD, 'Invalid signed peer record')
+    }
+
+    let signer: PeerId
+    let recordPeer: PeerId
+
+    try {
+      const envelope = await RecordEnvelope.openAndCertify(signedPeerRecord, PeerRecord.DOMAIN)
+      signer = envelope.peerId
+      recordPeer = PeerRecord.createFromProtobuf(envelope.payload).peerId
+    } catch (err: any) {
+      this.log('invalid signed peer record from %p', peer, err)
+      return registerResponse(Message.ResponseStatus.E_INVALID_SIGNED_PEER_RECORD, 'Invalid signed peer record')
+    }
+
+    // peers may only register themselves
+    if (!signer.equals(peer) || !recordPeer.equals(peer)) {
+      return registerResponse(Message.ResponseStatus.E_NOT_AUTHORIZED, 'Signed peer record is not for the sending peer')
+    }
+
+    if (!(await this.store.has(ns, peer)) && (await this.store.count(peer)) >= this.maxRegistrationsPerPeer) {
+      return registerResponse(Message.ResponseStatus.E_NOT_AUTHORIZED, 'Too many registrations')
+    }
+
+    await this.store.put({
+      ns,
+      peerId: peer,
+      signedPeerRecord,
+      expires: Date.now() + (ttl * 1000)
+    })
+
+    this.log('registered %p in namespace %s for %d seconds', peer, ns, ttl)
+
+    return registerResponse(Message.ResponseStatus.OK, undefined, ttl)
+  }
+
+  private async unregister (peer: PeerId, request: Message.Unregister = {}): Promise<void> {
+    if (!isValidNamespace(request.ns)) {
+      this.log('ignoring unregister request with invalid namespace from %p', peer)
+      return
+    }
+
+    await this.store.delete(request.ns, peer)
+
+    this.log('unregistered %p from namespace %s', peer, request.ns)
+  }
+
+  private async discover (request: Message.Discover = {}): Promise<Message> {
+    // an empty namespace means every namespace
+    const ns = request.ns === '' ? undefined : request.ns
+
+    if (ns != null && !isValidNamespace(ns)) {
+      return discoverResponse(Message.ResponseStatus.E_INVALID_NAMESPACE, 'Invalid namespace')
+    }
+
+    let after: bigint | undefined
+
+    if (request.cookie != null && request.cookie.byteLength > 0) {
+      try {
+        const cookie = Cookie.decode(request.cookie)
+
+        if (cookie.ns !== ns) {
+          return discoverResponse(Message.ResponseStatus.E_INVALID_COOKIE, 'Cookie was issued for a different namespace')
+        }
+
+        after = cookie.id
+      } catch {
+        return discoverResponse(Message.ResponseStatus.E_INVALID_COOKIE, 'Invalid cookie')
+      }
+    }
+
+    const limit = request.limit == null || request.limit === 0n ? DEFAULT_DISCOVER_LIMIT : Number(request.limit)
+    const registrations = await this.store.find({
+      ns,
+      after,
+      limit: Math.min(limit, this.maxDiscoverLimit)
+    })
+    const now = Date.now()
+
+    return {
+      type: Message.MessageType.DISCOVER_RESPONSE,
+      discoverResponse: {
+        registrations: registrations.map(registration => ({
+          ns: registration.ns,
+          signedPeerRecord: registration.signedPeerRecord,
+          ttl: BigInt(Math.ceil((registration.expires - now) / 1000))
+        })),
+        cookie: Cookie.encode({
+          ns,
+          id: registrations[registrations.length - 1]?.id ?? after ?? 0n
+        }),
+        status: Message.ResponseStatus.OK
+      }
+    }
+  }
+}
@@ -0,0 +1,371 @@
+import { peerIdFromString } from '@libp2p/peer-id'
+import { Key } from 'interface-datastore'
+import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+import { toString as uint8ArrayToString } from 'uint8arrays/to-string'
+import { DATASTORE_PREFIX } from './constants.js'
+import { StoredRegistration } from './pb/index.js'
+import type { FindRegistrationsOptions, NewRegistration, Registration, RegistrationStore } from './index.js'
+import type { PeerId } from '@libp2p/interface'
+import type { Datastore } from 'interface-datastore'
+
+const REGISTRATIONS_PREFIX = `${DATASTORE_PREFIX}/registrations`
+const NEXT_ID_KEY = new Key(`${DATASTORE_PREFIX}/next-id`)
+
+function namespaceKey (ns: string): string {
+  return `${REGISTRATIONS_PREFIX}/${uint8ArrayToString(uint8ArrayFromString(ns), 'base32')}`
+}
+
+function registrationKey (ns: string, peerId: PeerId): Key {
+  return new Key(`${namespaceKey(ns)}/${peerId.toString()}`)
+}
+
+function toRegistration (key: Key, buf: Uint8Array): Registration {
+  const stored = StoredRegistration.decode(buf)
+
+  return {
+    ns: stored.ns,
+    peerId: peerIdFromString(key.baseNamespace()),
+    signedPeerRecord: stored.signedPeerRecord,
+    expires: Number(stored.expires),
+    id: stored.id
+  }
+}
+
+interface IndexEntry {
+  id: bigint
+  ns: string
+  peer: string
+  expires: number
+  key: Key
+}
+
+/**
+ * An in-memory index of the stored registrations so discover requests and
+ * per-peer limits do not need to read every registration in the datastore
+ */
+interface Index {
+  /**
+   * Every registration, ordered by id
+   */
+  all: IndexEntry[]
+
+  /**
+   * The registrations in each namespace, ordered by id
+   */
+  namespaces: Map<string, IndexEntry[]>
+
+  /**
+   * The registrations of each peer, keyed by namespace
+   */
+  peers: Map<string, Map<string, IndexEntry>>
+}
+
+/**
+ * Returns the position of the first entry with an id greater than `after`
+ */
+function firstAfter (entries: IndexEntry[], after: bigint): number {
+  let low = 0
+  let high = entries.length
+
+  while (low < high) {
+    const mid = (low + high) >>> 1
+
+    if (entries[mid].id <= after) {
+      low = mid + 1
+    } else {
+      high = mid
+    }
+  }
+
+  return low
+}
+
+/**
+ * Registrations are usually stored in id order but concurrent writes can
+ * complete out of order so insert at the correct position
+ */
+function insertEntry (entries: IndexEntry[], entry: IndexEntry): void {
+  entries.splice(firstAfter(entries, entry.id), 0, entry)
+}
+
+function removeEntry (entries: IndexEntry[], entry: IndexEntry): void {
+  const index = firstAfter(entries, entry.id - 1n)
+
+  if (entries[index] === entry) {
+    entries.splice(index, 1)
+  }
+}
+
+/**
+ * Stores registrations in a datastore under
+ * `/rendezvous/registrations/<base32 namespace>/<peer id>`.
+ *
+ * Registration ids start at 1 and only ever increase, the next id is persisted alongside
+ * each registration so cookies issued before a restart remain valid.
+ *
+ * The stored registrations are read once to build an index ordered by id so
+ * discover requests only read the registrations they return.
+ *
+ * Writes are applied one at a time so registrations are committed in the
+ * order of their ids.
+ */
+export class DatastoreRegistrationStore implements RegistrationStore {
+  private readonly datastore: Datastore
+  private nextId?: Promise<bigint>
+  private index?: Promise<Index>
+  private writes: Promise<void>
+
+  constructor (datastore: Datastore) {
+    this.datastore = datastore
+    this.writes = Promise.resolve()
+  }
+
+  async put (registration: NewRegistration): Promise<Registration> {
+    return this.enqueue(async () => this.write(registration))
+  }
+
+  async has (ns: string, peerId: PeerId): Promise<boolean> {
+    return this.datastore.has(registrationKey(ns, peerId))
+  }
+
+  async delete (ns: string, peerId: PeerId): Promise<void> {
+    await this.enqueue(async () => {
+      const index = await this.getIndex()
+
+      await this.datastore.delete(registrationKey(ns, peerId))
+
+      const entry = index.peers.get(peerId.toString())?.get(ns)
+
+      if (entry != null) {
+        this.removeEntry(index, entry)
+      }
+    })
+  }
+
+  async find (options: FindRegistrationsOptions): Promise<Registration[]> {
+    const index = await this.getIndex()
+    const now = Date.now()
+    const entries = options.ns == null ? index.all : index.namespaces.get(options.ns) ?? []
+    const found: IndexEntry[] = []
+    const expired: IndexEntry[] = []
+
+    for (let i = firstAfter(entries, options.after ?? 0n); i < entries.length && found.length < options.limit; i++) {
+      const entry = entries[i]
+
+      if (entry.expires <= now) {
+        expired.push(entry)
+      } else {
+        found.push(entry)
+      }
+    }
+
+    await Promise.all(expired.map(async entry => {
+      await this.datastore.delete(entry.key)
+      this.removeEntry(index, entry)
+    }))
+
+    const registrations = await Promise.all(found.map(async entry => {
+      try {
+        return toRegistration(entry.key, await this.datastore.get(entry.key))
+      } catch (err: any) {
+        // the registration was deleted while it was being read
+        if (err.code === 'ERR_NOT_FOUND') {
+          return undefined
+        }
+
+        throw err
+      }
+    }))
+
+    return registrations.filter((registration): registration is Registration => registration != null)
+  }
+
+  async count (peerId: PeerId): Promise<number> {
+    const index = await this.getIndex()
+    const now = Date.now()
+    let count = 0
+
+    for (const entry of index.peers.get(peerId.toString())?.values() ?? []) {
+      if (entry.expires > now) {
+        count++
+      }
+    }
+
+    return count
+  }
+
+  /**
+   * Runs the passed function once all previously queued writes have settled
+   */
+  private async enqueue <T> (fn: () => Promise<T>): Promise<T> {
+    const result = this.writes.then(fn)
+    this.writes = result.then(() => {}, () => {})
+
+    return result
+  }
+
+  private async write (registration: NewRegistration): Promise<Registration> {
+    const id = await this.allocateId()
+    const index = await this.getIndex()
+    const key = registrationKey(registration.ns, registration.peerId)
+    const batch = this.datastore.batch()
+
+    batch.put(key, StoredRegistration.encode({
+      ns: registration.ns,
+      signedPeerRecord: registration.signedPeerRecord,
+      expires: BigInt(registration.expires),
+      id
+    }))
+    batch.put(NEXT_ID_KEY, uint8ArrayFromString((id + 1n).toString()))
+
+    await batch.commit()
+
+    this.addEntry(index, {
+      id,
+      ns: registration.ns,
+      peer: registration.peerId.toString(),
+      expires: registration.expires,
+      key
+    })
+
+    return {
+      ...registration,
+      id
+    }
+  }
+
+  private async getIndex (): Promise<Index> {
+    if (this.index == null) {
+      this.index = this.loadIndex()
+        .catch(err => {
+          // allow loading to be retried
+          this.index = undefined
+          throw err
+        })
+    }
+
+    return this.index
+  }
+
+  private async loadIndex (): Promise<Index> {
+    const index: Index = {
+      all: [],
+      namespaces: new Map(),
+      peers: new Map()
+    }
+    const entries: IndexEntry[] = []
+
+    for await (const { key, value } of this.datastore.query({ prefix: `${REGISTRATIONS_PREFIX}/` })) {
+      const { ns, expires, id } = StoredRegistration.decode(value)
+
+      entries.push({
+        id,
+        ns,
+        peer: key.baseNamespace(),
+        expires: Number(expires),
+        key
+      })
+    }
+
+    entries
+      .sort((a, b) => a.id < b.id ? -1 : 1)
+      .forEach(entry => { this.addEntry(index, entry) })
+
+    return index
+  }
+
+  private addEntry (index: Index, entry: IndexEntry): void {
+    // a new registration replaces any previous one for the same namespace
+    const previous = index.peers.get(entry.peer)?.get(entry.ns)
+
+    if (previous != null) {
+      if (previous.id > entry.id) {
+        return
+      }
+
+      this.removeEntry(index, previous)
+    }
+
+    let peer = index.peers.get(entry.peer)
+
+    if (peer == null) {
+      peer = new Map()
+      index.peers.set(entry.peer, peer)
+    }
+
+    let ns = index.namespaces.get(entry.ns)
+
+    if (ns == null) {
+      ns = []
+      index.namespaces.set(entry.ns, ns)
+    }
+
+    insertEntry(index.all, entry)
+    insertEntry(ns, entry)
+    peer.set(entry.ns, entry)
+  }
+
+  private removeEntry (index: Index, entry: IndexEntry): void {
+    removeEntry(index.all, entry)
+
+    const ns = index.namespaces.get(entry.ns)
+
+    if (ns != null) {
+      removeEntry(ns, entry)
+
+      if (ns.length === 0) {
+        index.namespaces.delete(entry.ns)
+      }
+    }
+
+    const peer = index.peers.get(entry.peer)
+
+    if (peer?.get(entry.ns) === entry) {
+      peer.delete(entry.ns)
+
+      if (peer.size === 0) {
+        index.peers.delete(entry.peer)
+      }
+    }
+  }
+
+  /**
+   * Only called from queued writes so allocations never run concurrently
+   */
+  private async allocateId (): Promise<bigint> {
+    if (this.nextId == null) {
+      this.nextId = this.loadNextId()
+        .catch(err => {
+          // allow loading to be retried
+          this.nextId = undefined
+          throw err
+        })
+    }
+
+    const id = await this.nextId
+    this.nextId = Promise.resolve(id + 1n)
+
+    return id
+  }
+
+  /**
+   * The stored counter can lag behind if writes complete out of order so
+   * also check the highest id in use
+   */
+  private async loadNextId (): Promise<bigint> {
+    let next = 1n
+
+    try {
+      next = BigInt(uint8ArrayToString(await this.datastore.get(NEXT_ID_KEY)))
+    } catch (err: any) {
+      if (err.code !== 'ERR_NOT_FOUND') {
+        throw err
+      }
+    }
+
+    const { all } = await this.getIndex()
+    const highest = all[all.length - 1]?.id ?? 0n
+
+    return highest >= next ? highest + 1n : next
+  }
+}
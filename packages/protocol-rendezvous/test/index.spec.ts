@@ -0,0 +1,339 @@
+/* eslint-env mocha */
+
+import { TypedEventEmitter, start, stop } from '@libp2p/interface'
+import { defaultLogger } from '@libp2p/logger'
+import { createEd25519PeerId } from '@libp2p/peer-id-factory'
+import { PeerRecord, RecordEnvelope } from '@libp2p/peer-record'
+import { multiaddr } from '@multiformats/multiaddr'
+import { expect } from 'aegir/chai'
+import { MemoryDatastore } from 'datastore-core'
+import { duplexPair } from 'it-pair/duplex'
+import { pushable } from 'it-pushable'
+import { stubInterface, type StubbedInstance } from 'sinon-ts'
+import { RendezvousDiscovery } from '../src/client.js'
+import { PROTOCOL } from '../src/constants.js'
+import { Message } from '../src/pb/index.js'
+import { RendezvousServer } from '../src/server.js'
+import type { RendezvousDiscoveryComponents } from '../src/index.js'
+import type { Connection, Libp2pEvents, PeerId, PeerInfo, PeerStore, Stream } from '@libp2p/interface'
+import type { AddressManager, ConnectionManager, Registrar } from '@libp2p/interface-internal'
+import type { Uint8ArrayList } from 'uint8arraylist'
+
+interface StubbedDiscoveryComponents extends RendezvousDiscoveryComponents {
+  addressManager: StubbedInstance<AddressManager>
+  connectionManager: StubbedInstance<ConnectionManager>
+  peerStore: StubbedInstance<PeerStore>
+}
+
+async function createSignedPeerRecord (peerId: PeerId, signer: PeerId = peerId): Promise<Uint8Array> {
+  const record = new PeerRecord({
+    peerId,
+    multiaddrs: [multiaddr('/ip4/123.123.123.123/tcp/123')]
+  })
+  const envelope = await RecordEnvelope.seal(record, signer)
+
+  return envelope.marshal().subarray()
+}
+
+describe('rendezvous', () => {
+  let serverPeer: PeerId
+  let server: RendezvousServer
+  let clients: RendezvousDiscovery[]
+
+  beforeEach(async () => {
+    serverPeer = await createEd25519PeerId()
+    server = new RendezvousServer({
+      registrar: stubInterface<Registrar>(),
+      datastore: new MemoryDatastore(),
+      logger: defaultLogger()
+    })
+    clients = []
+
+    await start(server)
+  })
+
+  afterEach(async () => {
+    await stop(server, ...clients)
+  })
+
+  /**
+   * Creates a client whose streams to the rendezvous point are handled by the
+   * server
+   */
+  async function createClient (namespaces: string[] = []): Promise<{ client: RendezvousDiscovery, components: StubbedDiscoveryComponents }> {
+    const peerId = await createEd25519PeerId()
+    const components: StubbedDiscoveryComponents = {
+      peerId,
+      addressManager: stubInterface<AddressManager>({
+        getAddresses: () => [multiaddr(`/ip4/123.123.123.123/tcp/123/p2p/${peerId}`)]
+      }),
+      connectionManager: stubInterface<ConnectionManager>(),
+      peerStore: stubInterface<PeerStore>(),
+      events: new TypedEventEmitter<Libp2pEvents>(),
+      logger: defaultLogger()
+    }
+
+    components.connectionManager.openConnection.callsFake(async () => {
+      return stubInterface<Connection>({
+        newStream: async () => {
+          const duplex = duplexPair<any>()
+          const outgoingStream = stubInterface<Stream>({
+            source: duplex[0].source,
+            sink: duplex[0].sink
+          })
+          const incomingStream = stubInterface<Stream>({
+            source: duplex[1].source,
+            sink: duplex[1].sink
+          })
+
+          void server.handleStream({
+            stream: incomingStream,
+            connection: stubInterface<Connection>({
+              remotePeer: peerId
+            })
+          })
+
+          return outgoingStream
+        }
+      })
+    })
+
+    const client = new RendezvousDiscovery(components, {
+      rendezvousPoints: [`/ip4/127.0.0.1/tcp/4001/p2p/${serverPeer}`],
+      namespaces
+    })
+    clients.push(client)
+
+    await start(client)
+
+    return { client, components }
+  }
+
+  it('should register for the rendezvous protocol on start', async () => {
+    const registrar = stubInterface<Registrar>()
+    const server = new RendezvousServer({
+      registrar,
+      datastore: new MemoryDatastore(),
+      logger: defaultLogger()
+    })
+
+    await start(server)
+
+    expect(registrar.handle.calledWith(PROTOCOL)).to.be.true()
+  })
+
+  it('should require rendezvous points to have a peer id', () => {
+    expect(() => new RendezvousDiscovery(stubInterface<RendezvousDiscoveryComponents>({
+      logger: defaultLogger()
+    }), {
+      rendezvousPoints: ['/ip4/127.0.0.1/tcp/4001'],
+      namespaces: []
+    })).to.throw().with.property('code', 'ERR_INVALID_PARAMETERS')
+  })
+
+  it('should register and discover peers', async () => {
+    const { client: alice, components: aliceComponents } = await createClient()
+    const { client: bob, components: bobComponents } = await createClient()
+
+    await alice.register('my-app')
+    await bob.register('my-app')
+
+    const peers = await alice.discover('my-app')
+
+    // does not discover itself
+    expect(peers.map(peer => peer.id.toString())).to.deep.equal([bobComponents.peerId.toString()])
+    expect(peers[0].multiaddrs.map(ma => ma.toString())).to.deep.equal(['/ip4/123.123.123.123/tcp/123'])
+    expect(aliceComponents.peerStore.consumePeerRecord.getCall(0).args[1]?.equals(bobComponents.peerId)).to.be.true()
+  })
+
+  it('should only discover new registrations after the first discovery', async () => {
+    const { client: alice } = await createClient()
+    const { client: bob, components: bobComponents } = await createClient()
+    const { client: carol, components: carolComponents } = await createClient()
+
+    await bob.register('my-app')
+    await expect(alice.discover('my-app')).to.eventually.have.lengthOf(1)
+    await expect(alice.discover('my-app')).to.eventually.be.empty()
+
+    await carol.register('my-app')
+
+    // registering again makes the registration new
+    await bob.register('my-app')
+
+    const peers = await alice.discover('my-app')
+    expect(peers.map(peer => peer.id.toString())).to.deep.equal([
+      carolComponents.peerId.toString(),
+      bobComponents.peerId.toString()
+    ])
+  })
+
+  it('should page through registrations', async () => {
+    const { client: alice } = await createClient()
+
+    for (let i = 0; i < 3; i++) {
+      const { client } = await createClient()
+      await client.register('my-app')
+    }
+
+    await expect(alice.discover('my-app', { limit: 2 })).to.eventually.have.lengthOf(2)
+    await expect(alice.discover('my-app', { limit: 2 })).to.eventually.have.lengthOf(1)
+  })
+
+  it('should only discover peers in the requested namespace', async () => {
+    const { client: alice } = await createClient()
+    const { client: bob } = await createClient()
+
+    await bob.register('other-app')
+
+    await expect(alice.discover('my-app')).to.eventually.be.empty()
+  })
+
+  it('should unregister', async () => {
+    const { client: alice } = await createClient()
+    const { client: bob } = await createClient()
+
+    await bob.register('my-app')
+    await bob.unregister('my-app')
+
+    await expect(alice.discover('my-app')).to.eventually.be.empty()
+  })
+
+  it('should reject an invalid TTL', async () => {
+    const { client } = await createClient()
+
+    await expect(client.register('my-app', { ttl: 1 })).to.eventually.be.rejected
+      .with.property('code', 'E_INVALID_TTL')
+  })
+
+  it('should reject an invalid namespace', async () => {
+    const { client } = await createClient()
+
+    await expect(client.register('a'.repeat(256))).to.eventually.be.rejected
+      .with.property('code', 'E_INVALID_NAMESPACE')
+  })
+
+  it('should not allow peers to register other peers', async () => {
+    const sender = await createEd25519PeerId()
+    const other = await createEd25519PeerId()
+
+    const response = await server.handleMessage(sender, {
+      type: Message.MessageType.REGISTER,
+      register: {
+        ns: 'my-app',
+        signedPeerRecord: await createSignedPeerRecord(other)
+      }
+    })
+
+    expect(response).to.have.nested.property('registerResponse.status', Message.ResponseStatus.E_NOT_AUTHORIZED)
+  })
+
+  it('should reject an invalid signed peer record', async () => {
+    const sender = await createEd25519PeerId()
+
+    const response = await server.handleMessage(sender, {
+      type: Message.MessageType.REGISTER,
+      register: {
+        ns: 'my-app',
+        signedPeerRecord: Uint8Array.from([0, 1, 2, 3])
+      }
+    })
+
+    expect(response).to.have.nested.property('registerResponse.status', Message.ResponseStatus.E_INVALID_SIGNED_PEER_RECORD)
+  })
+
+  it('should limit the number of registrations per peer', async () => {
+    const server = new RendezvousServer({
+      registrar: stubInterface<Registrar>(),
+      datastore: new MemoryDatastore(),
+      logger: defaultLogger()
+    }, {
+      maxRegistrationsPerPeer: 1
+    })
+    const sender = await createEd25519PeerId()
+    const signedPeerRecord = await createSignedPeerRecord(sender)
+
+    const register = async (ns: string): Promise<Message | undefined> => server.handleMessage(sender, {
+      type: Message.MessageType.REGISTER,
+      register: {
+        ns,
+        signedPeerRecord
+      }
+    })
+
+    await expect(register('one')).to.eventually.have.nested.property('registerResponse.status', Message.ResponseStatus.OK)
+
+    // refreshing an existing registration is allowed
+    await expect(register('one')).to.eventually.have.nested.property('registerResponse.status', Message.ResponseStatus.OK)
+    await expect(register('two')).to.eventually.have.nested.property('registerResponse.status', Message.ResponseStatus.E_NOT_AUTHORIZED)
+  })
+
+  it('should close idle streams without an error', async () => {
+    const server = new RendezvousServer({
+      registrar: stubInterface<Registrar>(),
+      datastore: new MemoryDatastore(),
+      logger: defaultLogger()
+    }, {
+      timeout: 10
+    })
+    const stream = stubInterface<Stream>({
+      source: pushable<Uint8ArrayList>(),
+      sink: async () => {}
+    })
+
+    await expect(server.handleStream({
+      stream,
+      connection: stubInterface<Connection>({
+        remotePeer: await createEd25519PeerId()
+      })
+    })).to.eventually.be.undefined()
+
+    expect(stream.close.called).to.be.true()
+    expect(stream.abort.called).to.be.false()
+  })
+
+  it('should reject a cookie for a different namespace', async () => {
+    const sender = await createEd25519PeerId()
+
+    const first = await server.handleMessage(sender, {
+      type: Message.MessageType.DISCOVER,
+      discover: {
+        ns: 'one'
+      }
+    })
+
+    const response = await server.handleMessage(sender, {
+      type: Message.MessageType.DISCOVER,
+      discover: {
+        ns: 'two',
+        cookie: first?.discoverResponse?.cookie
+      }
+    })
+
+    expect(response).to.have.nested.property('discoverResponse.status', Message.ResponseStatus.E_INVALID_COOKIE)
+  })
+
+  it('should register in configured namespaces and emit discovered peers', async () => {
+    const { client: bob, components: bobComponents } = await createClient()
+    await bob.register('my-app')
+
+    const { client: alice } = await createClient(['my-app'])
+
+    const discovered = new Promise<PeerInfo>((resolve) => {
+      alice.addEventListener('peer', (evt) => {
+        resolve(evt.detail)
+      }, {
+        once: true
+      })
+    })
+
+    alice.afterStart()
+
+    const peer = await discovered
+    expect(peer.id.equals(bobComponents.peerId)).to.be.true()
+
+    // alice registers in the background
+    while ((await server.store.find({ ns: 'my-app', limit: 10 })).length < 2) {
+      await new Promise(resolve => setTimeout(resolve, 10))
+    }
+  })
+})
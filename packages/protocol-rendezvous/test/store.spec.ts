@@ -0,0 +1,163 @@
+/* eslint-env mocha */
+
+import { createEd25519PeerId } from '@libp2p/peer-id-factory'
+import { expect } from 'aegir/chai'
+import { MemoryDatastore } from 'datastore-core'
+import { DatastoreRegistrationStore } from '../src/store.js'
+import type { PeerId } from '@libp2p/interface'
+import type { Key } from 'interface-datastore'
+
+describe('datastore registration store', () => {
+  let datastore: MemoryDatastore
+  let store: DatastoreRegistrationStore
+  let peerA: PeerId
+  let peerB: PeerId
+
+  beforeEach(async () => {
+    datastore = new MemoryDatastore()
+    store = new DatastoreRegistrationStore(datastore)
+    peerA = await createEd25519PeerId()
+    peerB = await createEd25519PeerId()
+  })
+
+  it('should assign increasing ids', async () => {
+    const [a, b] = await Promise.all([
+      store.put({ ns: 'ns', peerId: peerA, signedPeerRecord: Uint8Array.from([0]), expires: Date.now() + 10000 }),
+      store.put({ ns: 'ns', peerId: peerB, signedPeerRecord: Uint8Array.from([1]), expires: Date.now() + 10000 })
+    ])
+
+    expect(a.id).to.equal(1n)
+    expect(b.id).to.equal(2n)
+  })
+
+  it('should continue ids after a restart', async () => {
+    await store.put({ ns: 'ns', peerId: peerA, signedPeerRecord: Uint8Array.from([0]), expires: Date.now() + 10000 })
+    await store.put({ ns: 'ns', peerId: peerB, signedPeerRecord: Uint8Array.from([1]), expires: Date.now() + 10000 })
+    await store.delete('ns', peerB)
+
+    const restarted = new DatastoreRegistrationStore(datastore)
+    const registration = await restarted.put({ ns: 'ns', peerId: peerB, signedPeerRecord: Uint8Array.from([1]), expires: Date.now() + 10000 })
+
+    expect(registration.id).to.equal(3n)
+  })
+
+  it('should replace registrations for the same peer and namespace', async () => {
+    await store.put({ ns: 'ns', peerId: peerA, signedPeerRecord: Uint8Array.from([0]), expires: Date.now() + 10000 })
+    await store.put({ ns: 'ns', peerId: peerA, signedPeerRecord: Uint8Array.from([1]), expires: Date.now() + 10000 })
+
+    const registrations = await store.find({ ns: 'ns', limit: 10 })
+
+    expect(registrations).to.have.lengthOf(1)
+    expect(registrations[0]).to.have.property('id', 2n)
+    expect(registrations[0].peerId.equals(peerA)).to.be.true()
+    expect(registrations[0].signedPeerRecord).to.equalBytes(Uint8Array.from([1]))
+  })
+
+  it('should commit concurrent registrations for the same peer and namespace in order', async () => {
+    // the first write is slower than the second
+    const batch = datastore.batch.bind(datastore)
+    let batches = 0
+    datastore.batch = () => {
+      const b = batch()
+      const commit = b.commit.bind(b)
+      const delay = batches++ === 0 ? 50 : 0
+
+      b.commit = async () => {
+        await new Promise(resolve => setTimeout(resolve, delay))
+        await commit()
+      }
+
+      return b
+    }
+
+    await Promise.all([
+      store.put({ ns: 'ns', peerId: peerA, signedPeerRecord: Uint8Array.from([0]), expires: Date.now() + 10000 }),
+      store.put({ ns: 'ns', peerId: peerA, signedPeerRecord: Uint8Array.from([1]), expires: Date.now() + 10000 })
+    ])
+
+    const registrations = await store.find({ ns: 'ns', limit: 10 })
+
+    expect(registrations).to.have.lengthOf(1)
+    expect(registrations[0]).to.have.property('id', 2n)
+    expect(registrations[0].signedPeerRecord).to.equalBytes(Uint8Array.from([1]))
+  })
+
+  it('should allocate ids after failing to load the next id', async () => {
+    const get = datastore.get.bind(datastore)
+    let failed = false
+    datastore.get = async (key: Key) => {
+      if (!failed) {
+        failed = true
+        throw new Error('Urk!')
+      }
+
+      return get(key)
+    }
+
+    await expect(store.put({ ns: 'ns', peerId: peerA, signedPeerRecord: Uint8Array.from([0]), expires: Date.now() + 10000 }))
+      .to.eventually.be.rejectedWith('Urk!')
+
+    const registration = await store.put({ ns: 'ns', peerId: peerA, signedPeerRecord: Uint8Array.from([0]), expires: Date.now() + 10000 })
+
+    expect(registration.id).to.equal(1n)
+  })
+
+  it('should not match namespaces that share a prefix', async () => {
+    await store.put({ ns: 'ns', peerId: peerA, signedPeerRecord: Uint8Array.from([0]), expires: Date.now() + 10000 })
+    await store.put({ ns: 'nsx', peerId: peerB, signedPeerRecord: Uint8Array.from([1]), expires: Date.now() + 10000 })
+
+    const registrations = await store.find({ ns: 'ns', limit: 10 })
+
+    expect(registrations.map(r => r.ns)).to.deep.equal(['ns'])
+    await expect(store.find({ limit: 10 })).to.eventually.have.lengthOf(2)
+  })
+
+  it('should only return registrations after the passed id', async () => {
+    const peers = [peerA, peerB, await createEd25519PeerId(), await createEd25519PeerId()]
+
+    for (const peerId of peers) {
+      await store.put({ ns: 'ns', peerId, signedPeerRecord: Uint8Array.from([0]), expires: Date.now() + 10000 })
+    }
+
+    const first = await store.find({ ns: 'ns', limit: 2 })
+    expect(first.map(r => r.id)).to.deep.equal([1n, 2n])
+
+    const second = await store.find({ ns: 'ns', after: first[1].id, limit: 10 })
+    expect(second.map(r => r.id)).to.deep.equal([3n, 4n])
+  })
+
+  it('should count registrations per peer', async () => {
+    await store.put({ ns: 'one', peerId: peerA, signedPeerRecord: Uint8Array.from([0]), expires: Date.now() + 10000 })
+    await store.put({ ns: 'two', peerId: peerA, signedPeerRecord: Uint8Array.from([0]), expires: Date.now() + 10000 })
+    await store.put({ ns: 'one', peerId: peerB, signedPeerRecord: Uint8Array.from([0]), expires: Date.now() + 10000 })
+
+    await expect(store.count(peerA)).to.eventually.equal(2)
+    await expect(store.count(peerB)).to.eventually.equal(1)
+
+    await store.delete('one', peerA)
+
+    await expect(store.count(peerA)).to.eventually.equal(1)
+  })
+
+  it('should index registrations stored before a restart', async () => {
+    await store.put({ ns: 'ns', peerId: peerA, signedPeerRecord: Uint8Array.from([0]), expires: Date.now() + 10000 })
+    await store.put({ ns: 'ns', peerId: peerB, signedPeerRecord: Uint8Array.from([1]), expires: Date.now() + 10000 })
+
+    const restarted = new DatastoreRegistrationStore(datastore)
+
+    await expect(restarted.count(peerA)).to.eventually.equal(1)
+
+    const registrations = await restarted.find({ ns: 'ns', after: 1n, limit: 10 })
+    expect(registrations).to.have.lengthOf(1)
+    expect(registrations[0].peerId.equals(peerB)).to.be.true()
+  })
+
+  it('should remove expired registrations', async () => {
+    await store.put({ ns: 'ns', peerId: peerA, signedPeerRecord: Uint8Array.from([0]), expires: Date.now() - 1 })
+    await store.put({ ns: 'other', peerId: peerA, signedPeerRecord: Uint8Array.from([0]), expires: Date.now() + 10000 })
+
+    await expect(store.count(peerA)).to.eventually.equal(1)
+    await expect(store.find({ ns: 'ns', limit: 10 })).to.eventually.be.empty()
+    await expect(store.has('ns', peerA)).to.eventually.be.false()
+  })
+})
@@ -32,7 +32,7 @@
  */
 
 import { MplexStreamMuxer, type MplexComponents } from './mplex.js'
-import type { StreamMuxer, StreamMuxerFactory, StreamMuxerInit } from '@libp2p/interface'
+import type { CounterGroup, StreamMuxer, StreamMuxerFactory, StreamMuxerInit } from '@libp2p/interface'
 
 export interface MplexInit {
   /**
@@ -73,6 +73,14 @@ export interface MplexInit {
    */
   maxStreamBufferSize?: number
 
+  /**
+   * Outgoing stream messages are queued until they are written to the
+   * underlying connection. If a stream has queued more than this many bytes
+   * it will stop reading from the source passed to its sink until the queue
+   * drains (default: 4MB)
+   */
+  maxBufferedAmount?: number
+
   /**
    * When `maxInboundStreams` is hit, if the remote continues try to open
    * more than this many new multiplexed streams per second the connection
@@ -85,16 +93,28 @@ class Mplex implements StreamMuxerFactory {
   public protocol = '/mplex/6.7.0'
   private readonly _init: MplexInit
   private readonly components: MplexComponents
+  private readonly metrics?: CounterGroup
+  private readonly sentBytes?: CounterGroup
 
   constructor (components: MplexComponents, init: MplexInit = {}) {
     this.components = components
     this._init = init
+    this.metrics = components.metrics?.registerCounterGroup('libp2p_mplex_stream_events_total', {
+      label: 'event',
+      help: 'Total count of mplex stream events by type'
+    })
+    this.sentBytes = components.metrics?.registerCounterGroup('libp2p_mplex_sent_bytes_total', {
+      label: 'priority',
+      help: 'Total count of bytes of stream data sent by stream priority'
+    })
   }
 
   createStreamMuxer (init: StreamMuxerInit = {}): StreamMuxer {
     return new MplexStreamMuxer(this.components, {
       ...init,
-      ...this._init
+      ...this._init,
+      metrics: this.metrics,
+      sentBytes: this.sentBytes
     })
   }
 }
@@ -1,15 +1,15 @@
 import { CodeError } from '@libp2p/interface'
 import { closeSource } from '@libp2p/utils/close-source'
 import { RateLimiter } from '@libp2p/utils/rate-limiter'
+import { WeightedFairQueue } from '@libp2p/utils/weighted-fair-queue'
 import { pipe } from 'it-pipe'
-import { type Pushable, pushable } from 'it-pushable'
 import { toString as uint8ArrayToString } from 'uint8arrays'
 import { Decoder } from './decode.js'
 import { encode } from './encode.js'
 import { MessageTypes, MessageTypeNames, type Message } from './message-types.js'
 import { createStream, type MplexStream } from './stream.js'
 import type { MplexInit } from './index.js'
-import type { AbortOptions, ComponentLogger, Logger, Stream, StreamMuxer, StreamMuxerInit } from '@libp2p/interface'
+import type { AbortOptions, ComponentLogger, CounterGroup, Logger, Metrics, Stream, StreamMuxer, StreamMuxerInit } from '@libp2p/interface'
 import type { Sink, Source } from 'it-stream-types'
 import type { Uint8ArrayList } from 'uint8arraylist'
 
@@ -19,6 +19,17 @@ const MAX_STREAM_BUFFER_SIZE = 1024 * 1024 * 4 // 4MB
 const DISCONNECT_THRESHOLD = 5
 const CLOSE_TIMEOUT = 500
 
+/**
+ * The number of bytes of stream data or stream name carried by a message
+ */
+function messageBytes (msg: Message): number {
+  if (msg.type === MessageTypes.NEW_STREAM || msg.type === MessageTypes.MESSAGE_INITIATOR || msg.type === MessageTypes.MESSAGE_RECEIVER) {
+    return msg.data.byteLength
+  }
+
+  return 0
+}
+
 function printMessage (msg: Message): any {
   const output: any = {
     ...msg,
@@ -38,6 +49,7 @@ function printMessage (msg: Message): any {
 
 export interface MplexComponents {
   logger: ComponentLogger
+  metrics?: Metrics
 }
 
 interface MplexStreamMuxerInit extends MplexInit, StreamMuxerInit {
@@ -45,6 +57,17 @@ interface MplexStreamMuxerInit extends MplexInit, StreamMuxerInit {
    * The default timeout to use in ms when shutting down the muxer.
    */
   closeTimeout?: number
+
+  /**
+   * Records how often and for how long streams stop writing because too much
+   * data is queued
+   */
+  metrics?: CounterGroup
+
+  /**
+   * Records how many bytes of stream data were sent for each priority class
+   */
+  sentBytes?: CounterGroup
 }
 
 export class MplexStreamMuxer implements StreamMuxer {
@@ -57,7 +80,7 @@ export class MplexStreamMuxer implements StreamMuxer {
   private _streamId: number
   private readonly _streams: { initiators: Map<number, MplexStream>, receivers: Map<number, MplexStream> }
   private readonly _init: MplexStreamMuxerInit
-  private readonly _source: Pushable<Message>
+  private readonly _source: WeightedFairQueue<Message>
   private readonly closeController: AbortController
   private readonly rateLimiter: RateLimiter
   private readonly closeTimeout: number
@@ -90,8 +113,8 @@ export class MplexStreamMuxer implements StreamMuxer {
     /**
      * An iterable source
      */
-    this._source = pushable<Message>({
-      objectMode: true,
+    this._source = new WeightedFairQueue<Message>({
+      metrics: init.sentBytes,
       onEnd: (): void => {
         // the source has ended, we can't write any more messages to gracefully
         // close streams so all we can do is destroy them
@@ -106,6 +129,7 @@ export class MplexStreamMuxer implements StreamMuxer {
     })
     this.source = pipe(
       this._source,
+      source => this._trackSentData(source),
       source => encode(source)
     )
 
@@ -217,7 +241,13 @@ export class MplexStreamMuxer implements StreamMuxer {
         this.log.trace('%s stream %s send', type, id, printMessage(msg))
       }
 
-      this._source.push(msg)
+      // messages from the same stream share a flow so they are sent in order
+      // even if the priority of the stream changes
+      this._source.push(msg, {
+        priority: stream.priority,
+        bytes: messageBytes(msg),
+        flow: stream.id
+      })
     }
 
     const onEnd = (): void => {
@@ -229,11 +259,30 @@ export class MplexStreamMuxer implements StreamMuxer {
       }
     }
 
-    const stream = createStream({ id, name, send, type, onEnd, maxMsgSize: this._init.maxMsgSize, logger: this.logger })
+    // throws if there is no capacity for another stream on the connection
+    const resourceScope = this._init.resourceScope?.openStream(type === 'initiator' ? 'outbound' : 'inbound')
+
+    const stream = createStream({ id, name, send, type, onEnd, maxMsgSize: this._init.maxMsgSize, logger: this.logger, resourceScope, maxBufferedAmount: this._init.maxBufferedAmount, metrics: this._init.metrics })
     registry.set(id, stream)
     return stream
   }
 
+  /**
+   * Once a data message has been read from the outgoing message queue it no
+   * longer counts towards the buffered amount of the stream that sent it
+   */
+  async * _trackSentData (source: Source<Message>): AsyncGenerator<Message> {
+    for await (const msg of source) {
+      if (msg.type === MessageTypes.MESSAGE_INITIATOR) {
+        this._streams.initiators.get(msg.id)?.onDataSent(msg.data.byteLength)
+      } else if (msg.type === MessageTypes.MESSAGE_RECEIVER) {
+        this._streams.receivers.get(msg.id)?.onDataSent(msg.data.byteLength)
+      }
+
+      yield msg
+    }
+  }
+
   /**
    * Creates a sink with an abortable source. Incoming messages will
    * also have their size restricted. All messages will be varint decoded.
@@ -301,7 +350,20 @@ export class MplexStreamMuxer implements StreamMuxer {
         return
       }
 
-      const stream = this._newReceiverStream({ id, name: uint8ArrayToString(message.data instanceof Uint8Array ? message.data : message.data.subarray()) })
+      let stream: MplexStream
+
+      try {
+        stream = this._newReceiverStream({ id, name: uint8ArrayToString(message.data instanceof Uint8Array ? message.data : message.data.subarray()) })
+      } catch (err: any) {
+        this.log.error('could not open inbound stream %s', id, err)
+
+        this._source.push({
+          id,
+          type: MessageTypes.RESET_RECEIVER
+        })
+
+        return
+      }
 
       if (this._init.onIncomingStream != null) {
         this._init.onIncomingStream(stream)
@@ -342,6 +404,9 @@ export class MplexStreamMuxer implements StreamMuxer {
             this._source.push({
               id: message.id,
               type: type === MessageTypes.MESSAGE_INITIATOR ? MessageTypes.RESET_RECEIVER : MessageTypes.RESET_INITIATOR
+            }, {
+              priority: stream.priority,
+              flow: stream.id
             })
 
             // Inform the stream consumer they are not fast enough
@@ -4,7 +4,7 @@ import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
 import { MAX_MSG_SIZE } from './decode.js'
 import { InitiatorMessageTypes, ReceiverMessageTypes } from './message-types.js'
 import type { Message } from './message-types.js'
-import type { ComponentLogger } from '@libp2p/interface'
+import type { ComponentLogger, CounterGroup, StreamResourceScope } from '@libp2p/interface'
 
 export interface Options {
   id: number
@@ -14,6 +14,9 @@ export interface Options {
   type?: 'initiator' | 'receiver'
   maxMsgSize?: number
   logger: ComponentLogger
+  resourceScope?: StreamResourceScope
+  maxBufferedAmount?: number
+  metrics?: CounterGroup
 }
 
 interface MplexStreamInit extends AbstractStreamInit {
@@ -54,6 +57,8 @@ export class MplexStream extends AbstractStream {
 
     while (data.byteLength > 0) {
       const toSend = Math.min(data.byteLength, this.maxDataSize)
+      this.updateBufferedAmount(this.bufferedAmount + toSend)
+
       await this.send({
         id: this.streamId,
         type: this.types.MESSAGE,
@@ -64,6 +69,14 @@ export class MplexStream extends AbstractStream {
     }
   }
 
+  /**
+   * Called by the muxer when a data message sent by this stream has been read
+   * from the outgoing message queue
+   */
+  onDataSent (bytes: number): void {
+    this.updateBufferedAmount(Math.max(0, this.bufferedAmount - bytes))
+  }
+
   async sendReset (): Promise<void> {
     await this.send({ id: this.streamId, type: this.types.RESET })
   }
@@ -78,7 +91,7 @@ export class MplexStream extends AbstractStream {
 }
 
 export function createStream (options: Options): MplexStream {
-  const { id, name, send, onEnd, type = 'initiator', maxMsgSize = MAX_MSG_SIZE } = options
+  const { id, name, send, onEnd, type = 'initiator', maxMsgSize = MAX_MSG_SIZE, resourceScope, maxBufferedAmount, metrics } = options
 
   return new MplexStream({
     id: type === 'initiator' ? (`i${id}`) : `r${id}`,
@@ -88,6 +101,9 @@ export function createStream (options: Options): MplexStream {
     maxDataSize: maxMsgSize,
     onEnd,
     send,
+    resourceScope,
+    maxBufferedAmount,
+    metrics,
     log: options.logger.forComponent(`libp2p:mplex:stream:${type}:${id}`)
   })
 }
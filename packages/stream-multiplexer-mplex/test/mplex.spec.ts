@@ -1,18 +1,22 @@
 /* eslint-env mocha */
 /* eslint max-nested-callbacks: ["error", 5] */
 
+import { CodeError, ERR_RESOURCE_LIMIT_EXCEEDED } from '@libp2p/interface'
 import { defaultLogger } from '@libp2p/logger'
 import { expect } from 'aegir/chai'
 import delay from 'delay'
 import all from 'it-all'
 import { pushable } from 'it-pushable'
 import pDefer from 'p-defer'
+import { stubInterface } from 'sinon-ts'
 import { Uint8ArrayList } from 'uint8arraylist'
 import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+import { Decoder } from '../src/decode.js'
 import { encode } from '../src/encode.js'
 import { mplex } from '../src/index.js'
 import { type CloseInitiatorMessage, type Message, type MessageInitiatorMessage, MessageTypes, type NewStreamMessage } from '../src/message-types.js'
 import { decode } from './fixtures/decode.js'
+import type { ConnectionResourceScope, StreamResourceScope } from '@libp2p/interface'
 import type { Source } from 'it-stream-types'
 
 describe('mplex', () => {
@@ -179,4 +183,174 @@ describe('mplex', () => {
     expect(messages).to.have.nested.property('[0].id', id)
     expect(messages).to.have.nested.property('[0].type', MessageTypes.RESET_RECEIVER)
   })
+
+  it('should reserve resources for each stream from its own scope', async () => {
+    const streamScope = stubInterface<StreamResourceScope>()
+    const resourceScope = stubInterface<ConnectionResourceScope>()
+    resourceScope.openStream.returns(streamScope)
+
+    const factory = mplex()({
+      logger: defaultLogger()
+    })
+    const muxer = factory.createStreamMuxer({
+      resourceScope
+    })
+
+    const stream = await muxer.newStream()
+
+    expect(resourceScope.openStream.calledWith('outbound')).to.be.true()
+    expect(stream).to.have.property('resourceScope', streamScope)
+
+    stream.abort(new Error('Urk!'))
+
+    expect(streamScope.done.called).to.be.true()
+  })
+
+  it('should reset a stream when memory for its data cannot be reserved', async () => {
+    const id = 17
+    const streamScope = stubInterface<StreamResourceScope>({
+      reserveMemory: () => {
+        throw new CodeError('Resource limit exceeded', ERR_RESOURCE_LIMIT_EXCEEDED)
+      }
+    })
+    const resourceScope = stubInterface<ConnectionResourceScope>({
+      openStream: () => streamScope
+    })
+    const streamSourceError = pDefer<Error>()
+
+    const input: Message[] = [{
+      id,
+      type: MessageTypes.NEW_STREAM,
+      data: new Uint8ArrayList(uint8ArrayFromString('17'))
+    }, {
+      id,
+      type: MessageTypes.MESSAGE_INITIATOR,
+      data: new Uint8ArrayList(new Uint8Array(1024))
+    }]
+
+    const factory = mplex()({
+      logger: defaultLogger()
+    })
+    const muxer = factory.createStreamMuxer({
+      resourceScope,
+      onIncomingStream (stream) {
+        all(stream.source).catch(err => {
+          streamSourceError.resolve(err)
+        })
+      }
+    })
+
+    await muxer.sink(encode(input))
+
+    const err = await streamSourceError.promise
+    expect(err).to.have.property('code', ERR_RESOURCE_LIMIT_EXCEEDED)
+
+    const messages = await all(decode()(muxer.source))
+
+    expect(messages).to.have.lengthOf(1)
+    expect(messages).to.have.nested.property('[0].id', id)
+    expect(messages).to.have.nested.property('[0].type', MessageTypes.RESET_RECEIVER)
+  })
+
+  it('should refuse a new stream when resources cannot be reserved for it', async () => {
+    const resourceScope = stubInterface<ConnectionResourceScope>({
+      openStream: () => {
+        throw new CodeError('Resource limit exceeded', ERR_RESOURCE_LIMIT_EXCEEDED)
+      }
+    })
+    const input: NewStreamMessage[] = [{
+      id: 17,
+      type: MessageTypes.NEW_STREAM,
+      data: new Uint8ArrayList(uint8ArrayFromString('17'))
+    }]
+    let incomingStreams = 0
+
+    const factory = mplex()({
+      logger: defaultLogger()
+    })
+    const muxer = factory.createStreamMuxer({
+      resourceScope,
+      onIncomingStream () {
+        incomingStreams++
+      }
+    })
+
+    await muxer.sink(encode(input))
+
+    const messages = await all(decode()(muxer.source))
+
+    expect(incomingStreams).to.equal(0)
+    expect(messages).to.have.nested.property('[0].id', 17)
+    expect(messages).to.have.nested.property('[0].type', MessageTypes.RESET_RECEIVER)
+  })
+
+  it('should stop writing to a stream until queued messages are sent', async () => {
+    const factory = mplex({
+      maxBufferedAmount: 1024
+    })({
+      logger: defaultLogger()
+    })
+    const muxer = factory.createStreamMuxer()
+    const stream = await muxer.newStream()
+    let read = 0
+
+    void stream.sink(async function * () {
+      for (let i = 0; i < 5; i++) {
+        read++
+        yield new Uint8Array(1024)
+      }
+    }())
+
+    await delay(10)
+
+    // nothing has been read from the muxer so the second message is queued
+    // and the stream is waiting to send the third
+    expect(read).to.equal(3)
+    expect(stream).to.have.property('bufferedAmount', 2048)
+
+    // read the new stream message and the first data message
+    await muxer.source.next()
+    await muxer.source.next()
+    await delay(10)
+
+    expect(read).to.equal(4)
+  })
+  it('should send data from high priority streams before data from low priority streams', async () => {
+    const factory = mplex()({
+      logger: defaultLogger()
+    })
+    const muxer = factory.createStreamMuxer()
+    const decoder = new Decoder()
+
+    const lowStream = await muxer.newStream()
+    const highStream = await muxer.newStream()
+
+    lowStream.priority = 'low'
+    highStream.priority = 'high'
+
+    void lowStream.sink([1, 2, 3, 4].map(() => new Uint8Array(1024)))
+    void highStream.sink([1, 2, 3, 4].map(() => new Uint8Array(1024)))
+
+    await delay(10)
+
+    const ids: number[] = []
+
+    while (ids.length < 5) {
+      const { value } = await muxer.source.next()
+
+      if (value == null) {
+        throw new Error('Muxer source ended')
+      }
+
+      for (const msg of decoder.write(value)) {
+        if (msg.type === MessageTypes.MESSAGE_INITIATOR) {
+          ids.push(msg.id)
+        }
+      }
+    }
+
+    // the high priority stream has four times the weight of the low priority
+    // stream so four of its data messages are sent for every one of the other
+    expect(ids).to.deep.equal([1, 1, 1, 1, 0])
+  })
 })
@@ -0,0 +1,7 @@
+
+/** @type {import('aegir').PartialOptions} */
+export default {
+  build: {
+    bundlesizeMax: '15KB'
+  }
+}
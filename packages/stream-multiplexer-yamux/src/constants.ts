@@ -0,0 +1,37 @@
+export const PROTOCOL = '/yamux/1.0.0'
+
+/**
+ * The initial window size of every stream, this is defined by the spec so
+ * cannot be changed, though a larger window can be advertised once the stream
+ * is open
+ */
+export const INITIAL_STREAM_WINDOW = 256 * 1024
+export const MAX_STREAM_WINDOW = 16 * 1024 * 1024
+export const MAX_MESSAGE_SIZE = 64 * 1024
+export const MAX_INBOUND_STREAMS = 1024
+export const MAX_OUTBOUND_STREAMS = 1024
+export const KEEP_ALIVE_INTERVAL = 30_000
+export const CLOSE_TIMEOUT = 500
+
+/**
+ * Errors that mean the remote does not speak the protocol correctly, the
+ * session will be closed with a protocol error GoAway
+ */
+export const ERR_INVALID_FRAME = 'ERR_INVALID_FRAME'
+export const ERR_INVALID_VERSION = 'ERR_INVALID_VERSION'
+export const ERR_BOTH_CLIENTS = 'ERR_BOTH_CLIENTS'
+export const ERR_STREAM_ALREADY_EXISTS = 'ERR_STREAM_ALREADY_EXISTS'
+export const ERR_RECV_WINDOW_EXCEEDED = 'ERR_RECV_WINDOW_EXCEEDED'
+
+export const PROTOCOL_ERRORS = new Set([
+  ERR_INVALID_FRAME,
+  ERR_INVALID_VERSION,
+  ERR_BOTH_CLIENTS,
+  ERR_STREAM_ALREADY_EXISTS,
+  ERR_RECV_WINDOW_EXCEEDED
+])
+
+export const ERR_MUXER_LOCAL_CLOSED = 'ERR_MUXER_LOCAL_CLOSED'
+export const ERR_MUXER_REMOTE_CLOSED = 'ERR_MUXER_REMOTE_CLOSED'
+export const ERR_TOO_MANY_OUTBOUND_STREAMS = 'ERR_TOO_MANY_OUTBOUND_STREAMS'
+export const ERR_KEEP_ALIVE_TIMEOUT = 'ERR_KEEP_ALIVE_TIMEOUT'
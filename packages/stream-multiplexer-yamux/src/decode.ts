@@ -0,0 +1,96 @@
+import { CodeError } from '@libp2p/interface'
+import { Uint8ArrayList } from 'uint8arraylist'
+import { ERR_INVALID_FRAME, ERR_INVALID_VERSION, ERR_RECV_WINDOW_EXCEEDED, MAX_STREAM_WINDOW } from './constants.js'
+import { FrameType, FrameTypeNames, HEADER_LENGTH, YAMUX_VERSION } from './frame.js'
+import type { Frame, FrameHeader } from './frame.js'
+
+/**
+ * Turns a stream of bytes into yamux frames
+ */
+export class Decoder {
+  private readonly buffer: Uint8ArrayList
+  private header?: FrameHeader
+  private readonly maxDataLength: number
+
+  /**
+   * No stream can receive more data than its receive window so data frames
+   * longer than the largest window are rejected before they are buffered
+   */
+  constructor (maxDataLength: number = MAX_STREAM_WINDOW) {
+    this.buffer = new Uint8ArrayList()
+    this.maxDataLength = maxDataLength
+  }
+
+  write (chunk: Uint8Array | Uint8ArrayList): Frame[] {
+    if (chunk == null || chunk.byteLength === 0) {
+      return []
+    }
+
+    this.buffer.append(chunk)
+
+    const frames: Frame[] = []
+
+    while (true) {
+      if (this.header == null) {
+        if (this.buffer.byteLength < HEADER_LENGTH) {
+          break // not enough data yet
+        }
+
+        this.header = decodeHeader(this.buffer.subarray(0, HEADER_LENGTH))
+        this.buffer.consume(HEADER_LENGTH)
+
+        if (this.header.type === FrameType.Data && this.header.length > this.maxDataLength) {
+          throw new CodeError('data frame too large', ERR_RECV_WINDOW_EXCEEDED)
+        }
+      }
+
+      const header = this.header
+
+      if (header.type !== FrameType.Data) {
+        frames.push({ header })
+        this.header = undefined
+        continue
+      }
+
+      if (this.buffer.byteLength < header.length) {
+        break // not enough data yet
+      }
+
+      frames.push({
+        header,
+        data: this.buffer.sublist(0, header.length)
+      })
+
+      this.buffer.consume(header.length)
+      this.header = undefined
+    }
+
+    return frames
+  }
+}
+
+/**
+ * Decodes a frame header, all fields are big-endian
+ */
+export function decodeHeader (buf: Uint8Array): FrameHeader {
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength)
+  const version = view.getUint8(0)
+
+  if (version !== YAMUX_VERSION) {
+    throw new CodeError(`invalid yamux version ${version}`, ERR_INVALID_VERSION)
+  }
+
+  const type = view.getUint8(1)
+
+  if (FrameTypeNames[type as FrameType] == null) {
+    throw new CodeError(`invalid frame type ${type}`, ERR_INVALID_FRAME)
+  }
+
+  return {
+    version,
+    type,
+    flag: view.getUint16(2),
+    streamId: view.getUint32(4),
+    length: view.getUint32(8)
+  }
+}
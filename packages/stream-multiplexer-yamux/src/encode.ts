@@ -0,0 +1,33 @@
+import { Uint8ArrayList } from 'uint8arraylist'
+import { allocUnsafe } from 'uint8arrays/alloc'
+import { HEADER_LENGTH, YAMUX_VERSION } from './frame.js'
+import type { Frame, FrameHeader } from './frame.js'
+
+/**
+ * Encodes a frame header, all fields are big-endian
+ */
+export function encodeHeader (header: FrameHeader): Uint8Array {
+  const buf = allocUnsafe(HEADER_LENGTH)
+  const view = new DataView(buf.buffer, buf.byteOffset, buf.byteLength)
+
+  view.setUint8(0, header.version ?? YAMUX_VERSION)
+  view.setUint8(1, header.type)
+  view.setUint16(2, header.flag)
+  view.setUint32(4, header.streamId)
+  view.setUint32(8, header.length)
+
+  return buf
+}
+
+/**
+ * Encodes a frame header followed by any data it carries
+ */
+export function encodeFrame (frame: Frame): Uint8ArrayList {
+  const list = new Uint8ArrayList(encodeHeader(frame.header))
+
+  if (frame.data != null) {
+    list.append(frame.data)
+  }
+
+  return list
+}
@@ -0,0 +1,94 @@
+import type { Uint8ArrayList } from 'uint8arraylist'
+
+/**
+ * The only version of the yamux protocol
+ */
+export const YAMUX_VERSION = 0
+
+/**
+ * Every frame starts with a fixed-size header
+ */
+export const HEADER_LENGTH = 12
+
+export enum FrameType {
+  /**
+   * Carries stream data, the length is the number of bytes that follow the
+   * header
+   */
+  Data = 0x0,
+
+  /**
+   * Updates the sender's receive window, the length is the window increment
+   */
+  WindowUpdate = 0x1,
+
+  /**
+   * Used for keep-alives and RTT measurement, the length is an opaque value
+   * that is echoed back
+   */
+  Ping = 0x2,
+
+  /**
+   * Terminates the session, the length is one of the GoAway codes
+   */
+  GoAway = 0x3
+}
+
+export enum Flag {
+  /**
+   * Opens a new stream or starts a ping
+   */
+  SYN = 0x1,
+
+  /**
+   * Acknowledges a new stream or responds to a ping
+   */
+  ACK = 0x2,
+
+  /**
+   * Half-closes the stream, no more data will be sent
+   */
+  FIN = 0x4,
+
+  /**
+   * Resets the stream immediately
+   */
+  RST = 0x8
+}
+
+export enum GoAwayCode {
+  NormalTermination = 0x0,
+  ProtocolError = 0x1,
+  InternalError = 0x2
+}
+
+export const FrameTypeNames: Record<FrameType, string> = Object.freeze({
+  [FrameType.Data]: 'DATA',
+  [FrameType.WindowUpdate]: 'WINDOW_UPDATE',
+  [FrameType.Ping]: 'PING',
+  [FrameType.GoAway]: 'GO_AWAY'
+})
+
+export interface FrameHeader {
+  /**
+   * The protocol version, defaults to `YAMUX_VERSION`
+   */
+  version?: number
+  type: FrameType
+
+  /**
+   * A bitfield of `Flag`s
+   */
+  flag: number
+  streamId: number
+  length: number
+}
+
+export interface Frame {
+  header: FrameHeader
+
+  /**
+   * Only present for data frames
+   */
+  data?: Uint8ArrayList
+}
@@ -0,0 +1,161 @@
+/**
+ * @packageDocumentation
+ *
+ * This is an implementation of the [yamux](https://github.com/libp2p/specs/blob/master/yamux/README.md) stream multiplexer.
+ *
+ * Each stream has a receive window that limits how much data the remote can
+ * send before the stream consumer has read it, so a slow consumer slows down
+ * the sender instead of buffering an unbounded amount of data. Receive windows
+ * grow automatically when they are the bottleneck.
+ *
+ * The session is kept alive with regular pings, which are also used to measure
+ * the round trip time to the remote.
+ *
+ * @example
+ *
+ * ```TypeScript
+ * import { yamux } from '@libp2p/yamux'
+ * import { createLibp2p } from 'libp2p'
+ *
+ * const node = await createLibp2p({
+ *   streamMuxers: [
+ *     yamux()
+ *   ]
+ * })
+ * ```
+ *
+ * @example Using the muxer directly
+ *
+ * ```TypeScript
+ * import { yamux } from '@libp2p/yamux'
+ * import { defaultLogger } from '@libp2p/logger'
+ * import { pipe } from 'it-pipe'
+ * import type { Duplex } from 'it-stream-types'
+ * import type { Uint8ArrayList } from 'uint8arraylist'
+ *
+ * const factory = yamux()({
+ *   logger: defaultLogger()
+ * })
+ *
+ * const muxer = factory.createStreamMuxer({
+ *   direction: 'outbound',
+ *   onIncomingStream: stream => { // Receive a duplex stream from the remote
+ *     // ...receive data from the remote and optionally send data back
+ *   },
+ *   onStreamEnd: stream => {
+ *     // ...handle any tracking you may need of stream closures
+ *   }
+ * })
+ *
+ * const conn: Duplex<AsyncGenerator<Uint8ArrayList | Uint8Array>> = {} as any // conn is duplex connection to another peer
+ *
+ * void pipe(conn, muxer, conn)
+ *
+ * const stream = await muxer.newStream() // Create a new duplex stream to the remote
+ *
+ * // Use the duplex stream to send some data to the remote...
+ * await pipe([Uint8Array.from([1, 2, 3])], stream)
+ * ```
+ */
+
+import { CodeError } from '@libp2p/interface'
+import { INITIAL_STREAM_WINDOW, PROTOCOL } from './constants.js'
+import { YamuxMuxer, type YamuxComponents } from './muxer.js'
+import type { CounterGroup, StreamMuxer, StreamMuxerFactory, StreamMuxerInit } from '@libp2p/interface'
+
+export type { YamuxComponents, YamuxMuxer }
+
+export interface YamuxInit {
+  /**
+   * The maximum number of streams the remote can open at any one time. A
+   * request to open more than this will be reset immediately (default: 1024)
+   */
+  maxInboundStreams?: number
+
+  /**
+   * The maximum number of streams that can be opened to the remote at any one
+   * time. An attempt to open more than this will throw (default: 1024)
+   */
+  maxOutboundStreams?: number
+
+  /**
+   * The receive window each stream starts with in bytes, this is how much
+   * data the remote can send before the stream consumer reads it. It cannot
+   * be smaller than 256KB (default: 256KB)
+   */
+  initialStreamWindowSize?: number
+
+  /**
+   * Receive windows are doubled when they limit throughput, up to this size
+   * in bytes (default: 16MB)
+   */
+  maxStreamWindowSize?: number
+
+  /**
+   * Outgoing data is split into frames no larger than this many bytes so one
+   * busy stream does not hold up the others (default: 64KB)
+   */
+  maxMessageSize?: number
+
+  /**
+   * If true, ping the remote regularly and close the connection if it does
+   * not respond (default: true)
+   */
+  enableKeepAlive?: boolean
+
+  /**
+   * How often to ping the remote in ms, it must respond within the same time
+   * (default: 30000)
+   */
+  keepAliveInterval?: number
+}
+
+class Yamux implements StreamMuxerFactory {
+  public protocol = PROTOCOL
+  private readonly _init: YamuxInit
+  private readonly components: YamuxComponents
+  private readonly sentBytes?: CounterGroup
+
+  constructor (components: YamuxComponents, init: YamuxInit = {}) {
+    validateInit(init)
+
+    this.components = components
+    this._init = init
+    this.sentBytes = components.metrics?.registerCounterGroup('libp2p_yamux_sent_bytes_total', {
+      label: 'priority',
+      help: 'Total count of bytes of stream data sent by stream priority'
+    })
+  }
+
+  createStreamMuxer (init: StreamMuxerInit = {}): StreamMuxer {
+    return new YamuxMuxer(this.components, {
+      ...init,
+      ...this._init,
+      sentBytes: this.sentBytes
+    })
+  }
+}
+
+function validateInit (init: YamuxInit): void {
+  const initialStreamWindowSize = init.initialStreamWindowSize ?? INITIAL_STREAM_WINDOW
+
+  if (initialStreamWindowSize < INITIAL_STREAM_WINDOW) {
+    throw new CodeError(`initialStreamWindowSize must be at least ${INITIAL_STREAM_WINDOW} bytes`, 'ERR_INVALID_PARAMETERS')
+  }
+
+  if (init.maxStreamWindowSize != null && (init.maxStreamWindowSize < initialStreamWindowSize || init.maxStreamWindowSize > 2 ** 32 - 1)) {
+    throw new CodeError('maxStreamWindowSize must be between initialStreamWindowSize and 2^32 - 1 bytes', 'ERR_INVALID_PARAMETERS')
+  }
+
+  if (init.maxMessageSize != null && init.maxMessageSize < 1024) {
+    throw new CodeError('maxMessageSize must be at least 1024 bytes', 'ERR_INVALID_PARAMETERS')
+  }
+
+  if (init.keepAliveInterval != null && init.keepAliveInterval <= 0) {
+    throw new CodeError('keepAliveInterval must be positive', 'ERR_INVALID_PARAMETERS')
+  }
+}
+
+export function yamux (init: YamuxInit = {}): (components: YamuxComponents) => StreamMuxerFactory {
+  return (components) => new Yamux(components, init)
+}
@@ -0,0 +1,559 @@
+import { CodeError } from '@libp2p/interface'
+import { closeSource } from '@libp2p/utils/close-source'
+import { WeightedFairQueue } from '@libp2p/utils/weighted-fair-queue'
+import pDefer, { type DeferredPromise } from 'p-defer'
+import { raceSignal } from 'race-signal'
+import { Uint8ArrayList } from 'uint8arraylist'
+import {
+  CLOSE_TIMEOUT,
+  ERR_BOTH_CLIENTS,
+  ERR_INVALID_FRAME,
+  ERR_KEEP_ALIVE_TIMEOUT,
+  ERR_MUXER_LOCAL_CLOSED,
+  ERR_MUXER_REMOTE_CLOSED,
+  ERR_STREAM_ALREADY_EXISTS,
+  ERR_TOO_MANY_OUTBOUND_STREAMS,
+  INITIAL_STREAM_WINDOW,
+  KEEP_ALIVE_INTERVAL,
+  MAX_INBOUND_STREAMS,
+  MAX_MESSAGE_SIZE,
+  MAX_OUTBOUND_STREAMS,
+  MAX_STREAM_WINDOW,
+  PROTOCOL,
+  PROTOCOL_ERRORS
+} from './constants.js'
+import { Decoder } from './decode.js'
+import { encodeFrame } from './encode.js'
+import { Flag, FrameType, FrameTypeNames, GoAwayCode } from './frame.js'
+import { StreamState, YamuxStream } from './stream.js'
+import type { Frame, FrameHeader } from './frame.js'
+import type { YamuxInit } from './index.js'
+import type { AbortOptions, ComponentLogger, CounterGroup, Direction, Logger, Metrics, Stream, StreamMuxer, StreamMuxerInit, StreamPriority } from '@libp2p/interface'
+import type { Sink, Source } from 'it-stream-types'
+
+export interface YamuxComponents {
+  logger: ComponentLogger
+  metrics?: Metrics
+}
+
+export interface YamuxMuxerInit extends YamuxInit, StreamMuxerInit {
+  /**
+   * The default timeout to use in ms when shutting down the muxer.
+   */
+  closeTimeout?: number
+
+  /**
+   * Records how many bytes of stream data were sent for each priority class
+   */
+  sentBytes?: CounterGroup
+}
+
+export class YamuxMuxer implements StreamMuxer {
+  public protocol = PROTOCOL
+
+  public sink: Sink<Source<Uint8ArrayList | Uint8Array>, Promise<void>>
+  public source: AsyncGenerator<Uint8ArrayList | Uint8Array>
+
+  private readonly log: Logger
+  private readonly logger: ComponentLogger
+  private readonly _init: YamuxMuxerInit
+  private readonly _source: WeightedFairQueue<Uint8ArrayList | Uint8Array>
+  private readonly _streams: Map<number, YamuxStream>
+  private readonly closeController: AbortController
+
+  /**
+   * The client uses odd stream ids, the server uses even ones
+   */
+  private readonly client: boolean
+  private nextStreamId: number
+  private inboundStreams: number
+  private outboundStreams: number
+  private readonly maxInboundStreams: number
+  private readonly maxOutboundStreams: number
+  private readonly initialStreamWindowSize: number
+  private readonly maxStreamWindowSize: number
+  private readonly maxMessageSize: number
+  private readonly enableKeepAlive: boolean
+  private readonly keepAliveInterval: number
+  private keepAliveTimeout?: ReturnType<typeof setTimeout>
+  private readonly closeTimeout: number
+  private nextPingId: number
+  private readonly pings: Map<number, DeferredPromise<void>>
+  private _rtt?: number
+  private localGoAway?: GoAwayCode
+  private remoteGoAway?: GoAwayCode
+
+  constructor (components: YamuxComponents, init: YamuxMuxerInit = {}) {
+    this.log = components.logger.forComponent('libp2p:yamux')
+    this.logger = components.logger
+    this._init = init
+    this._streams = new Map()
+    this.closeController = new AbortController()
+    this.client = init.direction !== 'inbound'
+    this.nextStreamId = this.client ? 1 : 2
+    this.inboundStreams = 0
+    this.outboundStreams = 0
+    this.maxInboundStreams = init.maxInboundStreams ?? MAX_INBOUND_STREAMS
+    this.maxOutboundStreams = init.maxOutboundStreams ?? MAX_OUTBOUND_STREAMS
+    this.initialStreamWindowSize = init.initialStreamWindowSize ?? INITIAL_STREAM_WINDOW
+    this.maxStreamWindowSize = init.maxStreamWindowSize ?? MAX_STREAM_WINDOW
+    this.maxMessageSize = init.maxMessageSize ?? MAX_MESSAGE_SIZE
+    this.enableKeepAlive = init.enableKeepAlive ?? true
+    this.keepAliveInterval = init.keepAliveInterval ?? KEEP_ALIVE_INTERVAL
+    this.closeTimeout = init.closeTimeout ?? CLOSE_TIMEOUT
+    this.nextPingId = 0
+    this.pings = new Map()
+
+    this.sink = this._createSink()
+
+    this._source = new WeightedFairQueue<Uint8ArrayList | Uint8Array>({
+      metrics: init.sentBytes,
+      onEnd: (): void => {
+        // the source has ended, we can't write any more frames to gracefully
+        // close streams so all we can do is destroy them
+        clearTimeout(this.keepAliveTimeout)
+
+        for (const stream of this._streams.values()) {
+          stream.destroy()
+        }
+
+        this.closeController.abort()
+      }
+    })
+    this.source = this._source
+
+    this.closeController.signal.addEventListener('abort', () => {
+      clearTimeout(this.keepAliveTimeout)
+
+      for (const ping of this.pings.values()) {
+        ping.reject(new CodeError('muxer closed', ERR_MUXER_LOCAL_CLOSED))
+      }
+    }, { once: true })
+  }
+
+  /**
+   * Returns a list of the currently open streams
+   */
+  get streams (): Stream[] {
+    return [...this._streams.values()]
+  }
+
+  /**
+   * The most recently measured round trip time of the session in ms, if it
+   * has been measured
+   */
+  get rtt (): number | undefined {
+    return this._rtt
+  }
+
+  /**
+   * Open a new stream to the remote. Yamux streams do not have names so the
+   * stream id will be used.
+   */
+  newStream (): Stream {
+    if (this.closeController.signal.aborted || this.localGoAway != null) {
+      throw new CodeError('Muxer already closed', ERR_MUXER_LOCAL_CLOSED)
+    }
+
+    if (this.remoteGoAway != null) {
+      throw new CodeError('Muxer closed by remote', ERR_MUXER_REMOTE_CLOSED)
+    }
+
+    if (this.outboundStreams >= this.maxOutboundStreams) {
+      throw new CodeError('Too many outbound streams open', ERR_TOO_MANY_OUTBOUND_STREAMS)
+    }
+
+    const id = this.nextStreamId
+    this.nextStreamId += 2
+
+    const stream = this._newStream(id, StreamState.Init, 'outbound')
+
+    // send the SYN so the remote knows about the stream
+    stream.sendNewStream()
+
+    return stream
+  }
+
+  /**
+   * Send a ping to the remote and wait for the response, resolving with the
+   * round trip time in ms
+   */
+  async ping (options: AbortOptions = {}): Promise<number> {
+    if (this.closeController.signal.aborted) {
+      throw new CodeError('Muxer already closed', ERR_MUXER_LOCAL_CLOSED)
+    }
+
+    const id = this.nextPingId
+    this.nextPingId = (this.nextPingId + 1) % 2 ** 32
+
+    const deferred: DeferredPromise<void> = pDefer()
+    this.pings.set(id, deferred)
+
+    const start = Date.now()
+
+    this.sendFrame({
+      header: {
+        type: FrameType.Ping,
+        flag: Flag.SYN,
+        streamId: 0,
+        length: id
+      }
+    })
+
+    try {
+      await raceSignal(deferred.promise, options.signal)
+    } finally {
+      this.pings.delete(id)
+    }
+
+    this._rtt = Date.now() - start
+    this.log.trace('round trip time is %dms', this._rtt)
+
+    return this._rtt
+  }
+
+  /**
+   * Close or abort all tracked streams and stop the muxer
+   */
+  async close (options?: AbortOptions): Promise<void> {
+    if (this.closeController.signal.aborted) {
+      return
+    }
+
+    const signal = options?.signal ?? AbortSignal.timeout(this.closeTimeout)
+
+    try {
+      // try to gracefully close all streams
+      await Promise.all(
+        this.streams.map(async s => s.close({
+          signal
+        }))
+      )
+
+      this.sendGoAway(GoAwayCode.NormalTermination)
+      this._source.end()
+
+      // try to gracefully close the muxer
+      await this._source.onEmpty({
+        signal
+      })
+
+      this.closeController.abort()
+    } catch (err: any) {
+      this.abort(err)
+    }
+  }
+
+  abort (err: Error, reason: GoAwayCode = GoAwayCode.InternalError): void {
+    if (this.closeController.signal.aborted) {
+      return
+    }
+
+    this.log('aborting muxer', err)
+
+    this.streams.forEach(s => { s.abort(err) })
+
+    if (this.localGoAway == null) {
+      this.sendGoAway(reason)
+    }
+
+    this._source.end()
+    this.closeController.abort(err)
+  }
+
+  _newStream (id: number, state: StreamState, direction: Direction): YamuxStream {
+    this.log('new %s stream %d', direction, id)
+
+    // throws if there is no capacity for another stream on the connection
+    const resourceScope = this._init.resourceScope?.openStream(direction)
+
+    const stream: YamuxStream = new YamuxStream({
+      id: `${id}`,
+      streamId: id,
+      state,
+      direction,
+      initialStreamWindowSize: this.initialStreamWindowSize,
+      maxStreamWindowSize: this.maxStreamWindowSize,
+      maxMessageSize: this.maxMessageSize,
+      resourceScope,
+      log: this.logger.forComponent(`libp2p:yamux:stream:${direction}:${id}`),
+      sendFrame: (frame) => {
+        this.sendFrame(frame)
+      },
+      getRTT: () => this._rtt,
+      onEnd: () => {
+        this.log('%s stream with id %d and protocol %s ended', direction, id, stream.protocol)
+        this._streams.delete(id)
+
+        if (direction === 'inbound') {
+          this.inboundStreams--
+        } else {
+          this.outboundStreams--
+        }
+
+        this._init.onStreamEnd?.(stream)
+      }
+    })
+
+    this._streams.set(id, stream)
+
+    if (direction === 'inbound') {
+      this.inboundStreams++
+    } else {
+      this.outboundStreams++
+    }
+
+    return stream
+  }
+
+  /**
+   * Creates a sink with an abortable source. Incoming bytes are decoded into
+   * frames and handled in order.
+   */
+  _createSink (): Sink<Source<Uint8ArrayList | Uint8Array>, Promise<void>> {
+    const sink: Sink<Source<Uint8ArrayList | Uint8Array>, Promise<void>> = async source => {
+      const abortListener = (): void => {
+        closeSource(source, this.log)
+      }
+
+      this.closeController.signal.addEventListener('abort', abortListener)
+
+      // the connection is being read from so measure the round trip time as
+      // soon as possible so streams can tune their receive windows, then keep
+      // the connection alive
+      this.ping().catch(err => {
+        this.log('initial ping failed', err)
+      })
+
+      this.scheduleKeepAlive()
+
+      try {
+        const decoder = new Decoder(this.maxStreamWindowSize)
+
+        for await (const chunk of source) {
+          for (const frame of decoder.write(chunk)) {
+            this._handleFrame(frame)
+          }
+        }
+
+        this._source.end()
+      } catch (err: any) {
+        this.log('error in sink', err)
+        this.abort(err, PROTOCOL_ERRORS.has(err.code) ? GoAwayCode.ProtocolError : GoAwayCode.InternalError)
+      } finally {
+        this.closeController.signal.removeEventListener('abort', abortListener)
+      }
+    }
+
+    return sink
+  }
+
+  _handleFrame (frame: Frame): void {
+    const { header } = frame
+
+    if (this.log.enabled) {
+      this.log.trace('incoming %s frame for stream %d with flags %d and length %d', FrameTypeNames[header.type], header.streamId, header.flag, header.length)
+    }
+
+    if (header.streamId === 0) {
+      if (header.type === FrameType.Ping) {
+        this.handlePing(header)
+      } else if (header.type === FrameType.GoAway) {
+        this.handleGoAway(header.length)
+      } else {
+        throw new CodeError(`invalid ${FrameTypeNames[header.type]} frame for the session`, ERR_INVALID_FRAME)
+      }
+
+      return
+    }
+
+    if (header.type !== FrameType.Data && header.type !== FrameType.WindowUpdate) {
+      throw new CodeError(`invalid ${FrameTypeNames[header.type]} frame for stream ${header.streamId}`, ERR_INVALID_FRAME)
+    }
+
+    if ((header.flag & Flag.SYN) === Flag.SYN) {
+      this.handleIncomingStream(header.streamId)
+    }
+
+    const stream = this._streams.get(header.streamId)
+
+    if (stream == null) {
+      this.log('missing stream %d for %s frame', header.streamId, FrameTypeNames[header.type])
+      return
+    }
+
+    try {
+      if (header.type === FrameType.Data) {
+        stream.handleData(header, frame.data ?? new Uint8ArrayList())
+      } else {
+        stream.handleWindowUpdate(header)
+      }
+    } catch (err: any) {
+      if (PROTOCOL_ERRORS.has(err.code)) {
+        throw err
+      }
+
+      this.log.error('error while processing frame', err)
+      stream.abort(err)
+    }
+  }
+
+  private handleIncomingStream (id: number): void {
+    if ((id % 2 === 1) === this.client) {
+      throw new CodeError(`remote opened stream ${id} but both ends are ${this.client ? 'clients' : 'servers'}`, ERR_BOTH_CLIENTS)
+    }
+
+    if (this._streams.has(id)) {
+      throw new CodeError(`stream ${id} already exists`, ERR_STREAM_ALREADY_EXISTS)
+    }
+
+    if (this.localGoAway != null || this.inboundStreams >= this.maxInboundStreams) {
+      this.log('refusing inbound stream %d', id)
+      this.refuseStream(id)
+      return
+    }
+
+    let stream: YamuxStream
+
+    try {
+      stream = this._newStream(id, StreamState.SYNReceived, 'inbound')
+    } catch (err: any) {
+      this.log.error('could not open inbound stream %d', id, err)
+      this.refuseStream(id)
+      return
+    }
+
+    // acknowledge the stream
+    stream.sendWindowUpdate()
+
+    this._init.onIncomingStream?.(stream)
+  }
+
+  /**
+   * Not going to allow this stream, send the reset manually instead of setting
+   * it up just to tear it down
+   */
+  private refuseStream (id: number): void {
+    this.sendFrame({
+      header: {
+        type: FrameType.WindowUpdate,
+        flag: Flag.RST,
+        streamId: id,
+        length: 0
+      }
+    })
+  }
+
+  private handlePing (header: FrameHeader): void {
+    if ((header.flag & Flag.SYN) === Flag.SYN) {
+      this.sendFrame({
+        header: {
+          type: FrameType.Ping,
+          flag: Flag.ACK,
+          streamId: 0,
+          length: header.length
+        }
+      })
+    } else if ((header.flag & Flag.ACK) === Flag.ACK) {
+      const ping = this.pings.get(header.length)
+
+      if (ping == null) {
+        this.log('received response to unknown ping %d', header.length)
+        return
+      }
+
+      ping.resolve()
+    } else {
+      throw new CodeError('ping frame had neither SYN nor ACK flags', ERR_INVALID_FRAME)
+    }
+  }
+
+  private handleGoAway (code: number): void {
+    this.log('remote sent GoAway with code %s', GoAwayCode[code] ?? code)
+    this.remoteGoAway = code
+
+    if (code === GoAwayCode.NormalTermination) {
+      // no new streams can be opened but existing streams may finish
+      return
+    }
+
+    // the remote failed so existing streams cannot finish
+    for (const stream of this._streams.values()) {
+      stream.reset()
+    }
+
+    this._source.end()
+  }
+
+  private sendGoAway (code: GoAwayCode): void {
+    this.log('sending GoAway with code %s', GoAwayCode[code])
+    this.localGoAway = code
+
+    this.sendFrame({
+      header: {
+        type: FrameType.GoAway,
+        flag: 0,
+        streamId: 0,
+        length: code
+      }
+    })
+  }
+
+  private sendFrame (frame: Frame): void {
+    if (this.log.enabled) {
+      this.log.trace('outgoing %s frame for stream %d with flags %d and length %d', FrameTypeNames[frame.header.type], frame.header.streamId, frame.header.flag, frame.header.length)
+    }
+
+    const { type, streamId, length } = frame.header
+
+    // frames for the same stream share a flow so they are sent in order even
+    // if the priority of the stream changes
+    this._source.push(encodeFrame(frame), {
+      priority: this.framePriority(streamId),
+      bytes: type === FrameType.Data ? length : 0,
+      flow: streamId
+    })
+  }
+
+  /**
+   * Session frames such as pings and GoAways are always sent before queued
+   * stream data
+   */
+  private framePriority (streamId: number): StreamPriority {
+    if (streamId === 0) {
+      return 'high'
+    }
+
+    return this._streams.get(streamId)?.priority ?? 'normal'
+  }
+
+  /**
+   * Regular pings keep NAT mappings open and detect dead connections
+   */
+  private scheduleKeepAlive (): void {
+    if (!this.enableKeepAlive || this.closeController.signal.aborted) {
+      return
+    }
+
+    this.keepAliveTimeout = setTimeout(() => {
+      this.ping({
+        signal: AbortSignal.timeout(this.keepAliveInterval)
+      })
+        .then(() => {
+          this.scheduleKeepAlive()
+        })
+        .catch(err => {
+          if (this.closeController.signal.aborted) {
+            return
+          }
+
+          this.log.error('keep alive ping failed', err)
+          this.abort(new CodeError('Keep alive ping was not answered', ERR_KEEP_ALIVE_TIMEOUT))
+        })
+    }, this.keepAliveInterval)
+
+    if (this.keepAliveTimeout.unref != null) {
+      this.keepAliveTimeout.unref()
+    }
+  }
+}
@@ -0,0 +1,295 @@
+import { CodeError } from '@libp2p/interface'
+import { AbstractStream, type AbstractStreamInit } from '@libp2p/utils/abstract-stream'
+import pDefer, { type DeferredPromise } from 'p-defer'
+import { raceSignal } from 'race-signal'
+import { ERR_RECV_WINDOW_EXCEEDED, INITIAL_STREAM_WINDOW } from './constants.js'
+import { Flag, FrameType } from './frame.js'
+import type { Frame, FrameHeader } from './frame.js'
+import type { AbortOptions } from '@libp2p/interface'
+import type { Uint8ArrayList } from 'uint8arraylist'
+
+export enum StreamState {
+  /**
+   * An outbound stream that has not told the remote about itself yet
+   */
+  Init,
+
+  /**
+   * An outbound stream that the remote has not acknowledged yet
+   */
+  SYNSent,
+
+  /**
+   * An inbound stream that we have not acknowledged yet
+   */
+  SYNReceived,
+  Established
+}
+
+export interface YamuxStreamInit extends AbstractStreamInit {
+  streamId: number
+  state: StreamState
+
+  /**
+   * The receive window advertised when the stream opens
+   */
+  initialStreamWindowSize: number
+
+  /**
+   * The receive window will not be grown beyond this size
+   */
+  maxStreamWindowSize: number
+
+  /**
+   * Data larger than this is split across multiple frames
+   */
+  maxMessageSize: number
+  sendFrame(frame: Frame): void
+
+  /**
+   * Returns the round trip time of the session, if it has been measured
+   */
+  getRTT(): number | undefined
+}
+
+export class YamuxStream extends AbstractStream {
+  public readonly streamId: number
+  private state: StreamState
+  private readonly maxStreamWindowSize: number
+  private readonly maxMessageSize: number
+  private readonly sendFrame: (frame: Frame) => void
+  private readonly getRTT: () => number | undefined
+
+  /**
+   * How many bytes we may send before the remote grants us more
+   */
+  private sendWindow: number
+  private sendWindowUpdated?: DeferredPromise<void>
+
+  /**
+   * How many bytes we are willing to buffer for the stream consumer
+   */
+  private recvWindow: number
+
+  /**
+   * How many bytes the remote may send before we grant it more
+   */
+  private recvWindowCapacity: number
+
+  /**
+   * When we last granted the remote more receive window, used to decide if the
+   * window should grow
+   */
+  private epochStart: number
+
+  constructor (init: YamuxStreamInit) {
+    super(init)
+
+    this.streamId = init.streamId
+    this.state = init.state
+    this.maxStreamWindowSize = init.maxStreamWindowSize
+    this.maxMessageSize = init.maxMessageSize
+    this.sendFrame = init.sendFrame
+    this.getRTT = init.getRTT
+    this.sendWindow = INITIAL_STREAM_WINDOW
+    this.recvWindow = init.initialStreamWindowSize
+    // both ends assume the initial window, any extra is granted by the first
+    // window update we send
+    this.recvWindowCapacity = INITIAL_STREAM_WINDOW
+    this.epochStart = Date.now()
+    this.source = this.updateWindowOnRead(this.source)
+  }
+
+  /**
+   * Send the SYN to the remote if it has not been sent yet. The muxer sends it
+   * as soon as an outbound stream is created so the remote knows about the
+   * stream before any data is written.
+   */
+  sendNewStream (): void {
+    if (this.state === StreamState.Init) {
+      this.sendWindowUpdate()
+    }
+  }
+
+  async sendData (data: Uint8ArrayList, options: AbortOptions = {}): Promise<void> {
+    data = data.sublist()
+
+    while (data.byteLength > 0) {
+      if (this.sendWindow === 0) {
+        this.log.trace('waiting for the remote to grant more send window')
+        this.sendWindowUpdated = pDefer()
+
+        try {
+          await raceSignal(this.sendWindowUpdated.promise, options.signal)
+        } catch (err) {
+          if (this.status === 'open' || this.status === 'closing') {
+            throw err
+          }
+
+          // the stream was closed while we waited so the data cannot be sent
+          return
+        } finally {
+          this.sendWindowUpdated = undefined
+        }
+      }
+
+      const toSend = Math.min(this.sendWindow, this.maxMessageSize, data.byteLength)
+
+      this.sendFrame({
+        header: {
+          type: FrameType.Data,
+          flag: this.getSendFlags(),
+          streamId: this.streamId,
+          length: toSend
+        },
+        data: data.sublist(0, toSend)
+      })
+
+      this.sendWindow -= toSend
+      data.consume(toSend)
+    }
+  }
+
+  async sendReset (): Promise<void> {
+    this.sendFrame({
+      header: {
+        type: FrameType.WindowUpdate,
+        flag: Flag.RST,
+        streamId: this.streamId,
+        length: 0
+      }
+    })
+  }
+
+  async sendCloseWrite (): Promise<void> {
+    this.sendFrame({
+      header: {
+        type: FrameType.WindowUpdate,
+        flag: this.getSendFlags() | Flag.FIN,
+        streamId: this.streamId,
+        length: 0
+      }
+    })
+  }
+
+  async sendCloseRead (): Promise<void> {
+    // yamux does not support close read, only close write
+  }
+
+  /**
+   * Called when the remote grants us more send window
+   */
+  handleWindowUpdate (header: FrameHeader): void {
+    this.sendWindow += header.length
+
+    if (header.length > 0) {
+      this.sendWindowUpdated?.resolve()
+    }
+
+    this.processFlags(header.flag)
+  }
+
+  /**
+   * Called when the remote sends us data
+   */
+  handleData (header: FrameHeader, data: Uint8ArrayList): void {
+    if (header.length > this.recvWindowCapacity) {
+      throw new CodeError(`stream ${this.streamId} received ${header.length} bytes but the receive window was ${this.recvWindowCapacity}`, ERR_RECV_WINDOW_EXCEEDED)
+    }
+
+    this.recvWindowCapacity -= header.length
+
+    if (this.readStatus === 'ready') {
+      this.sourcePush(data)
+    } else {
+      // nothing will read the data, let the remote send more so it does not
+      // stall waiting for a window update
+      this.log.trace('discarding %d bytes received after the readable end closed', header.length)
+      this.sendWindowUpdate()
+    }
+
+    this.processFlags(header.flag)
+  }
+
+  /**
+   * Grant the remote more receive window once the consumer has read at least
+   * half of the current window, or immediately if the stream has not been
+   * opened or acknowledged yet.
+   *
+   * If the consumer read the whole window in less than four round trips the
+   * window was the bottleneck so it is doubled, up to `maxStreamWindowSize`.
+   */
+  sendWindowUpdate (): void {
+    if (this.status === 'closed' || this.status === 'aborted' || this.status === 'reset') {
+      return
+    }
+
+    const flag = this.getSendFlags()
+    let delta = this.recvWindow - this.recvWindowCapacity - this.sourceReadableLength()
+
+    if (flag === 0 && delta < this.recvWindow / 2) {
+      return
+    }
+
+    const now = Date.now()
+    const rtt = this.getRTT()
+
+    if (flag === 0 && rtt != null && now - this.epochStart < rtt * 4 && this.recvWindow < this.maxStreamWindowSize) {
+      const recvWindow = Math.min(this.recvWindow * 2, this.maxStreamWindowSize)
+      this.log.trace('increasing receive window from %d to %d bytes', this.recvWindow, recvWindow)
+      delta += recvWindow - this.recvWindow
+      this.recvWindow = recvWindow
+    }
+
+    this.recvWindowCapacity += delta
+    this.epochStart = now
+
+    this.sendFrame({
+      header: {
+        type: FrameType.WindowUpdate,
+        flag,
+        streamId: this.streamId,
+        length: delta
+      }
+    })
+  }
+
+  private processFlags (flag: number): void {
+    if ((flag & Flag.ACK) === Flag.ACK && this.state === StreamState.SYNSent) {
+      this.state = StreamState.Established
+    }
+
+    if ((flag & Flag.FIN) === Flag.FIN) {
+      this.remoteCloseWrite()
+    }
+
+    if ((flag & Flag.RST) === Flag.RST) {
+      this.reset()
+    }
+  }
+
+  /**
+   * The first frame sent on a stream opens or acknowledges it
+   */
+  private getSendFlags (): number {
+    if (this.state === StreamState.Init) {
+      this.state = StreamState.SYNSent
+      return Flag.SYN
+    }
+
+    if (this.state === StreamState.SYNReceived) {
+      this.state = StreamState.Established
+      return Flag.ACK
+    }
+
+    return 0
+  }
+
+  private async * updateWindowOnRead (source: AsyncGenerator<Uint8ArrayList, void, unknown>): AsyncGenerator<Uint8ArrayList, void, unknown> {
+    for await (const buf of source) {
+      yield buf
+
+      this.sendWindowUpdate()
+    }
+  }
+}
@@ -0,0 +1,81 @@
+/* eslint-env mocha */
+
+import { expect } from 'aegir/chai'
+import { Uint8ArrayList } from 'uint8arraylist'
+import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+import { ERR_INVALID_FRAME, ERR_INVALID_VERSION, ERR_RECV_WINDOW_EXCEEDED } from '../src/constants.js'
+import { Decoder, decodeHeader } from '../src/decode.js'
+import { encodeFrame, encodeHeader } from '../src/encode.js'
+import { Flag, FrameType, GoAwayCode } from '../src/frame.js'
+
+describe('codec', () => {
+  it('should encode a header', () => {
+    const buf = encodeHeader({
+      type: FrameType.WindowUpdate,
+      flag: Flag.SYN,
+      streamId: 3,
+      length: 1024
+    })
+
+    expect(buf).to.equalBytes(uint8ArrayFromString('000100010000000300000400', 'base16'))
+  })
+
+  it('should decode a header', () => {
+    const header = decodeHeader(uint8ArrayFromString('000300000000000000000002', 'base16'))
+
+    expect(header).to.deep.equal({
+      version: 0,
+      type: FrameType.GoAway,
+      flag: 0,
+      streamId: 0,
+      length: GoAwayCode.InternalError
+    })
+  })
+
+  it('should reject an unknown version', () => {
+    expect(() => decodeHeader(uint8ArrayFromString('010000000000000100000000', 'base16')))
+      .to.throw().with.property('code', ERR_INVALID_VERSION)
+  })
+
+  it('should reject an unknown frame type', () => {
+    expect(() => decodeHeader(uint8ArrayFromString('000400000000000100000000', 'base16')))
+      .to.throw().with.property('code', ERR_INVALID_FRAME)
+  })
+
+  it('should decode frames split across chunks', () => {
+    const data = uint8ArrayFromString('hello world')
+    const encoded = new Uint8ArrayList(
+      encodeFrame({
+        header: { type: FrameType.Data, flag: Flag.SYN, streamId: 1, length: data.byteLength },
+        data: new Uint8ArrayList(data)
+      }),
+      encodeFrame({
+        header: { type: FrameType.Ping, flag: Flag.SYN, streamId: 0, length: 7 }
+      })
+    ).subarray()
+
+    const decoder = new Decoder()
+    const frames = []
+
+    for (let i = 0; i < encoded.byteLength; i += 5) {
+      frames.push(...decoder.write(encoded.subarray(i, i + 5)))
+    }
+
+    expect(frames).to.have.lengthOf(2)
+    expect(frames[0].header).to.include({ type: FrameType.Data, flag: Flag.SYN, streamId: 1, length: data.byteLength })
+    expect(frames[0].data?.subarray()).to.equalBytes(data)
+    expect(frames[1].header).to.include({ type: FrameType.Ping, flag: Flag.SYN, streamId: 0, length: 7 })
+    expect(frames[1].data).to.be.undefined()
+  })
+
+  it('should reject data frames longer than the largest receive window', () => {
+    const decoder = new Decoder(1024)
+
+    expect(() => decoder.write(encodeHeader({
+      type: FrameType.Data,
+      flag: 0,
+      streamId: 1,
+      length: 1025
+    }))).to.throw().with.property('code', ERR_RECV_WINDOW_EXCEEDED)
+  })
+})
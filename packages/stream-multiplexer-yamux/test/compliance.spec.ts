@@ -0,0 +1,18 @@
+/* eslint-env mocha */
+
+import tests from '@libp2p/interface-compliance-tests/stream-muxer'
+import { defaultLogger } from '@libp2p/logger'
+import { yamux } from '../src/index.js'
+
+describe('compliance', () => {
+  tests({
+    async setup () {
+      return yamux({
+        maxInboundStreams: Infinity
+      })({
+        logger: defaultLogger()
+      })
+    },
+    async teardown () {}
+  })
+})
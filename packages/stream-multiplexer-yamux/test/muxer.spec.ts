@@ -0,0 +1,274 @@
+/* eslint-env mocha */
+/* eslint max-nested-callbacks: ["error", 5] */
+
+import { defaultLogger } from '@libp2p/logger'
+import { expect } from 'aegir/chai'
+import delay from 'delay'
+import drain from 'it-drain'
+import { duplexPair } from 'it-pair/duplex'
+import { pipe } from 'it-pipe'
+import { pushable } from 'it-pushable'
+import pDefer from 'p-defer'
+import { ERR_MUXER_REMOTE_CLOSED, INITIAL_STREAM_WINDOW } from '../src/constants.js'
+import { Decoder } from '../src/decode.js'
+import { encodeFrame } from '../src/encode.js'
+import { Flag, FrameType, GoAwayCode, type Frame } from '../src/frame.js'
+import { yamux, type YamuxInit, type YamuxMuxer } from '../src/index.js'
+import type { Stream, StreamMuxerInit } from '@libp2p/interface'
+import type { Uint8ArrayList } from 'uint8arraylist'
+
+function createMuxer (init: YamuxInit = {}, muxerInit: StreamMuxerInit = {}): YamuxMuxer {
+  return yamux({
+    enableKeepAlive: false,
+    ...init
+  })({
+    logger: defaultLogger()
+  }).createStreamMuxer(muxerInit) as YamuxMuxer
+}
+
+/**
+ * Pipes the output of the muxer through a decoder and resolves with the first
+ * frame that matches the filter
+ */
+async function findFrame (muxer: YamuxMuxer, filter: (frame: Frame) => boolean): Promise<Frame> {
+  const decoder = new Decoder()
+
+  for await (const chunk of muxer.source) {
+    for (const frame of decoder.write(chunk)) {
+      if (filter(frame)) {
+        return frame
+      }
+    }
+  }
+
+  throw new Error('muxer source ended before the frame was seen')
+}
+
+describe('yamux', () => {
+  it('should reject a receive window smaller than the spec allows', () => {
+    expect(() => yamux({ initialStreamWindowSize: 1024 })({ logger: defaultLogger() }))
+      .to.throw().with.property('code', 'ERR_INVALID_PARAMETERS')
+  })
+
+  it('should reject a max receive window smaller than the initial window', () => {
+    expect(() => yamux({ initialStreamWindowSize: INITIAL_STREAM_WINDOW * 2, maxStreamWindowSize: INITIAL_STREAM_WINDOW })({ logger: defaultLogger() }))
+      .to.throw().with.property('code', 'ERR_INVALID_PARAMETERS')
+  })
+
+  it('should measure the round trip time', async () => {
+    const p = duplexPair<Uint8Array | Uint8ArrayList>()
+    const dialer = createMuxer({}, { direction: 'outbound' })
+    const listener = createMuxer({}, { direction: 'inbound' })
+
+    void pipe(p[0], dialer, p[0])
+    void pipe(p[1], listener, p[1])
+
+    const rtt = await dialer.ping()
+
+    expect(rtt).to.be.a('number')
+    expect(dialer.rtt).to.equal(rtt)
+
+    await dialer.close()
+    await listener.close()
+  })
+
+  it('should not send the initial ping until the connection is read from', async () => {
+    const muxer = createMuxer({}, { direction: 'outbound' })
+    const stream = muxer.newStream()
+
+    // only the frame that opens the stream has been sent
+    const { value } = await muxer.source.next()
+
+    if (value == null) {
+      throw new Error('muxer source ended')
+    }
+
+    const [frame] = new Decoder().write(value)
+    expect(frame.header).to.include({ type: FrameType.WindowUpdate, flag: Flag.SYN, streamId: Number(stream.id) })
+
+    void muxer.sink(pushable<Uint8Array>())
+
+    const ping = await findFrame(muxer, frame => frame.header.type === FrameType.Ping)
+    expect(ping.header.flag).to.equal(Flag.SYN)
+
+    muxer.abort(new Error('test finished'))
+  })
+
+  it('should stop sending when the receive window is full', async () => {
+    const p = duplexPair<Uint8Array | Uint8ArrayList>()
+    const incomingStream = pDefer<Stream>()
+    const dialer = createMuxer({}, { direction: 'outbound' })
+    const listener = createMuxer({}, {
+      direction: 'inbound',
+      onIncomingStream: (stream) => {
+        incomingStream.resolve(stream)
+      }
+    })
+
+    void pipe(p[0], dialer, p[0])
+    void pipe(p[1], listener, p[1])
+
+    const chunk = new Uint8Array(1024)
+    const chunks = (INITIAL_STREAM_WINDOW * 4) / chunk.byteLength
+    let sent = 0
+
+    const stream = dialer.newStream()
+    const sinkPromise = stream.sink((async function * () {
+      for (let i = 0; i < chunks; i++) {
+        yield chunk
+        sent += chunk.byteLength
+      }
+    })())
+
+    const remote = await incomingStream.promise
+
+    // nothing is reading so the sender stalls once the window is used up
+    await delay(100)
+    expect(sent).to.be.lessThan(chunks * chunk.byteLength)
+    expect(sent).to.be.at.least(INITIAL_STREAM_WINDOW)
+
+    // reading the stream grants more window so the sender can finish
+    let received = 0
+
+    await Promise.all([
+      sinkPromise,
+      (async () => {
+        for await (const buf of remote.source) {
+          received += buf.byteLength
+        }
+      })()
+    ])
+
+    expect(received).to.equal(chunks * chunk.byteLength)
+
+    await dialer.close()
+    await listener.close()
+  })
+
+  it('should not open new streams after the remote sends a GoAway', async () => {
+    const muxer = createMuxer({}, { direction: 'outbound' })
+    const input = pushable<Uint8ArrayList>()
+
+    void muxer.sink(input)
+    void drain(muxer.source)
+
+    input.push(encodeFrame({
+      header: { type: FrameType.GoAway, flag: 0, streamId: 0, length: GoAwayCode.NormalTermination }
+    }))
+
+    await delay(10)
+
+    expect(() => muxer.newStream()).to.throw().with.property('code', ERR_MUXER_REMOTE_CLOSED)
+
+    input.end()
+  })
+
+  it('should reset inbound streams over the limit', async () => {
+    let incomingStreams = 0
+    const muxer = createMuxer({ maxInboundStreams: 1 }, {
+      direction: 'inbound',
+      onIncomingStream: () => {
+        incomingStreams++
+      }
+    })
+    const input = pushable<Uint8ArrayList>()
+
+    void muxer.sink(input)
+
+    input.push(encodeFrame({
+      header: { type: FrameType.WindowUpdate, flag: Flag.SYN, streamId: 1, length: 0 }
+    }))
+    input.push(encodeFrame({
+      header: { type: FrameType.WindowUpdate, flag: Flag.SYN, streamId: 3, length: 0 }
+    }))
+
+    const frame = await findFrame(muxer, frame => frame.header.streamId === 3)
+
+    expect(frame.header).to.include({ type: FrameType.WindowUpdate, flag: Flag.RST })
+    expect(incomingStreams).to.equal(1)
+
+    input.end()
+  })
+
+  it('should send a protocol error GoAway when both ends are clients', async () => {
+    const muxer = createMuxer({}, { direction: 'outbound' })
+    const input = pushable<Uint8ArrayList>()
+
+    void muxer.sink(input)
+
+    // an odd stream id means the remote thinks it is the client too
+    input.push(encodeFrame({
+      header: { type: FrameType.WindowUpdate, flag: Flag.SYN, streamId: 1, length: 0 }
+    }))
+
+    const frame = await findFrame(muxer, frame => frame.header.type === FrameType.GoAway)
+
+    expect(frame.header.length).to.equal(GoAwayCode.ProtocolError)
+  })
+  it('should send data from high priority streams before data from low priority streams', async () => {
+    const muxer = createMuxer({}, { direction: 'outbound' })
+    const decoder = new Decoder()
+
+    const lowStream = muxer.newStream()
+    const highStream = muxer.newStream()
+
+    // read the frames that open the streams
+    for (let i = 0; i < 2; i++) {
+      await muxer.source.next()
+    }
+
+    lowStream.priority = 'low'
+    highStream.priority = 'high'
+
+    void lowStream.sink([1, 2, 3, 4].map(() => new Uint8Array(1024)))
+    void highStream.sink([1, 2, 3, 4].map(() => new Uint8Array(1024)))
+
+    await delay(10)
+
+    const ids: string[] = []
+
+    while (ids.length < 5) {
+      const { value } = await muxer.source.next()
+
+      if (value == null) {
+        throw new Error('muxer source ended')
+      }
+
+      for (const frame of decoder.write(value)) {
+        if (frame.header.type === FrameType.Data && frame.header.length > 0) {
+          ids.push(`${frame.header.streamId}`)
+        }
+      }
+    }
+
+    // the high priority stream has four times the weight of the low priority
+    // stream so four of its data frames are sent for every one of the other
+    expect(ids).to.deep.equal([highStream.id, highStream.id, highStream.id, highStream.id, lowStream.id])
+
+    muxer.abort(new Error('test finished'))
+  })
+
+  it('should send pings before queued stream data', async () => {
+    const muxer = createMuxer({}, { direction: 'outbound' })
+    const decoder = new Decoder()
+    const stream = muxer.newStream()
+
+    // read the frame that opens the stream
+    await muxer.source.next()
+
+    void stream.sink([1, 2, 3, 4].map(() => new Uint8Array(1024)))
+    await delay(10)
+
+    void muxer.ping().catch(() => {})
+
+    const { value } = await muxer.source.next()
+
+    if (value == null) {
+      throw new Error('muxer source ended')
+    }
+
+    expect(decoder.write(value)[0].header.type).to.equal(FrameType.Ping)
+
+    muxer.abort(new Error('test finished'))
+  })
+})
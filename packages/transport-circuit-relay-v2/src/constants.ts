@@ -51,6 +51,12 @@ export const DEFAULT_DURATION_LIMIT = 2 * minute
 // 128k is the default data limit
 export const DEFAULT_DATA_LIMIT = BigInt(1 << 17)
 
+/**
+ * Warn when 80% of the data or duration limit of a relayed connection has been
+ * used
+ */
+export const DEFAULT_LIMIT_WARNING_THRESHOLDS = [0.8]
+
 /**
  * The hop protocol
  */
@@ -77,3 +83,16 @@ export const ERR_NO_ROUTERS_AVAILABLE = 'ERR_NO_ROUTERS_AVAILABLE'
 export const ERR_RELAYED_DIAL = 'ERR_RELAYED_DIAL'
 export const ERR_HOP_REQUEST_FAILED = 'ERR_HOP_REQUEST_FAILED'
 export const ERR_TRANSFER_LIMIT_EXCEEDED = 'ERR_TRANSFER_LIMIT_EXCEEDED'
+export const ERR_CIRCUIT_CLOSED = 'ERR_CIRCUIT_CLOSED'
+
+/**
+ * How often the bytes relayed by open circuits are added to the persisted
+ * totals
+ */
+export const DEFAULT_RELAYED_BYTES_FLUSH_INTERVAL = minute
+
+/**
+ * The datastore prefix under which the number of bytes relayed for each peer
+ * is stored
+ */
+export const RELAYED_BYTES_PREFIX = '/circuit-relay/relayed-bytes'
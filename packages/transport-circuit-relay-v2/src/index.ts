@@ -19,6 +19,60 @@
  * })
  * ```
  *
+ * @example Keeping standby relays
+ *
+ * Reservations can be held on more relays than are advertised. The relays are
+ * scored by latency, the limits they apply, how reliable they have been and
+ * whether they share a subnet with the other relays in use. The best ones are
+ * used and if one of them goes away the best standby relay takes its place
+ * immediately.
+ *
+ * ```typescript
+ * import { createLibp2p } from 'libp2p'
+ * import { circuitRelayTransport } from '@libp2p/circuit-relay-v2'
+ *
+ * const node = await createLibp2p({
+ *   transports: [
+ *     circuitRelayTransport({
+ *       discoverRelays: 2,
+ *       standbyRelays: 1
+ *     })
+ *   ]
+ * })
+ *
+ * node.addEventListener('relay:reservation:failover', (evt) => {
+ *   console.info('relay %s replaced by %s', evt.detail.from, evt.detail.to.relay)
+ * })
+ * ```
+ *
+ * @example Handling relay limits
+ *
+ * Relays limit how much data relayed connections can transfer and how long
+ * they can stay open. The remaining budget is available on the connection and
+ * an event is emitted when it is running low, at which point the connection
+ * manager opens another connection to the peer and new streams are opened on
+ * that instead.
+ *
+ * ```typescript
+ * import { createLibp2p } from 'libp2p'
+ * import { circuitRelayTransport } from '@libp2p/circuit-relay-v2'
+ *
+ * const node = await createLibp2p({
+ *   transports: [
+ *     circuitRelayTransport({
+ *       // warn when half and then 90% of a limit has been used
+ *       limitWarningThresholds: [0.5, 0.9]
+ *     })
+ *   ]
+ * })
+ *
+ * node.addEventListener('connection:limit:warning', (evt) => {
+ *   const { connection, limit } = evt.detail
+ *
+ *   console.info('connection to %s is running out of %s', connection.remotePeer, limit, connection.limits)
+ * })
+ * ```
+ *
  * The `circuitRelayServer` function allows libp2p to function as a [Circuit Relay](https://docs.libp2p.io/concepts/nat/circuit-relay/)
  * server.  This will not work in browsers.
  *
@@ -37,10 +91,74 @@
  *   }
  * })
  * ```
+ *
+ * @example Deciding which peers may make reservations
+ *
+ * A policy is consulted for every reservation request. It can refuse the
+ * reservation or change the limits applied to connections relayed to the
+ * peer, for example to let some peers relay without limits or to cap the
+ * number of reservations made from a single subnet.
+ *
+ * ```typescript
+ * import { createLibp2p } from 'libp2p'
+ * import { circuitRelayServer } from '@libp2p/circuit-relay-v2'
+ * import type { Multiaddr } from '@multiformats/multiaddr'
+ *
+ * const allowList = new Set(['QmFriend'])
+ *
+ * // the first three octets of an IPv4 address
+ * const subnet = (addr: Multiaddr): string => addr.toOptions().host.split('.').slice(0, 3).join('.')
+ *
+ * const node = await createLibp2p({
+ *   services: {
+ *     circuitRelay: circuitRelayServer({
+ *       reservations: {
+ *         policy: ({ peer, addr, reservations }) => {
+ *           if (allowList.has(peer.toString())) {
+ *             return { accept: true, limit: null, ignoreMaxReservations: true }
+ *           }
+ *
+ *           const fromSubnet = [...reservations.values()]
+ *             .filter(reservation => subnet(reservation.addr) === subnet(addr))
+ *
+ *           return { accept: fromSubnet.length < 2 }
+ *         }
+ *       }
+ *     })
+ *   }
+ * })
+ * ```
+ *
+ * @example Inspecting relayed connections
+ *
+ * Open circuits can be listed and closed, the number of bytes relayed for each
+ * peer is kept in the datastore.
+ *
+ * ```typescript
+ * import { createLibp2p } from 'libp2p'
+ * import { circuitRelayServer } from '@libp2p/circuit-relay-v2'
+ *
+ * const node = await createLibp2p({
+ *   services: {
+ *     circuitRelay: circuitRelayServer()
+ *   }
+ * })
+ *
+ * for (const circuit of node.services.circuitRelay.getCircuits()) {
+ *   if (circuit.bytesToDst + circuit.bytesToSrc > 10_000_000n) {
+ *     node.services.circuitRelay.closeCircuit(circuit.id)
+ *   }
+ * }
+ *
+ * for (const peer of node.getPeers()) {
+ *   const relayed = await node.services.circuitRelay.getRelayedBytes(peer)
+ *   console.info('relayed %s bytes for %s', relayed.source + relayed.destination, peer)
+ * }
+ * ```
  */
 
 import type { Limit } from './pb/index.js'
-import type { TypedEventEmitter } from '@libp2p/interface'
+import type { AbortOptions, PeerId, TypedEventEmitter } from '@libp2p/interface'
 import type { PeerMap } from '@libp2p/peer-collections'
 import type { Multiaddr } from '@multiformats/multiaddr'
 
@@ -56,12 +174,76 @@ export interface CircuitRelayServiceEvents {
   'relay:advert:error': CustomEvent<Error>
 }
 
+export interface RelayedCircuit {
+  /**
+   * Identifies the circuit while it is open
+   */
+  id: string
+
+  /**
+   * The peer that opened the circuit
+   */
+  src: PeerId
+
+  /**
+   * The peer the circuit was opened to
+   */
+  dst: PeerId
+
+  opened: Date
+  limit?: Limit
+
+  /**
+   * How many bytes have been relayed from `src` to `dst`
+   */
+  bytesToDst: bigint
+
+  /**
+   * How many bytes have been relayed from `dst` to `src`
+   */
+  bytesToSrc: bigint
+}
+
+export interface RelayedBytes {
+  /**
+   * Bytes relayed in both directions on circuits opened by the peer
+   */
+  source: bigint
+
+  /**
+   * Bytes relayed in both directions on circuits opened to the peer
+   */
+  destination: bigint
+}
+
 export interface CircuitRelayService extends TypedEventEmitter<CircuitRelayServiceEvents> {
   reservations: PeerMap<RelayReservation>
+
+  /**
+   * Returns the circuits currently being relayed along with how many bytes
+   * they have relayed so far
+   */
+  getCircuits(): RelayedCircuit[]
+
+  /**
+   * Close both sides of an open circuit, returns false if no circuit with the
+   * passed id is open
+   */
+  closeCircuit(id: string): boolean
+
+  /**
+   * Returns how many bytes have been relayed for the peer. Bytes relayed by
+   * open circuits are added to the totals periodically and when the circuit
+   * closes. The totals are kept in the datastore so they survive restarts.
+   */
+  getRelayedBytes(peer: PeerId, options?: AbortOptions): Promise<RelayedBytes>
 }
 
 export { circuitRelayServer } from './server/index.js'
+export type { ReservationDecision, ReservationPolicy, ReservationRequest } from './server/reservation-store.js'
 export { circuitRelayTransport } from './transport/index.js'
+export { defaultRelaySelector } from './transport/relay-selector.js'
+export type { DefaultRelaySelectorInit, RelayCandidate, RelaySelector } from './transport/relay-selector.js'
 
 export {
   RELAY_V2_HOP_CODEC,
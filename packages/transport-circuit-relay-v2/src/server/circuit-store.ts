@@ -0,0 +1,221 @@
+import { CodeError } from '@libp2p/interface'
+import { Queue } from '@libp2p/utils/queue'
+import { Key } from 'interface-datastore'
+import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
+import { toString as uint8ArrayToString } from 'uint8arrays/to-string'
+import { DEFAULT_RELAYED_BYTES_FLUSH_INTERVAL, ERR_CIRCUIT_CLOSED, RELAYED_BYTES_PREFIX } from '../constants.js'
+import type { RelayedBytes, RelayedCircuit } from '../index.js'
+import type { Limit } from '../pb/index.js'
+import type { AbortOptions, ComponentLogger, Logger, PeerId, Startable, Stream } from '@libp2p/interface'
+import type { Datastore } from 'interface-datastore'
+
+export interface CircuitStoreComponents {
+  datastore: Datastore
+  logger: ComponentLogger
+}
+
+export interface CircuitStoreInit {
+  /**
+   * How often in ms the bytes relayed by open circuits are added to the
+   * persisted totals (default: 60s)
+   */
+  flushInterval?: number
+}
+
+interface ActiveCircuit {
+  circuit: RelayedCircuit
+  src: Stream
+  dst: Stream
+
+  /**
+   * How many of the bytes relayed in each direction have been added to the
+   * persisted totals
+   */
+  flushedToDst: bigint
+  flushedToSrc: bigint
+}
+
+function relayedBytesKey (peer: PeerId): Key {
+  return new Key(`${RELAYED_BYTES_PREFIX}/${peer.toString()}`)
+}
+
+/**
+ * Tracks the circuits being relayed and persists how many bytes have been
+ * relayed for each peer periodically and when a circuit closes
+ */
+export class CircuitStore implements Startable {
+  private readonly datastore: Datastore
+  private readonly log: Logger
+  private readonly circuits: Map<string, ActiveCircuit>
+  private readonly queue: Queue
+  private readonly flushInterval: number
+  private interval?: ReturnType<typeof setInterval>
+  private nextId: number
+
+  constructor (components: CircuitStoreComponents, init: CircuitStoreInit = {}) {
+    this.datastore = components.datastore
+    this.log = components.logger.forComponent('libp2p:circuit-relay:server:circuit-store')
+    this.circuits = new Map()
+    this.flushInterval = init.flushInterval ?? DEFAULT_RELAYED_BYTES_FLUSH_INTERVAL
+    this.nextId = 0
+
+    // serialize updates to the persisted totals
+    this.queue = new Queue({
+      concurrency: 1
+    })
+  }
+
+  isStarted (): boolean {
+    return this.interval != null
+  }
+
+  start (): void {
+    if (this.interval != null) {
+      return
+    }
+
+    this.interval = setInterval(() => {
+      for (const active of this.circuits.values()) {
+        this.flush(active)
+      }
+    }, this.flushInterval)
+  }
+
+  /**
+   * Persists the bytes relayed by circuits that are still open and waits for
+   * all pending writes to complete
+   */
+  async stop (): Promise<void> {
+    clearInterval(this.interval)
+    this.interval = undefined
+
+    for (const active of this.circuits.values()) {
+      this.flush(active)
+    }
+
+    await this.queue.onIdle()
+  }
+
+  /**
+   * Start tracking a circuit from `src` to `dst`
+   */
+  open (srcPeer: PeerId, dstPeer: PeerId, src: Stream, dst: Stream, limit?: Limit): RelayedCircuit {
+    const circuit: RelayedCircuit = {
+      id: `${this.nextId++}`,
+      src: srcPeer,
+      dst: dstPeer,
+      opened: new Date(),
+      limit,
+      bytesToDst: 0n,
+      bytesToSrc: 0n
+    }
+
+    this.circuits.set(circuit.id, { circuit, src, dst, flushedToDst: 0n, flushedToSrc: 0n })
+
+    return circuit
+  }
+
+  /**
+   * Stop tracking a circuit and add the bytes it relayed to the persisted
+   * totals of both peers
+   */
+  close (id: string): void {
+    const active = this.circuits.get(id)
+
+    if (active == null) {
+      return
+    }
+
+    this.circuits.delete(id)
+
+    const { circuit } = active
+
+    this.log('circuit %s from %p to %p relayed %d bytes', id, circuit.src, circuit.dst, circuit.bytesToDst + circuit.bytesToSrc)
+
+    this.flush(active)
+  }
+
+  /**
+   * Returns a snapshot of the circuits being relayed
+   */
+  getCircuits (): RelayedCircuit[] {
+    return [...this.circuits.values()].map(({ circuit }) => ({ ...circuit }))
+  }
+
+  /**
+   * Closes both sides of a circuit, returns false if the circuit was not found
+   */
+  terminate (id: string): boolean {
+    const active = this.circuits.get(id)
+
+    if (active == null) {
+      return false
+    }
+
+    this.log('terminating circuit %s from %p to %p', id, active.circuit.src, active.circuit.dst)
+
+    const err = new CodeError(`circuit ${id} was closed by the relay`, ERR_CIRCUIT_CLOSED)
+    active.src.abort(err)
+    active.dst.abort(err)
+
+    return true
+  }
+
+  /**
+   * Returns the persisted totals for the peer, these do not include bytes
+   * relayed by open circuits since they were last flushed
+   */
+  async getRelayedBytes (peer: PeerId, options?: AbortOptions): Promise<RelayedBytes> {
+    try {
+      const buf = await this.datastore.get(relayedBytesKey(peer), options)
+      const stored = JSON.parse(uint8ArrayToString(buf))
+
+      return {
+        source: BigInt(stored.source),
+        destination: BigInt(stored.destination)
+      }
+    } catch (err: any) {
+      if (err.code !== 'ERR_NOT_FOUND') {
+        throw err
+      }
+
+      return {
+        source: 0n,
+        destination: 0n
+      }
+    }
+  }
+
+  /**
+   * Queue adding the bytes relayed by the circuit since the last flush to the
+   * persisted totals of both peers
+   */
+  private flush (active: ActiveCircuit): void {
+    const { circuit } = active
+    const bytes = (circuit.bytesToDst - active.flushedToDst) + (circuit.bytesToSrc - active.flushedToSrc)
+
+    active.flushedToDst = circuit.bytesToDst
+    active.flushedToSrc = circuit.bytesToSrc
+
+    if (bytes === 0n) {
+      return
+    }
+
+    void this.queue.add(async () => {
+      await this.addRelayedBytes(circuit.src, { source: bytes, destination: 0n })
+      await this.addRelayedBytes(circuit.dst, { source: 0n, destination: bytes })
+    })
+      .catch(err => {
+        this.log.error('could not store bytes relayed by circuit %s', circuit.id, err)
+      })
+  }
+
+  private async addRelayedBytes (peer: PeerId, bytes: RelayedBytes): Promise<void> {
+    const existing = await this.getRelayedBytes(peer)
+
+    await this.datastore.put(relayedBytesKey(peer), uint8ArrayFromString(JSON.stringify({
+      source: (existing.source + bytes.source).toString(),
+      destination: (existing.destination + bytes.destination).toString()
+    })))
+  }
+}
@@ -15,12 +15,14 @@ import {
 import { HopMessage, type Reservation, Status, StopMessage } from '../pb/index.js'
 import { createLimitedRelay } from '../utils.js'
 import { AdvertService, type AdvertServiceComponents, type AdvertServiceInit } from './advert-service.js'
+import { CircuitStore, type CircuitStoreInit } from './circuit-store.js'
 import { ReservationStore, type ReservationStoreInit } from './reservation-store.js'
 import { ReservationVoucherRecord } from './reservation-voucher.js'
-import type { CircuitRelayService, RelayReservation } from '../index.js'
-import type { ComponentLogger, Logger, Connection, Stream, ConnectionGater, PeerId, PeerStore, Startable } from '@libp2p/interface'
+import type { CircuitRelayService, RelayedBytes, RelayedCircuit, RelayReservation } from '../index.js'
+import type { AbortOptions, ComponentLogger, Logger, Connection, Stream, ConnectionGater, PeerId, PeerStore, Startable } from '@libp2p/interface'
 import type { AddressManager, ConnectionManager, IncomingStreamData, Registrar } from '@libp2p/interface-internal'
 import type { PeerMap } from '@libp2p/peer-collections'
+import type { Datastore } from 'interface-datastore'
 
 const isRelayAddr = (ma: Multiaddr): boolean => ma.protoCodes().includes(CIRCUIT_PROTO_CODE)
 
@@ -42,6 +44,11 @@ export interface CircuitRelayServerInit {
    */
   reservations?: ReservationStoreInit
 
+  /**
+   * Configuration of relayed circuits
+   */
+  circuits?: CircuitStoreInit
+
   /**
    * The maximum number of simultaneous HOP inbound streams that can be open at once
    */
@@ -77,6 +84,7 @@ export interface CircuitRelayServerComponents extends AdvertServiceComponents {
   peerId: PeerId
   connectionManager: ConnectionManager
   connectionGater: ConnectionGater
+  datastore: Datastore
   logger: ComponentLogger
 }
 
@@ -98,6 +106,7 @@ class CircuitRelayServer extends TypedEventEmitter<RelayServerEvents> implements
   private readonly connectionManager: ConnectionManager
   private readonly connectionGater: ConnectionGater
   private readonly reservationStore: ReservationStore
+  private readonly circuitStore: CircuitStore
   private readonly advertService: AdvertService | undefined
   private started: boolean
   private readonly hopTimeout: number
@@ -140,6 +149,7 @@ class CircuitRelayServer extends TypedEventEmitter<RelayServerEvents> implements
     }
 
     this.reservationStore = new ReservationStore(init.reservations)
+    this.circuitStore = new CircuitStore(components, init.circuits)
   }
 
   isStarted (): boolean {
@@ -168,6 +178,7 @@ class CircuitRelayServer extends TypedEventEmitter<RelayServerEvents> implements
     })
 
     this.reservationStore.start()
+    this.circuitStore.start()
 
     this.started = true
   }
@@ -180,6 +191,7 @@ class CircuitRelayServer extends TypedEventEmitter<RelayServerEvents> implements
     this.reservationStore.stop()
     this.shutdownController.abort()
     await this.registrar.unhandle(RELAY_V2_HOP_CODEC)
+    await this.circuitStore.stop()
 
     this.started = false
   }
@@ -253,7 +265,7 @@ class CircuitRelayServer extends TypedEventEmitter<RelayServerEvents> implements
       return
     }
 
-    const result = this.reservationStore.reserve(connection.remotePeer, connection.remoteAddr)
+    const result = await this.reservationStore.reserve(connection.remotePeer, connection.remoteAddr)
 
     if (result.status !== Status.OK) {
       await hopstr.write({ type: HopMessage.Type.STATUS, status: result.status })
@@ -360,6 +372,7 @@ class CircuitRelayServer extends TypedEventEmitter<RelayServerEvents> implements
     }
 
     const destinationConnection = connections[0]
+    const limit = this.reservationStore.get(dstPeer)?.limit
 
     const destinationStream = await this.stopHop({
       connection: destinationConnection,
@@ -368,7 +381,8 @@ class CircuitRelayServer extends TypedEventEmitter<RelayServerEvents> implements
         peer: {
           id: connection.remotePeer.toBytes(),
           addrs: []
-        }
+        },
+        limit
       }
     })
 
@@ -378,14 +392,25 @@ class CircuitRelayServer extends TypedEventEmitter<RelayServerEvents> implements
       return
     }
 
-    await hopstr.write({ type: HopMessage.Type.STATUS, status: Status.OK })
+    await hopstr.write({ type: HopMessage.Type.STATUS, status: Status.OK, limit })
     const sourceStream = stream.unwrap()
 
     this.log('connection from %p to %p established - merging streams', connection.remotePeer, dstPeer)
-    const limit = this.reservationStore.get(dstPeer)?.limit
+    const circuit = this.circuitStore.open(connection.remotePeer, dstPeer, sourceStream, destinationStream, limit)
+
     // Short circuit the two streams to create the relayed connection
     createLimitedRelay(sourceStream, destinationStream, this.shutdownController.signal, limit, {
-      log: this.log
+      log: this.log,
+      onData: (bytes, toDst) => {
+        if (toDst) {
+          circuit.bytesToDst += BigInt(bytes)
+        } else {
+          circuit.bytesToSrc += BigInt(bytes)
+        }
+      },
+      onEnd: () => {
+        this.circuitStore.close(circuit.id)
+      }
     })
   }
 
@@ -430,6 +455,18 @@ class CircuitRelayServer extends TypedEventEmitter<RelayServerEvents> implements
   get reservations (): PeerMap<RelayReservation> {
     return this.reservationStore.reservations
   }
+
+  getCircuits (): RelayedCircuit[] {
+    return this.circuitStore.getCircuits()
+  }
+
+  closeCircuit (id: string): boolean {
+    return this.circuitStore.terminate(id)
+  }
+
+  async getRelayedBytes (peer: PeerId, options?: AbortOptions): Promise<RelayedBytes> {
+    return this.circuitStore.getRelayedBytes(peer, options)
+  }
 }
 
 export function circuitRelayServer (init: CircuitRelayServerInit = {}): (components: CircuitRelayServerComponents) => CircuitRelayService {
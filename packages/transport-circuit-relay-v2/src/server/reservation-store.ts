@@ -2,11 +2,55 @@ import { PeerMap } from '@libp2p/peer-collections'
 import { DEFAULT_DATA_LIMIT, DEFAULT_DURATION_LIMIT, DEFAULT_MAX_RESERVATION_CLEAR_INTERVAL, DEFAULT_MAX_RESERVATION_STORE_SIZE, DEFAULT_MAX_RESERVATION_TTL } from '../constants.js'
 import { type Limit, Status } from '../pb/index.js'
 import type { RelayReservation } from '../index.js'
-import type { RecursivePartial, PeerId, Startable } from '@libp2p/interface'
+import type { PeerId, Startable } from '@libp2p/interface'
 import type { Multiaddr } from '@multiformats/multiaddr'
 
 export type ReservationStatus = Status.OK | Status.PERMISSION_DENIED | Status.RESERVATION_REFUSED
 
+export interface ReservationRequest {
+  /**
+   * The peer requesting the reservation
+   */
+  peer: PeerId
+
+  /**
+   * The address the peer connected to us from
+   */
+  addr: Multiaddr
+
+  /**
+   * The reservations held by other peers
+   */
+  reservations: PeerMap<RelayReservation>
+}
+
+export interface ReservationDecision {
+  /**
+   * If false the reservation is refused with PERMISSION_DENIED
+   */
+  accept: boolean
+
+  /**
+   * The limits applied to relayed connections to the peer instead of the
+   * default limits, pass `null` to relay connections without limits
+   */
+  limit?: Limit | null
+
+  /**
+   * If true the reservation is accepted even if `maxReservations` has been
+   * reached
+   */
+  ignoreMaxReservations?: boolean
+}
+
+/**
+ * Decides whether to accept a reservation and which limits to apply to
+ * connections relayed to the peer, the decision may be made asynchronously
+ */
+export interface ReservationPolicy {
+  (request: ReservationRequest): ReservationDecision | Promise<ReservationDecision>
+}
+
 export interface ReservationStoreInit {
   /*
    * maximum number of reservations allowed, default: 15
@@ -32,9 +76,14 @@ export interface ReservationStoreInit {
    * The maximum amount of data allowed to be transferred over a relayed connection
    */
   defaultDataLimit?: bigint
+  /**
+   * Consulted for every reservation request, by default all reservations are
+   * accepted with the default limits
+   */
+  policy?: ReservationPolicy
 }
 
-export type ReservationStoreOptions = RecursivePartial<ReservationStoreInit>
+export type ReservationStoreOptions = ReservationStoreInit
 
 export class ReservationStore implements Startable {
   public readonly reservations = new PeerMap<RelayReservation>()
@@ -46,6 +95,7 @@ export class ReservationStore implements Startable {
   private readonly reservationTtl: number
   private readonly defaultDurationLimit: number
   private readonly defaultDataLimit: bigint
+  private readonly policy?: ReservationPolicy
 
   constructor (options: ReservationStoreOptions = {}) {
     this.maxReservations = options.maxReservations ?? DEFAULT_MAX_RESERVATION_STORE_SIZE
@@ -54,6 +104,7 @@ export class ReservationStore implements Startable {
     this.reservationTtl = options.reservationTtl ?? DEFAULT_MAX_RESERVATION_TTL
     this.defaultDurationLimit = options.defaultDurationLimit ?? DEFAULT_DURATION_LIMIT
     this.defaultDataLimit = options.defaultDataLimit ?? DEFAULT_DATA_LIMIT
+    this.policy = options.policy
   }
 
   isStarted (): boolean {
@@ -82,15 +133,30 @@ export class ReservationStore implements Startable {
     clearInterval(this.interval)
   }
 
-  reserve (peer: PeerId, addr: Multiaddr, limit?: Limit): { status: ReservationStatus, expire?: number } {
-    if (this.reservations.size >= this.maxReservations && !this.reservations.has(peer)) {
+  async reserve (peer: PeerId, addr: Multiaddr, limit?: Limit): Promise<{ status: ReservationStatus, expire?: number }> {
+    let decision: ReservationDecision = { accept: true }
+
+    if (this.policy != null) {
+      const reservations = new PeerMap<RelayReservation>(this.reservations)
+      reservations.delete(peer)
+
+      decision = await this.policy({ peer, addr, reservations })
+
+      if (!decision.accept) {
+        return { status: Status.PERMISSION_DENIED }
+      }
+    }
+
+    if (this.reservations.size >= this.maxReservations && !this.reservations.has(peer) && decision.ignoreMaxReservations !== true) {
       return { status: Status.RESERVATION_REFUSED }
     }
 
     const expire = new Date(Date.now() + this.reservationTtl)
     let checkedLimit: Limit | undefined
 
-    if (this.applyDefaultLimit) {
+    if (decision.limit !== undefined) {
+      checkedLimit = decision.limit ?? undefined
+    } else if (this.applyDefaultLimit) {
       checkedLimit = limit ?? { data: this.defaultDataLimit, duration: this.defaultDurationLimit }
     }
 
@@ -0,0 +1,160 @@
+import type { Limit } from '../pb/index.js'
+import type { Connection, ConnectionLimits, Libp2pEvents, MultiaddrConnection, TypedEventTarget } from '@libp2p/interface'
+import type { Source } from 'it-stream-types'
+import type { Uint8ArrayList } from 'uint8arraylist'
+
+export interface RelayConnectionLimitsComponents {
+  events: TypedEventTarget<Libp2pEvents>
+}
+
+export interface RelayConnectionLimitsInit {
+  /**
+   * The limits the relay applies to the connection
+   */
+  limit: Limit
+
+  /**
+   * Fractions of each limit at which a warning is emitted
+   */
+  warningThresholds: number[]
+}
+
+/**
+ * Tracks how much of the data and duration limits a relay applies to a
+ * connection remain. The relay counts data sent in both directions towards the
+ * same limit and so does this.
+ */
+export class RelayConnectionLimits implements ConnectionLimits {
+  private readonly events: TypedEventTarget<Libp2pEvents>
+  private readonly limit: Limit
+  private readonly opened: number
+  private readonly dataThresholds: number[]
+  private readonly durationThresholds: number[]
+  private readonly timeouts: Array<ReturnType<typeof setTimeout>>
+  private transferred: bigint
+  private connection?: Connection
+
+  constructor (components: RelayConnectionLimitsComponents, init: RelayConnectionLimitsInit) {
+    this.events = components.events
+    this.limit = init.limit
+    this.opened = Date.now()
+    this.dataThresholds = [...init.warningThresholds].sort((a, b) => a - b)
+    this.durationThresholds = [...this.dataThresholds]
+    this.timeouts = []
+    this.transferred = 0n
+    this.onConnectionClose = this.onConnectionClose.bind(this)
+  }
+
+  get bytes (): bigint | undefined {
+    if (this.limit.data == null) {
+      return
+    }
+
+    const remaining = this.limit.data - this.transferred
+
+    return remaining > 0n ? remaining : 0n
+  }
+
+  get duration (): number | undefined {
+    if (this.limit.duration == null) {
+      return
+    }
+
+    return Math.max(this.opened + this.limit.duration - Date.now(), 0)
+  }
+
+  /**
+   * Count the data sent and received over the multiaddr connection
+   */
+  track (maConn: MultiaddrConnection): void {
+    const source = maConn.source
+    const sink = maConn.sink
+
+    maConn.source = (async function * (limits: RelayConnectionLimits) {
+      try {
+        yield * limits.count(source)
+      } finally {
+        // the relay has closed the connection
+        limits.stop()
+      }
+    })(this)
+    maConn.sink = async (source) => {
+      await sink(this.count(source))
+    }
+  }
+
+  /**
+   * Start emitting warnings for the upgraded connection
+   */
+  start (connection: Connection): void {
+    this.connection = connection
+    this.checkData()
+
+    if (this.limit.duration == null) {
+      return
+    }
+
+    this.events.addEventListener('connection:close', this.onConnectionClose)
+
+    for (const threshold of this.durationThresholds) {
+      const timeout = setTimeout(() => {
+        this.warn('duration', threshold)
+      }, Math.max(this.opened + (this.limit.duration * threshold) - Date.now(), 0))
+
+      this.timeouts.push(timeout)
+    }
+  }
+
+  stop (): void {
+    this.events.removeEventListener('connection:close', this.onConnectionClose)
+
+    for (const timeout of this.timeouts) {
+      clearTimeout(timeout)
+    }
+
+    this.timeouts.splice(0, this.timeouts.length)
+  }
+
+  private onConnectionClose (evt: CustomEvent<Connection>): void {
+    if (evt.detail === this.connection) {
+      this.stop()
+    }
+  }
+
+  private async * count <T extends Uint8Array | Uint8ArrayList>(source: Source<T>): AsyncGenerator<T> {
+    for await (const buf of source) {
+      this.transferred += BigInt(buf.byteLength)
+      this.checkData()
+
+      yield buf
+    }
+  }
+
+  private checkData (): void {
+    if (this.limit.data == null || this.connection == null) {
+      return
+    }
+
+    while (this.dataThresholds.length > 0 && this.transferred >= BigInt(Math.floor(Number(this.limit.data) * this.dataThresholds[0]))) {
+      const threshold = this.dataThresholds.shift()
+
+      if (threshold != null) {
+        this.warn('bytes', threshold)
+      }
+    }
+  }
+
+  private warn (limit: 'bytes' | 'duration', threshold: number): void {
+    if (this.connection == null || this.connection.status !== 'open') {
+      return
+    }
+
+    this.events.safeDispatchEvent('connection:limit:warning', {
+      detail: {
+        connection: this.connection,
+        limit,
+        threshold
+      }
+    })
+  }
+}
@@ -52,6 +52,13 @@ export interface CircuitRelayTransportInit extends RelayStoreInit {
    * (default: 10000)
    */
   reservationCompletionTimeout?: number
+
+  /**
+   * When a relayed connection has used these fractions of the data or duration
+   * limit set by the relay a `connection:limit:warning` event is emitted
+   * (default: [0.8])
+   */
+  limitWarningThresholds?: number[]
 }
 
 export function circuitRelayTransport (init: CircuitRelayTransportInit = {}): (components: CircuitRelayTransportComponents) => Transport {
@@ -26,8 +26,9 @@ class CircuitRelayTransportListener extends TypedEventEmitter<ListenerEvents> im
     this.relayStore = components.relayStore
     this.listeningAddrs = new PeerMap()
 
-    // remove listening addrs when a relay is removed
+    // remove listening addrs when a relay is removed or moved to standby
     this.relayStore.addEventListener('relay:removed', this._onRemoveRelayPeer)
+    this.relayStore.addEventListener('relay:standby', this._onRemoveRelayPeer)
   }
 
   _onRemoveRelayPeer = (evt: CustomEvent<PeerId>): void => {
@@ -85,6 +86,7 @@ class CircuitRelayTransportListener extends TypedEventEmitter<ListenerEvents> im
     if (had) {
       this.log.trace('removing relay event listener for peer %p', peerId)
       this.relayStore.removeEventListener('relay:removed', this._onRemoveRelayPeer)
+      this.relayStore.removeEventListener('relay:standby', this._onRemoveRelayPeer)
       // Announce listen addresses change
       this.safeDispatchEvent('close', {})
     }
@@ -0,0 +1,104 @@
+import { DEFAULT_DATA_LIMIT, DEFAULT_DURATION_LIMIT } from '../constants.js'
+import { getSubnet } from '../utils.js'
+import type { Limit } from '../pb/index.js'
+import type { PeerId } from '@libp2p/interface'
+import type { Multiaddr } from '@multiformats/multiaddr'
+
+const hour = 60 * 60 * 1000
+
+/**
+ * A relay we hold a reservation on
+ */
+export interface RelayCandidate {
+  peerId: PeerId
+
+  /**
+   * The address of our connection to the relay
+   */
+  addr: Multiaddr
+
+  /**
+   * The round trip time of the reservation request in ms
+   */
+  rtt?: number
+
+  /**
+   * The limits the relay applies to relayed connections
+   */
+  limit?: Limit
+
+  /**
+   * How long we have continuously held a reservation on the relay in ms
+   */
+  uptime: number
+
+  /**
+   * How many times in a row making or refreshing a reservation on the relay
+   * has failed
+   */
+  failures: number
+}
+
+/**
+ * Decides which relays are used and which are kept on standby. Relays with the
+ * highest scores are used.
+ */
+export interface RelaySelector {
+  /**
+   * Score a relay, `selected` are the other relays that are in use
+   */
+  score(candidate: RelayCandidate, selected: RelayCandidate[]): number
+}
+
+export interface DefaultRelaySelectorInit {
+  /**
+   * Relays whose IPv4 addresses share this many leading bits are considered
+   * to be in the same subnet (default: 24)
+   */
+  ipv4Prefix?: number
+
+  /**
+   * Relays whose IPv6 addresses share this many leading bits are considered
+   * to be in the same subnet (default: 48)
+   */
+  ipv6Prefix?: number
+}
+
+/**
+ * Prefers relays that respond quickly, allow long lived relayed connections
+ * that can transfer lots of data, have been reliable so far and are not in the
+ * same subnet as the other relays in use
+ */
+export function defaultRelaySelector (init: DefaultRelaySelectorInit = {}): RelaySelector {
+  const ipv4Prefix = init.ipv4Prefix ?? 24
+  const ipv6Prefix = init.ipv6Prefix ?? 48
+
+  return {
+    score: (candidate, selected) => {
+      let score = 0
+
+      // up to 40 points for responding within a second
+      score += candidate.rtt == null ? 20 : 40 * (1 - Math.min(candidate.rtt, 1000) / 1000)
+
+      // up to 20 points each for allowing connections to last ten times as
+      // long and transfer ten times as much data as the defaults
+      const duration = candidate.limit?.duration == null ? Infinity : candidate.limit.duration
+      const data = candidate.limit?.data == null ? Infinity : Number(candidate.limit.data)
+      score += 20 * Math.min(duration / (DEFAULT_DURATION_LIMIT * 10), 1)
+      score += 20 * Math.min(data / (Number(DEFAULT_DATA_LIMIT) * 10), 1)
+
+      // up to 10 points for having held a reservation for an hour
+      score += 10 * Math.min(candidate.uptime / hour, 1)
+
+      score -= 10 * candidate.failures
+
+      const subnet = getSubnet(candidate.addr, ipv4Prefix, ipv6Prefix)
+
+      if (subnet != null && selected.some(relay => getSubnet(relay.addr, ipv4Prefix, ipv6Prefix) === subnet)) {
+        score -= 30
+      }
+
+      return score
+    }
+  }
+}
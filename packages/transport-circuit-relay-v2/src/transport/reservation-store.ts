@@ -7,9 +7,12 @@ import { equals as uint8ArrayEquals } from 'uint8arrays/equals'
 import { DEFAULT_RESERVATION_CONCURRENCY, RELAY_TAG, RELAY_V2_HOP_CODEC } from '../constants.js'
 import { HopMessage, Status } from '../pb/index.js'
 import { getExpirationMilliseconds } from '../utils.js'
-import type { Reservation } from '../pb/index.js'
-import type { TypedEventTarget, Libp2pEvents, AbortOptions, ComponentLogger, Logger, Connection, PeerId, PeerStore, Startable, Metrics } from '@libp2p/interface'
-import type { ConnectionManager, TransportManager } from '@libp2p/interface-internal'
+import { defaultRelaySelector } from './relay-selector.js'
+import type { RelayCandidate, RelaySelector } from './relay-selector.js'
+import type { Limit, Reservation } from '../pb/index.js'
+import type { TypedEventTarget, Libp2pEvents, AbortOptions, ComponentLogger, Logger, Connection, PeerId, PeerStore, Startable, Metrics, RelayReservationInfo } from '@libp2p/interface'
+import type { AddressManager, ConnectionManager, TransportManager } from '@libp2p/interface-internal'
+import type { Multiaddr } from '@multiformats/multiaddr'
 
 // allow refreshing a relay reservation if it will expire in the next 10 minutes
 const REFRESH_WINDOW = (60 * 1000) * 10
@@ -20,10 +23,17 @@ const REFRESH_TIMEOUT = (60 * 1000) * 5
 // minimum duration before which a reservation must not be refreshed
 const REFRESH_TIMEOUT_MIN = 30 * 1000
 
+// spread refreshes of reservations made at the same time over a minute
+const REFRESH_JITTER = 60 * 1000
+
+// a standby relay must score this much higher than a relay in use to replace it
+const SWITCH_THRESHOLD = 10
+
 export interface RelayStoreComponents {
   peerId: PeerId
   connectionManager: ConnectionManager
   transportManager: TransportManager
+  addressManager: AddressManager
   peerStore: PeerStore
   events: TypedEventTarget<Libp2pEvents>
   logger: ComponentLogger
@@ -46,6 +56,20 @@ export interface RelayStoreInit {
    */
   discoverRelays?: number
 
+  /**
+   * How many reservations on discovered relays to keep in addition to
+   * `discoverRelays`. Their addresses are not advertised, instead when a relay
+   * that is in use goes away the best standby relay takes its place without
+   * having to find and reserve a slot on a new relay first. (default: 0)
+   */
+  standbyRelays?: number
+
+  /**
+   * Scores discovered relays to decide which are used and which are kept on
+   * standby (default: defaultRelaySelector())
+   */
+  relaySelector?: RelaySelector
+
   /**
    * Limit the number of potential relays we will dial (default: 100)
    */
@@ -64,22 +88,48 @@ interface RelayEntry {
   timeout: ReturnType<typeof setTimeout>
   type: RelayType
   reservation: Reservation
+  limit?: Limit
+
+  /**
+   * The address of our connection to the relay
+   */
+  addr: Multiaddr
+  rtt: number
+
+  /**
+   * When we first made a reservation on the relay
+   */
+  since: number
+
+  /**
+   * Consecutive failed attempts to refresh the reservation
+   */
+  failures: number
+
+  /**
+   * If true the relay addresses are not advertised
+   */
+  standby: boolean
 }
 
 export interface ReservationStoreEvents {
   'relay:not-enough-relays': CustomEvent
   'relay:removed': CustomEvent<PeerId>
+  'relay:standby': CustomEvent<PeerId>
 }
 
 export class ReservationStore extends TypedEventEmitter<ReservationStoreEvents> implements Startable {
   private readonly peerId: PeerId
   private readonly connectionManager: ConnectionManager
   private readonly transportManager: TransportManager
+  private readonly addressManager: AddressManager
   private readonly peerStore: PeerStore
   private readonly events: TypedEventTarget<Libp2pEvents>
   private readonly reserveQueue: PeerQueue
   private readonly reservations: PeerMap<RelayEntry>
   private readonly maxDiscoveredRelays: number
+  private readonly standbyRelays: number
+  private readonly relaySelector: RelaySelector
   private readonly maxReservationQueueLength: number
   private readonly reservationCompletionTimeout: number
   private started: boolean
@@ -92,10 +142,13 @@ export class ReservationStore extends TypedEventEmitter<ReservationStoreEvents>
     this.peerId = components.peerId
     this.connectionManager = components.connectionManager
     this.transportManager = components.transportManager
+    this.addressManager = components.addressManager
     this.peerStore = components.peerStore
     this.events = components.events
     this.reservations = new PeerMap()
     this.maxDiscoveredRelays = init?.discoverRelays ?? 0
+    this.standbyRelays = init?.standbyRelays ?? 0
+    this.relaySelector = init?.relaySelector ?? defaultRelaySelector()
     this.maxReservationQueueLength = init?.maxReservationQueueLength ?? 100
     this.reservationCompletionTimeout = init?.reservationCompletionTimeout ?? 10000
     this.started = false
@@ -113,6 +166,19 @@ export class ReservationStore extends TypedEventEmitter<ReservationStoreEvents>
     this.events.addEventListener('peer:disconnect', (evt) => {
       this.#removeRelay(evt.detail)
     })
+
+    // discovered relays are only used while we are not publicly reachable so
+    // look for more if that changes
+    this.events.addEventListener('self:nat:change', (evt) => {
+      if (evt.detail.reachability === 'public' || !this.started) {
+        return
+      }
+
+      if (this.#countDiscoveredRelays() < this.maxDiscoveredRelays + this.standbyRelays) {
+        this.log('no longer publicly reachable, not enough relays %d/%d', this.#countDiscoveredRelays(), this.maxDiscoveredRelays + this.standbyRelays)
+        this.safeDispatchEvent('relay:not-enough-relays', {})
+      }
+    })
   }
 
   isStarted (): boolean {
@@ -157,9 +223,21 @@ export class ReservationStore extends TypedEventEmitter<ReservationStoreEvents>
     this.log('add relay %p', peerId)
 
     await this.reserveQueue.add(async () => {
+      // allow refresh of an existing reservation if it is about to expire
+      const existingReservation = this.reservations.get(peerId)
+
       try {
-        // allow refresh of an existing reservation if it is about to expire
-        const existingReservation = this.reservations.get(peerId)
+        // peers can dial us directly so there is no need to be reachable via
+        // relays we discovered ourselves, configured relays are always used
+        if (type === 'discovered' && this.addressManager.getNATStatus().reachability === 'public') {
+          this.log('not reserving a slot on discovered relay %p as we are publicly reachable', peerId)
+
+          if (existingReservation != null) {
+            this.#deleteReservation(peerId, existingReservation)
+          }
+
+          return
+        }
 
         if (existingReservation != null) {
           if (getExpirationMilliseconds(existingReservation.reservation.expire) > REFRESH_WINDOW) {
@@ -168,16 +246,7 @@ export class ReservationStore extends TypedEventEmitter<ReservationStoreEvents>
           }
 
           clearTimeout(existingReservation.timeout)
-          this.reservations.delete(peerId)
-        }
-
-        if (type === 'discovered' && [...this.reservations.values()].reduce((acc, curr) => {
-          if (curr.type === 'discovered') {
-            acc++
-          }
-
-          return acc
-        }, 0) >= this.maxDiscoveredRelays) {
+        } else if (type === 'discovered' && this.#countDiscoveredRelays() >= this.maxDiscoveredRelays + this.standbyRelays) {
           this.log('already have enough discovered relays')
           return
         }
@@ -193,9 +262,11 @@ export class ReservationStore extends TypedEventEmitter<ReservationStoreEvents>
           return
         }
 
-        const reservation = await this.#createReservation(connection, {
+        const start = Date.now()
+        const { reservation, limit } = await this.#createReservation(connection, {
           signal
         })
+        const rtt = Date.now() - start
 
         this.log('created reservation on relay peer %p', peerId)
 
@@ -203,7 +274,7 @@ export class ReservationStore extends TypedEventEmitter<ReservationStoreEvents>
 
         // sets a lower bound on the timeout, and also don't let it go over
         // 2^31 - 1 (setTimeout will only accept signed 32 bit integers)
-        const timeoutDuration = Math.min(Math.max(expiration - REFRESH_TIMEOUT, REFRESH_TIMEOUT_MIN), Math.pow(2, 31) - 1)
+        const timeoutDuration = Math.min(Math.max(expiration - REFRESH_TIMEOUT - (Math.random() * REFRESH_JITTER), REFRESH_TIMEOUT_MIN), Math.pow(2, 31) - 1)
 
         const timeout = setTimeout(() => {
           this.addRelay(peerId, type).catch(err => {
@@ -211,12 +282,22 @@ export class ReservationStore extends TypedEventEmitter<ReservationStoreEvents>
           })
         }, timeoutDuration)
 
-        // we've managed to create a reservation successfully
-        this.reservations.set(peerId, {
+        // configured relays are always used, discovered relays are kept on
+        // standby once there are enough in use
+        const entry: RelayEntry = {
           timeout,
           reservation,
-          type
-        })
+          type,
+          limit,
+          addr: connection.remoteAddr,
+          rtt,
+          since: existingReservation?.since ?? Date.now(),
+          failures: 0,
+          standby: existingReservation?.standby ?? (type === 'discovered' && this.#countActiveDiscoveredRelays() >= this.maxDiscoveredRelays)
+        }
+
+        // we've managed to create a reservation successfully
+        this.reservations.set(peerId, entry)
 
         // ensure we don't close the connection to the relay
         await this.peerStore.merge(peerId, {
@@ -228,20 +309,47 @@ export class ReservationStore extends TypedEventEmitter<ReservationStoreEvents>
           }
         })
 
-        // listen on multiaddr that only the circuit transport is listening for
-        await this.transportManager.listen([multiaddr(`/p2p/${peerId.toString()}/p2p-circuit`)])
+        this.events.safeDispatchEvent(existingReservation == null ? 'relay:reservation:create' : 'relay:reservation:refresh', {
+          detail: this.#toReservationInfo(peerId, entry)
+        })
+
+        if (!entry.standby) {
+          // listen on multiaddr that only the circuit transport is listening for
+          await this.transportManager.listen([multiaddr(`/p2p/${peerId.toString()}/p2p-circuit`)])
+        }
+
+        if (type === 'discovered') {
+          this.#rebalance()
+        }
       } catch (err) {
         this.log.error('could not reserve slot on %p', peerId, err)
 
-        // cancel the renewal timeout if it's been set
-        const reservation = this.reservations.get(peerId)
+        const entry = this.reservations.get(peerId)
 
-        if (reservation != null) {
-          clearTimeout(reservation.timeout)
+        if (entry == null) {
+          return
+        }
+
+        // keep using a reservation that could not be refreshed until it
+        // expires but retry the refresh in the meantime
+        if (existingReservation != null && getExpirationMilliseconds(entry.reservation.expire) > REFRESH_TIMEOUT_MIN) {
+          entry.failures = existingReservation.failures + 1
+          clearTimeout(entry.timeout)
+          entry.timeout = setTimeout(() => {
+            this.addRelay(peerId, type).catch(err => {
+              this.log.error('could not refresh reservation to relay %p', peerId, err)
+            })
+          }, REFRESH_TIMEOUT_MIN)
+
+          if (type === 'discovered') {
+            this.#rebalance()
+          }
+
+          return
         }
 
         // if listening failed, remove the reservation
-        this.reservations.delete(peerId)
+        this.#removeRelay(peerId)
       }
     }, {
       peerId
@@ -256,7 +364,7 @@ export class ReservationStore extends TypedEventEmitter<ReservationStoreEvents>
     return this.reservations.get(peerId)?.reservation
   }
 
-  async #createReservation (connection: Connection, options: AbortOptions): Promise<Reservation> {
+  async #createReservation (connection: Connection, options: AbortOptions): Promise<{ reservation: Reservation, limit?: Limit }> {
     options.signal?.throwIfAborted()
 
     this.log('requesting reservation from %p', connection.remotePeer)
@@ -295,7 +403,10 @@ export class ReservationStore extends TypedEventEmitter<ReservationStoreEvents>
         response.reservation.addrs.push(relayAddressBytes)
       }
 
-      return response.reservation
+      return {
+        reservation: response.reservation,
+        limit: response.limit
+      }
     }
 
     const errMsg = `reservation failed with status ${response.status ?? 'undefined'}`
@@ -304,8 +415,187 @@ export class ReservationStore extends TypedEventEmitter<ReservationStoreEvents>
     throw new Error(errMsg)
   }
 
+  #countDiscoveredRelays (): number {
+    return [...this.reservations.values()].reduce((acc, curr) => {
+      if (curr.type === 'discovered') {
+        acc++
+      }
+
+      return acc
+    }, 0)
+  }
+
+  #countActiveDiscoveredRelays (): number {
+    return [...this.reservations.values()].reduce((acc, curr) => {
+      if (curr.type === 'discovered' && !curr.standby) {
+        acc++
+      }
+
+      return acc
+    }, 0)
+  }
+
+  #toReservationInfo (peerId: PeerId, entry: RelayEntry): RelayReservationInfo {
+    return {
+      relay: peerId,
+      expires: new Date(Number(entry.reservation.expire) * 1000),
+      addrs: entry.reservation.addrs.map(buf => multiaddr(buf).encapsulate('/p2p-circuit')),
+      rtt: entry.rtt,
+      standby: entry.standby
+    }
+  }
+
+  #toCandidate (peerId: PeerId, entry: RelayEntry): RelayCandidate {
+    return {
+      peerId,
+      addr: entry.addr,
+      rtt: entry.rtt,
+      limit: entry.limit,
+      uptime: Date.now() - entry.since,
+      failures: entry.failures
+    }
+  }
+
+  /**
+   * Returns the discovered relays that are in use and the ones on standby
+   */
+  #getDiscoveredRelays (): { active: RelayCandidate[], standby: RelayCandidate[] } {
+    const active: RelayCandidate[] = []
+    const standby: RelayCandidate[] = []
+
+    for (const [peerId, entry] of this.reservations.entries()) {
+      if (entry.type !== 'discovered') {
+        continue
+      }
+
+      if (entry.standby) {
+        standby.push(this.#toCandidate(peerId, entry))
+      } else {
+        active.push(this.#toCandidate(peerId, entry))
+      }
+    }
+
+    return { active, standby }
+  }
+
+  /**
+   * Returns the standby relay with the highest score when used alongside the
+   * passed relays
+   */
+  #findBestStandby (standby: RelayCandidate[], selected: RelayCandidate[]): { candidate: RelayCandidate, score: number } | undefined {
+    let best: { candidate: RelayCandidate, score: number } | undefined
+
+    for (const candidate of standby) {
+      const score = this.relaySelector.score(candidate, selected)
+
+      if (best == null || score > best.score) {
+        best = { candidate, score }
+      }
+    }
+
+    return best
+  }
+
   /**
-   * Remove listen relay
+   * Fill empty slots with standby relays and replace the worst relay in use
+   * with the best standby relay if it scores sufficiently higher
+   */
+  #rebalance (): void {
+    const { active, standby } = this.#getDiscoveredRelays()
+
+    while (active.length < this.maxDiscoveredRelays && standby.length > 0) {
+      const best = this.#findBestStandby(standby, active)
+
+      if (best == null) {
+        return
+      }
+
+      standby.splice(standby.indexOf(best.candidate), 1)
+      active.push(best.candidate)
+      this.#promote(best.candidate.peerId)
+    }
+
+    if (active.length === 0 || standby.length === 0) {
+      return
+    }
+
+    let worst: { candidate: RelayCandidate, score: number } | undefined
+
+    for (const candidate of active) {
+      const score = this.relaySelector.score(candidate, active.filter(relay => relay !== candidate))
+
+      if (worst == null || score < worst.score) {
+        worst = { candidate, score }
+      }
+    }
+
+    if (worst == null) {
+      return
+    }
+
+    const worstCandidate = worst.candidate
+    const best = this.#findBestStandby(standby, active.filter(relay => relay !== worstCandidate))
+
+    if (best == null || best.score < worst.score + SWITCH_THRESHOLD) {
+      return
+    }
+
+    this.log('replacing relay %p with score %d with standby relay %p with score %d', worst.candidate.peerId, worst.score, best.candidate.peerId, best.score)
+    this.#demote(worst.candidate.peerId)
+    this.#promote(best.candidate.peerId)
+  }
+
+  /**
+   * Start advertising the addresses of a standby relay
+   */
+  #promote (peerId: PeerId): RelayEntry | undefined {
+    const entry = this.reservations.get(peerId)
+
+    if (entry == null || !entry.standby) {
+      return
+    }
+
+    this.log('using standby relay %p', peerId)
+    entry.standby = false
+
+    this.transportManager.listen([multiaddr(`/p2p/${peerId.toString()}/p2p-circuit`)])
+      .catch(err => {
+        this.log.error('could not listen on standby relay %p', peerId, err)
+        this.#removeRelay(peerId)
+      })
+
+    return entry
+  }
+
+  /**
+   * Stop advertising the addresses of a relay but keep the reservation
+   */
+  #demote (peerId: PeerId): void {
+    const entry = this.reservations.get(peerId)
+
+    if (entry == null || entry.standby) {
+      return
+    }
+
+    this.log('moving relay %p to standby', peerId)
+    entry.standby = true
+
+    this.safeDispatchEvent('relay:standby', { detail: peerId })
+  }
+
+  #deleteReservation (peerId: PeerId, entry: RelayEntry): void {
+    clearTimeout(entry.timeout)
+    this.reservations.delete(peerId)
+
+    this.safeDispatchEvent('relay:removed', { detail: peerId })
+    this.events.safeDispatchEvent('relay:reservation:remove', {
+      detail: this.#toReservationInfo(peerId, entry)
+    })
+  }
+
+  /**
+   * Remove listen relay and replace it with a standby relay if one is
+   * available
    */
   #removeRelay (peerId: PeerId): void {
     const existingReservation = this.reservations.get(peerId)
@@ -314,15 +604,28 @@ export class ReservationStore extends TypedEventEmitter<ReservationStoreEvents>
       return
     }
 
-    this.log('connection to relay %p closed, removing reservation from local store', peerId)
+    this.log('removing reservation on relay %p from local store', peerId)
 
-    clearTimeout(existingReservation.timeout)
-    this.reservations.delete(peerId)
+    this.#deleteReservation(peerId, existingReservation)
 
-    this.safeDispatchEvent('relay:removed', { detail: peerId })
+    if (existingReservation.type === 'discovered' && !existingReservation.standby) {
+      const { active, standby } = this.#getDiscoveredRelays()
+      const best = this.#findBestStandby(standby, active)
+      const replacement = best == null ? undefined : this.#promote(best.candidate.peerId)
+
+      if (best != null && replacement != null) {
+        this.log('failing over from relay %p to standby relay %p', peerId, best.candidate.peerId)
+        this.events.safeDispatchEvent('relay:reservation:failover', {
+          detail: {
+            from: peerId,
+            to: this.#toReservationInfo(best.candidate.peerId, replacement)
+          }
+        })
+      }
+    }
 
-    if (this.reservations.size < this.maxDiscoveredRelays) {
-      this.log('not enough relays %d/%d', this.reservations.size, this.maxDiscoveredRelays)
+    if (this.#countDiscoveredRelays() < this.maxDiscoveredRelays + this.standbyRelays) {
+      this.log('not enough relays %d/%d', this.#countDiscoveredRelays(), this.maxDiscoveredRelays + this.standbyRelays)
       this.safeDispatchEvent('relay:not-enough-relays', {})
     }
   }
@@ -1,12 +1,13 @@
 import { CodeError } from '@libp2p/interface'
-import { transportSymbol, type Transport, type CreateListenerOptions, type Listener, type Upgrader, type AbortOptions, type ComponentLogger, type Logger, type Connection, type Stream, type ConnectionGater, type PeerId, type PeerStore } from '@libp2p/interface'
+import { transportSymbol, type Transport, type CreateListenerOptions, type Listener, type Upgrader, type AbortOptions, type ComponentLogger, type Logger, type Connection, type Stream, type ConnectionGater, type PeerId, type PeerStore, type Libp2pEvents, type MultiaddrConnection, type TypedEventTarget } from '@libp2p/interface'
 import { peerIdFromBytes, peerIdFromString } from '@libp2p/peer-id'
 import { streamToMaConnection } from '@libp2p/utils/stream-to-ma-conn'
 import * as mafmt from '@multiformats/mafmt'
 import { multiaddr } from '@multiformats/multiaddr'
 import { pbStream } from 'it-protobuf-stream'
-import { CIRCUIT_PROTO_CODE, ERR_HOP_REQUEST_FAILED, ERR_RELAYED_DIAL, MAX_CONNECTIONS, RELAY_V2_HOP_CODEC, RELAY_V2_STOP_CODEC } from '../constants.js'
-import { StopMessage, HopMessage, Status } from '../pb/index.js'
+import { CIRCUIT_PROTO_CODE, DEFAULT_LIMIT_WARNING_THRESHOLDS, ERR_HOP_REQUEST_FAILED, ERR_RELAYED_DIAL, MAX_CONNECTIONS, RELAY_V2_HOP_CODEC, RELAY_V2_STOP_CODEC } from '../constants.js'
+import { StopMessage, HopMessage, Status, type Limit } from '../pb/index.js'
+import { RelayConnectionLimits } from './connection-limits.js'
 import { RelayDiscovery } from './discovery.js'
 import { createListener } from './listener.js'
 import { ReservationStore } from './reservation-store.js'
@@ -55,10 +56,12 @@ export class CircuitRelayTransport implements Transport {
   private readonly addressManager: AddressManager
   private readonly connectionGater: ConnectionGater
   public readonly reservationStore: ReservationStore
+  private readonly events: TypedEventTarget<Libp2pEvents>
   private readonly logger: ComponentLogger
   private readonly maxInboundStopStreams: number
   private readonly maxOutboundStopStreams?: number
   private readonly stopTimeout: number
+  private readonly limitWarningThresholds: number[]
   private started: boolean
   private readonly log: Logger
 
@@ -76,6 +79,8 @@ export class CircuitRelayTransport implements Transport {
     this.maxInboundStopStreams = init.maxInboundStopStreams ?? defaults.maxInboundStopStreams
     this.maxOutboundStopStreams = init.maxOutboundStopStreams ?? defaults.maxOutboundStopStreams
     this.stopTimeout = init.stopTimeout ?? defaults.stopTimeout
+    this.limitWarningThresholds = init.limitWarningThresholds ?? DEFAULT_LIMIT_WARNING_THRESHOLDS
+    this.events = components.events
 
     if (init.discoverRelays != null && init.discoverRelays > 0) {
       this.discovery = new RelayDiscovery(components)
@@ -231,10 +236,16 @@ export class CircuitRelayTransport implements Transport {
         logger: this.logger
       })
 
+      const limits = this.trackLimits(maConn, status.limit)
+
       this.log('new outbound transient connection %a', maConn.remoteAddr)
-      return await this.upgrader.upgradeOutbound(maConn, {
-        transient: true
+      const conn = await this.upgrader.upgradeOutbound(maConn, {
+        transient: true,
+        limits
       })
+      limits?.start(conn)
+
+      return conn
     } catch (err: any) {
       this.log.error(`Circuit relay dial to destination ${destinationPeer.toString()} via relay ${connection.remotePeer.toString()} failed`, err)
       disconnectOnFailure && await connection.close()
@@ -342,10 +353,34 @@ export class CircuitRelayTransport implements Transport {
       logger: this.logger
     })
 
+    const limits = this.trackLimits(maConn, request.limit)
+
     this.log('new inbound transient connection %a', maConn.remoteAddr)
-    await this.upgrader.upgradeInbound(maConn, {
-      transient: true
+    const conn = await this.upgrader.upgradeInbound(maConn, {
+      transient: true,
+      limits
     })
+    limits?.start(conn)
     this.log('%s connection %a upgraded', 'inbound', maConn.remoteAddr)
   }
+
+  /**
+   * If the relay limits the connection, count the data it transfers so the
+   * remaining budget can be exposed on the connection
+   */
+  private trackLimits (maConn: MultiaddrConnection, limit?: Limit): RelayConnectionLimits | undefined {
+    if (limit?.data == null && limit?.duration == null) {
+      return
+    }
+
+    const limits = new RelayConnectionLimits({
+      events: this.events
+    }, {
+      limit,
+      warningThresholds: this.limitWarningThresholds
+    })
+    limits.track(maConn)
+
+    return limits
+  }
 }
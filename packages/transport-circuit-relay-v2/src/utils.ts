@@ -5,6 +5,7 @@ import { sha256 } from 'multiformats/hashes/sha2'
 import { ERR_TRANSFER_LIMIT_EXCEEDED } from './constants.js'
 import type { Limit } from './pb/index.js'
 import type { LoggerOptions, Stream } from '@libp2p/interface'
+import type { Multiaddr } from '@multiformats/multiaddr'
 import type { Source } from 'it-stream-types'
 import type { Uint8ArrayList } from 'uint8arraylist'
 
@@ -35,7 +36,27 @@ async function * countStreamBytes (source: Source<Uint8Array | Uint8ArrayList>,
   }
 }
 
-export function createLimitedRelay (src: Stream, dst: Stream, abortSignal: AbortSignal, limit: Limit | undefined, options: LoggerOptions): void {
+async function * trackStreamBytes (source: Source<Uint8Array | Uint8ArrayList>, onData: (bytes: number) => void): AsyncGenerator<Uint8Array | Uint8ArrayList, void, unknown> {
+  for await (const buf of source) {
+    onData(buf.byteLength)
+    yield buf
+  }
+}
+
+export interface LimitedRelayOptions extends LoggerOptions {
+  /**
+   * Invoked each time data is relayed, `toDst` is true for data sent from the
+   * source to the destination
+   */
+  onData?(bytes: number, toDst: boolean): void
+
+  /**
+   * Invoked once data has stopped flowing in both directions
+   */
+  onEnd?(): void
+}
+
+export function createLimitedRelay (src: Stream, dst: Stream, abortSignal: AbortSignal, limit: Limit | undefined, options: LimitedRelayOptions): void {
   function abortStreams (err: Error): void {
     src.abort(err)
     dst.abort(err)
@@ -60,6 +81,22 @@ export function createLimitedRelay (src: Stream, dst: Stream, abortSignal: Abort
     }
   }
 
+  function relaySource (source: Source<Uint8Array | Uint8ArrayList>, toDst: boolean): Source<Uint8Array | Uint8ArrayList> {
+    if (dataLimit != null) {
+      source = countStreamBytes(source, dataLimit, options)
+    }
+
+    const onData = options.onData
+
+    if (onData != null) {
+      source = trackStreamBytes(source, (bytes) => {
+        onData(bytes, toDst)
+      })
+    }
+
+    return source
+  }
+
   queueMicrotask(() => {
     const onAbort = (): void => {
       dst.abort(new CodeError(`duration limit of ${limit?.duration} ms exceeded`, ERR_TRANSFER_LIMIT_EXCEEDED))
@@ -67,7 +104,7 @@ export function createLimitedRelay (src: Stream, dst: Stream, abortSignal: Abort
 
     signal.addEventListener('abort', onAbort, { once: true })
 
-    void dst.sink(dataLimit == null ? src.source : countStreamBytes(src.source, dataLimit, options))
+    void dst.sink(relaySource(src.source, true))
       .catch(err => {
         options.log.error('error while relaying streams src -> dst', err)
         abortStreams(err)
@@ -78,6 +115,7 @@ export function createLimitedRelay (src: Stream, dst: Stream, abortSignal: Abort
         if (dstSrcFinished) {
           signal.removeEventListener('abort', onAbort)
           signal.clear()
+          options.onEnd?.()
         }
       })
   })
@@ -89,7 +127,7 @@ export function createLimitedRelay (src: Stream, dst: Stream, abortSignal: Abort
 
     signal.addEventListener('abort', onAbort, { once: true })
 
-    void src.sink(dataLimit == null ? dst.source : countStreamBytes(dst.source, dataLimit, options))
+    void src.sink(relaySource(dst.source, false))
       .catch(err => {
         options.log.error('error while relaying streams dst -> src', err)
         abortStreams(err)
@@ -100,6 +138,7 @@ export function createLimitedRelay (src: Stream, dst: Stream, abortSignal: Abort
         if (srcDstFinished) {
           signal.removeEventListener('abort', onAbort)
           signal.clear()
+          options.onEnd?.()
         }
       })
   })
@@ -125,3 +164,27 @@ export function getExpirationMilliseconds (expireTimeSeconds: bigint): number {
   // downcast to number to use with setTimeout
   return Number(expireTimeMillis - BigInt(currentTime))
 }
+
+const IP4_CODE = 4
+const IP6_CODE = 41
+
+/**
+ * Returns a string identifying the subnet of the IP address the multiaddr
+ * starts with or undefined if it does not start with an IP address
+ */
+export function getSubnet (ma: Multiaddr, ipv4Prefix: number, ipv6Prefix: number): string | undefined {
+  const [code, bytes] = ma.tuples()[0] ?? []
+
+  if (bytes == null || (code !== IP4_CODE && code !== IP6_CODE)) {
+    return
+  }
+
+  const prefix = code === IP4_CODE ? ipv4Prefix : ipv6Prefix
+  const masked = Uint8Array.from(bytes, (byte, i) => {
+    const bits = Math.min(Math.max(prefix - (i * 8), 0), 8)
+
+    return byte & (0xff << (8 - bits))
+  })
+
+  return `${code}/${masked.join('.')}/${prefix}`
+}
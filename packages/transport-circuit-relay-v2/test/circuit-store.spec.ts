@@ -0,0 +1,66 @@
+/* eslint-env mocha */
+
+import { defaultLogger } from '@libp2p/logger'
+import { createEd25519PeerId } from '@libp2p/peer-id-factory'
+import { expect } from 'aegir/chai'
+import { MemoryDatastore } from 'datastore-core'
+import pWaitFor from 'p-wait-for'
+import { stubInterface } from 'sinon-ts'
+import { CircuitStore } from '../src/server/circuit-store.js'
+import type { PeerId, Stream } from '@libp2p/interface'
+
+describe('circuit-relay server circuit store', function () {
+  let store: CircuitStore
+  let src: PeerId
+  let dst: PeerId
+
+  beforeEach(async () => {
+    src = await createEd25519PeerId()
+    dst = await createEd25519PeerId()
+  })
+
+  afterEach(async () => {
+    await store?.stop()
+  })
+
+  it('should persist bytes relayed by open circuits periodically', async function () {
+    store = new CircuitStore({
+      datastore: new MemoryDatastore(),
+      logger: defaultLogger()
+    }, {
+      flushInterval: 10
+    })
+    store.start()
+
+    const circuit = store.open(src, dst, stubInterface<Stream>(), stubInterface<Stream>())
+    circuit.bytesToDst += 10n
+    circuit.bytesToSrc += 5n
+
+    await pWaitFor(async () => (await store.getRelayedBytes(src)).source === 15n)
+    await expect(store.getRelayedBytes(dst)).to.eventually.deep.equal({ source: 0n, destination: 15n })
+
+    // only bytes relayed since the last flush are added when the circuit closes
+    circuit.bytesToDst += 5n
+    store.close(circuit.id)
+    await store.stop()
+
+    await expect(store.getRelayedBytes(src)).to.eventually.deep.equal({ source: 20n, destination: 0n })
+    await expect(store.getRelayedBytes(dst)).to.eventually.deep.equal({ source: 0n, destination: 20n })
+  })
+
+  it('should persist bytes relayed by open circuits when stopping', async function () {
+    store = new CircuitStore({
+      datastore: new MemoryDatastore(),
+      logger: defaultLogger()
+    })
+    store.start()
+
+    const circuit = store.open(src, dst, stubInterface<Stream>(), stubInterface<Stream>())
+    circuit.bytesToDst += 10n
+
+    await store.stop()
+
+    await expect(store.getRelayedBytes(src)).to.eventually.deep.equal({ source: 10n, destination: 0n })
+    await expect(store.getRelayedBytes(dst)).to.eventually.deep.equal({ source: 0n, destination: 10n })
+  })
+})
@@ -0,0 +1,173 @@
+/* eslint-env mocha */
+
+import { TypedEventEmitter, type Connection, type ConnectionLimitWarning, type Libp2pEvents, type MultiaddrConnection, type TypedEventTarget } from '@libp2p/interface'
+import { mockMultiaddrConnection } from '@libp2p/interface-compliance-tests/mocks'
+import { createEd25519PeerId } from '@libp2p/peer-id-factory'
+import { expect } from 'aegir/chai'
+import delay from 'delay'
+import drain from 'it-drain'
+import pWaitFor from 'p-wait-for'
+import { stubInterface } from 'sinon-ts'
+import { RelayConnectionLimits } from '../src/transport/connection-limits.js'
+import type { Limit } from '../src/pb/index.js'
+
+describe('circuit-relay connection limits', () => {
+  let events: TypedEventTarget<Libp2pEvents>
+  let limits: RelayConnectionLimits | undefined
+
+  beforeEach(() => {
+    events = new TypedEventEmitter()
+  })
+
+  afterEach(() => {
+    limits?.stop()
+  })
+
+  function createLimits (limit: Limit, warningThresholds: number[] = [0.5]): RelayConnectionLimits {
+    limits = new RelayConnectionLimits({
+      events
+    }, {
+      limit,
+      warningThresholds
+    })
+
+    return limits
+  }
+
+  async function createMaConn (incoming: Uint8Array[]): Promise<MultiaddrConnection> {
+    return mockMultiaddrConnection({
+      source: (async function * () {
+        yield * incoming
+      })(),
+      sink: async (source) => {
+        await drain(source)
+      }
+    }, await createEd25519PeerId())
+  }
+
+  it('should not report limits the relay does not apply', () => {
+    const limits = createLimits({})
+
+    expect(limits.bytes).to.be.undefined()
+    expect(limits.duration).to.be.undefined()
+  })
+
+  it('should count data sent and received towards the data limit', async () => {
+    const limits = createLimits({ data: 100n })
+    const maConn = await createMaConn([new Uint8Array(10), new Uint8Array(20)])
+
+    limits.track(maConn)
+
+    await drain(maConn.source)
+    expect(limits.bytes).to.equal(70n)
+
+    await maConn.sink((async function * () {
+      yield new Uint8Array(30)
+    })())
+    expect(limits.bytes).to.equal(40n)
+  })
+
+  it('should not report a negative data budget', async () => {
+    const limits = createLimits({ data: 10n })
+    const maConn = await createMaConn([new Uint8Array(20)])
+
+    limits.track(maConn)
+    await drain(maConn.source)
+
+    expect(limits.bytes).to.equal(0n)
+  })
+
+  it('should report the remaining duration', async () => {
+    const limits = createLimits({ duration: 1000 })
+
+    await delay(100)
+
+    expect(limits.duration).to.be.within(0, 950)
+  })
+
+  it('should warn when a data threshold is crossed', async () => {
+    const limits = createLimits({ data: 100n }, [0.5, 0.9])
+    const maConn = await createMaConn([new Uint8Array(60), new Uint8Array(40)])
+    const connection = stubInterface<Connection>({
+      status: 'open'
+    })
+    const warnings: ConnectionLimitWarning[] = []
+
+    events.addEventListener('connection:limit:warning', (evt) => {
+      warnings.push(evt.detail)
+    })
+
+    limits.track(maConn)
+    limits.start(connection)
+    await drain(maConn.source)
+
+    expect(warnings).to.deep.equal([{
+      connection,
+      limit: 'bytes',
+      threshold: 0.5
+    }, {
+      connection,
+      limit: 'bytes',
+      threshold: 0.9
+    }])
+  })
+
+  it('should warn when a duration threshold is reached', async () => {
+    const limits = createLimits({ duration: 100 })
+    const connection = stubInterface<Connection>({
+      status: 'open'
+    })
+    const warnings: ConnectionLimitWarning[] = []
+
+    events.addEventListener('connection:limit:warning', (evt) => {
+      warnings.push(evt.detail)
+    })
+
+    limits.start(connection)
+
+    await pWaitFor(() => warnings.length > 0)
+    expect(warnings).to.deep.equal([{
+      connection,
+      limit: 'duration',
+      threshold: 0.5
+    }])
+  })
+
+  it('should not warn about connections that have closed', async () => {
+    const limits = createLimits({ duration: 50 })
+    let warned = false
+
+    events.addEventListener('connection:limit:warning', () => {
+      warned = true
+    })
+
+    limits.start(stubInterface<Connection>({
+      status: 'closed'
+    }))
+
+    await delay(100)
+    expect(warned).to.be.false()
+  })
+
+  it('should stop duration timers when the connection closes', async () => {
+    const limits = createLimits({ duration: 100 })
+    const connection = stubInterface<Connection>({
+      status: 'open'
+    })
+    let warned = false
+
+    events.addEventListener('connection:limit:warning', () => {
+      warned = true
+    })
+
+    limits.start(connection)
+
+    events.safeDispatchEvent('connection:close', {
+      detail: connection
+    })
+
+    await delay(150)
+    expect(warned).to.be.false()
+    expect(events.listenerCount('connection:close')).to.equal(0)
+  })
+})
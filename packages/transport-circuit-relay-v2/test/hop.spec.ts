@@ -9,7 +9,9 @@ import { PeerMap } from '@libp2p/peer-collections'
 import { createEd25519PeerId } from '@libp2p/peer-id-factory'
 import { type Multiaddr, multiaddr } from '@multiformats/multiaddr'
 import { expect } from 'aegir/chai'
+import { MemoryDatastore } from 'datastore-core'
 import { type MessageStream, pbStream } from 'it-protobuf-stream'
+import pWaitFor from 'p-wait-for'
 import Sinon from 'sinon'
 import { type StubbedInstance, stubInterface } from 'sinon-ts'
 import { DEFAULT_MAX_RESERVATION_STORE_SIZE, RELAY_SOURCE_TAG, RELAY_V2_HOP_CODEC } from '../src/constants.js'
@@ -88,6 +90,7 @@ describe('circuit-relay hop protocol', function () {
       peerStore,
       registrar,
       connectionGater,
+      datastore: new MemoryDatastore(),
       logger: defaultLogger()
     })
 
@@ -239,6 +242,20 @@ describe('circuit-relay hop protocol', function () {
       expect(relayNode.circuitRelayService.reservations.get(clientNode.peerId)).to.be.undefined()
     })
 
+    it('should fail to reserve slot - denied by policy', async () => {
+      const relayNode = await createNode({
+        reservations: {
+          policy: () => ({ accept: false })
+        }
+      })
+
+      const { response } = await makeReservation(clientNode, relayNode)
+      expect(response).to.have.property('type', HopMessage.Type.STATUS)
+      expect(response).to.have.property('status', Status.PERMISSION_DENIED)
+
+      expect(relayNode.circuitRelayService.reservations.get(clientNode.peerId)).to.be.undefined()
+    })
+
     it('should fail to reserve slot - resource exceeded', async () => {
       // fill all the available reservation slots
       for (let i = 0; i < DEFAULT_MAX_RESERVATION_STORE_SIZE; i++) {
@@ -310,6 +327,40 @@ describe('circuit-relay hop protocol', function () {
       expect(response).to.have.property('status', Status.OK)
     })
 
+    it('should track relayed circuits', async () => {
+      // both peers make a reservation on the relay
+      await expect(makeReservation(clientNode, relayNode)).to.eventually.have.nested.property('response.status', Status.OK)
+      await expect(makeReservation(targetNode, relayNode)).to.eventually.have.nested.property('response.status', Status.OK)
+
+      const { response, clientPbStream } = await sendConnect(clientNode, targetNode, relayNode)
+      expect(response).to.have.property('status', Status.OK)
+
+      await pWaitFor(() => relayNode.circuitRelayService.getCircuits().length === 1)
+
+      const [circuit] = relayNode.circuitRelayService.getCircuits()
+      expect(circuit.src.equals(clientNode.peerId)).to.be.true()
+      expect(circuit.dst.equals(targetNode.peerId)).to.be.true()
+
+      // anything written after the CONNECT response is relayed
+      await clientPbStream.write({
+        type: HopMessage.Type.STATUS,
+        status: Status.OK
+      })
+      await pWaitFor(() => relayNode.circuitRelayService.getCircuits()[0].bytesToDst > 0n)
+
+      expect(relayNode.circuitRelayService.closeCircuit(circuit.id)).to.be.true()
+      await pWaitFor(() => relayNode.circuitRelayService.getCircuits().length === 0)
+
+      // the bytes relayed are stored once the circuit closes
+      await pWaitFor(async () => (await relayNode.circuitRelayService.getRelayedBytes(clientNode.peerId)).source > 0n)
+      const relayed = await relayNode.circuitRelayService.getRelayedBytes(targetNode.peerId)
+      expect(relayed.destination > 0n).to.be.true()
+    })
+
+    it('should not close an unknown circuit', async () => {
+      expect(relayNode.circuitRelayService.closeCircuit('unknown')).to.be.false()
+    })
+
     it('should fail to connect - invalid request', async () => {
       // both peers make a reservation on the relay
       await expect(makeReservation(clientNode, relayNode)).to.eventually.have.nested.property('response.status', Status.OK)
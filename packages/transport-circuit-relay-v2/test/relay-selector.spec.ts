@@ -0,0 +1,70 @@
+/* eslint-env mocha */
+
+import { createEd25519PeerId } from '@libp2p/peer-id-factory'
+import { multiaddr } from '@multiformats/multiaddr'
+import { expect } from 'aegir/chai'
+import { defaultRelaySelector, type RelayCandidate } from '../src/transport/relay-selector.js'
+
+describe('circuit-relay relay selector', () => {
+  async function createCandidate (addr: string, options: Partial<RelayCandidate> = {}): Promise<RelayCandidate> {
+    return {
+      peerId: await createEd25519PeerId(),
+      addr: multiaddr(addr),
+      rtt: 100,
+      uptime: 0,
+      failures: 0,
+      ...options
+    }
+  }
+
+  it('should prefer relays with a lower rtt', async () => {
+    const selector = defaultRelaySelector()
+
+    const fast = await createCandidate('/ip4/1.1.1.1/tcp/4001', { rtt: 10 })
+    const slow = await createCandidate('/ip4/2.2.2.2/tcp/4001', { rtt: 900 })
+
+    expect(selector.score(fast, [])).to.be.greaterThan(selector.score(slow, []))
+  })
+
+  it('should prefer relays with higher limits', async () => {
+    const selector = defaultRelaySelector()
+
+    const unlimited = await createCandidate('/ip4/1.1.1.1/tcp/4001')
+    const limited = await createCandidate('/ip4/2.2.2.2/tcp/4001', {
+      limit: {
+        duration: 1000,
+        data: 1024n
+      }
+    })
+
+    expect(selector.score(unlimited, [])).to.be.greaterThan(selector.score(limited, []))
+  })
+
+  it('should prefer relays that have not failed', async () => {
+    const selector = defaultRelaySelector()
+
+    const reliable = await createCandidate('/ip4/1.1.1.1/tcp/4001')
+    const unreliable = await createCandidate('/ip4/2.2.2.2/tcp/4001', { failures: 2 })
+
+    expect(selector.score(reliable, [])).to.be.greaterThan(selector.score(unreliable, []))
+  })
+
+  it('should penalise relays in the same subnet as selected relays', async () => {
+    const selector = defaultRelaySelector()
+
+    const selected = await createCandidate('/ip4/1.1.1.1/tcp/4001')
+    const sameSubnet = await createCandidate('/ip4/1.1.1.2/tcp/4001')
+    const otherSubnet = await createCandidate('/ip4/1.1.2.1/tcp/4001')
+
+    expect(selector.score(sameSubnet, [selected])).to.be.lessThan(selector.score(otherSubnet, [selected]))
+  })
+
+  it('should use the configured IPv6 prefix', async () => {
+    const selector = defaultRelaySelector({ ipv6Prefix: 32 })
+
+    const selected = await createCandidate('/ip6/2001:db8:1::1/tcp/4001')
+    const candidate = await createCandidate('/ip6/2001:db8:2::1/tcp/4001')
+
+    expect(selector.score(candidate, [selected])).to.be.lessThan(selector.score(candidate, []))
+  })
+})
@@ -11,7 +11,7 @@ describe('circuit-relay server reservation store', function () {
   it('should add reservation', async function () {
     const store = new ReservationStore({ maxReservations: 2 })
     const peer = await createEd25519PeerId()
-    const result = store.reserve(peer, multiaddr())
+    const result = await store.reserve(peer, multiaddr())
     expect(result.status).to.equal(Status.OK)
     expect(result.expire).to.not.be.undefined()
     expect(store.hasReservation(peer)).to.be.true()
@@ -20,8 +20,8 @@ describe('circuit-relay server reservation store', function () {
   it('should add reservation if peer already has reservation', async function () {
     const store = new ReservationStore({ maxReservations: 1 })
     const peer = await createEd25519PeerId()
-    store.reserve(peer, multiaddr())
-    const result = store.reserve(peer, multiaddr())
+    await store.reserve(peer, multiaddr())
+    const result = await store.reserve(peer, multiaddr())
     expect(result.status).to.equal(Status.OK)
     expect(result.expire).to.not.be.undefined()
     expect(store.hasReservation(peer)).to.be.true()
@@ -30,14 +30,14 @@ describe('circuit-relay server reservation store', function () {
   it('should fail to add reservation on exceeding limit', async function () {
     const store = new ReservationStore({ maxReservations: 0 })
     const peer = await createEd25519PeerId()
-    const result = store.reserve(peer, multiaddr())
+    const result = await store.reserve(peer, multiaddr())
     expect(result.status).to.equal(Status.RESERVATION_REFUSED)
   })
 
   it('should remove reservation', async function () {
     const store = new ReservationStore({ maxReservations: 10 })
     const peer = await createEd25519PeerId()
-    const result = store.reserve(peer, multiaddr())
+    const result = await store.reserve(peer, multiaddr())
     expect(result.status).to.equal(Status.OK)
     expect(store.hasReservation(peer)).to.be.true()
     store.removeReservation(peer)
@@ -54,7 +54,7 @@ describe('circuit-relay server reservation store', function () {
       defaultDurationLimit
     })
     const peer = await createEd25519PeerId()
-    store.reserve(peer, multiaddr())
+    await store.reserve(peer, multiaddr())
 
     const reservation = store.get(peer)
 
@@ -65,7 +65,7 @@ describe('circuit-relay server reservation store', function () {
   it('should apply default connection limits', async function () {
     const store = new ReservationStore()
     const peer = await createEd25519PeerId()
-    store.reserve(peer, multiaddr())
+    await store.reserve(peer, multiaddr())
 
     const reservation = store.get(peer)
 
@@ -78,11 +78,80 @@ describe('circuit-relay server reservation store', function () {
       applyDefaultLimit: false
     })
     const peer = await createEd25519PeerId()
-    store.reserve(peer, multiaddr())
+    await store.reserve(peer, multiaddr())
 
     const reservation = store.get(peer)
 
     expect(reservation).to.not.have.nested.property('limit.data')
     expect(reservation).to.not.have.nested.property('limit.duration')
   })
+
+  it('should refuse reservations denied by the policy', async function () {
+    const store = new ReservationStore({
+      policy: () => ({ accept: false })
+    })
+    const peer = await createEd25519PeerId()
+    const result = await store.reserve(peer, multiaddr())
+    expect(result.status).to.equal(Status.PERMISSION_DENIED)
+    expect(store.hasReservation(peer)).to.be.false()
+  })
+
+  it('should wait for an asynchronous policy', async function () {
+    const store = new ReservationStore({
+      policy: async ({ peer }) => {
+        await new Promise(resolve => setTimeout(resolve, 10))
+
+        return { accept: peer.equals(allowed) }
+      }
+    })
+    const allowed = await createEd25519PeerId()
+    const other = await createEd25519PeerId()
+
+    expect((await store.reserve(allowed, multiaddr())).status).to.equal(Status.OK)
+    expect((await store.reserve(other, multiaddr())).status).to.equal(Status.PERMISSION_DENIED)
+    expect(store.hasReservation(other)).to.be.false()
+  })
+
+  it('should apply limits granted by the policy', async function () {
+    const store = new ReservationStore({
+      policy: ({ peer }) => ({ accept: true, limit: peer.equals(allowed) ? null : { data: 10n, duration: 10 } })
+    })
+    const allowed = await createEd25519PeerId()
+    const other = await createEd25519PeerId()
+
+    await store.reserve(allowed, multiaddr())
+    await store.reserve(other, multiaddr())
+
+    expect(store.get(allowed)?.limit).to.be.undefined()
+    expect(store.get(other)).to.have.nested.property('limit.data', 10n)
+    expect(store.get(other)).to.have.nested.property('limit.duration', 10)
+  })
+
+  it('should allow the policy to exceed the maximum number of reservations', async function () {
+    const store = new ReservationStore({
+      maxReservations: 0,
+      policy: () => ({ accept: true, ignoreMaxReservations: true })
+    })
+    const peer = await createEd25519PeerId()
+    const result = await store.reserve(peer, multiaddr())
+    expect(result.status).to.equal(Status.OK)
+  })
+
+  it('should pass the reservations of other peers to the policy', async function () {
+    // allow one reservation per host
+    const store = new ReservationStore({
+      policy: ({ addr, reservations }) => ({
+        accept: [...reservations.values()].every(reservation => reservation.addr.toOptions().host !== addr.toOptions().host)
+      })
+    })
+    const peerA = await createEd25519PeerId()
+    const peerB = await createEd25519PeerId()
+
+    expect((await store.reserve(peerA, multiaddr('/ip4/1.2.3.4/tcp/1234'))).status).to.equal(Status.OK)
+
+    // refreshing a reservation is allowed
+    expect((await store.reserve(peerA, multiaddr('/ip4/1.2.3.4/tcp/1234'))).status).to.equal(Status.OK)
+    expect((await store.reserve(peerB, multiaddr('/ip4/1.2.3.4/tcp/5678'))).status).to.equal(Status.PERMISSION_DENIED)
+    expect((await store.reserve(peerB, multiaddr('/ip4/5.6.7.8/tcp/5678'))).status).to.equal(Status.OK)
+  })
 })
@@ -0,0 +1,245 @@
+/* eslint-env mocha */
+
+import { TypedEventEmitter, type Connection, type Libp2pEvents, type PeerId, type PeerStore, type RelayReservationFailover, type Stream, type TypedEventTarget } from '@libp2p/interface'
+import { defaultLogger } from '@libp2p/logger'
+import { PeerMap } from '@libp2p/peer-collections'
+import { createEd25519PeerId } from '@libp2p/peer-id-factory'
+import { multiaddr } from '@multiformats/multiaddr'
+import { expect } from 'aegir/chai'
+import { duplexPair } from 'it-pair/duplex'
+import { pbStream } from 'it-protobuf-stream'
+import pWaitFor from 'p-wait-for'
+import { stubInterface, type StubbedInstance } from 'sinon-ts'
+import { HopMessage, Status, type Limit } from '../src/pb/index.js'
+import { ReservationStore } from '../src/transport/reservation-store.js'
+import type { AddressManager, ConnectionManager, TransportManager } from '@libp2p/interface-internal'
+
+describe('circuit-relay transport reservation store', function () {
+  let peerId: PeerId
+  let connectionManager: StubbedInstance<ConnectionManager>
+  let addressManager: StubbedInstance<AddressManager>
+  let events: TypedEventTarget<Libp2pEvents>
+  let store: ReservationStore
+
+  beforeEach(async () => {
+    peerId = await createEd25519PeerId()
+    connectionManager = stubInterface<ConnectionManager>()
+    connectionManager.openConnection.rejects(new Error('Urk!'))
+    addressManager = stubInterface<AddressManager>()
+    addressManager.getNATStatus.returns({
+      type: 'unknown',
+      reachability: 'public'
+    })
+    events = new TypedEventEmitter()
+
+    store = new ReservationStore({
+      peerId,
+      connectionManager,
+      addressManager,
+      transportManager: stubInterface<TransportManager>(),
+      peerStore: stubInterface<PeerStore>(),
+      events,
+      logger: defaultLogger()
+    }, {
+      discoverRelays: 1
+    })
+    store.start()
+  })
+
+  afterEach(() => {
+    store.stop()
+  })
+
+  it('should not reserve a slot on a discovered relay when publicly reachable', async () => {
+    await store.addRelay(await createEd25519PeerId(), 'discovered')
+
+    expect(connectionManager.openConnection).to.have.property('called', false)
+  })
+
+  it('should reserve a slot on a configured relay when publicly reachable', async () => {
+    await store.addRelay(await createEd25519PeerId(), 'configured')
+
+    expect(connectionManager.openConnection).to.have.property('called', true)
+  })
+
+  it('should look for relays when no longer publicly reachable', async () => {
+    let notEnoughRelays = false
+
+    store.addEventListener('relay:not-enough-relays', () => {
+      notEnoughRelays = true
+    })
+
+    events.safeDispatchEvent('self:nat:change', {
+      detail: {
+        type: 'unknown',
+        reachability: 'private'
+      }
+    })
+
+    await pWaitFor(() => notEnoughRelays)
+  })
+})
+
+describe('circuit-relay transport reservation store standby relays', function () {
+  let connectionManager: StubbedInstance<ConnectionManager>
+  let transportManager: StubbedInstance<TransportManager>
+  let events: TypedEventTarget<Libp2pEvents>
+  let store: ReservationStore
+  let relays: PeerMap<{ ip: string, limit?: Limit }>
+
+  beforeEach(async () => {
+    relays = new PeerMap()
+    connectionManager = stubInterface<ConnectionManager>()
+    connectionManager.openConnection.callsFake(async (peer) => {
+      const relay = relays.get(peer as PeerId)
+
+      if (relay == null) {
+        throw new Error('Unknown relay')
+      }
+
+      return stubInterface<Connection>({
+        remotePeer: peer as PeerId,
+        remoteAddr: multiaddr(`/ip4/${relay.ip}/tcp/4001/p2p/${peer.toString()}`),
+        newStream: async () => {
+          const duplex = duplexPair<any>()
+
+          void Promise.resolve().then(async () => {
+            const hop = pbStream(duplex[1]).pb(HopMessage)
+            await hop.read()
+            await hop.write({
+              type: HopMessage.Type.STATUS,
+              status: Status.OK,
+              reservation: {
+                expire: BigInt(Math.round(Date.now() / 1000) + 3600),
+                addrs: []
+              },
+              limit: relay.limit
+            })
+          })
+
+          return stubInterface<Stream>({
+            source: duplex[0].source,
+            sink: duplex[0].sink
+          })
+        }
+      })
+    })
+    const addressManager = stubInterface<AddressManager>()
+    addressManager.getNATStatus.returns({
+      type: 'unknown',
+      reachability: 'private'
+    })
+    transportManager = stubInterface<TransportManager>()
+    transportManager.listen.resolves()
+    events = new TypedEventEmitter()
+
+    store = new ReservationStore({
+      peerId: await createEd25519PeerId(),
+      connectionManager,
+      addressManager,
+      transportManager,
+      peerStore: stubInterface<PeerStore>(),
+      events,
+      logger: defaultLogger()
+    }, {
+      discoverRelays: 1,
+      standbyRelays: 1
+    })
+    store.start()
+  })
+
+  afterEach(() => {
+    store.stop()
+  })
+
+  async function createRelay (ip: string, limit?: Limit): Promise<PeerId> {
+    const peerId = await createEd25519PeerId()
+    relays.set(peerId, { ip, limit })
+
+    return peerId
+  }
+
+  function listenedOn (peerId: PeerId): boolean {
+    return transportManager.listen.getCalls().some(call => call.args[0][0].toString() === `/p2p/${peerId.toString()}/p2p-circuit`)
+  }
+
+  it('should keep reservations on standby relays without listening on them', async () => {
+    const relayA = await createRelay('1.1.1.1')
+    const relayB = await createRelay('2.2.2.2')
+
+    await store.addRelay(relayA, 'discovered')
+    await store.addRelay(relayB, 'discovered')
+
+    expect(store.hasReservation(relayA)).to.be.true()
+    expect(store.hasReservation(relayB)).to.be.true()
+    expect(listenedOn(relayA)).to.be.true()
+    expect(listenedOn(relayB)).to.be.false()
+  })
+
+  it('should not reserve more than the active and standby relays', async () => {
+    await store.addRelay(await createRelay('1.1.1.1'), 'discovered')
+    await store.addRelay(await createRelay('2.2.2.2'), 'discovered')
+
+    const relayC = await createRelay('3.3.3.3')
+    await store.addRelay(relayC, 'discovered')
+
+    expect(store.hasReservation(relayC)).to.be.false()
+  })
+
+  it('should emit an event when a reservation is created', async () => {
+    const relay = await createRelay('1.1.1.1')
+    const created = new Promise<any>((resolve) => {
+      events.addEventListener('relay:reservation:create', (evt) => {
+        resolve(evt.detail)
+      })
+    })
+
+    await store.addRelay(relay, 'discovered')
+
+    const info = await created
+    expect(info.relay.equals(relay)).to.be.true()
+    expect(info.standby).to.be.false()
+    expect(info.addrs.map((ma: any) => ma.toString())).to.include(`/ip4/1.1.1.1/tcp/4001/p2p/${relay.toString()}/p2p-circuit`)
+  })
+
+  it('should fail over to a standby relay when a relay disconnects', async () => {
+    const relayA = await createRelay('1.1.1.1')
+    const relayB = await createRelay('2.2.2.2')
+
+    await store.addRelay(relayA, 'discovered')
+    await store.addRelay(relayB, 'discovered')
+
+    const failover = new Promise<RelayReservationFailover>((resolve) => {
+      events.addEventListener('relay:reservation:failover', (evt) => {
+        resolve(evt.detail)
+      })
+    })
+
+    events.safeDispatchEvent('peer:disconnect', { detail: relayA })
+
+    const detail = await failover
+    expect(detail.from.equals(relayA)).to.be.true()
+    expect(detail.to.relay.equals(relayB)).to.be.true()
+    expect(store.hasReservation(relayA)).to.be.false()
+    expect(listenedOn(relayB)).to.be.true()
+  })
+
+  it('should replace a relay with a standby relay that scores higher', async () => {
+    const relayA = await createRelay('1.1.1.1', {
+      duration: 1,
+      data: 1n
+    })
+    const relayB = await createRelay('2.2.2.2')
+    let standby: PeerId | undefined
+
+    store.addEventListener('relay:standby', (evt) => {
+      standby = evt.detail
+    })
+
+    await store.addRelay(relayA, 'discovered')
+    await store.addRelay(relayB, 'discovered')
+
+    expect(standby?.equals(relayA)).to.be.true()
+    await pWaitFor(() => listenedOn(relayB))
+  })
+})
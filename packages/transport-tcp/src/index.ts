@@ -25,18 +25,99 @@
  *
  * // use connection...
  * ```
+ *
+ * @example Port reuse
+ *
+ * Outbound dials can be bound to the port the node is listening on, so the
+ * remote (and any NAT in between) sees the connection come from the listening
+ * port. NATs then map the listening port to the same public port for every
+ * connection, which lets other peers learn it from their observed addresses,
+ * and two peers behind NATs that dial each other at the same time get a TCP
+ * simultaneous open, e.g. while hole punching with DCUtR.
+ *
+ * Pass `reusePort: true` to enable it. Listeners are then created with
+ * `SO_REUSEPORT` set and every dial is made from a socket bound to the port of
+ * a listener with `SO_REUSEADDR` and `SO_REUSEPORT` set. This requires Node.js
+ * 22.12.0 or later and a platform that supports `SO_REUSEPORT`, if the socket
+ * cannot be bound the dial fails.
+ *
+ * Note that with `SO_REUSEPORT` set other processes run by the same user can
+ * listen on the same port.
+ *
+ * ```TypeScript
+ * import { createLibp2p } from 'libp2p'
+ * import { tcp } from '@libp2p/tcp'
+ *
+ * const node = await createLibp2p({
+ *   addresses: {
+ *     listen: ['/ip4/0.0.0.0/tcp/4001']
+ *   },
+ *   transports: [
+ *     tcp({
+ *       reusePort: true
+ *     })
+ *   ]
+ * })
+ * ```
+ *
+ * @example Unix domain sockets
+ *
+ * Processes on the same machine can connect over a unix domain socket (or a
+ * named pipe on Windows) instead of a TCP port. The socket path is the value of
+ * the `/unix` component, it must be URI encoded since it contains `/`
+ * characters.
+ *
+ * If the socket file is left over from a process that exited without closing
+ * its server it is removed before listening, pass `removeStale: false` to
+ * disable this. The file permissions of the socket can be set with `mode`.
+ *
+ * `/unix` addresses are only reachable from the local machine so they are not
+ * announced to the network unless they are configured as announce addresses.
+ *
+ * ```TypeScript
+ * import { createLibp2p } from 'libp2p'
+ * import { tcp } from '@libp2p/tcp'
+ * import { multiaddr } from '@multiformats/multiaddr'
+ *
+ * const socketPath = '/var/run/my-app/libp2p.sock'
+ *
+ * const node = await createLibp2p({
+ *   addresses: {
+ *     listen: [`/unix/${encodeURIComponent(socketPath)}`]
+ *   },
+ *   transports: [
+ *     tcp({
+ *       unix: {
+ *         // only processes running as the same user may connect
+ *         mode: 0o600
+ *       }
+ *     })
+ *   ]
+ * })
+ *
+ * // in another process
+ * const client = await createLibp2p({
+ *   transports: [
+ *     tcp()
+ *   ]
+ * })
+ *
+ * const connection = await client.dial(multiaddr(`/unix/${encodeURIComponent(socketPath)}`))
+ * ```
  */
 
 import net from 'net'
 import { AbortError, CodeError, transportSymbol } from '@libp2p/interface'
+import { isLoopback } from '@libp2p/utils/multiaddr/is-loopback'
 import * as mafmt from '@multiformats/mafmt'
+import { multiaddr } from '@multiformats/multiaddr'
 import { CODE_CIRCUIT, CODE_P2P, CODE_UNIX } from './constants.js'
-import { type CloseServerOnMaxConnectionsOpts, TCPListener } from './listener.js'
+import { type CloseServerOnMaxConnectionsOpts, TCPListener, type UnixSocketOpts } from './listener.js'
 import { toMultiaddrConnection } from './socket-to-conn.js'
-import { multiaddrToNetConfig } from './utils.js'
+import { createReusePortSocket, isAnyAddr, multiaddrToNetConfig, supportsReusePort } from './utils.js'
 import type { ComponentLogger, Logger, Connection, CounterGroup, Metrics, CreateListenerOptions, DialOptions, Transport, Listener } from '@libp2p/interface'
 import type { AbortOptions, Multiaddr } from '@multiformats/multiaddr'
-import type { Socket, IpcSocketConnectOpts, TcpSocketConnectOpts } from 'net'
+import type { AddressInfo, Socket, IpcSocketConnectOpts, TcpSocketConnectOpts } from 'net'
 
 export interface TCPOptions {
   /**
@@ -81,6 +162,18 @@ export interface TCPOptions {
    * Options passed to every `net.createServer` for every TCP server
    */
   listenOpts?: TCPSocketOptions
+
+  /**
+   * If true, listeners set `SO_REUSEPORT` and outbound dials are bound to the
+   * port of a listener with the same address family. Requires Node.js 22.12.0
+   * or later. (default: false)
+   */
+  reusePort?: boolean
+
+  /**
+   * Options that apply when listening on `/unix` addresses
+   */
+  unix?: UnixSocketOpts
 }
 
 /**
@@ -130,11 +223,17 @@ class TCP implements Transport {
   private readonly metrics?: TCPMetrics
   private readonly components: TCPComponents
   private readonly log: Logger
+  private readonly listeners: Set<TCPListener>
 
   constructor (components: TCPComponents, options: TCPOptions = {}) {
     this.log = components.logger.forComponent('libp2p:tcp')
     this.opts = options
     this.components = components
+    this.listeners = new Set()
+
+    if (options.reusePort === true && !supportsReusePort()) {
+      throw new CodeError('Port reuse requires Node.js 22.12.0 or later', 'ERR_REUSE_PORT_UNSUPPORTED')
+    }
 
     if (components.metrics != null) {
       this.metrics = {
@@ -178,7 +277,9 @@ class TCP implements Transport {
     options.signal?.addEventListener('abort', onAbort, { once: true })
 
     this.log('new outbound connection %s', maConn.remoteAddr)
-    const conn = await options.upgrader.upgradeOutbound(maConn)
+    const conn = await options.upgrader.upgradeOutbound(maConn, {
+      simultaneousConnect: options.simultaneousConnect
+    })
     this.log('outbound connection %s upgraded', maConn.remoteAddr)
 
     options.signal?.removeEventListener('abort', onAbort)
@@ -199,6 +300,37 @@ class TCP implements Transport {
       throw new AbortError()
     }
 
+    return this._connectSocket(ma, options, this.findReusableAddress(ma))
+  }
+
+  /**
+   * Returns the address of a listener that an outbound dial to the passed
+   * address should be bound to, if port reuse is enabled
+   */
+  private findReusableAddress (ma: Multiaddr): AddressInfo | undefined {
+    if (this.opts.reusePort !== true || ma.getPath() != null) {
+      return
+    }
+
+    const { family } = ma.toOptions()
+    const loopback = isLoopback(ma)
+
+    for (const listener of this.listeners) {
+      const address = listener.getBoundAddress()
+
+      if (address == null || address.family !== `IPv${family}`) {
+        continue
+      }
+
+      // a socket bound to a loopback address can only reach other loopback
+      // addresses and vice versa
+      if (isAnyAddr(address.address) || isLoopback(listenerAddress(address)) === loopback) {
+        return address
+      }
+    }
+  }
+
+  async _connectSocket (ma: Multiaddr, options: TCPDialOptions, localAddress?: AddressInfo): Promise<Socket> {
     return new Promise<Socket>((resolve, reject) => {
       const start = Date.now()
       const cOpts = multiaddrToNetConfig(ma, {
@@ -206,8 +338,23 @@ class TCP implements Transport {
         ...options
       }) as (IpcSocketConnectOpts & TcpSocketConnectOpts)
 
-      this.log('dialing %a', ma)
-      const rawSocket = net.connect(cOpts)
+      let rawSocket: Socket
+
+      if (localAddress != null) {
+        this.log('dialing %a from port %d', ma, localAddress.port)
+
+        try {
+          rawSocket = createReusePortSocket(localAddress)
+        } catch (err) {
+          this.metrics?.dialerEvents.increment({ error: true })
+          reject(err); return
+        }
+
+        rawSocket.connect(cOpts)
+      } else {
+        this.log('dialing %a', ma)
+        rawSocket = net.connect(cOpts)
+      }
 
       const onError = (err: Error): void => {
         const cOptsStr = cOpts.path ?? `${cOpts.host ?? ''}:${cOpts.port}`
@@ -271,17 +418,29 @@ class TCP implements Transport {
    * `upgrader.upgradeInbound`.
    */
   createListener (options: TCPCreateListenerOptions): Listener {
-    return new TCPListener({
+    const listener = new TCPListener({
       ...(this.opts.listenOpts ?? {}),
       ...options,
       maxConnections: this.opts.maxConnections,
       backlog: this.opts.backlog,
       closeServerOnMaxConnections: this.opts.closeServerOnMaxConnections,
+      unix: this.opts.unix,
+      reusePort: this.opts.reusePort,
       socketInactivityTimeout: this.opts.inboundSocketInactivityTimeout,
       socketCloseTimeout: this.opts.socketCloseTimeout,
       metrics: this.components.metrics,
       logger: this.components.logger
     })
+
+    // keep track of listeners so outbound dials can reuse their ports
+    this.listeners.add(listener)
+    listener.addEventListener('close', () => {
+      this.listeners.delete(listener)
+    }, {
+      once: true
+    })
+
+    return listener
   }
 
   /**
@@ -295,8 +454,12 @@ class TCP implements Transport {
         return false
       }
 
+      // a unix socket path cannot be encapsulated in anything other than a
+      // peer id
       if (ma.protoCodes().includes(CODE_UNIX)) {
-        return true
+        const codes = ma.decapsulateCode(CODE_P2P).protoCodes()
+
+        return codes.length === 1 && codes[0] === CODE_UNIX
       }
 
       return mafmt.TCP.matches(ma.decapsulateCode(CODE_P2P))
@@ -304,6 +467,10 @@ class TCP implements Transport {
   }
 }
 
+function listenerAddress (address: AddressInfo): Multiaddr {
+  return multiaddr(`/${address.family === 'IPv6' ? 'ip6' : 'ip4'}/${address.address}/tcp/${address.port}`)
+}
+
 export function tcp (init: TCPOptions = {}): (components: TCPComponents) => Transport {
   return (components: TCPComponents) => {
     return new TCP(components, init)
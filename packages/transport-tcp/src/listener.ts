@@ -1,15 +1,19 @@
+import fs from 'fs/promises'
 import net from 'net'
+import os from 'os'
 import { CodeError, TypedEventEmitter } from '@libp2p/interface'
 import { CODE_P2P } from './constants.js'
 import { toMultiaddrConnection } from './socket-to-conn.js'
 import {
   getMultiaddrs,
+  isStaleSocket,
   multiaddrToNetConfig,
   type NetConfig
 } from './utils.js'
 import type { TCPCreateListenerOptions } from './index.js'
 import type { ComponentLogger, Logger, LoggerOptions, MultiaddrConnection, Connection, CounterGroup, MetricGroup, Metrics, Listener, ListenerEvents, Upgrader } from '@libp2p/interface'
 import type { Multiaddr } from '@multiformats/multiaddr'
+import type { AddressInfo } from 'net'
 
 /**
  * Attempts to close the given maConn. If a failure occurs, it will be logged
@@ -40,6 +44,22 @@ export interface CloseServerOnMaxConnectionsOpts {
   onListenError?(err: Error): void
 }
 
+export interface UnixSocketOpts {
+  /**
+   * File permissions to apply to the socket file once the server is
+   * listening, e.g. `0o600` to only allow processes running as the same user
+   * to connect
+   */
+  mode?: number
+
+  /**
+   * If a socket file exists at the listen path but nothing is accepting
+   * connections on it, the process that created it exited without closing its
+   * server so remove the file before listening (default: true)
+   */
+  removeStale?: boolean
+}
+
 interface Context extends TCPCreateListenerOptions {
   handler?(conn: Connection): void
   upgrader: Upgrader
@@ -49,6 +69,8 @@ interface Context extends TCPCreateListenerOptions {
   backlog?: number
   metrics?: Metrics
   closeServerOnMaxConnections?: CloseServerOnMaxConnectionsOpts
+  unix?: UnixSocketOpts
+  reusePort?: boolean
   logger: ComponentLogger
 }
 
@@ -302,6 +324,24 @@ export class TCPListener extends TypedEventEmitter<ListenerEvents> implements Li
     return addrs.map(ma => peerId != null ? ma.encapsulate(`/p2p/${peerId}`) : ma)
   }
 
+  /**
+   * The address and port the server socket is bound to, if it is listening on
+   * a TCP port
+   */
+  getBoundAddress (): AddressInfo | undefined {
+    if (this.status.code !== TCPListenerStatusCode.ACTIVE || !this.server.listening) {
+      return
+    }
+
+    const address = this.server.address()
+
+    if (address == null || typeof address === 'string') {
+      return
+    }
+
+    return address
+  }
+
   async listen (ma: Multiaddr): Promise<void> {
     if (this.status.code === TCPListenerStatusCode.ACTIVE || this.status.code === TCPListenerStatusCode.PAUSED) {
       throw new CodeError('server is already listening', 'ERR_SERVER_ALREADY_LISTENING')
@@ -347,14 +387,47 @@ export class TCPListener extends TypedEventEmitter<ListenerEvents> implements Li
     }
 
     const netConfig = this.status.netConfig
+    // named pipes on windows are not files
+    const socketPath = os.platform() !== 'win32' && 'path' in netConfig ? netConfig.path : undefined
+
+    if (socketPath != null && this.context.unix?.removeStale !== false && await isStaleSocket(socketPath)) {
+      this.log('removing stale socket file %s', socketPath)
+      await fs.unlink(socketPath)
+    }
 
     await new Promise<void>((resolve, reject) => {
       // NOTE: 'listening' event is only fired on success. Any error such as
       // port already bound, is emitted via 'error'
       this.server.once('error', reject)
-      this.server.listen(netConfig, resolve)
+      // `reusePort` is missing from the ListenOptions type of @types/node@20
+      const listenOpts: NetConfig & { reusePort?: boolean } = { ...netConfig }
+
+      if (this.context.reusePort === true && !('path' in netConfig)) {
+        listenOpts.reusePort = true
+      }
+
+      this.server.listen(listenOpts, resolve)
     })
 
+    if (socketPath != null && this.context.unix?.mode != null) {
+      try {
+        await fs.chmod(socketPath, this.context.unix.mode)
+      } catch (err) {
+        // closing the server removes the socket file
+        await new Promise<void>((resolve) => {
+          this.server.close((closeErr) => {
+            if (closeErr != null) {
+              this.log.error('error closing server after failing to set socket permissions', closeErr)
+            }
+
+            resolve()
+          })
+        })
+
+        throw err
+      }
+    }
+
     this.status = { ...this.status, code: TCPListenerStatusCode.ACTIVE }
     this.log('listening on %s', this.server.address())
   }
@@ -1,8 +1,12 @@
+import fs from 'fs/promises'
+import net from 'net'
 import os from 'os'
 import path from 'path'
+import { getSystemErrorName } from 'util'
+import { CodeError } from '@libp2p/interface'
 import { multiaddr } from '@multiformats/multiaddr'
 import type { Multiaddr } from '@multiformats/multiaddr'
-import type { ListenOptions, IpcSocketConnectOpts, TcpSocketConnectOpts } from 'net'
+import type { AddressInfo, ListenOptions, IpcSocketConnectOpts, SocketConstructorOpts, TcpSocketConnectOpts } from 'net'
 
 const ProtoFamily = { ip4: 'IPv4', ip6: 'IPv6' }
 
@@ -15,9 +19,9 @@ export function multiaddrToNetConfig (addr: Multiaddr, config: NetConfig = {}):
   if (listenPath != null) {
     if (os.platform() === 'win32') {
       // Use named pipes on Windows systems.
-      return { path: path.join('\\\\.\\pipe\\', listenPath) }
+      return { ...config, path: path.join('\\\\.\\pipe\\', listenPath) }
     } else {
-      return { path: listenPath }
+      return { ...config, path: listenPath }
     }
   }
 
@@ -25,6 +29,110 @@ export function multiaddrToNetConfig (addr: Multiaddr, config: NetConfig = {}):
   return { ...config, ...addr.toOptions() }
 }
 
+/**
+ * Returns true if a unix domain socket file exists at the passed path but
+ * nothing is accepting connections on it, which happens when a process exits
+ * without closing its server
+ */
+export async function isStaleSocket (socketPath: string): Promise<boolean> {
+  try {
+    const stats = await fs.lstat(socketPath)
+
+    // never remove anything that is not a socket
+    if (!stats.isSocket()) {
+      return false
+    }
+  } catch (err: any) {
+    if (err.code === 'ENOENT') {
+      return false
+    }
+
+    throw err
+  }
+
+  return new Promise<boolean>((resolve) => {
+    const socket = net.connect({ path: socketPath })
+
+    socket.once('connect', () => {
+      socket.destroy()
+      resolve(false)
+    })
+    socket.once('error', (err: any) => {
+      resolve(err.code === 'ECONNREFUSED')
+    })
+  })
+}
+
+interface TCPHandle {
+  bind(address: string, port: number, flags: number): number
+  bind6(address: string, port: number, flags: number): number
+  close(): void
+}
+
+interface TCPWrap {
+  TCP: new (type: number) => TCPHandle
+  constants: {
+    SOCKET: number
+    UV_TCP_REUSEPORT?: number
+  }
+}
+
+/**
+ * Node.js can only set `SO_REUSEPORT` on server sockets (the `reusePort`
+ * option of `server.listen` was added in v22.12.0 and v23.1.0) so outgoing
+ * sockets are created from the same kind of handle and bound with the flag
+ * before connecting. Returns undefined if the runtime does not support it.
+ */
+function getTCPWrap (): TCPWrap | undefined {
+  try {
+    // there is no public API to create a socket handle before connecting
+    // eslint-disable-next-line n/no-deprecated-api
+    const tcpWrap = (process as unknown as { binding(name: string): TCPWrap }).binding('tcp_wrap')
+
+    if (tcpWrap.constants.UV_TCP_REUSEPORT != null) {
+      return tcpWrap
+    }
+  } catch {}
+}
+
+/**
+ * Returns true if listening and outgoing sockets can share a port
+ */
+export function supportsReusePort (): boolean {
+  return getTCPWrap() != null
+}
+
+/**
+ * Returns an unconnected socket bound to the passed address with
+ * `SO_REUSEADDR` and `SO_REUSEPORT` set, so it can use the port of a server
+ * that was listening with `reusePort`
+ */
+export function createReusePortSocket (address: AddressInfo): net.Socket {
+  const tcpWrap = getTCPWrap()
+
+  if (tcpWrap?.constants.UV_TCP_REUSEPORT == null) {
+    throw new CodeError('Port reuse requires Node.js 22.12.0 or later', 'ERR_REUSE_PORT_UNSUPPORTED')
+  }
+
+  const handle = new tcpWrap.TCP(tcpWrap.constants.SOCKET)
+  const err = address.family === 'IPv6'
+    ? handle.bind6(address.address, address.port, tcpWrap.constants.UV_TCP_REUSEPORT)
+    : handle.bind(address.address, address.port, tcpWrap.constants.UV_TCP_REUSEPORT)
+
+  if (err !== 0) {
+    handle.close()
+    throw new CodeError(`Could not bind outgoing socket to ${address.address}:${address.port} - ${getSystemErrorName(err)}`, 'ERR_REUSE_PORT_FAILED')
+  }
+
+  // the socket must not start reading from the handle until it has connected
+  const opts: SocketConstructorOpts & { handle: TCPHandle, manualStart: boolean } = {
+    handle,
+    manualStart: true
+  }
+
+  return new net.Socket(opts)
+}
+
 export function getMultiaddrs (proto: 'ip4' | 'ip6', ip: string, port: number): Multiaddr[] {
   const toMa = (ip: string): Multiaddr => multiaddr(`/${proto}/${ip}/tcp/${port}`)
   return (isAnyAddr(ip) ? getNetworkAddrs(ProtoFamily[proto]) : [ip]).map(toMa)
@@ -7,7 +7,7 @@ import type { Transport } from '@libp2p/interface'
 describe('filter addrs', () => {
   const base = '/ip4/127.0.0.1'
   const ipfs = '/ipfs/Qmb6owHp6eaWArVbcJJbQSyifyJBttMMjYV76N2hMbf5Vw'
-  const unix = '/tmp/some/file.sock'
+  const unix = encodeURIComponent('/tmp/some/file.sock')
 
   let transport: Transport
 
@@ -26,7 +26,7 @@ describe('filter addrs', () => {
     const ma6 = multiaddr('/ip4/127.0.0.1/tcp/9090/p2p-circuit' + ipfs)
     const ma7 = multiaddr('/dns4/libp2p.io/tcp/9090')
     const ma8 = multiaddr('/dnsaddr/libp2p.io/tcp/9090')
-    const ma9 = multiaddr('/unix' + unix)
+    const ma9 = multiaddr('/unix/' + unix)
 
     const valid = transport.filter([ma1, ma2, ma3, ma4, ma5, ma6, ma7, ma8, ma9])
     expect(valid.length).to.equal(5)
@@ -35,6 +35,16 @@ describe('filter addrs', () => {
     expect(valid[4]).to.deep.equal(ma9)
   })
 
+  it('filter unix socket addrs for this transport', () => {
+    const ma1 = multiaddr('/unix/' + unix)
+    const ma2 = multiaddr('/unix/' + unix + ipfs)
+    const ma3 = multiaddr('/unix/' + unix + '/tcp/9090')
+    const ma4 = multiaddr(base + '/tcp/9090/unix/' + unix)
+
+    const valid = transport.filter([ma1, ma2, ma3, ma4])
+    expect(valid).to.deep.equal([ma1, ma2])
+  })
+
   it('filter a single addr for this transport', () => {
     const ma1 = multiaddr(base + '/tcp/9090')
 
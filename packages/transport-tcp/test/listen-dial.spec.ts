@@ -1,3 +1,5 @@
+import { spawn } from 'child_process'
+import fs from 'fs'
 import os from 'os'
 import path from 'path'
 import { TypedEventEmitter } from '@libp2p/interface'
@@ -8,8 +10,10 @@ import { expect } from 'aegir/chai'
 import all from 'it-all'
 import { pipe } from 'it-pipe'
 import pDefer from 'p-defer'
+import sinon from 'sinon'
 import { fromString as uint8ArrayFromString } from 'uint8arrays/from-string'
 import { tcp } from '../src/index.js'
+import { supportsReusePort } from '../src/utils.js'
 import type { MultiaddrConnection, Transport, Upgrader } from '@libp2p/interface'
 
 const isCI = process.env.CI
@@ -39,7 +43,7 @@ describe('listen', () => {
   })
 
   it('listen on path', async () => {
-    const mh = multiaddr(`/unix/${path.resolve(os.tmpdir(), `/tmp/p2pd-${Date.now()}.sock`)}`)
+    const mh = multiaddr(`/unix/${encodeURIComponent(path.resolve(os.tmpdir(), `p2pd-${Date.now()}.sock`))}`)
 
     listener = transport.createListener({
       upgrader
@@ -47,6 +51,116 @@ describe('listen', () => {
     await listener.listen(mh)
   })
 
+  it('removes the socket file when closing', async () => {
+    const socketPath = path.resolve(os.tmpdir(), `p2pd-${Date.now()}.sock`)
+
+    listener = transport.createListener({
+      upgrader
+    })
+    await listener.listen(multiaddr(`/unix/${encodeURIComponent(socketPath)}`))
+    expect(fs.existsSync(socketPath)).to.be.true()
+
+    await listener.close()
+    expect(fs.existsSync(socketPath)).to.be.false()
+  })
+
+  it('removes a stale socket file before listening', async () => {
+    if (os.platform() === 'win32') {
+      return
+    }
+
+    const socketPath = path.resolve(os.tmpdir(), `p2pd-${Date.now()}.sock`)
+
+    // a process that is killed leaves its socket file behind
+    const child = spawn(process.execPath, ['-e', `
+      require('net').createServer().listen(${JSON.stringify(socketPath)}, () => {
+        console.log('listening')
+      })
+    `])
+    await new Promise(resolve => child.stdout.once('data', resolve))
+    child.kill('SIGKILL')
+    await new Promise(resolve => child.once('exit', resolve))
+    expect(fs.existsSync(socketPath)).to.be.true()
+
+    listener = transport.createListener({
+      upgrader
+    })
+    await listener.listen(multiaddr(`/unix/${encodeURIComponent(socketPath)}`))
+    expect(listener.getAddrs()).to.have.lengthOf(1)
+  })
+
+  it('errors when listening on a socket that is in use', async () => {
+    if (os.platform() === 'win32') {
+      return
+    }
+
+    const ma = multiaddr(`/unix/${encodeURIComponent(path.resolve(os.tmpdir(), `p2pd-${Date.now()}.sock`))}`)
+
+    listener = transport.createListener({
+      upgrader
+    })
+    await listener.listen(ma)
+
+    const listener2 = transport.createListener({
+      upgrader
+    })
+
+    await expect(listener2.listen(ma)).to.eventually.be.rejected()
+      .with.property('code', 'EADDRINUSE')
+  })
+
+  it('sets the permissions of the socket file', async () => {
+    if (os.platform() === 'win32') {
+      return
+    }
+
+    const socketPath = path.resolve(os.tmpdir(), `p2pd-${Date.now()}.sock`)
+
+    transport = tcp({
+      unix: {
+        mode: 0o600
+      }
+    })({
+      logger: defaultLogger()
+    })
+    listener = transport.createListener({
+      upgrader
+    })
+    await listener.listen(multiaddr(`/unix/${encodeURIComponent(socketPath)}`))
+
+    expect(fs.statSync(socketPath).mode & 0o777).to.equal(0o600)
+  })
+
+  it('closes the server when the socket permissions cannot be set', async () => {
+    if (os.platform() === 'win32') {
+      return
+    }
+
+    const socketPath = path.resolve(os.tmpdir(), `p2pd-${Date.now()}.sock`)
+
+    transport = tcp({
+      unix: {
+        // not a valid file mode
+        mode: -1
+      }
+    })({
+      logger: defaultLogger()
+    })
+    listener = transport.createListener({
+      upgrader
+    })
+
+    let closed = false
+    listener.server.once('close', () => {
+      closed = true
+    })
+
+    await expect(listener.listen(multiaddr(`/unix/${encodeURIComponent(socketPath)}`))).to.eventually.be.rejected()
+      .with.property('code', 'ERR_OUT_OF_RANGE')
+    expect(closed).to.be.true('server was not closed before listen rejected')
+    expect(fs.existsSync(socketPath)).to.be.false()
+  })
+
   it('listen on port 0', async () => {
     const mh = multiaddr('/ip4/127.0.0.1/tcp/0')
     listener = transport.createListener({
@@ -234,7 +348,7 @@ describe('dial', () => {
   })
 
   it('dial on path', async () => {
-    const ma = multiaddr(`/unix/${path.resolve(os.tmpdir(), `/tmp/p2pd-${Date.now()}.sock`)}`)
+    const ma = multiaddr(`/unix/${encodeURIComponent(path.resolve(os.tmpdir(), `p2pd-${Date.now()}.sock`))}`)
 
     const listener = transport.createListener({
       upgrader
@@ -390,4 +504,56 @@ describe('dial', () => {
 
     await listener.close()
   })
+
+  it('dials from the listening port when reusing ports', async function () {
+    if (!supportsReusePort()) {
+      return this.skip()
+    }
+
+    const dialer = tcp({
+      reusePort: true
+    })({
+      logger: defaultLogger()
+    })
+    const dialerListener = dialer.createListener({
+      upgrader
+    })
+    await dialerListener.listen(multiaddr('/ip4/127.0.0.1/tcp/0'))
+    const dialerPort = dialerListener.getAddrs()[0].toOptions().port
+
+    const upgradeInboundSpy = sinon.spy(upgrader, 'upgradeInbound')
+    const listener = transport.createListener({
+      upgrader
+    })
+    await listener.listen(multiaddr('/ip4/127.0.0.1/tcp/0'))
+
+    const conn = await dialer.dial(listener.getAddrs()[0], {
+      upgrader
+    })
+
+    const remotePort = upgradeInboundSpy.getCall(0).args[0].remoteAddr.toOptions().port
+    expect(remotePort).to.equal(dialerPort)
+
+    // the listener still accepts connections while dials use its port
+    const inbound = await transport.dial(dialerListener.getAddrs()[0], {
+      upgrader
+    })
+
+    await inbound.close()
+    await conn.close()
+    await listener.close()
+    await dialerListener.close()
+  })
+
+  it('throws when reusing ports is not supported', async function () {
+    if (supportsReusePort()) {
+      return this.skip()
+    }
+
+    expect(() => tcp({
+      reusePort: true
+    })({
+      logger: defaultLogger()
+    })).to.throw().with.property('code', 'ERR_REUSE_PORT_UNSUPPORTED')
+  })
 })
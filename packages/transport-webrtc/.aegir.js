@@ -9,8 +9,8 @@ export default {
       const { createLibp2p } = await import('libp2p')
       const { circuitRelayServer } = await import('@libp2p/circuit-relay-v2')
       const { webSockets } = await import('@libp2p/websockets')
-      const { noise } = await import('@chainsafe/libp2p-noise')
-      const { yamux } = await import('@chainsafe/libp2p-yamux')
+      const { noise } = await import('@libp2p/noise')
+      const { yamux } = await import('@libp2p/yamux')
 
       // start a relay node for use in the tests
       const relay = await createLibp2p({
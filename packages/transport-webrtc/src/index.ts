@@ -25,9 +25,7 @@
  *
  * WebRTC is supported in both Node.js and browsers.
  *
- * At the time of writing, WebRTC Direct is dial-only in browsers and not supported in Node.js at all.
- *
- * Support in Node.js is possible but PRs will need to be opened to [libdatachannel](https://github.com/paullouisageneau/libdatachannel) and the appropriate APIs exposed in [node-datachannel](https://github.com/murat-dogan/node-datachannel).
+ * WebRTC Direct is dial-only in browsers. In Node.js it can both dial and listen, so browsers can connect directly to Node.js servers.
  *
  * For both WebRTC and WebRTC Direct, support is arriving soon in go-libp2p but they are unsupported in rust-libp2p.
  *
@@ -38,8 +36,8 @@
  * WebRTC requires use of a relay to connect two nodes. The listener first discovers a relay server and makes a reservation, then the dialer can connect via the relayed address.
  *
  * ```TypeScript
- * import { noise } from '@chainsafe/libp2p-noise'
- * import { yamux } from '@chainsafe/libp2p-yamux'
+ * import { noise } from '@libp2p/noise'
+ * import { yamux } from '@libp2p/yamux'
  * import { echo } from '@libp2p/echo'
  * import { circuitRelayTransport, circuitRelayServer } from '@libp2p/circuit-relay-v2'
  * import { identify } from '@libp2p/identify'
@@ -150,13 +148,11 @@
  *
  * @example WebRTC Direct
  *
- * At the time of writing WebRTC Direct is dial-only in browsers and unsupported in Node.js.
- *
- * The only implementation that supports a WebRTC Direct listener is go-libp2p and it's not yet enabled by default.
+ * WebRTC Direct is dial-only in browsers, the remote must be a Node.js or go-libp2p node with a WebRTC Direct listener.
  *
  * ```TypeScript
  * import { createLibp2p } from 'libp2p'
- * import { noise } from '@chainsafe/libp2p-noise'
+ * import { noise } from '@libp2p/noise'
  * import { multiaddr } from '@multiformats/multiaddr'
  * import { pipe } from 'it-pipe'
  * import { fromString, toString } from 'uint8arrays'
@@ -189,6 +185,38 @@
  *   }
  * )
  * ```
+ *
+ * @example WebRTC Direct listener
+ *
+ * In Node.js a WebRTC Direct listener accepts connections on a single UDP port.
+ *
+ * Its addresses contain the certhash of a self-signed certificate. The certificate is stored in the datastore so the addresses stay the same across restarts. Before it expires the next certificate is generated and its certhash is advertised alongside the current one, so peers learn the new addresses before they are needed. Once the current certificate expires the listener switches to the next certificate and stops advertising the old certhash.
+ *
+ * ```TypeScript
+ * import { createLibp2p } from 'libp2p'
+ * import { noise } from '@libp2p/noise'
+ * import { webRTCDirect } from '@libp2p/webrtc'
+ *
+ * const node = await createLibp2p({
+ *   addresses: {
+ *     listen: ['/ip4/0.0.0.0/udp/0/webrtc-direct']
+ *   },
+ *   transports: [
+ *     webRTCDirect({
+ *       // new certificates are valid for 14 days
+ *       certificateLifespan: 14 * 24 * 60 * 60 * 1000,
+ *       // and the next certificate is advertised a day before they expire
+ *       certificateRenewalThreshold: 24 * 60 * 60 * 1000
+ *     })
+ *   ],
+ *   connectionEncryption: [
+ *     noise()
+ *   ]
+ * })
+ *
+ * // e.g. /ip4/123.123.123.123/udp/12345/webrtc-direct/certhash/uEiB.../p2p/12D3Koo...
+ * console.info(node.getMultiaddrs())
+ * ```
  */
 
 import { WebRTCTransport } from './private-to-private/transport.js'
@@ -242,6 +270,8 @@ export interface DataChannelOptions {
  * @param {number} init.dataChannel.maxMessageSize - Max message size that can be sent through the DataChannel. Larger messages will be chunked into smaller messages below this size (default 16kb)
  * @param {number} init.dataChannel.maxBufferedAmount - Max buffered amount a DataChannel can have (default 16mb)
  * @param {number} init.dataChannel.bufferedAmountLowEventTimeout - If max buffered amount is reached, this is the max time that is waited before the buffer is cleared (default 30 seconds)
+ * @param {number} init.certificateLifespan - How long newly generated listener certificates are valid for (default 14 days)
+ * @param {number} init.certificateRenewalThreshold - Listener certificates are replaced when they are this close to expiring (default 1 day)
  * @returns
  */
 function webRTCDirect (init?: WebRTCTransportDirectInit): (components: WebRTCDirectTransportComponents) => Transport {
@@ -80,6 +80,7 @@ export class DataChannelMuxerFactory implements StreamMuxerFactory {
           bufferedStream.onEnd(err)
         },
         logger: components.logger,
+        metrics: this.metrics,
         ...this.dataChannelOptions
       })
 
@@ -163,6 +164,7 @@ export class DataChannelMuxer implements StreamMuxer {
           this.#onStreamEnd(stream, channel)
         },
         logger: this.logger,
+        metrics: this.metrics,
         ...this.dataChannelOptions
       })
 
@@ -252,6 +254,7 @@ export class DataChannelMuxer implements StreamMuxer {
         this.#onStreamEnd(stream, channel)
       },
       logger: this.logger,
+      metrics: this.metrics,
       ...this.dataChannelOptions
     })
     this.streams.push(stream)
@@ -71,8 +71,14 @@ export async function initiateConnection ({ peerConnection, signal, metrics, mul
       // initiation but can be useful for debugging
       const channel = peerConnection.createDataChannel('init')
 
-      // setup callback to write ICE candidates to the remote peer
-      peerConnection.onicecandidate = ({ candidate }) => {
+      // the remote starts connectivity checks as soon as it has our candidates.
+      // If they succeed before we have read its answer the DTLS handshake
+      // fails because we do not know the fingerprint of its certificate yet,
+      // so candidates are only sent once the answer has been applied
+      const pendingCandidates: Array<RTCIceCandidate | null> = []
+      let answered = false
+
+      const sendCandidate = (candidate: RTCIceCandidate | null): void => {
         // a null candidate means end-of-candidates, an empty string candidate
         // means end-of-candidates for this generation, otherwise this should
         // be a valid candidate object
@@ -91,6 +97,15 @@ export async function initiateConnection ({ peerConnection, signal, metrics, mul
             log.error('error sending ICE candidate', err)
           })
       }
+
+      // setup callback to write ICE candidates to the remote peer
+      peerConnection.onicecandidate = ({ candidate }) => {
+        if (answered) {
+          sendCandidate(candidate)
+        } else {
+          pendingCandidates.push(candidate)
+        }
+      }
       peerConnection.onicecandidateerror = (event) => {
         log.error('initiator ICE candidate error', event)
       }
@@ -131,6 +146,9 @@ export async function initiateConnection ({ peerConnection, signal, metrics, mul
         throw new CodeError('Failed to set remoteDescription', 'ERR_SDP_HANDSHAKE_FAILED')
       })
 
+      answered = true
+      pendingCandidates.splice(0).forEach(sendCandidate)
+
       log.trace('initiator read candidates until connected')
 
       await readCandidatesUntilConnected(peerConnection, messageStream, {
@@ -0,0 +1,18 @@
+import { unimplemented } from '../error.js'
+import type { TransportCertificate } from './certificate.js'
+import type { Datastore, Key } from 'interface-datastore'
+
+/**
+ * Certificates are only needed by listeners, which browsers do not support
+ */
+export async function generateCertificate (lifespan: number): Promise<TransportCertificate> {
+  throw unimplemented('generateCertificate')
+}
+
+export async function loadCertificate (datastore: Datastore, key?: Key): Promise<TransportCertificate | undefined> {
+  throw unimplemented('loadCertificate')
+}
+
+export async function storeCertificate (datastore: Datastore, certificate: TransportCertificate, key?: Key): Promise<void> {
+  throw unimplemented('storeCertificate')
+}
@@ -0,0 +1,141 @@
+import { Crypto } from '@peculiar/webcrypto'
+import * as x509 from '@peculiar/x509'
+import { Key } from 'interface-datastore'
+import { base64url } from 'multiformats/bases/base64'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { fromString as uint8arrayFromString } from 'uint8arrays/from-string'
+import { toString as uint8arrayToString } from 'uint8arrays/to-string'
+import type { Datastore } from 'interface-datastore'
+
+const crypto = new Crypto()
+x509.cryptoProvider.set(crypto)
+
+/**
+ * The datastore key the listener certificate is stored under
+ */
+export const CERTIFICATE_KEY = new Key('/libp2p/webrtc-direct/certificate')
+
+/**
+ * The datastore key the certificate that will replace the listener
+ * certificate when it expires is stored under
+ */
+export const NEXT_CERTIFICATE_KEY = new Key('/libp2p/webrtc-direct/next-certificate')
+
+/**
+ * The certificate is backdated to allow for clock skew between peers
+ */
+const CERTIFICATE_NOT_BEFORE_SKEW = 60 * 60 * 1000
+
+export interface TransportCertificate {
+  /**
+   * The PEM encoded certificate
+   */
+  pem: string
+
+  /**
+   * The PEM encoded PKCS#8 private key of the certificate
+   */
+  privateKey: string
+
+  /**
+   * The multibase encoded sha2-256 multihash of the DER encoded certificate,
+   * as it appears in `/certhash` multiaddr components
+   */
+  certhash: string
+
+  /**
+   * When the certificate expires, in ms since the epoch
+   */
+  notAfter: number
+}
+
+/**
+ * The certificates a listener uses
+ */
+export interface ListenerCertificates {
+  /**
+   * The certificate presented to dialers
+   */
+  current: TransportCertificate
+
+  /**
+   * The certificate that will replace the current one when it expires. Its
+   * certhash is advertised alongside the current one so dialers learn the new
+   * addresses before they are needed.
+   */
+  next?: TransportCertificate
+}
+
+interface StoredCertificate {
+  pem: string
+  privateKey: string
+}
+
+/**
+ * Generate a self-signed ECDSA P-256 certificate, which is supported by every
+ * WebRTC implementation libp2p interoperates with
+ */
+export async function generateCertificate (lifespan: number): Promise<TransportCertificate> {
+  const now = Date.now()
+  const alg = {
+    name: 'ECDSA',
+    namedCurve: 'P-256',
+    hash: 'SHA-256'
+  }
+
+  const keys = await crypto.subtle.generateKey(alg, true, ['sign', 'verify'])
+  const cert = await x509.X509CertificateGenerator.createSelfSigned({
+    serialNumber: uint8arrayToString(crypto.getRandomValues(new Uint8Array(9)), 'base16'),
+    name: 'CN=libp2p-webrtc-direct',
+    notBefore: new Date(now - CERTIFICATE_NOT_BEFORE_SKEW),
+    notAfter: new Date(now + lifespan),
+    signingAlgorithm: alg,
+    keys
+  })
+
+  const privateKey = await crypto.subtle.exportKey('pkcs8', keys.privateKey)
+
+  return toTransportCertificate({
+    pem: cert.toString('pem'),
+    privateKey: x509.PemConverter.encode(privateKey, 'PRIVATE KEY')
+  })
+}
+
+/**
+ * Load a previously stored certificate, returns `undefined` if there is no
+ * stored certificate or it cannot be parsed
+ */
+export async function loadCertificate (datastore: Datastore, key: Key = CERTIFICATE_KEY): Promise<TransportCertificate | undefined> {
+  if (!(await datastore.has(key))) {
+    return
+  }
+
+  const buf = await datastore.get(key)
+
+  try {
+    const stored: StoredCertificate = JSON.parse(uint8arrayToString(buf))
+
+    return await toTransportCertificate(stored)
+  } catch {}
+}
+
+export async function storeCertificate (datastore: Datastore, certificate: TransportCertificate, key: Key = CERTIFICATE_KEY): Promise<void> {
+  const stored: StoredCertificate = {
+    pem: certificate.pem,
+    privateKey: certificate.privateKey
+  }
+
+  await datastore.put(key, uint8arrayFromString(JSON.stringify(stored)))
+}
+
+async function toTransportCertificate (stored: StoredCertificate): Promise<TransportCertificate> {
+  const cert = new x509.X509Certificate(stored.pem)
+  const digest = await sha256.digest(new Uint8Array(cert.rawData))
+
+  return {
+    pem: stored.pem,
+    privateKey: stored.privateKey,
+    certhash: base64url.encode(digest.bytes),
+    notAfter: cert.notAfter.getTime()
+  }
+}
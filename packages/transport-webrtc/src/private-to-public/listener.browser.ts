@@ -0,0 +1,21 @@
+import { TypedEventEmitter } from '@libp2p/interface'
+import { unimplemented } from '../error.js'
+import type { ListenerEvents, Listener } from '@libp2p/interface'
+import type { Multiaddr } from '@multiformats/multiaddr'
+
+/**
+ * Browsers cannot accept incoming WebRTC Direct connections
+ */
+export class WebRTCDirectListener extends TypedEventEmitter<ListenerEvents> implements Listener {
+  async listen (ma: Multiaddr): Promise<void> {
+    throw unimplemented('WebRTCDirectTransport.createListener')
+  }
+
+  setCertificates (): void {}
+
+  getAddrs (): Multiaddr[] {
+    return []
+  }
+
+  async close (): Promise<void> {}
+}
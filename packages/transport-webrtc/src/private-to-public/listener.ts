@@ -0,0 +1,311 @@
+import { createSocket } from 'node:dgram'
+import { TypedEventEmitter } from '@libp2p/interface'
+import { noise } from '@libp2p/noise'
+import { getNetworkAddrs } from '@libp2p/utils/get-network-addrs'
+import { isAnyAddr } from '@libp2p/utils/is-any-addr'
+import { multiaddr, type Multiaddr } from '@multiformats/multiaddr'
+import * as multihashes from 'multihashes'
+import { IceUdpMuxListener, PeerConnection, type IceUdpMuxRequest } from 'node-datachannel'
+import { concat } from 'uint8arrays/concat'
+import { fromString as uint8arrayFromString } from 'uint8arrays/from-string'
+import { dataChannelError, invalidFingerprint } from '../error.js'
+import { WebRTCMultiaddrConnection } from '../maconn.js'
+import { DataChannelMuxerFactory } from '../muxer.js'
+import { createStream } from '../stream.js'
+import { RTCPeerConnection } from '../webrtc/index.js'
+import * as sdp from './sdp.js'
+import { UFRAG_PREFIX } from './util.js'
+import type { ListenerCertificates } from './certificate.js'
+import type { DataChannelOptions } from '../index.js'
+import type { ComponentLogger, CounterGroup, CreateListenerOptions, Listener, ListenerEvents, Logger, PeerId } from '@libp2p/interface'
+
+/**
+ * The time to wait, in milliseconds, for the data channel handshake to complete
+ */
+const HANDSHAKE_TIMEOUT_MS = 10_000
+
+/**
+ * libjuice binds the mux listener to a random port when asked to listen on
+ * port 0 but reports the port as 0, so find a free port to listen on instead
+ */
+async function findFreePort (host: string, family: 4 | 6): Promise<number> {
+  const socket = createSocket(family === 4 ? 'udp4' : 'udp6')
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      socket.once('error', reject)
+      socket.bind(0, host, resolve)
+    })
+
+    return socket.address().port
+  } finally {
+    socket.close()
+  }
+}
+
+export interface WebRTCDirectListenerComponents {
+  peerId: PeerId
+  logger: ComponentLogger
+}
+
+export interface WebRTCDirectListenerInit extends CreateListenerOptions {
+  /**
+   * Resolves to the certificates used by the listener, the transport may
+   * replace them while the listener is running by calling `setCertificates`
+   */
+  getCertificates(): Promise<ListenerCertificates>
+  dataChannel?: DataChannelOptions
+  metrics?: CounterGroup
+}
+
+/**
+ * Accepts WebRTC Direct connections.
+ *
+ * Dialers do not send an SDP offer. Instead they set the ufrag and password of
+ * their ICE agent to the same value and start sending STUN binding requests
+ * straight away. The listener shares one UDP port between all connections,
+ * when a binding request arrives for an ufrag it does not know it derives the
+ * dialer's offer from the request and creates a peer connection whose local
+ * ICE credentials are the dialer's ufrag so the requests can be answered.
+ */
+export class WebRTCDirectListener extends TypedEventEmitter<ListenerEvents> implements Listener {
+  private readonly log: Logger
+  private readonly components: WebRTCDirectListenerComponents
+  private readonly init: WebRTCDirectListenerInit
+  private readonly pending: Map<string, RTCPeerConnection>
+  private certificates?: ListenerCertificates
+  private muxListener?: IceUdpMuxListener
+  private listeningAddr?: Multiaddr
+  private port?: number
+
+  constructor (components: WebRTCDirectListenerComponents, init: WebRTCDirectListenerInit) {
+    super()
+
+    this.log = components.logger.forComponent('libp2p:webrtc-direct:listener')
+    this.components = components
+    this.init = init
+    this.pending = new Map()
+  }
+
+  async listen (ma: Multiaddr): Promise<void> {
+    const { host, port, family } = ma.toOptions()
+
+    this.certificates = await this.init.getCertificates()
+    this.port = port === 0 ? await findFreePort(host, family) : port
+    this.muxListener = new IceUdpMuxListener(this.port, host)
+    this.listeningAddr = ma
+
+    this.muxListener.onUnhandledStunRequest((request) => {
+      this.onStunRequest(request)
+    })
+
+    this.log('listening on %s:%d', host, this.port)
+    this.safeDispatchEvent('listening')
+  }
+
+  /**
+   * Use new certificates for incoming connections. Connections that have
+   * already been established are unaffected.
+   */
+  setCertificates (certificates: ListenerCertificates): void {
+    this.certificates = certificates
+
+    if (this.muxListener != null) {
+      // the certhashes in our addresses have changed so they need re-announcing
+      this.safeDispatchEvent('listening')
+    }
+  }
+
+  getAddrs (): Multiaddr[] {
+    if (this.listeningAddr == null || this.port == null || this.certificates == null) {
+      return []
+    }
+
+    const { host, family } = this.listeningAddr.toOptions()
+    const proto = family === 4 ? 'ip4' : 'ip6'
+    const hosts = isAnyAddr(host) ? getNetworkAddrs(family) : [host]
+    const { current, next } = this.certificates
+    const certhashes = next == null ? [current.certhash] : [current.certhash, next.certhash]
+
+    return hosts.flatMap(host => certhashes.map(certhash => multiaddr(`/${proto}/${host}/udp/${this.port}/webrtc-direct/certhash/${certhash}/p2p/${this.components.peerId}`)))
+  }
+
+  async close (): Promise<void> {
+    this.muxListener?.stop()
+    this.muxListener = undefined
+
+    for (const peerConnection of this.pending.values()) {
+      peerConnection.close()
+    }
+
+    this.pending.clear()
+    this.safeDispatchEvent('close')
+  }
+
+  private onStunRequest (request: IceUdpMuxRequest): void {
+    const { ufrag, host, port } = request
+
+    // STUN requests are retransmitted until they are answered so ignore any
+    // for connections we are already setting up
+    if (!ufrag.startsWith(UFRAG_PREFIX) || this.pending.has(ufrag)) {
+      return
+    }
+
+    this.log('incoming connection from %s:%d', host, port)
+
+    this.incomingConnection(ufrag, host, port)
+      .catch(err => {
+        this.log.error('incoming connection from %s:%d failed', host, port, err)
+        this.init.metrics?.increment({ error: true })
+      })
+  }
+
+  private async incomingConnection (ufrag: string, host: string, port: number): Promise<void> {
+    const certificate = this.certificates?.current
+    const listenPort = this.port
+
+    if (certificate == null || listenPort == null) {
+      return
+    }
+
+    const nativePeerConnection = new PeerConnection(`webrtc-direct-${ufrag}`, {
+      iceServers: [],
+      certificatePemFile: certificate.pem,
+      keyPemFile: certificate.privateKey,
+      // the dialer's certificate is not known in advance, it is authenticated
+      // by the noise handshake instead
+      disableFingerprintVerification: true,
+      disableAutoNegotiation: true,
+      enableIceUdpMux: true,
+      portRangeBegin: listenPort,
+      portRangeEnd: listenPort,
+      maxMessageSize: 16384
+    })
+    const peerConnection = new RTCPeerConnection({ peerConnection: nativePeerConnection })
+
+    this.pending.set(ufrag, peerConnection)
+
+    try {
+      const dataChannelOpenPromise = new Promise<RTCDataChannel>((resolve, reject) => {
+        const handshakeDataChannel = peerConnection.createDataChannel('', { negotiated: true, id: 0 })
+        const handshakeTimeout = setTimeout(() => {
+          reject(dataChannelError('data', `Data channel was never opened: state: ${handshakeDataChannel.readyState}`))
+        }, HANDSHAKE_TIMEOUT_MS)
+
+        handshakeDataChannel.onopen = () => {
+          clearTimeout(handshakeTimeout)
+          resolve(handshakeDataChannel)
+        }
+
+        handshakeDataChannel.onerror = (event: Event) => {
+          clearTimeout(handshakeTimeout)
+          const errorTarget = event.target?.toString() ?? 'not specified'
+          reject(dataChannelError('data', `Error opening a data channel for handshaking: ${errorTarget}`))
+        }
+      })
+
+      // the dialer set its ICE password to its ufrag and expects ours to be
+      // the same so the STUN requests it is sending can be answered
+      const offer = sdp.clientOfferFromAddress(host, port, ufrag)
+      nativePeerConnection.setRemoteDescription(offer.sdp ?? '', 'offer')
+      nativePeerConnection.setLocalDescription('answer', {
+        iceUfrag: ufrag,
+        icePwd: ufrag
+      })
+
+      const handshakeDataChannel = await dataChannelOpenPromise
+
+      // the dialer is the noise responder so its fingerprint comes first
+      const prologue = concat([
+        uint8arrayFromString('libp2p-webrtc-noise:'),
+        this.getRemoteFingerprint(nativePeerConnection),
+        sdp.mbdecoder.decode(certificate.certhash)
+      ])
+      const connectionEncrypter = noise({ prologue })(this.components)
+
+      const wrappedChannel = createStream({
+        channel: handshakeDataChannel,
+        direction: 'outbound',
+        logger: this.components.logger,
+        ...(this.init.dataChannel ?? {})
+      })
+      const wrappedDuplex = {
+        ...wrappedChannel,
+        sink: wrappedChannel.sink.bind(wrappedChannel),
+        source: (async function * () {
+          for await (const list of wrappedChannel.source) {
+            for (const buf of list) {
+              yield buf
+            }
+          }
+        }())
+      }
+
+      // creating the muxer factory before the noise handshake completes
+      // ensures data channels the dialer opens straight afterwards are seen
+      const muxerFactory = new DataChannelMuxerFactory(this.components, {
+        peerConnection,
+        metrics: this.init.metrics,
+        dataChannelOptions: this.init.dataChannel
+      })
+
+      // for inbound connections we start the noise handshake
+      const { remotePeer } = await connectionEncrypter.secureOutbound(this.components.peerId, wrappedDuplex)
+
+      const proto = host.includes(':') ? 'ip6' : 'ip4'
+      const maConn = new WebRTCMultiaddrConnection(this.components, {
+        peerConnection,
+        remoteAddr: multiaddr(`/${proto}/${host}/udp/${port}/webrtc-direct/p2p/${remotePeer}`),
+        timeline: {
+          open: Date.now()
+        },
+        metrics: this.init.metrics
+      })
+
+      peerConnection.addEventListener('connectionstatechange', () => {
+        switch (peerConnection.connectionState) {
+          case 'failed':
+          case 'disconnected':
+          case 'closed':
+            maConn.close().catch((err) => {
+              this.log.error('error closing connection', err)
+            })
+            break
+          default:
+            break
+        }
+      })
+
+      this.init.metrics?.increment({ peer_connection: true })
+
+      const connection = await this.init.upgrader.upgradeInbound(maConn, {
+        skipProtection: true,
+        skipEncryption: true,
+        muxerFactory
+      })
+
+      this.init.handler?.(connection)
+      this.safeDispatchEvent('connection', { detail: connection })
+    } catch (err) {
+      peerConnection.close()
+      throw err
+    } finally {
+      this.pending.delete(ufrag)
+    }
+  }
+
+  /**
+   * The dialer's certificate is only known once the DTLS handshake completes
+   */
+  private getRemoteFingerprint (peerConnection: PeerConnection): Uint8Array {
+    const remoteFingerprint = peerConnection.remoteFingerprint()
+
+    if (remoteFingerprint?.value == null) {
+      throw invalidFingerprint('', 'no remote fingerprint after DTLS handshake')
+    }
+
+    const fingerprint = remoteFingerprint.value.trim().toLowerCase().replaceAll(':', '')
+
+    return multihashes.encode(uint8arrayFromString(fingerprint, 'hex'), 'sha2-256')
+  }
+}
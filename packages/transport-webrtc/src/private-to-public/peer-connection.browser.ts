@@ -0,0 +1,28 @@
+import { RTCPeerConnection } from '../webrtc/index.js'
+import * as sdp from './sdp.js'
+import type { DialerPeerConnection } from './peer-connection.js'
+
+/**
+ * Create the peer connection used to dial a WebRTC Direct address
+ */
+export async function createDialerPeerConnection (ufrag: string, hash: string): Promise<DialerPeerConnection> {
+  // ECDSA is preferred over RSA here. From our testing we find that P-256 elliptic
+  // curve is supported by Pion, webrtc-rs, as well as Chromium (P-228 and P-384
+  // was not supported in Chromium). We use the same hash function as found in the
+  // multiaddr if it is supported.
+  const certificate = await RTCPeerConnection.generateCertificate({
+    name: 'ECDSA',
+    namedCurve: 'P-256',
+    hash
+  } as any)
+
+  const peerConnection = new RTCPeerConnection({ certificates: [certificate] })
+
+  return {
+    peerConnection,
+    async setLocalOffer () {
+      const offerSdp = await peerConnection.createOffer()
+      await peerConnection.setLocalDescription(sdp.munge(offerSdp, ufrag))
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { PeerConnection } from 'node-datachannel'
+import { RTCPeerConnection } from '../webrtc/index.js'
+
+export interface DialerPeerConnection {
+  peerConnection: RTCPeerConnection
+
+  /**
+   * Create the local offer with the ICE ufrag and password both set to the
+   * ufrag the peer connection was created with. This allows the remote to
+   * respond to STUN messages without performing an actual SDP exchange as it
+   * can infer the password by reading the USERNAME attribute of the STUN
+   * message.
+   */
+  setLocalOffer(): Promise<void>
+}
+
+/**
+ * The node-datachannel polyfill cannot generate certificates and ignores the
+ * SDP passed to `setLocalDescription` so the ICE credentials cannot be set by
+ * munging it. Instead the native peer connection is created with automatic
+ * negotiation disabled and the offer is created with the credentials set.
+ */
+export async function createDialerPeerConnection (ufrag: string, hash: string): Promise<DialerPeerConnection> {
+  const nativePeerConnection = new PeerConnection(`webrtc-direct-${ufrag}`, {
+    iceServers: [],
+    disableAutoNegotiation: true,
+    maxMessageSize: 16384
+  })
+  const peerConnection = new RTCPeerConnection({ peerConnection: nativePeerConnection })
+
+  return {
+    peerConnection,
+    async setLocalOffer () {
+      nativePeerConnection.setLocalDescription('offer', {
+        iceUfrag: ufrag,
+        icePwd: ufrag
+      })
+    }
+  }
+}
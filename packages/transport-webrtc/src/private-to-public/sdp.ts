@@ -143,6 +143,36 @@ export function fromMultiAddr (ma: Multiaddr, ufrag: string): RTCSessionDescript
   }
 }
 
+const PLACEHOLDER_FINGERPRINT = Array(32).fill('00').join(':')
+
+/**
+ * WebRTC Direct dialers do not send an offer, the listener learns their address
+ * and ufrag from the first STUN binding request and derives the offer from
+ * those. The dialer's certificate is not known at this point so a placeholder
+ * fingerprint is used and the real one is read after the DTLS handshake.
+ */
+export function clientOfferFromAddress (host: string, port: number, ufrag: string): RTCSessionDescriptionInit {
+  const ipVersion = host.includes(':') ? 'IP6' : 'IP4'
+
+  return {
+    type: 'offer',
+    sdp: `v=0
+o=- 0 0 IN ${ipVersion} ${host}
+s=-
+c=IN ${ipVersion} ${host}
+t=0 0
+m=application ${port} UDP/DTLS/SCTP webrtc-datachannel
+a=mid:0
+a=setup:active
+a=ice-ufrag:${ufrag}
+a=ice-pwd:${ufrag}
+a=fingerprint:sha-256 ${PLACEHOLDER_FINGERPRINT}
+a=sctp-port:5000
+a=max-message-size:16384
+a=candidate:1467250027 1 UDP 1467250027 ${host} ${port} typ host\r\n`
+  }
+}
+
 /**
  * Replace (munge) the ufrag and password values in a SDP
  */
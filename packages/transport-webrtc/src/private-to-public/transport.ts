@@ -1,28 +1,48 @@
-import { noise } from '@chainsafe/libp2p-noise'
-import { type CreateListenerOptions, transportSymbol, type Transport, type Listener, type ComponentLogger, type Logger, type Connection, type CounterGroup, type Metrics, type PeerId } from '@libp2p/interface'
+import { type CreateListenerOptions, transportSymbol, type Transport, type Listener, type ComponentLogger, type Logger, type Connection, type CounterGroup, type Metrics, type PeerId, type Startable, CodeError } from '@libp2p/interface'
+import { noise } from '@libp2p/noise'
 import * as p from '@libp2p/peer-id'
 import { protocols } from '@multiformats/multiaddr'
 import { WebRTCDirect } from '@multiformats/multiaddr-matcher'
 import * as multihashes from 'multihashes'
 import { concat } from 'uint8arrays/concat'
 import { fromString as uint8arrayFromString } from 'uint8arrays/from-string'
-import { dataChannelError, inappropriateMultiaddr, unimplemented, invalidArgument } from '../error.js'
+import { dataChannelError, inappropriateMultiaddr, invalidArgument } from '../error.js'
 import { WebRTCMultiaddrConnection } from '../maconn.js'
 import { DataChannelMuxerFactory } from '../muxer.js'
 import { createStream } from '../stream.js'
 import { isFirefox } from '../util.js'
-import { RTCPeerConnection } from '../webrtc/index.js'
+import { generateCertificate, loadCertificate, NEXT_CERTIFICATE_KEY, storeCertificate, type ListenerCertificates, type TransportCertificate } from './certificate.js'
+import { WebRTCDirectListener } from './listener.js'
+import { createDialerPeerConnection } from './peer-connection.js'
 import * as sdp from './sdp.js'
-import { genUfrag } from './util.js'
+import { UFRAG_PREFIX, genUfrag } from './util.js'
 import type { WebRTCDialOptions } from './options.js'
 import type { DataChannelOptions } from '../index.js'
+import type { RTCPeerConnection } from '../webrtc/index.js'
 import type { Multiaddr } from '@multiformats/multiaddr'
+import type { Datastore, Key } from 'interface-datastore'
 
 /**
  * The time to wait, in milliseconds, for the data channel handshake to complete
  */
 const HANDSHAKE_TIMEOUT_MS = 10_000
 
+/**
+ * Listener certificates are valid for two weeks by default
+ */
+const DEFAULT_CERTIFICATE_LIFESPAN = 14 * 24 * 60 * 60 * 1000
+
+/**
+ * The certificate that replaces a listener certificate is advertised a day
+ * before it expires by default
+ */
+const DEFAULT_CERTIFICATE_RENEWAL_THRESHOLD = 24 * 60 * 60 * 1000
+
+/**
+ * The longest delay setTimeout supports
+ */
+const MAX_TIMEOUT = 2 ** 31 - 1
+
 /**
  * Created by converting the hexadecimal protocol code to an integer.
  *
@@ -44,35 +64,82 @@ export interface WebRTCDirectTransportComponents {
   peerId: PeerId
   metrics?: Metrics
   logger: ComponentLogger
+
+  /**
+   * If present the listener certificate is stored here so the certhash in our
+   * addresses stays the same across restarts
+   */
+  datastore?: Datastore
 }
 
 export interface WebRTCMetrics {
   dialerEvents: CounterGroup
+  listenerEvents: CounterGroup
 }
 
 export interface WebRTCTransportDirectInit {
   dataChannel?: DataChannelOptions
+
+  /**
+   * How long, in ms, newly generated listener certificates are valid for
+   * (default: 14 days)
+   */
+  certificateLifespan?: number
+
+  /**
+   * When a listener certificate is this close, in ms, to expiring a new
+   * certificate is created and addresses with its certhash are advertised
+   * alongside the current ones. The new certificate replaces the current one
+   * when it expires, so this should be long enough for the new addresses to
+   * propagate through the network (default: 1 day)
+   */
+  certificateRenewalThreshold?: number
 }
 
-export class WebRTCDirectTransport implements Transport {
+export class WebRTCDirectTransport implements Transport, Startable {
   private readonly log: Logger
   private readonly metrics?: WebRTCMetrics
   private readonly components: WebRTCDirectTransportComponents
   private readonly init: WebRTCTransportDirectInit
+  private readonly certificateLifespan: number
+  private readonly certificateRenewalThreshold: number
+  private readonly listeners: Set<WebRTCDirectListener>
+  private certificates?: Promise<ListenerCertificates>
+  private renewTimeout?: ReturnType<typeof setTimeout>
+
   constructor (components: WebRTCDirectTransportComponents, init: WebRTCTransportDirectInit = {}) {
     this.log = components.logger.forComponent('libp2p:webrtc-direct')
     this.components = components
     this.init = init
+    this.certificateLifespan = init.certificateLifespan ?? DEFAULT_CERTIFICATE_LIFESPAN
+    this.certificateRenewalThreshold = init.certificateRenewalThreshold ?? DEFAULT_CERTIFICATE_RENEWAL_THRESHOLD
+    this.listeners = new Set()
+
+    if (this.certificateRenewalThreshold >= this.certificateLifespan) {
+      throw new CodeError('certificateRenewalThreshold must be less than certificateLifespan', 'ERR_INVALID_PARAMETERS')
+    }
+
     if (components.metrics != null) {
       this.metrics = {
         dialerEvents: components.metrics.registerCounterGroup('libp2p_webrtc-direct_dialer_events_total', {
           label: 'event',
           help: 'Total count of WebRTC-direct dial events by type'
+        }),
+        listenerEvents: components.metrics.registerCounterGroup('libp2p_webrtc-direct_listener_events_total', {
+          label: 'event',
+          help: 'Total count of WebRTC-direct listen events by type'
         })
       }
     }
   }
 
+  async start (): Promise<void> {}
+
+  async stop (): Promise<void> {
+    clearTimeout(this.renewTimeout)
+    this.certificates = undefined
+  }
+
   /**
    * Dial a given multiaddr
    */
@@ -83,10 +150,25 @@ export class WebRTCDirectTransport implements Transport {
   }
 
   /**
-   * Create transport listeners no supported by browsers
+   * Create a listener that accepts incoming connections, this is not supported
+   * by browsers
    */
   createListener (options: CreateListenerOptions): Listener {
-    throw unimplemented('WebRTCTransport.createListener')
+    const listener = new WebRTCDirectListener(this.components, {
+      ...options,
+      getCertificates: async () => this.getCertificates(),
+      dataChannel: this.init.dataChannel,
+      metrics: this.metrics?.listenerEvents
+    })
+
+    this.listeners.add(listener)
+    listener.addEventListener('close', () => {
+      this.listeners.delete(listener)
+    }, {
+      once: true
+    })
+
+    return listener
   }
 
   /**
@@ -120,18 +202,8 @@ export class WebRTCDirectTransport implements Transport {
     const theirPeerId = p.peerIdFromString(remotePeerString)
 
     const remoteCerthash = sdp.decodeCerthash(sdp.certhash(ma))
-
-    // ECDSA is preferred over RSA here. From our testing we find that P-256 elliptic
-    // curve is supported by Pion, webrtc-rs, as well as Chromium (P-228 and P-384
-    // was not supported in Chromium). We use the same hash function as found in the
-    // multiaddr if it is supported.
-    const certificate = await RTCPeerConnection.generateCertificate({
-      name: 'ECDSA',
-      namedCurve: 'P-256',
-      hash: sdp.toSupportedHashFunction(remoteCerthash.name)
-    } as any)
-
-    const peerConnection = new RTCPeerConnection({ certificates: [certificate] })
+    const ufrag = UFRAG_PREFIX + genUfrag(32)
+    const { peerConnection, setLocalOffer } = await createDialerPeerConnection(ufrag, sdp.toSupportedHashFunction(remoteCerthash.name))
 
     try {
       // create data channel for running the noise handshake. Once the data channel is opened,
@@ -163,15 +235,8 @@ export class WebRTCDirectTransport implements Transport {
         }
       })
 
-      const ufrag = 'libp2p+webrtc+v1/' + genUfrag(32)
-
-      // Create offer and munge sdp with ufrag == pwd. This allows the remote to
-      // respond to STUN messages without performing an actual SDP exchange.
-      // This is because it can infer the passwd field by reading the USERNAME
-      // attribute of the STUN message.
-      const offerSdp = await peerConnection.createOffer()
-      const mungedOfferSdp = sdp.munge(offerSdp, ufrag)
-      await peerConnection.setLocalDescription(mungedOfferSdp)
+      // create an offer with ufrag == pwd
+      await setLocalOffer()
 
       // construct answer sdp from multiaddr and ufrag
       const answerSdp = sdp.fromMultiAddr(ma, ufrag)
@@ -189,7 +254,7 @@ export class WebRTCDirectTransport implements Transport {
 
       // Since we use the default crypto interface and do not use a static key or early data,
       // we pass in undefined for these parameters.
-      const connectionEncrypter = noise({ prologueBytes: fingerprintsPrologue })(this.components)
+      const connectionEncrypter = noise({ prologue: fingerprintsPrologue })(this.components)
 
       const wrappedChannel = createStream({
         channel: handshakeDataChannel,
@@ -259,6 +324,148 @@ export class WebRTCDirectTransport implements Transport {
     }
   }
 
+  /**
+   * Returns the listener certificates, loading them from the datastore or
+   * creating a new one the first time they are needed
+   */
+  private async getCertificates (): Promise<ListenerCertificates> {
+    if (this.certificates == null) {
+      this.certificates = this.loadCertificates()
+        .catch(err => {
+          this.certificates = undefined
+          throw err
+        })
+    }
+
+    return this.certificates
+  }
+
+  private async loadCertificates (): Promise<ListenerCertificates> {
+    let current: TransportCertificate | undefined
+    let next: TransportCertificate | undefined
+
+    if (this.components.datastore != null) {
+      current = await loadCertificate(this.components.datastore)
+      next = await loadCertificate(this.components.datastore, NEXT_CERTIFICATE_KEY)
+    }
+
+    if (current == null || this.hasExpired(current)) {
+      if (next != null && !this.hasExpired(next)) {
+        current = await this.promote(next)
+      } else {
+        current = await this.createCertificate()
+        await this.components.datastore?.delete(NEXT_CERTIFICATE_KEY)
+      }
+
+      next = undefined
+    } else {
+      this.log('loaded certificate with certhash %s', current.certhash)
+    }
+
+    if (next == null && this.shouldRenew(current)) {
+      next = await this.createCertificate(NEXT_CERTIFICATE_KEY)
+    }
+
+    const certificates = { current, next }
+    this.scheduleRenewal(certificates)
+
+    return certificates
+  }
+
+  private async createCertificate (key?: Key): Promise<TransportCertificate> {
+    const certificate = await generateCertificate(this.certificateLifespan)
+
+    if (this.components.datastore != null) {
+      await storeCertificate(this.components.datastore, certificate, key)
+    }
+
+    this.log('created certificate with certhash %s', certificate.certhash)
+
+    return certificate
+  }
+
+  /**
+   * Make the next certificate the current one
+   */
+  private async promote (certificate: TransportCertificate): Promise<TransportCertificate> {
+    if (this.components.datastore != null) {
+      await storeCertificate(this.components.datastore, certificate)
+      await this.components.datastore.delete(NEXT_CERTIFICATE_KEY)
+    }
+
+    this.log('replaced certificate with certificate with certhash %s', certificate.certhash)
+
+    return certificate
+  }
+
+  private hasExpired (certificate: TransportCertificate): boolean {
+    return certificate.notAfter <= Date.now()
+  }
+
+  private shouldRenew (certificate: TransportCertificate): boolean {
+    return certificate.notAfter - Date.now() <= this.certificateRenewalThreshold
+  }
+
+  /**
+   * Schedule creating the next certificate shortly before the current one
+   * expires, or replacing the current certificate with the next one once it
+   * has
+   */
+  private scheduleRenewal (certificates: ListenerCertificates): void {
+    clearTimeout(this.renewTimeout)
+
+    const at = certificates.next == null
+      ? certificates.current.notAfter - this.certificateRenewalThreshold
+      : certificates.current.notAfter
+
+    this.renewTimeout = setTimeout(() => {
+      this.renewCertificates(certificates)
+        .catch(err => {
+          this.log.error('could not renew certificate', err)
+          this.metrics?.listenerEvents.increment({ certificate_renewal_error: true })
+        })
+    }, Math.min(Math.max(at - Date.now(), 0), MAX_TIMEOUT))
+  }
+
+  /**
+   * Create the next certificate or replace the current one with it and give
+   * the result to the listeners, which re-announce their addresses so the
+   * address manager updates the certhashes we advertise to the network
+   */
+  private async renewCertificates (certificates: ListenerCertificates): Promise<void> {
+    let renewed: ListenerCertificates
+
+    if (certificates.next == null) {
+      // delays longer than setTimeout allows are split into several timeouts
+      if (!this.shouldRenew(certificates.current)) {
+        this.scheduleRenewal(certificates)
+        return
+      }
+
+      renewed = {
+        current: certificates.current,
+        next: await this.createCertificate(NEXT_CERTIFICATE_KEY)
+      }
+    } else {
+      if (!this.hasExpired(certificates.current)) {
+        this.scheduleRenewal(certificates)
+        return
+      }
+
+      renewed = {
+        current: await this.promote(certificates.next)
+      }
+      this.metrics?.listenerEvents.increment({ certificate_renewed: true })
+    }
+
+    this.certificates = Promise.resolve(renewed)
+    this.scheduleRenewal(renewed)
+
+    for (const listener of this.listeners) {
+      listener.setCertificates(renewed)
+    }
+  }
+
   /**
    * Generate a noise prologue from the peer connection's certificate.
    * noise prologue = bytes('libp2p-webrtc-noise:') + noise-responder fingerprint + noise-initiator fingerprint
@@ -1,2 +1,8 @@
 const charset = Array.from('ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/')
 export const genUfrag = (len: number): string => [...Array(len)].map(() => charset.at(Math.floor(Math.random() * charset.length))).join('')
+
+/**
+ * WebRTC Direct ufrags start with this prefix so listeners can ignore STUN
+ * requests that are not from libp2p dialers
+ */
+export const UFRAG_PREFIX = 'libp2p+webrtc+v1/'
@@ -3,13 +3,13 @@ import { AbstractStream, type AbstractStreamInit } from '@libp2p/utils/abstract-
 import * as lengthPrefixed from 'it-length-prefixed'
 import { type Pushable, pushable } from 'it-pushable'
 import pDefer from 'p-defer'
-import { pEvent, TimeoutError } from 'p-event'
+import { pEvent } from 'p-event'
 import pTimeout from 'p-timeout'
 import { raceSignal } from 'race-signal'
 import { Uint8ArrayList } from 'uint8arraylist'
 import { Message } from './pb/message.js'
 import type { DataChannelOptions } from './index.js'
-import type { AbortOptions, ComponentLogger, Direction } from '@libp2p/interface'
+import type { AbortOptions, ComponentLogger, CounterGroup, Direction } from '@libp2p/interface'
 import type { DeferredPromise } from 'p-defer'
 
 export interface WebRTCStreamInit extends AbstractStreamInit, DataChannelOptions {
@@ -74,10 +74,6 @@ export class WebRTCStream extends AbstractStream {
    */
   private readonly incomingData: Pushable<Uint8Array>
 
-  private readonly maxBufferedAmount: number
-
-  private readonly bufferedAmountLowEventTimeout: number
-
   /**
    * The maximum size of a message in bytes
    */
@@ -122,13 +118,15 @@ export class WebRTCStream extends AbstractStream {
         })
     }
 
-    super(init)
+    super({
+      ...init,
+      maxBufferedAmount: init.maxBufferedAmount ?? MAX_BUFFERED_AMOUNT,
+      bufferedAmountLowTimeout: init.bufferedAmountLowEventTimeout ?? BUFFERED_AMOUNT_LOW_TIMEOUT
+    })
 
     this.channel = init.channel
     this.channel.binaryType = 'arraybuffer'
     this.incomingData = pushable<Uint8Array>()
-    this.bufferedAmountLowEventTimeout = init.bufferedAmountLowEventTimeout ?? BUFFERED_AMOUNT_LOW_TIMEOUT
-    this.maxBufferedAmount = init.maxBufferedAmount ?? MAX_BUFFERED_AMOUNT
     this.maxMessageSize = (init.maxMessageSize ?? MAX_MESSAGE_SIZE) - PROTOBUF_OVERHEAD - VARINT_LENGTH
     this.receiveFinAck = pDefer()
     this.finAckTimeout = init.closeTimeout ?? FIN_ACK_TIMEOUT
@@ -155,7 +153,14 @@ export class WebRTCStream extends AbstractStream {
         throw new CodeError('Unknown datachannel state', 'ERR_INVALID_STATE')
     }
 
+    // the channel may already have data buffered
+    this.updateBufferedAmount(this.channel.bufferedAmount)
+
     // handle RTCDataChannel events
+    this.channel.onbufferedamountlow = (_evt) => {
+      this.updateBufferedAmount(this.channel.bufferedAmount)
+    }
+
     this.channel.onopen = (_evt) => {
       this.timeline.open = new Date().getTime()
     }
@@ -207,20 +212,7 @@ export class WebRTCStream extends AbstractStream {
     // opening new streams is handled by WebRTC so this is a noop
   }
 
-  async _sendMessage (data: Uint8ArrayList, checkBuffer: boolean = true): Promise<void> {
-    if (checkBuffer && this.channel.bufferedAmount > this.maxBufferedAmount) {
-      try {
-        this.log('channel buffer is %d, wait for "bufferedamountlow" event', this.channel.bufferedAmount)
-        await pEvent(this.channel, 'bufferedamountlow', { timeout: this.bufferedAmountLowEventTimeout })
-      } catch (err: any) {
-        if (err instanceof TimeoutError) {
-          throw new CodeError(`Timed out waiting for DataChannel buffer to clear after ${this.bufferedAmountLowEventTimeout}ms`, 'ERR_BUFFER_CLEAR_TIMEOUT')
-        }
-
-        throw err
-      }
-    }
-
+  async _sendMessage (data: Uint8ArrayList): Promise<void> {
     if (this.channel.readyState === 'closed' || this.channel.readyState === 'closing') {
       throw new CodeError(`Invalid datachannel state - ${this.channel.readyState}`, 'ERR_INVALID_STATE')
     }
@@ -233,6 +225,7 @@ export class WebRTCStream extends AbstractStream {
 
     // send message without copying data
     this.channel.send(data.subarray())
+    this.updateBufferedAmount(this.channel.bufferedAmount)
   }
 
   async sendData (data: Uint8ArrayList): Promise<void> {
@@ -336,7 +329,7 @@ export class WebRTCStream extends AbstractStream {
     const prefixedBuf = lengthPrefixed.encode.single(msgbuf)
 
     try {
-      await this._sendMessage(prefixedBuf, false)
+      await this._sendMessage(prefixedBuf)
 
       return true
     } catch (err: any) {
@@ -366,6 +359,12 @@ export interface WebRTCStreamOptions extends DataChannelOptions {
    */
   onEnd?(err?: Error | undefined): void
 
+  /**
+   * Records how often and for how long the stream stops writing because the
+   * channel has too much data buffered
+   */
+  metrics?: CounterGroup
+
   logger: ComponentLogger
 }
 
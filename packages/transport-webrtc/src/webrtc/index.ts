@@ -1,6 +1,28 @@
-import node from 'node-datachannel'
+import node, { type PeerConnection } from 'node-datachannel'
+import { RTCPeerConnection as PolyfillRTCPeerConnection } from 'node-datachannel/polyfill'
 
-export { RTCSessionDescription, RTCIceCandidate, RTCPeerConnection } from 'node-datachannel/polyfill'
+export { RTCSessionDescription, RTCIceCandidate } from 'node-datachannel/polyfill'
+
+export interface NodeRTCConfiguration extends RTCConfiguration {
+  /**
+   * Wrap an existing native peer connection instead of creating a new one
+   */
+  peerConnection?: PeerConnection
+}
+
+/**
+ * The polyfill implements the DOM `RTCPeerConnection` but declares its own
+ * event and data channel types which are not assignable to the DOM types the
+ * rest of this module uses
+ */
+export const RTCPeerConnection = PolyfillRTCPeerConnection as unknown as {
+  prototype: globalThis.RTCPeerConnection
+  new (configuration?: NodeRTCConfiguration): globalThis.RTCPeerConnection
+  generateCertificate(keygenAlgorithm: AlgorithmIdentifier): Promise<RTCCertificate>
+}
+
+// eslint-disable-next-line @typescript-eslint/no-redeclare
+export type RTCPeerConnection = globalThis.RTCPeerConnection
 
 export function cleanup (): void {
   node.cleanup()
@@ -0,0 +1,164 @@
+import { defaultLogger } from '@libp2p/logger'
+import { createEd25519PeerId } from '@libp2p/peer-id-factory'
+import * as x509 from '@peculiar/x509'
+import { expect } from 'aegir/chai'
+import { MemoryDatastore } from 'datastore-core'
+import { sha256 } from 'multiformats/hashes/sha2'
+import Sinon from 'sinon'
+import { stubInterface } from 'sinon-ts'
+import { CERTIFICATE_KEY, NEXT_CERTIFICATE_KEY, generateCertificate, loadCertificate, storeCertificate } from '../src/private-to-public/certificate.js'
+import * as sdp from '../src/private-to-public/sdp.js'
+import { WebRTCDirectTransport, type WebRTCDirectTransportComponents } from '../src/private-to-public/transport.js'
+import type { WebRTCDirectListener } from '../src/private-to-public/listener.js'
+import type { Upgrader } from '@libp2p/interface'
+
+const HOUR = 60 * 60 * 1000
+
+describe('WebRTCDirect certificate', () => {
+  let datastore: MemoryDatastore
+
+  beforeEach(() => {
+    datastore = new MemoryDatastore()
+  })
+
+  afterEach(() => {
+    Sinon.restore()
+  })
+
+  it('should generate a certificate with a certhash', async () => {
+    const certificate = await generateCertificate(HOUR)
+    const cert = new x509.X509Certificate(certificate.pem)
+    const digest = await sha256.digest(new Uint8Array(cert.rawData))
+
+    expect(sdp.decodeCerthash(certificate.certhash)).to.have.property('name', 'sha2-256')
+    expect(sdp.mbdecoder.decode(certificate.certhash)).to.equalBytes(digest.bytes)
+    expect(certificate.notAfter).to.equal(cert.notAfter.getTime())
+    expect(certificate.notAfter).to.be.within(Date.now() + HOUR - 2000, Date.now() + HOUR)
+  })
+
+  it('should store and load a certificate', async () => {
+    await expect(loadCertificate(datastore)).to.eventually.be.undefined()
+
+    const certificate = await generateCertificate(HOUR)
+    await storeCertificate(datastore, certificate)
+
+    await expect(loadCertificate(datastore)).to.eventually.deep.equal(certificate)
+  })
+
+  it('should ignore a stored certificate that cannot be parsed', async () => {
+    await datastore.put(CERTIFICATE_KEY, Uint8Array.from([0, 1, 2, 3]))
+
+    await expect(loadCertificate(datastore)).to.eventually.be.undefined()
+  })
+
+  describe('transport', () => {
+    let components: WebRTCDirectTransportComponents
+
+    beforeEach(async () => {
+      components = {
+        peerId: await createEd25519PeerId(),
+        logger: defaultLogger(),
+        datastore
+      }
+    })
+
+    it('should reuse a stored certificate', async () => {
+      const certificate = await generateCertificate(48 * HOUR)
+      await storeCertificate(datastore, certificate)
+
+      const transport = new WebRTCDirectTransport(components)
+      // eslint-disable-next-line @typescript-eslint/dot-notation
+      await expect(transport['getCertificates']()).to.eventually.deep.equal({
+        current: certificate,
+        next: undefined
+      })
+      await transport.stop()
+    })
+
+    it('should create the next certificate when the stored certificate is about to expire', async () => {
+      const certificate = await generateCertificate(HOUR)
+      await storeCertificate(datastore, certificate)
+
+      const transport = new WebRTCDirectTransport(components)
+      // eslint-disable-next-line @typescript-eslint/dot-notation
+      const loaded = await transport['getCertificates']()
+      await transport.stop()
+
+      // the stored certificate is still used until it expires
+      expect(loaded.current).to.deep.equal(certificate)
+      expect(loaded.next?.certhash).to.be.a('string').that.does.not.equal(certificate.certhash)
+      await expect(loadCertificate(datastore, NEXT_CERTIFICATE_KEY)).to.eventually.deep.equal(loaded.next)
+    })
+
+    it('should replace an expired stored certificate with the next certificate', async () => {
+      const clock = Sinon.useFakeTimers({
+        now: Date.now() - 2 * HOUR,
+        toFake: ['Date']
+      })
+      const certificate = await generateCertificate(HOUR)
+      clock.restore()
+
+      const next = await generateCertificate(48 * HOUR)
+      await storeCertificate(datastore, certificate)
+      await storeCertificate(datastore, next, NEXT_CERTIFICATE_KEY)
+
+      const transport = new WebRTCDirectTransport(components)
+      // eslint-disable-next-line @typescript-eslint/dot-notation
+      await expect(transport['getCertificates']()).to.eventually.deep.equal({
+        current: next,
+        next: undefined
+      })
+      await transport.stop()
+
+      await expect(loadCertificate(datastore)).to.eventually.deep.equal(next)
+      expect(await datastore.has(NEXT_CERTIFICATE_KEY)).to.be.false()
+    })
+
+    it('should advertise the next certificate before replacing the current one', async () => {
+      const clock = Sinon.useFakeTimers({
+        now: Date.now(),
+        toFake: ['setTimeout', 'clearTimeout', 'Date']
+      })
+
+      const transport = new WebRTCDirectTransport(components, {
+        certificateLifespan: 3 * HOUR,
+        certificateRenewalThreshold: HOUR
+      })
+      const listener = transport.createListener({
+        upgrader: stubInterface<Upgrader>()
+      }) as WebRTCDirectListener
+      const setCertificates = Sinon.spy(listener, 'setCertificates')
+
+      // eslint-disable-next-line @typescript-eslint/dot-notation
+      const { current } = await transport['getCertificates']()
+
+      // the next certificate is generated asynchronously
+      const waitForCall = async (count: number): Promise<void> => {
+        while (setCertificates.callCount < count) {
+          await new Promise(resolve => setImmediate(resolve))
+        }
+      }
+
+      await clock.tickAsync(2 * HOUR + 1000)
+      await waitForCall(1)
+
+      const { next } = setCertificates.getCall(0).args[0]
+      expect(setCertificates.getCall(0).args[0]).to.have.property('current', current)
+      expect(next?.certhash).to.be.a('string').that.does.not.equal(current.certhash)
+      await expect(loadCertificate(datastore)).to.eventually.deep.equal(current)
+      await expect(loadCertificate(datastore, NEXT_CERTIFICATE_KEY)).to.eventually.deep.equal(next)
+
+      // the current certificate expires
+      await clock.tickAsync(HOUR)
+      await waitForCall(2)
+
+      expect(setCertificates.getCall(1).args[0]).to.deep.equal({ current: next })
+      // eslint-disable-next-line @typescript-eslint/dot-notation
+      await expect(transport['getCertificates']()).to.eventually.deep.equal({ current: next })
+      await expect(loadCertificate(datastore)).to.eventually.deep.equal(next)
+      expect(await datastore.has(NEXT_CERTIFICATE_KEY)).to.be.false()
+
+      await transport.stop()
+    })
+  })
+})
@@ -14,12 +14,18 @@ import { initiateConnection } from '../src/private-to-private/initiate-connectio
 import { Message } from '../src/private-to-private/pb/message.js'
 import { handleIncomingStream } from '../src/private-to-private/signaling-stream-handler.js'
 import { SIGNALING_PROTO_ID, WebRTCTransport, splitAddr } from '../src/private-to-private/transport.js'
-import { RTCPeerConnection, RTCSessionDescription } from '../src/webrtc/index.js'
+import { cleanup, RTCPeerConnection, RTCSessionDescription } from '../src/webrtc/index.js'
 import type { Logger, Connection, Stream } from '@libp2p/interface'
 import type { ConnectionManager, TransportManager } from '@libp2p/interface-internal'
 
 const browser = detect()
 
+after(() => {
+  // these peer connections are not created by a transport so nothing else
+  // releases the native resources that keep the process running
+  cleanup()
+})
+
 interface PrivateToPrivateComponents {
   initiator: {
     multiaddr: Multiaddr
@@ -78,4 +78,15 @@ a=candidate:1467250027 1 UDP 1467250027 0.0.0.0 56093 typ host`
 
     expect(result.sdp).to.equal(expected)
   })
+
+  it('derives a dialer offer SDP from its address and ufrag', () => {
+    const result = underTest.clientOfferFromAddress('1.2.3.4', 1234, 'MyUserFragment')
+
+    expect(result.type).to.equal('offer')
+    expect(result.sdp).to.contain('c=IN IP4 1.2.3.4\n')
+    expect(result.sdp).to.contain('a=setup:active\n')
+    expect(result.sdp).to.contain('a=ice-ufrag:MyUserFragment\na=ice-pwd:MyUserFragment\n')
+    expect(result.sdp).to.contain('a=candidate:1467250027 1 UDP 1467250027 1.2.3.4 1234 typ host')
+    expect(underTest.clientOfferFromAddress('::1', 1234, 'MyUserFragment').sdp).to.contain('c=IN IP6 ::1\n')
+  })
 })
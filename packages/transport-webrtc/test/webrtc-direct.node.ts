@@ -0,0 +1,85 @@
+/* eslint-env mocha */
+
+import { WebRTCDirect } from '@multiformats/multiaddr-matcher'
+import { expect } from 'aegir/chai'
+import map from 'it-map'
+import { pipe } from 'it-pipe'
+import toBuffer from 'it-to-buffer'
+import { createLibp2p } from 'libp2p'
+import { webRTCDirect } from '../src/index.js'
+import type { Libp2p } from '@libp2p/interface'
+
+async function createNode (listen: string[] = []): Promise<Libp2p> {
+  return createLibp2p({
+    addresses: {
+      listen
+    },
+    transports: [
+      webRTCDirect()
+    ],
+    connectionGater: {
+      denyDialMultiaddr: () => false
+    },
+    connectionManager: {
+      minConnections: 0
+    }
+  })
+}
+
+describe('webrtc-direct', () => {
+  const echo = '/echo/1.0.0'
+
+  let listener: Libp2p
+  let dialer: Libp2p
+
+  beforeEach(async () => {
+    listener = await createNode([
+      '/ip4/127.0.0.1/udp/0/webrtc-direct'
+    ])
+    dialer = await createNode()
+
+    await listener.handle(echo, ({ stream }) => {
+      void pipe(stream, stream)
+    })
+  })
+
+  afterEach(async () => {
+    if (dialer != null) {
+      await dialer.stop()
+    }
+
+    if (listener != null) {
+      await listener.stop()
+    }
+  })
+
+  it('should listen on a bound port', async () => {
+    const addrs = listener.getMultiaddrs()
+
+    expect(addrs).to.not.be.empty()
+
+    for (const ma of addrs) {
+      expect(WebRTCDirect.exactMatch(ma)).to.be.true()
+      expect(ma.toOptions().port).to.be.greaterThan(0)
+    }
+  })
+
+  it('should dial a listening node', async () => {
+    const [addr] = listener.getMultiaddrs()
+    const connection = await dialer.dial(addr)
+
+    expect(connection.remotePeer.equals(listener.peerId)).to.be.true()
+
+    const stream = await connection.newStream(echo)
+    const data = [0, 1, 2, 3].map(i => Uint8Array.from([i]))
+
+    const output = await pipe(
+      data,
+      stream,
+      (source) => map(source, (buf) => buf.subarray()),
+      async (source) => toBuffer(source)
+    )
+
+    expect(output).to.equalBytes(toBuffer(data))
+  })
+})
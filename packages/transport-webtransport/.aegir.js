@@ -44,20 +44,50 @@ export default {
         }
       })
 
+      // start a js-libp2p node with a WebTransport listener to dial
+      const { createLibp2p } = await import('libp2p')
+      const { noise } = await import('@libp2p/noise')
+      const { pipe } = await import('it-pipe')
+      const { webTransport } = await import('./dist/src/index.js')
+
+      const listener = await createLibp2p({
+        addresses: {
+          listen: ['/ip4/127.0.0.1/udp/0/quic-v1/webtransport']
+        },
+        transports: [webTransport()],
+        connectionEncryption: [noise()],
+        connectionManager: {
+          minConnections: 0
+        }
+      })
+
+      await listener.handle('echo', ({ stream }) => {
+        void pipe(stream, stream)
+      })
+
       return {
         server,
+        listener,
         env: {
+          listenerAddr: listener.getMultiaddrs()[0].toString(),
           serverAddr: await serverAddr.promise,
           serverAddr6: disableIp6 === false ? await serverAddr6.promise : 'skipping',
           disableIp6
         }
       }
     },
-    async after(_, { server }) {
+    async after(_, { server, listener }) {
       server.kill('SIGINT')
+      await listener.stop()
     }
   },
   build: {
     bundlesizeMax: '18kB'
+  },
+  dependencyCheck: {
+    ignore: [
+      // loaded at runtime by @fails-components/webtransport
+      '@fails-components/webtransport-transport-http3-quiche'
+    ]
   }
 }
@@ -0,0 +1,192 @@
+import { CodeError } from '@libp2p/interface'
+import * as x509 from '@peculiar/x509'
+import { base64url } from 'multiformats/bases/base64'
+import { sha256 } from 'multiformats/hashes/sha2'
+import { toString as uint8ArrayToString } from 'uint8arrays/to-string'
+import type { Logger } from '@libp2p/interface'
+import type { MultihashDigest } from 'multiformats/hashes/interface'
+
+x509.cryptoProvider.set(crypto)
+
+/**
+ * Browsers refuse certificates pinned with `serverCertificateHashes` that are
+ * valid for longer than two weeks
+ */
+export const MAX_CERTIFICATE_LIFESPAN = 14 * 24 * 60 * 60 * 1000
+
+/**
+ * Certificates become valid a little before they are used to allow for clock
+ * skew between peers
+ */
+const CLOCK_SKEW_ALLOWANCE = 60 * 60 * 1000
+
+export interface WebTransportCertificate {
+  /**
+   * The PEM encoded certificate
+   */
+  pem: string
+
+  /**
+   * The PEM encoded PKCS#8 private key of the certificate
+   */
+  privateKey: string
+
+  /**
+   * The sha2-256 multihash of the DER encoded certificate
+   */
+  hash: MultihashDigest
+
+  notBefore: number
+  notAfter: number
+}
+
+/**
+ * Generate a self-signed ECDSA P-256 certificate
+ */
+export async function generateWebTransportCertificate (notBefore: number, notAfter: number): Promise<WebTransportCertificate> {
+  const alg = {
+    name: 'ECDSA',
+    namedCurve: 'P-256',
+    hash: 'SHA-256'
+  }
+
+  const keys = await crypto.subtle.generateKey(alg, true, ['sign', 'verify'])
+  const cert = await x509.X509CertificateGenerator.createSelfSigned({
+    serialNumber: uint8ArrayToString(crypto.getRandomValues(new Uint8Array(9)), 'base16'),
+    name: 'CN=libp2p-webtransport',
+    notBefore: new Date(notBefore),
+    notAfter: new Date(notAfter),
+    signingAlgorithm: alg,
+    keys
+  })
+
+  const privateKey = await crypto.subtle.exportKey('pkcs8', keys.privateKey)
+
+  return {
+    pem: cert.toString('pem'),
+    privateKey: x509.PemConverter.encode(privateKey, 'PRIVATE KEY'),
+    hash: await sha256.digest(new Uint8Array(cert.rawData)),
+    notBefore: cert.notBefore.getTime(),
+    notAfter: cert.notAfter.getTime()
+  }
+}
+
+export interface CertificateManagerInit {
+  /**
+   * How long each certificate is valid for
+   */
+  lifespan: number
+  log: Logger
+
+  /**
+   * Invoked after the certificates have been rotated
+   */
+  onRotate?(): void
+}
+
+/**
+ * Keeps two overlapping certificates as described in the WebTransport spec.
+ *
+ * Both certhashes are advertised but only the current certificate is served.
+ * Every half lifespan the next certificate becomes the current one and a new
+ * next certificate is created, so a dialer that learned our addresses before a
+ * rotation still has a certhash that matches the certificate being served.
+ *
+ * @see https://github.com/libp2p/specs/blob/master/webtransport/README.md#certificates
+ */
+export class CertificateManager {
+  private readonly lifespan: number
+  private readonly log: Logger
+  private readonly onRotate?: () => void
+  private current?: WebTransportCertificate
+  private next?: WebTransportCertificate
+  private rotateTimeout?: ReturnType<typeof setTimeout>
+
+  constructor (init: CertificateManagerInit) {
+    if (init.lifespan > MAX_CERTIFICATE_LIFESPAN) {
+      throw new CodeError(`Certificate lifespan must not be more than ${MAX_CERTIFICATE_LIFESPAN}ms`, 'ERR_INVALID_PARAMETERS')
+    }
+
+    this.lifespan = init.lifespan
+    this.log = init.log
+    this.onRotate = init.onRotate
+  }
+
+  async start (): Promise<void> {
+    const now = Date.now()
+
+    this.current = await this.createCertificate(now)
+    this.next = await this.createCertificate(now + this.lifespan / 2)
+    this.scheduleRotation()
+  }
+
+  stop (): void {
+    clearTimeout(this.rotateTimeout)
+    this.current = undefined
+    this.next = undefined
+  }
+
+  /**
+   * The certificate that should be served to dialers
+   */
+  getCertificate (): WebTransportCertificate {
+    if (this.current == null) {
+      throw new CodeError('Certificate manager was not started', 'ERR_NOT_STARTED')
+    }
+
+    return this.current
+  }
+
+  /**
+   * The hashes of the current and next certificates, these are advertised in
+   * our addresses and sent to dialers during the noise handshake
+   */
+  getCerthashes (): MultihashDigest[] {
+    return [this.current, this.next]
+      .filter((cert): cert is WebTransportCertificate => cert != null)
+      .map(cert => cert.hash)
+  }
+
+  /**
+   * The certhashes encoded as multiaddr components
+   */
+  getCerthashComponents (): string {
+    return this.getCerthashes()
+      .map(hash => `/certhash/${base64url.encode(hash.bytes)}`)
+      .join('')
+  }
+
+  private async createCertificate (start: number): Promise<WebTransportCertificate> {
+    const notBefore = start - CLOCK_SKEW_ALLOWANCE
+
+    return generateWebTransportCertificate(notBefore, notBefore + this.lifespan)
+  }
+
+  private scheduleRotation (): void {
+    this.rotateTimeout = setTimeout(() => {
+      this.rotate()
+        .catch(err => {
+          this.log.error('could not rotate certificates', err)
+        })
+    }, this.lifespan / 2)
+  }
+
+  private async rotate (): Promise<void> {
+    if (this.next == null) {
+      return
+    }
+
+    const next = await this.createCertificate(this.next.notBefore + CLOCK_SKEW_ALLOWANCE + this.lifespan / 2)
+
+    // stopped while the certificate was being created
+    if (this.next == null) {
+      return
+    }
+
+    this.current = this.next
+    this.next = next
+    this.log('rotated certificates, now serving %s', base64url.encode(this.current.hash.bytes))
+    this.scheduleRotation()
+    this.onRotate?.()
+  }
+}
@@ -3,20 +3,14 @@
  *
  * A [libp2p transport](https://docs.libp2p.io/concepts/transports/overview/) based on [WebTransport](https://www.w3.org/TR/webtransport/).
  *
- * >
- * > ⚠️ **Note**
- * >
- * > This WebTransport implementation currently only allows dialing to other nodes. It does not yet allow listening for incoming dials. This feature requires QUIC support to land in Node JS first.
- * >
- * > QUIC support in Node JS is actively being worked on. You can keep an eye on the progress by watching the [related issues on the Node JS issue tracker](https://github.com/nodejs/node/labels/quic)
- * >
+ * Browsers can only dial. In Node.js the transport can also listen for incoming sessions using the HTTP/3 server from [@fails-components/webtransport](https://www.npmjs.com/package/@fails-components/webtransport), which lets browsers connect to Node.js peers directly.
  *
  * @example
  *
  * ```TypeScript
  * import { createLibp2p } from 'libp2p'
  * import { webTransport } from '@libp2p/webtransport'
- * import { noise } from '@chainsafe/libp2p-noise'
+ * import { noise } from '@libp2p/noise'
  *
  * const node = await createLibp2p({
  *   transports: [
@@ -27,12 +21,41 @@
  *   ]
  * })
  * ```
+ *
+ * @example Listening for incoming sessions
+ *
+ * A listener uses self-signed certificates and their certhashes are part of its addresses. There are always two certificates, the one being served and the one that will replace it, and both certhashes are advertised so dialers that learned our addresses before a rotation can still connect.
+ *
+ * ```TypeScript
+ * import { createLibp2p } from 'libp2p'
+ * import { webTransport } from '@libp2p/webtransport'
+ * import { noise } from '@libp2p/noise'
+ *
+ * const node = await createLibp2p({
+ *   addresses: {
+ *     listen: ['/ip4/0.0.0.0/udp/0/quic-v1/webtransport']
+ *   },
+ *   transports: [
+ *     webTransport({
+ *       // certificates are rotated every half lifespan
+ *       certificateLifespan: 14 * 24 * 60 * 60 * 1000
+ *     })
+ *   ],
+ *   connectionEncryption: [
+ *     noise()
+ *   ]
+ * })
+ *
+ * // e.g. /ip4/123.123.123.123/udp/12345/quic-v1/webtransport/certhash/uEi.../certhash/uEi.../p2p/12D3Koo...
+ * console.info(node.getMultiaddrs())
+ * ```
  */
 
-import { noise } from '@chainsafe/libp2p-noise'
 import { type Transport, transportSymbol, type CreateListenerOptions, type DialOptions, type Listener, type ComponentLogger, type Logger, type Connection, type MultiaddrConnection, type Stream, type CounterGroup, type Metrics, type PeerId, type StreamMuxerFactory, type StreamMuxerInit, type StreamMuxer } from '@libp2p/interface'
+import { noise } from '@libp2p/noise'
 import { type Multiaddr, type AbortOptions } from '@multiformats/multiaddr'
 import { WebTransport as WebTransportMatcher } from '@multiformats/multiaddr-matcher'
+import { WebTransportListener } from './listener.js'
 import { webtransportBiDiStreamToStream } from './stream.js'
 import { inertDuplex } from './utils/inert-duplex.js'
 import { isSubset } from './utils/is-subset.js'
@@ -41,12 +64,24 @@ import type { Source } from 'it-stream-types'
 import type { MultihashDigest } from 'multiformats/hashes/interface'
 import type { Uint8ArrayList } from 'uint8arraylist'
 
+/**
+ * The longest lifespan browsers accept for certificates pinned by hash
+ */
+const DEFAULT_CERTIFICATE_LIFESPAN = 14 * 24 * 60 * 60 * 1000
+
 interface WebTransportSessionCleanup {
   (metric: string): void
 }
 
 export interface WebTransportInit {
   maxInboundStreams?: number
+
+  /**
+   * How long, in ms, listener certificates are valid for. Certificates are
+   * rotated every half lifespan and browsers do not accept certificates that
+   * are valid for more than 14 days (default: 14 days)
+   */
+  certificateLifespan?: number
 }
 
 export interface WebTransportComponents {
@@ -57,6 +92,7 @@ export interface WebTransportComponents {
 
 export interface WebTransportMetrics {
   dialerEvents: CounterGroup
+  listenerEvents: CounterGroup
 }
 
 class WebTransportTransport implements Transport {
@@ -69,7 +105,8 @@ class WebTransportTransport implements Transport {
     this.log = components.logger.forComponent('libp2p:webtransport')
     this.components = components
     this.config = {
-      maxInboundStreams: init.maxInboundStreams ?? 1000
+      maxInboundStreams: init.maxInboundStreams ?? 1000,
+      certificateLifespan: init.certificateLifespan ?? DEFAULT_CERTIFICATE_LIFESPAN
     }
 
     if (components.metrics != null) {
@@ -77,6 +114,10 @@ class WebTransportTransport implements Transport {
         dialerEvents: components.metrics.registerCounterGroup('libp2p_webtransport_dialer_events_total', {
           label: 'event',
           help: 'Total count of WebTransport dialer events by type'
+        }),
+        listenerEvents: components.metrics.registerCounterGroup('libp2p_webtransport_listener_events_total', {
+          label: 'event',
+          help: 'Total count of WebTransport listener events by type'
         })
       }
     }
@@ -334,7 +375,7 @@ class WebTransportTransport implements Transport {
             const stream = await webtransportBiDiStreamToStream(
               wtStream,
               String(streamIDCounter++),
-              init?.direction ?? 'outbound',
+              'outbound',
               activeStreams,
               init?.onStreamEnd,
               self.components.logger
@@ -370,8 +411,17 @@ class WebTransportTransport implements Transport {
     }
   }
 
+  /**
+   * Create a listener that accepts incoming sessions, this is not supported
+   * by browsers
+   */
   createListener (options: CreateListenerOptions): Listener {
-    throw new Error('Webtransport servers are not supported in Node or the browser')
+    return new WebTransportListener(this.components, {
+      ...options,
+      certificateLifespan: this.config.certificateLifespan,
+      createMuxerFactory: (session) => this.webtransportMuxer(session),
+      metrics: this.metrics?.listenerEvents
+    })
   }
 
   /**
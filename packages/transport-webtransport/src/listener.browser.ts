@@ -0,0 +1,18 @@
+import { TypedEventEmitter } from '@libp2p/interface'
+import type { ListenerEvents, Listener } from '@libp2p/interface'
+import type { Multiaddr } from '@multiformats/multiaddr'
+
+/**
+ * Browsers cannot accept incoming WebTransport sessions
+ */
+export class WebTransportListener extends TypedEventEmitter<ListenerEvents> implements Listener {
+  async listen (ma: Multiaddr): Promise<void> {
+    throw new Error('Webtransport servers are not supported in the browser')
+  }
+
+  getAddrs (): Multiaddr[] {
+    return []
+  }
+
+  async close (): Promise<void> {}
+}
@@ -0,0 +1,297 @@
+import { Http3Server, type WebTransportSession } from '@fails-components/webtransport'
+import { TypedEventEmitter } from '@libp2p/interface'
+import { noise } from '@libp2p/noise'
+import { getNetworkAddrs } from '@libp2p/utils/get-network-addrs'
+import { isAnyAddr } from '@libp2p/utils/is-any-addr'
+import { multiaddr, type Multiaddr } from '@multiformats/multiaddr'
+import { toString as uint8ArrayToString } from 'uint8arrays/to-string'
+import { CertificateManager } from './certificates.js'
+import { inertDuplex } from './utils/inert-duplex.js'
+import type { ComponentLogger, CounterGroup, CreateListenerOptions, Listener, ListenerEvents, Logger, MultiaddrConnection, PeerId, StreamMuxerFactory } from '@libp2p/interface'
+import type { Source } from 'it-stream-types'
+import type { Uint8ArrayList } from 'uint8arraylist'
+
+/**
+ * The path WebTransport dialers open sessions on
+ */
+export const WEBTRANSPORT_PATH = '/.well-known/libp2p-webtransport?type=noise'
+
+export interface WebTransportListenerComponents {
+  peerId: PeerId
+  logger: ComponentLogger
+}
+
+export interface WebTransportListenerInit extends CreateListenerOptions {
+  /**
+   * How long each certificate is valid for
+   */
+  certificateLifespan: number
+
+  /**
+   * Creates the muxer used by a session once it has been authenticated
+   */
+  createMuxerFactory(session: WebTransport): StreamMuxerFactory
+
+  metrics?: CounterGroup
+}
+
+/**
+ * Sessions accepted by the HTTP/3 server know the address of the remote end
+ * but the exported session type does not declare it
+ */
+interface ServerSession extends WebTransportSession {
+  readonly peerAddress?: string
+}
+
+/**
+ * Accepts WebTransport sessions from dialers using an HTTP/3 server.
+ *
+ * The first bidirectional stream a dialer opens is used for a noise handshake
+ * where we send the certhashes of our certificates as early data, this lets
+ * the dialer check the certificate it connected with is one we advertised.
+ */
+export class WebTransportListener extends TypedEventEmitter<ListenerEvents> implements Listener {
+  private readonly log: Logger
+  private readonly components: WebTransportListenerComponents
+  private readonly init: WebTransportListenerInit
+  private readonly certificates: CertificateManager
+  private readonly sessions: Set<WebTransportSession>
+  private server?: Http3Server
+  private listeningAddr?: Multiaddr
+  private port?: number
+
+  constructor (components: WebTransportListenerComponents, init: WebTransportListenerInit) {
+    super()
+
+    this.log = components.logger.forComponent('libp2p:webtransport:listener')
+    this.components = components
+    this.init = init
+    this.sessions = new Set()
+    this.certificates = new CertificateManager({
+      lifespan: init.certificateLifespan,
+      log: this.log,
+      onRotate: () => {
+        this.onRotate()
+      }
+    })
+  }
+
+  async listen (ma: Multiaddr): Promise<void> {
+    const { host, port } = ma.toOptions()
+
+    await this.certificates.start()
+    const certificate = this.certificates.getCertificate()
+
+    this.listeningAddr = ma
+    this.server = new Http3Server({
+      host,
+      port,
+      secret: uint8ArrayToString(crypto.getRandomValues(new Uint8Array(32)), 'base64'),
+      cert: certificate.pem,
+      privKey: certificate.privateKey,
+      defaultDatagramsReadableMode: 'bytes'
+    })
+
+    this.server.startServer()
+    await this.server.ready
+
+    // when listening on port 0 the server reports the port it was bound to
+    this.port = this.server.address()?.port
+
+    if (this.port == null) {
+      throw new Error(`Could not listen on ${host}:${port}`)
+    }
+
+    this.acceptSessions(this.server)
+      .catch(err => {
+        this.log.error('error accepting sessions', err)
+        this.safeDispatchEvent('error', { detail: err })
+      })
+
+    this.log('listening on %s:%d', host, this.port)
+    this.safeDispatchEvent('listening')
+  }
+
+  getAddrs (): Multiaddr[] {
+    if (this.listeningAddr == null || this.port == null || this.server == null) {
+      return []
+    }
+
+    const { host, family } = this.listeningAddr.toOptions()
+    const proto = family === 4 ? 'ip4' : 'ip6'
+    const hosts = isAnyAddr(host) ? getNetworkAddrs(family) : [host]
+    const certhashes = this.certificates.getCerthashComponents()
+
+    return hosts.map(host => multiaddr(`/${proto}/${host}/udp/${this.port}/quic-v1/webtransport${certhashes}/p2p/${this.components.peerId}`))
+  }
+
+  async close (): Promise<void> {
+    for (const session of this.sessions) {
+      session.close()
+    }
+
+    this.sessions.clear()
+    this.certificates.stop()
+    this.server?.stopServer()
+    await this.server?.closed
+    this.server = undefined
+    this.safeDispatchEvent('close')
+  }
+
+  /**
+   * The next certificate is now being served and the certhashes in our
+   * addresses have changed, so re-announce them
+   */
+  private onRotate (): void {
+    const certificate = this.certificates.getCertificate()
+
+    this.server?.updateCert(certificate.pem, certificate.privateKey, false)
+    this.init.metrics?.increment({ certificate_rotated: true })
+    this.safeDispatchEvent('listening')
+  }
+
+  private async acceptSessions (server: Http3Server): Promise<void> {
+    const reader = server.sessionStream(WEBTRANSPORT_PATH).getReader()
+
+    while (true) {
+      const { done, value: session } = await reader.read()
+
+      if (done) {
+        break
+      }
+
+      this.onSession(session)
+        .catch(err => {
+          this.log.error('inbound session failed', err)
+          this.init.metrics?.increment({ error: true })
+          session.close()
+        })
+    }
+  }
+
+  private async onSession (session: ServerSession): Promise<void> {
+    await session.ready
+
+    this.sessions.add(session)
+    session.closed
+      .catch(err => {
+        this.log.error('error on remote session close', err)
+      })
+      .finally(() => {
+        this.sessions.delete(session)
+      })
+
+    if (session.peerAddress == null) {
+      throw new Error('Session has no remote address')
+    }
+
+    const remotePeer = await this.authenticateSession(session)
+    const maConn: MultiaddrConnection = {
+      close: async () => {
+        session.close()
+      },
+      abort: (err: Error) => {
+        this.log('aborting session due to passed err', err)
+        session.close()
+      },
+      remoteAddr: toMultiaddr(session.peerAddress, remotePeer),
+      timeline: {
+        open: Date.now()
+      },
+      log: this.components.logger.forComponent('libp2p:webtransport:maconn'),
+      // This connection is never used directly since webtransport supports native streams.
+      ...inertDuplex()
+    }
+
+    session.closed
+      .finally(() => {
+        maConn.timeline.close = Date.now()
+      })
+      .catch(() => {})
+
+    this.init.metrics?.increment({ open: true })
+
+    const connection = await this.init.upgrader.upgradeInbound(maConn, {
+      skipEncryption: true,
+      skipProtection: true,
+      // the session implements the parts of the WebTransport API the muxer
+      // uses but its stream types differ from the DOM ones
+      muxerFactory: this.init.createMuxerFactory(session as unknown as WebTransport)
+    })
+
+    this.init.handler?.(connection)
+    this.safeDispatchEvent('connection', { detail: connection })
+  }
+
+  /**
+   * Run the noise handshake on the first stream the dialer opens, sending our
+   * certhashes so the dialer can check the certificate it has seen
+   */
+  private async authenticateSession (session: WebTransportSession): Promise<PeerId> {
+    const streams = session.incomingBidirectionalStreams.getReader()
+    const { value: stream } = await streams.read()
+
+    // the muxer reads the rest of the incoming streams
+    streams.releaseLock()
+
+    if (stream == null) {
+      throw new Error('Session closed before authentication')
+    }
+
+    const writer = stream.writable.getWriter()
+    const reader = stream.readable.getReader()
+
+    const duplex = {
+      source: (async function * () {
+        while (true) {
+          const val = await reader.read()
+
+          if (val.value != null) {
+            yield val.value
+          }
+
+          if (val.done) {
+            break
+          }
+        }
+      })(),
+      sink: async function (source: Source<Uint8Array | Uint8ArrayList>) {
+        for await (const chunk of source) {
+          await writer.write(chunk instanceof Uint8Array ? chunk : chunk.subarray())
+        }
+      }
+    }
+
+    const n = noise({
+      extensions: {
+        webtransportCerthashes: this.certificates.getCerthashes().map(hash => hash.bytes)
+      }
+    })(this.components)
+
+    const { remotePeer } = await n.secureInbound(this.components.peerId, duplex)
+
+    // We're done with this authentication stream
+    writer.close().catch((err: Error) => {
+      this.log.error(`Failed to close authentication stream writer: ${err.message}`)
+    })
+
+    reader.cancel().catch((err: Error) => {
+      this.log.error(`Failed to close authentication stream reader: ${err.message}`)
+    })
+
+    return remotePeer
+  }
+}
+
+/**
+ * Converts the `host:port` address of the remote end of a session into a
+ * multiaddr, IPv6 hosts are wrapped in square brackets
+ */
+function toMultiaddr (peerAddress: string, remotePeer: PeerId): Multiaddr {
+  const index = peerAddress.lastIndexOf(':')
+  const host = peerAddress.substring(0, index).replace(/^\[(.*)\]$/, '$1')
+  const port = peerAddress.substring(index + 1)
+  const proto = host.includes(':') ? 'ip6' : 'ip4'
+
+  return multiaddr(`/${proto}/${host}/udp/${port}/quic-v1/webtransport/p2p/${remotePeer}`)
+}
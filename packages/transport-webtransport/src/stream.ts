@@ -54,6 +54,8 @@ export async function webtransportBiDiStreamToStream (bidiStream: WebTransportBi
     status: 'open',
     writeStatus: 'ready',
     readStatus: 'ready',
+    // each write is awaited by the sink so nothing is buffered
+    bufferedAmount: 0,
     abort (err: Error) {
       if (!writerClosed) {
         writer.abort(err)
@@ -1,7 +1,7 @@
 /* eslint-disable no-console */
 /* eslint-env mocha */
 
-import { noise } from '@chainsafe/libp2p-noise'
+import { noise } from '@libp2p/noise'
 import { multiaddr } from '@multiformats/multiaddr'
 import { expect } from 'aegir/chai'
 import { createLibp2p, type Libp2p } from 'libp2p'
@@ -78,6 +78,33 @@ describe('libp2p-webtransport', () => {
     }
   })
 
+  it('webtransport connects to a js-libp2p listener', async () => {
+    if (process.env.listenerAddr == null) {
+      throw new Error('listenerAddr not found')
+    }
+
+    const ma = multiaddr(process.env.listenerAddr)
+    const data = [
+      Uint8Array.from([0, 1, 2, 3]),
+      Uint8Array.from([4, 5, 6, 7])
+    ]
+
+    const stream = await node.dialProtocol(ma, 'echo')
+
+    await stream.sink(data)
+
+    let expectedNextNumber = 0
+    for await (const chunk of stream.source) {
+      for (const byte of chunk.subarray()) {
+        expect(byte).to.equal(expectedNextNumber++)
+      }
+    }
+    expect(expectedNextNumber).to.equal(8)
+
+    const conns = node.getConnections()
+    expect(conns.map(conn => conn.remotePeer.toString())).to.include(ma.getPeerId())
+  })
+
   it('fails to connect without certhashes', async () => {
     if (process.env.serverAddr == null) {
       throw new Error('serverAddr not found')
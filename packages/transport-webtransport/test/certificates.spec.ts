@@ -0,0 +1,85 @@
+/* eslint-env mocha */
+
+import { defaultLogger } from '@libp2p/logger'
+import { multiaddr } from '@multiformats/multiaddr'
+import * as x509 from '@peculiar/x509'
+import { expect } from 'aegir/chai'
+import Sinon from 'sinon'
+import { CertificateManager, MAX_CERTIFICATE_LIFESPAN, generateWebTransportCertificate } from '../src/certificates.js'
+import { parseMultiaddr } from '../src/utils/parse-multiaddr.js'
+
+const DAY = 24 * 60 * 60 * 1000
+
+describe('WebTransport certificates', () => {
+  const log = defaultLogger().forComponent('libp2p:webtransport:certificates')
+
+  afterEach(() => {
+    Sinon.restore()
+  })
+
+  it('should generate a certificate', async () => {
+    const notBefore = Date.now()
+    const certificate = await generateWebTransportCertificate(notBefore, notBefore + DAY)
+    const cert = new x509.X509Certificate(certificate.pem)
+
+    expect(certificate.hash.code).to.equal(0x12)
+    expect(certificate.notBefore).to.equal(cert.notBefore.getTime())
+    expect(certificate.notAfter).to.equal(cert.notAfter.getTime())
+    expect(certificate.notAfter - certificate.notBefore).to.be.within(DAY - 1000, DAY)
+  })
+
+  it('should refuse certificates browsers will not accept', () => {
+    expect(() => new CertificateManager({ lifespan: MAX_CERTIFICATE_LIFESPAN + 1, log }))
+      .to.throw().with.property('code', 'ERR_INVALID_PARAMETERS')
+  })
+
+  it('should advertise two overlapping certificates', async () => {
+    const manager = new CertificateManager({ lifespan: 10 * DAY, log })
+    await manager.start()
+
+    const current = manager.getCertificate()
+    const certhashes = manager.getCerthashes()
+
+    expect(certhashes).to.have.lengthOf(2)
+    expect(certhashes[0]).to.equal(current.hash)
+    expect(current.notBefore).to.be.below(Date.now())
+
+    // the certhashes can be parsed by a dialer
+    const ma = multiaddr(`/ip4/127.0.0.1/udp/1234/quic-v1/webtransport${manager.getCerthashComponents()}`)
+    expect(parseMultiaddr(ma).certhashes.map(hash => hash.bytes)).to.deep.equal(certhashes.map(hash => hash.bytes))
+
+    manager.stop()
+  })
+
+  it('should rotate certificates every half lifespan', async () => {
+    const clock = Sinon.useFakeTimers({
+      now: Date.now(),
+      toFake: ['setTimeout', 'clearTimeout', 'Date']
+    })
+    const onRotate = Sinon.stub()
+    const manager = new CertificateManager({ lifespan: 10 * DAY, log, onRotate })
+    await manager.start()
+
+    const [current, next] = manager.getCerthashes()
+
+    await clock.tickAsync(5 * DAY)
+
+    // the new certificate is generated asynchronously
+    while (!onRotate.called) {
+      await clock.tickAsync(1)
+    }
+
+    const rotated = manager.getCerthashes()
+
+    expect(rotated).to.have.lengthOf(2)
+    expect(rotated[0]).to.equal(next)
+    expect(rotated[1]).to.not.equal(current)
+    expect(manager.getCertificate().hash).to.equal(next)
+
+    // the certificate being served is valid now
+    expect(manager.getCertificate().notBefore).to.be.below(Date.now())
+    expect(manager.getCertificate().notAfter).to.be.above(Date.now())
+
+    manager.stop()
+  })
+})
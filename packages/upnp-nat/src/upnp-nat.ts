@@ -98,6 +98,7 @@ export class UPnPNAT implements Startable {
       const isPrivate = isPrivateIp(publicIp)
 
       if (isPrivate === true) {
+        this.components.addressManager.reportReachability('upnp', 'private')
         throw new CodeError(`${publicIp} is private - please set config.nat.externalIp to an externally routable IP or ensure you are not behind a double NAT`, 'ERR_DOUBLE_NAT')
       }
 
@@ -116,11 +117,14 @@ export class UPnPNAT implements Startable {
         protocol: transport.toUpperCase() === 'TCP' ? 'TCP' : 'UDP'
       })
 
-      this.components.addressManager.addObservedAddr(fromNodeAddress({
+      const publicAddr = fromNodeAddress({
         family: 4,
         address: publicIp,
         port: publicPort
-      }, transport))
+      }, transport)
+
+      this.components.addressManager.addObservedAddr(publicAddr)
+      this.components.addressManager.reportReachability('upnp', 'public', publicAddr)
     }
   }
 
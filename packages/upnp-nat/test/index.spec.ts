@@ -76,6 +76,7 @@ describe('UPnP NAT (TCP)', () => {
       protocol: 'TCP'
     })
     expect(components.addressManager.addObservedAddr.called).to.be.true()
+    expect(components.addressManager.reportReachability.calledWith('upnp', 'public')).to.be.true()
   })
 
   it('should not map TCP connections when double-natted', async () => {
@@ -96,6 +97,7 @@ describe('UPnP NAT (TCP)', () => {
 
     expect(client.map.called).to.be.false()
     expect(components.addressManager.addObservedAddr.called).to.be.false()
+    expect(components.addressManager.reportReachability.calledWith('upnp', 'private')).to.be.true()
   })
 
   it('should not map non-ipv4 connections to external ports', async () => {
@@ -5,13 +5,15 @@ import pDefer from 'p-defer'
 import { raceSignal } from 'race-signal'
 import { Uint8ArrayList } from 'uint8arraylist'
 import { closeSource } from './close-source.js'
-import type { AbortOptions, Direction, ReadStatus, Stream, StreamStatus, StreamTimeline, WriteStatus } from '@libp2p/interface'
+import type { AbortOptions, CounterGroup, Direction, ReadStatus, Stream, StreamPriority, StreamResourceScope, StreamStatus, StreamTimeline, WriteStatus } from '@libp2p/interface'
 import type { Logger } from '@libp2p/logger'
 import type { Source } from 'it-stream-types'
 
 const ERR_STREAM_RESET = 'ERR_STREAM_RESET'
 const ERR_SINK_INVALID_STATE = 'ERR_SINK_INVALID_STATE'
+const ERR_BUFFER_CLEAR_TIMEOUT = 'ERR_BUFFER_CLEAR_TIMEOUT'
 const DEFAULT_SEND_CLOSE_WRITE_TIMEOUT = 5000
+const DEFAULT_MAX_BUFFERED_AMOUNT = 1024 * 1024 * 4
 
 export interface AbstractStreamInit {
   /**
@@ -34,6 +36,12 @@ export interface AbstractStreamInit {
    */
   metadata?: Record<string, unknown>
 
+  /**
+   * The class used by the muxer when scheduling data sent by this stream
+   * (default: 'normal')
+   */
+  priority?: StreamPriority
+
   /**
    * Invoked when the stream ends
    */
@@ -70,6 +78,33 @@ export interface AbstractStreamInit {
    * a close-write message to the remote peer.
    */
   sendCloseWriteTimeout?: number
+
+  /**
+   * If passed, data received from the remote will be reserved from this scope
+   * until it has been read by the stream consumer. The scope is released when
+   * the stream ends.
+   */
+  resourceScope?: StreamResourceScope
+
+  /**
+   * When the number of bytes passed to `sendData` that have not been sent to
+   * the remote yet is over this amount, the sink will stop reading from its
+   * source until it drops back down (default: 4MB)
+   */
+  maxBufferedAmount?: number
+
+  /**
+   * If passed, and the sink has stopped reading from its source for this many
+   * ms because `maxBufferedAmount` was exceeded, the stream will be aborted
+   */
+  bufferedAmountLowTimeout?: number
+
+  /**
+   * If passed, the number of times the sink stopped reading from its source
+   * because `maxBufferedAmount` was exceeded and how many ms it waited for are
+   * recorded as `stream_blocked` and `stream_blocked_ms`
+   */
+  metrics?: CounterGroup
 }
 
 function isPromise <T = unknown> (thing: any): thing is Promise<T> {
@@ -87,6 +122,8 @@ export abstract class AbstractStream implements Stream {
   public direction: Direction
   public timeline: StreamTimeline
   public protocol?: string
+  public priority: StreamPriority
+  public resourceScope?: StreamResourceScope
   public metadata: Record<string, unknown>
   public source: AsyncGenerator<Uint8ArrayList, void, unknown>
   public status: StreamStatus
@@ -106,6 +143,12 @@ export abstract class AbstractStream implements Stream {
   private readonly onAbort?: (err: Error) => void
   private readonly sendCloseWriteTimeout: number
   private sendingData?: DeferredPromise<void>
+  private reservedMemory: number
+  private readonly maxBufferedAmount: number
+  private readonly bufferedAmountLowTimeout?: number
+  private readonly metrics?: CounterGroup
+  private _bufferedAmount: number
+  private bufferedAmountLow?: DeferredPromise<void>
 
   constructor (init: AbstractStreamInit) {
     this.sinkController = new AbortController()
@@ -120,6 +163,7 @@ export abstract class AbstractStream implements Stream {
 
     this.id = init.id
     this.metadata = init.metadata ?? {}
+    this.priority = init.priority ?? 'normal'
     this.direction = init.direction
     this.timeline = {
       open: Date.now()
@@ -131,8 +175,14 @@ export abstract class AbstractStream implements Stream {
     this.onCloseWrite = init?.onCloseWrite
     this.onReset = init?.onReset
     this.onAbort = init?.onAbort
-
-    this.source = this.streamSource = pushable<Uint8ArrayList>({
+    this.resourceScope = init.resourceScope
+    this.reservedMemory = 0
+    this.maxBufferedAmount = init.maxBufferedAmount ?? DEFAULT_MAX_BUFFERED_AMOUNT
+    this.bufferedAmountLowTimeout = init.bufferedAmountLowTimeout
+    this.metrics = init.metrics
+    this._bufferedAmount = 0
+
+    this.streamSource = pushable<Uint8ArrayList>({
       onEnd: (err) => {
         if (err != null) {
           this.log.trace('source ended with error', err)
@@ -143,6 +193,7 @@ export abstract class AbstractStream implements Stream {
         this.onSourceEnd(err)
       }
     })
+    this.source = this.resourceScope == null ? this.streamSource : this.releaseMemoryOnRead(this.streamSource)
 
     // necessary because the libp2p upgrader wraps the sink function
     this.sink = this.sink.bind(this)
@@ -180,6 +231,11 @@ export abstract class AbstractStream implements Stream {
         for await (let data of source) {
           data = data instanceof Uint8Array ? new Uint8ArrayList(data) : data
 
+          if (this.bufferedAmount > this.maxBufferedAmount && !(await this.waitForBufferedAmountLow(this.sinkController.signal))) {
+            // the sink was aborted while waiting
+            break
+          }
+
           const res = this.sendData(data, options)
 
           if (isPromise(res)) {
@@ -218,7 +274,77 @@ export abstract class AbstractStream implements Stream {
     }
   }
 
+  /**
+   * The number of bytes passed to `sendData` that have not been sent to the
+   * remote yet
+   */
+  get bufferedAmount (): number {
+    return this._bufferedAmount
+  }
+
+  /**
+   * Extending classes should call this when the number of bytes passed to
+   * `sendData` that have not been sent to the remote yet changes so the sink
+   * can stop reading from its source when too much data is buffered
+   */
+  protected updateBufferedAmount (bufferedAmount: number): void {
+    this._bufferedAmount = bufferedAmount
+
+    if (bufferedAmount <= this.maxBufferedAmount) {
+      this.bufferedAmountLow?.resolve()
+    }
+  }
+
+  /**
+   * Wait for the buffered amount to drop below the high watermark. If the sink
+   * is aborted while waiting this returns false early as the source passed to
+   * the sink will also be closed.
+   */
+  private async waitForBufferedAmountLow (signal: AbortSignal): Promise<boolean> {
+    this.log.trace('buffered amount %d is over %d, waiting for it to drop before reading more from the sink source', this.bufferedAmount, this.maxBufferedAmount)
+
+    const start = Date.now()
+    const bufferedAmountLow: DeferredPromise<void> = pDefer()
+    const sendingData: DeferredPromise<void> = pDefer()
+    let timeout: ReturnType<typeof setTimeout> | undefined
+
+    this.bufferedAmountLow = bufferedAmountLow
+    this.sendingData = sendingData
+    this.metrics?.increment({ stream_blocked: true })
+
+    if (this.bufferedAmountLowTimeout != null) {
+      const ms = this.bufferedAmountLowTimeout
+
+      timeout = setTimeout(() => {
+        bufferedAmountLow.reject(new CodeError(`Timed out waiting for buffered amount to drop below ${this.maxBufferedAmount} bytes after ${ms}ms`, ERR_BUFFER_CLEAR_TIMEOUT))
+      }, ms)
+    }
+
+    try {
+      await raceSignal(bufferedAmountLow.promise, signal)
+
+      return true
+    } catch (err: any) {
+      if (!signal.aborted) {
+        throw err
+      }
+
+      return false
+    } finally {
+      clearTimeout(timeout)
+      this.bufferedAmountLow = undefined
+      sendingData.resolve()
+      this.sendingData = undefined
+      this.metrics?.increment({ stream_blocked_ms: Date.now() - start })
+    }
+  }
+
   protected onSourceEnd (err?: Error): void {
+    if (err != null) {
+      // any data still buffered will never be read
+      this.releaseMemory(this.reservedMemory)
+    }
+
     if (this.timeline.closeRead != null) {
       return
     }
@@ -240,6 +366,8 @@ export abstract class AbstractStream implements Stream {
         this.status = 'closed'
       }
 
+      this.resourceScope?.done()
+
       if (this.onEnd != null) {
         this.onEnd(this.endErr)
       }
@@ -272,6 +400,8 @@ export abstract class AbstractStream implements Stream {
         this.status = 'closed'
       }
 
+      this.resourceScope?.done()
+
       if (this.onEnd != null) {
         this.onEnd(this.endErr)
       }
@@ -469,9 +599,47 @@ export abstract class AbstractStream implements Stream {
    * call this method to allow the stream consumer to read the data.
    */
   sourcePush (data: Uint8ArrayList): void {
+    if (this.resourceScope != null) {
+      try {
+        this.resourceScope.reserveMemory(data.byteLength)
+      } catch (err: any) {
+        // there is no capacity to buffer the data so reset the stream to stop
+        // the remote sending any more
+        this.log.error('could not reserve memory for incoming data', err)
+        this.abort(err)
+        return
+      }
+
+      this.reservedMemory += data.byteLength
+    }
+
     this.streamSource.push(data)
   }
 
+  private async * releaseMemoryOnRead (source: AsyncGenerator<Uint8ArrayList>): AsyncGenerator<Uint8ArrayList, void, unknown> {
+    try {
+      for await (const buf of source) {
+        this.releaseMemory(buf.byteLength)
+
+        yield buf
+      }
+    } finally {
+      // the consumer has stopped reading so any buffered data will never be
+      // read
+      this.releaseMemory(this.reservedMemory)
+    }
+  }
+
+  private releaseMemory (bytes: number): void {
+    if (this.resourceScope == null || bytes === 0) {
+      return
+    }
+
+    bytes = Math.min(bytes, this.reservedMemory)
+    this.reservedMemory -= bytes
+    this.resourceScope.releaseMemory(bytes)
+  }
+
   /**
    * Returns the amount of unread data - can be used to prevent large amounts of
    * data building up when the stream consumer is too slow.
@@ -0,0 +1,6 @@
+/**
+ * Network interfaces cannot be enumerated in browsers
+ */
+export function getNetworkAddrs (family: 4 | 6): string[] {
+  return []
+}
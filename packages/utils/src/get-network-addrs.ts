@@ -0,0 +1,21 @@
+import os from 'node:os'
+
+/**
+ * Returns the IP addresses of every network interface of the passed family.
+ *
+ * Listeners bound to the wildcard address use this to find the addresses
+ * they can actually be reached at.
+ */
+export function getNetworkAddrs (family: 4 | 6): string[] {
+  const addresses: string[] = []
+
+  for (const netAddrs of Object.values(os.networkInterfaces())) {
+    for (const netAddr of netAddrs ?? []) {
+      if (netAddr.family === `IPv${family}`) {
+        addresses.push(netAddr.address)
+      }
+    }
+  }
+
+  return addresses
+}
@@ -0,0 +1,7 @@
+/**
+ * Returns true if the passed IP address is the IPv4 or IPv6 wildcard address
+ * that listeners use to accept connections on every network interface
+ */
+export function isAnyAddr (ip: string): boolean {
+  return ['0.0.0.0', '::'].includes(ip)
+}
@@ -0,0 +1,323 @@
+import pDefer, { type DeferredPromise } from 'p-defer'
+import { raceSignal } from 'race-signal'
+import type { AbortOptions, CounterGroup, StreamPriority } from '@libp2p/interface'
+
+/**
+ * When all classes have data queued, `high` is sent four times as many bytes
+ * as `low` and `normal` twice as many
+ */
+export const DEFAULT_PRIORITY_WEIGHTS: Record<StreamPriority, number> = {
+  high: 4,
+  normal: 2,
+  low: 1
+}
+
+const PRIORITIES: StreamPriority[] = ['high', 'normal', 'low']
+
+export interface WeightedFairQueueInit {
+  /**
+   * The relative share of bytes each class receives when several classes have
+   * data queued
+   */
+  weights?: Partial<Record<StreamPriority, number>>
+
+  /**
+   * If passed, the number of bytes read from the queue for each class will be
+   * recorded
+   */
+  metrics?: CounterGroup
+
+  /**
+   * Invoked once the queue has ended and every queued value has been read, or
+   * immediately if it was ended with an error
+   */
+  onEnd?(err?: Error): void
+}
+
+export interface PushOptions {
+  /**
+   * The class of the value (default: 'normal')
+   */
+  priority?: StreamPriority
+
+  /**
+   * How many bytes the value will use on the wire (default: 0)
+   */
+  bytes?: number
+
+  /**
+   * Values with the same flow are read in the order they were pushed
+   */
+  flow?: string | number
+}
+
+interface QueuedValue<T> {
+  value: T
+  priority: StreamPriority
+  bytes: number
+  flow?: string | number
+
+  /**
+   * The virtual time at which this value will have been sent, values with the
+   * earliest finish time are read first
+   */
+  finish: number
+}
+
+interface Flow {
+  priority: StreamPriority
+  queued: number
+}
+
+/**
+ * A queue that can be used as the outgoing source of a stream muxer. Values
+ * are pushed with a priority class and a size in bytes, and are read so that
+ * when several classes have values queued each receives a share of the bytes
+ * in proportion to its weight.
+ *
+ * Values pushed with the same `flow` are always read in the order they were
+ * pushed, even if the priority changes while some are still queued, so muxers
+ * should use the stream id as the flow.
+ *
+ * @example
+ *
+ * ```TypeScript
+ * import { WeightedFairQueue } from '@libp2p/utils/weighted-fair-queue'
+ *
+ * const queue = new WeightedFairQueue<Uint8Array>()
+ *
+ * queue.push(new Uint8Array(1024), { priority: 'low', bytes: 1024, flow: 1 })
+ * queue.push(new Uint8Array(10), { priority: 'high', bytes: 10, flow: 2 })
+ * queue.end()
+ *
+ * for await (const buf of queue) {
+ *   // the high priority value is read first
+ * }
+ * ```
+ */
+export class WeightedFairQueue<T> implements AsyncGenerator<T, void, unknown> {
+  private readonly weights: Record<StreamPriority, number>
+  private readonly metrics?: CounterGroup
+  private onEnd?: (err?: Error) => void
+  private readonly queues: Record<StreamPriority, Array<QueuedValue<T>>>
+  private readonly lastFinish: Record<StreamPriority, number>
+  private readonly flows: Map<string | number, Flow>
+  private virtualTime: number
+  private size: number
+  private ended: boolean
+  private err?: Error
+  private readable?: DeferredPromise<void>
+  private drain: DeferredPromise<void>
+
+  constructor (init: WeightedFairQueueInit = {}) {
+    this.weights = {
+      ...DEFAULT_PRIORITY_WEIGHTS,
+      ...init.weights
+    }
+    this.metrics = init.metrics
+    this.onEnd = init.onEnd
+    this.queues = { high: [], normal: [], low: [] }
+    this.lastFinish = { high: 0, normal: 0, low: 0 }
+    this.flows = new Map()
+    this.virtualTime = 0
+    this.size = 0
+    this.ended = false
+    this.drain = pDefer()
+  }
+
+  [Symbol.asyncIterator] (): this {
+    return this
+  }
+
+  /**
+   * The number of values waiting to be read
+   */
+  get readableLength (): number {
+    return this.size
+  }
+
+  push (value: T, options: PushOptions = {}): this {
+    if (this.ended) {
+      return this
+    }
+
+    let priority = options.priority ?? 'normal'
+    const bytes = options.bytes ?? 0
+    let flow: Flow | undefined
+
+    if (options.flow != null) {
+      flow = this.flows.get(options.flow)
+
+      if (flow == null) {
+        flow = { priority, queued: 0 }
+        this.flows.set(options.flow, flow)
+      }
+
+      // keep values from this flow in order by using the class the rest of its
+      // queued values are in
+      priority = flow.priority
+      flow.queued++
+    }
+
+    const finish = Math.max(this.virtualTime, this.lastFinish[priority]) + (bytes / this.weights[priority])
+    this.lastFinish[priority] = finish
+
+    this.queues[priority].push({
+      value,
+      priority,
+      bytes,
+      flow: options.flow,
+      finish
+    })
+    this.size++
+    this.readable?.resolve()
+
+    return this
+  }
+
+  /**
+   * Stop accepting new values. If an error is passed any queued values are
+   * discarded and the error is thrown from the next read, otherwise queued
+   * values can still be read and `onEnd` is invoked once they have been.
+   */
+  end (err?: Error): this {
+    if (this.ended) {
+      return this
+    }
+
+    this.ended = true
+
+    if (err != null) {
+      this.clear()
+      this.err = err
+    }
+
+    this.readable?.resolve()
+
+    if (err != null || this.size === 0) {
+      this.finish(err)
+    }
+
+    return this
+  }
+
+  /**
+   * Resolves once every queued value has been read
+   */
+  async onEmpty (options?: AbortOptions): Promise<void> {
+    options?.signal?.throwIfAborted()
+
+    if (this.size === 0) {
+      return
+    }
+
+    await raceSignal(this.drain.promise, options?.signal)
+  }
+
+  async next (): Promise<IteratorResult<T, void>> {
+    while (true) {
+      if (this.err != null) {
+        const err = this.err
+        this.err = undefined
+
+        throw err
+      }
+
+      const queued = this.shift()
+
+      if (queued != null) {
+        return { done: false, value: queued.value }
+      }
+
+      if (this.ended) {
+        this.finish()
+
+        return { done: true, value: undefined }
+      }
+
+      this.readable = pDefer()
+      await this.readable.promise
+      this.readable = undefined
+    }
+  }
+
+  async return (): Promise<IteratorResult<T, void>> {
+    this.clear()
+    this.end()
+
+    return { done: true, value: undefined }
+  }
+
+  async throw (err: Error): Promise<IteratorResult<T, void>> {
+    this.end(err)
+
+    return { done: true, value: undefined }
+  }
+
+  /**
+   * Remove the queued value with the earliest finish time
+   */
+  private shift (): QueuedValue<T> | undefined {
+    let next: QueuedValue<T> | undefined
+
+    for (const priority of PRIORITIES) {
+      const head = this.queues[priority][0]
+
+      if (head != null && (next == null || head.finish < next.finish)) {
+        next = head
+      }
+    }
+
+    if (next == null) {
+      return
+    }
+
+    this.queues[next.priority].shift()
+    this.size--
+    this.virtualTime = next.finish
+
+    if (next.flow != null) {
+      const flow = this.flows.get(next.flow)
+
+      if (flow != null) {
+        flow.queued--
+
+        if (flow.queued === 0) {
+          this.flows.delete(next.flow)
+        }
+      }
+    }
+
+    if (next.bytes > 0) {
+      this.metrics?.increment({ [next.priority]: next.bytes })
+    }
+
+    if (this.size === 0) {
+      this.onDrained()
+    }
+
+    return next
+  }
+
+  private finish (err?: Error): void {
+    if (this.onEnd != null) {
+      const onEnd = this.onEnd
+      this.onEnd = undefined
+      onEnd(err)
+    }
+  }
+
+  private clear (): void {
+    this.queues.high = []
+    this.queues.normal = []
+    this.queues.low = []
+    this.flows.clear()
+    this.size = 0
+    this.onDrained()
+  }
+
+  private onDrained (): void {
+    this.drain.resolve()
+    this.drain = pDefer()
+  }
+}
@@ -5,9 +5,10 @@ import all from 'it-all'
 import drain from 'it-drain'
 import pDefer from 'p-defer'
 import Sinon from 'sinon'
+import { stubInterface } from 'sinon-ts'
 import { Uint8ArrayList } from 'uint8arraylist'
 import { AbstractStream } from '../src/abstract-stream.js'
-import type { AbortOptions } from '@libp2p/interface'
+import type { AbortOptions, CounterGroup, StreamResourceScope } from '@libp2p/interface'
 
 class TestStream extends AbstractStream {
   async sendNewStream (options?: AbortOptions): Promise<void> {
@@ -31,6 +32,19 @@ class TestStream extends AbstractStream {
   }
 }
 
+/**
+ * Simulates a transport that buffers data until it is flushed
+ */
+class BufferingStream extends TestStream {
+  async sendData (buf: Uint8ArrayList, options?: AbortOptions): Promise<void> {
+    this.updateBufferedAmount(this.bufferedAmount + buf.byteLength)
+  }
+
+  flush (): void {
+    this.updateBufferedAmount(0)
+  }
+}
+
 describe('abstract stream', () => {
   let stream: TestStream
 
@@ -259,4 +273,130 @@ describe('abstract stream', () => {
     })).to.eventually.be.rejected
       .with.property('code', 'ABORT_ERR')
   })
+
+  it('reserves memory for unread data', async () => {
+    const resourceScope = stubInterface<StreamResourceScope>()
+    stream = new TestStream({
+      id: 'test',
+      direction: 'outbound',
+      log: logger('test'),
+      resourceScope
+    })
+
+    const data = new Uint8ArrayList(
+      Uint8Array.from([0, 1, 2, 3, 4])
+    )
+
+    stream.sourcePush(data)
+    stream.remoteCloseWrite()
+
+    expect(resourceScope.reserveMemory.calledWith(5)).to.be.true()
+    expect(resourceScope.releaseMemory.called).to.be.false()
+
+    await drain(stream.source)
+
+    expect(resourceScope.releaseMemory.calledWith(5)).to.be.true()
+
+    await stream.close()
+
+    expect(resourceScope.done.called).to.be.true()
+  })
+
+  it('resets the stream when memory cannot be reserved', async () => {
+    const resourceScope = stubInterface<StreamResourceScope>({
+      reserveMemory: Sinon.stub().throws(new Error('Resource limit exceeded'))
+    })
+    stream = new TestStream({
+      id: 'test',
+      direction: 'outbound',
+      log: logger('test'),
+      resourceScope
+    })
+
+    const sendResetSpy = Sinon.spy(stream, 'sendReset')
+
+    stream.sourcePush(new Uint8ArrayList(Uint8Array.from([0, 1, 2, 3, 4])))
+
+    expect(stream.sourceReadableLength()).to.equal(0)
+    expect(stream).to.have.property('status', 'aborted')
+    expect(sendResetSpy.called).to.be.true('did not reset the stream')
+    await expect(drain(stream.source)).to.eventually.be.rejected
+      .with.property('message', 'Resource limit exceeded')
+    expect(resourceScope.done.called).to.be.true()
+  })
+
+  it('stops reading from the sink source when too much data is buffered', async () => {
+    const metrics = stubInterface<CounterGroup>()
+    const bufferingStream = new BufferingStream({
+      id: 'test',
+      direction: 'outbound',
+      log: logger('test'),
+      maxBufferedAmount: 5,
+      metrics
+    })
+    let read = 0
+
+    const sinkPromise = bufferingStream.sink(async function * () {
+      for (let i = 0; i < 3; i++) {
+        read++
+        yield Uint8Array.from([0, 1, 2, 3, 4, 5])
+      }
+    }())
+
+    await delay(10)
+
+    // the first chunk put the buffered amount over the high watermark so the
+    // sink is waiting to send the second one
+    expect(read).to.equal(2)
+    expect(bufferingStream.bufferedAmount).to.equal(6)
+
+    bufferingStream.flush()
+    await delay(10)
+
+    expect(read).to.equal(3)
+
+    bufferingStream.flush()
+    await sinkPromise
+
+    expect(metrics.increment.calledWith({ stream_blocked: true })).to.be.true()
+    expect(metrics.increment.calledWith(Sinon.match.has('stream_blocked_ms'))).to.be.true()
+  })
+
+  it('aborts when buffered data is not sent in time', async () => {
+    const bufferingStream = new BufferingStream({
+      id: 'test',
+      direction: 'outbound',
+      log: logger('test'),
+      maxBufferedAmount: 5,
+      bufferedAmountLowTimeout: 10
+    })
+
+    await expect(bufferingStream.sink([
+      Uint8Array.from([0, 1, 2, 3, 4, 5]),
+      Uint8Array.from([0, 1, 2, 3, 4, 5])
+    ])).to.eventually.be.rejected.with.property('code', 'ERR_BUFFER_CLEAR_TIMEOUT')
+
+    expect(bufferingStream.status).to.equal('aborted')
+  })
+
+  it('stops waiting for buffered data to be sent when reset', async () => {
+    const bufferingStream = new BufferingStream({
+      id: 'test',
+      direction: 'outbound',
+      log: logger('test'),
+      maxBufferedAmount: 5
+    })
+    const sendDataSpy = Sinon.spy(bufferingStream, 'sendData')
+
+    const sinkPromise = bufferingStream.sink([
+      Uint8Array.from([0, 1, 2, 3, 4, 5]),
+      Uint8Array.from([0, 1, 2, 3, 4, 5])
+    ])
+
+    await delay(10)
+    bufferingStream.reset()
+
+    await expect(sinkPromise).to.eventually.be.undefined()
+    expect(sendDataSpy.callCount).to.equal(1)
+  })
 })
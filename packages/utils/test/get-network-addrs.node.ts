@@ -0,0 +1,16 @@
+import { isIPv4, isIPv6 } from '@chainsafe/is-ip'
+import { expect } from 'aegir/chai'
+import { getNetworkAddrs } from '../src/get-network-addrs.js'
+
+describe('get-network-addrs', () => {
+  it('should return IPv4 addresses', () => {
+    const addrs = getNetworkAddrs(4)
+
+    expect(addrs).to.include('127.0.0.1')
+    expect(addrs.every(addr => isIPv4(addr))).to.be.true()
+  })
+
+  it('should return IPv6 addresses', () => {
+    expect(getNetworkAddrs(6).every(addr => isIPv6(addr))).to.be.true()
+  })
+})
@@ -0,0 +1,18 @@
+import { expect } from 'aegir/chai'
+import { isAnyAddr } from '../src/is-any-addr.js'
+
+describe('is-any-addr', () => {
+  it('should detect the IPv4 wildcard address', () => {
+    expect(isAnyAddr('0.0.0.0')).to.be.true()
+  })
+
+  it('should detect the IPv6 wildcard address', () => {
+    expect(isAnyAddr('::')).to.be.true()
+  })
+
+  it('should not detect other addresses', () => {
+    expect(isAnyAddr('127.0.0.1')).to.be.false()
+    expect(isAnyAddr('::1')).to.be.false()
+    expect(isAnyAddr('192.168.1.1')).to.be.false()
+  })
+})
@@ -28,6 +28,7 @@ function toMuxedStream (stream: Duplex<AsyncGenerator<Uint8ArrayList>, Source<Ui
     status: 'open',
     readStatus: 'ready',
     writeStatus: 'ready',
+    bufferedAmount: 0,
     log: logger('muxed-stream')
   }
 
@@ -0,0 +1,153 @@
+import { expect } from 'aegir/chai'
+import all from 'it-all'
+import Sinon from 'sinon'
+import { stubInterface } from 'sinon-ts'
+import { WeightedFairQueue } from '../src/weighted-fair-queue.js'
+import type { CounterGroup } from '@libp2p/interface'
+
+describe('weighted-fair-queue', () => {
+  it('should share bytes between classes according to their weights', async () => {
+    const queue = new WeightedFairQueue<string>()
+
+    for (let i = 0; i < 8; i++) {
+      queue.push(`low-${i}`, { priority: 'low', bytes: 100 })
+    }
+
+    for (let i = 0; i < 8; i++) {
+      queue.push(`high-${i}`, { priority: 'high', bytes: 100 })
+    }
+
+    queue.end()
+
+    const output = await all(queue)
+
+    // high has four times the weight of low so is sent four times as many
+    // bytes while both have data queued
+    expect(output.slice(0, 5)).to.deep.equal([
+      'high-0', 'high-1', 'high-2', 'high-3', 'low-0'
+    ])
+    expect(output).to.have.lengthOf(16)
+  })
+
+  it('should read values from the same class in the order they were pushed', async () => {
+    const queue = new WeightedFairQueue<number>()
+
+    for (let i = 0; i < 5; i++) {
+      queue.push(i, { bytes: 10 })
+    }
+
+    queue.end()
+
+    await expect(all(queue)).to.eventually.deep.equal([0, 1, 2, 3, 4])
+  })
+
+  it('should keep values from the same flow in order when the priority changes', async () => {
+    const queue = new WeightedFairQueue<string>()
+
+    queue.push('a-0', { priority: 'low', bytes: 100, flow: 'a' })
+    queue.push('a-1', { priority: 'high', bytes: 100, flow: 'a' })
+    queue.push('b-0', { priority: 'high', bytes: 100, flow: 'b' })
+    queue.end()
+
+    await expect(all(queue)).to.eventually.deep.equal(['b-0', 'a-0', 'a-1'])
+  })
+
+  it('should use the new priority of a flow once its queued values have been read', async () => {
+    const queue = new WeightedFairQueue<string>()
+
+    queue.push('a-0', { priority: 'low', bytes: 100, flow: 'a' })
+    await expect(queue.next()).to.eventually.deep.equal({ done: false, value: 'a-0' })
+
+    queue.push('b-0', { priority: 'low', bytes: 100, flow: 'b' })
+    queue.push('a-1', { priority: 'high', bytes: 100, flow: 'a' })
+    queue.end()
+
+    await expect(all(queue)).to.eventually.deep.equal(['a-1', 'b-0'])
+  })
+
+  it('should wait for values to be pushed', async () => {
+    const queue = new WeightedFairQueue<string>()
+
+    const next = queue.next()
+    queue.push('hello')
+
+    await expect(next).to.eventually.deep.equal({ done: false, value: 'hello' })
+  })
+
+  it('should resolve onEmpty once all values have been read', async () => {
+    const queue = new WeightedFairQueue<string>()
+    let empty = false
+
+    queue.push('a')
+    queue.push('b')
+
+    const onEmpty = queue.onEmpty().then(() => {
+      empty = true
+    })
+
+    await queue.next()
+    await Promise.resolve()
+    expect(empty).to.be.false()
+
+    await queue.next()
+    await onEmpty
+    expect(empty).to.be.true()
+  })
+
+  it('should throw the error the queue was ended with', async () => {
+    const onEnd = Sinon.stub()
+    const queue = new WeightedFairQueue<string>({ onEnd })
+    const err = new Error('Urk!')
+
+    queue.push('a')
+    queue.end(err)
+
+    expect(queue.readableLength).to.equal(0)
+    expect(onEnd.calledWith(err)).to.be.true()
+    await expect(queue.next()).to.eventually.be.rejectedWith(err)
+    await expect(queue.next()).to.eventually.deep.equal({ done: true, value: undefined })
+  })
+
+  it('should invoke onEnd once the queued values have been read', async () => {
+    const onEnd = Sinon.stub()
+    const queue = new WeightedFairQueue<string>({ onEnd })
+
+    queue.push('a')
+    queue.push('b')
+    queue.end()
+
+    expect(onEnd.called).to.be.false()
+
+    await expect(queue.next()).to.eventually.deep.equal({ done: false, value: 'a' })
+    await expect(queue.next()).to.eventually.deep.equal({ done: false, value: 'b' })
+    expect(onEnd.called).to.be.false()
+
+    await expect(queue.next()).to.eventually.deep.equal({ done: true, value: undefined })
+    expect(onEnd.calledOnceWithExactly(undefined)).to.be.true()
+  })
+
+  it('should invoke onEnd immediately when ended with nothing queued', () => {
+    const onEnd = Sinon.stub()
+    const queue = new WeightedFairQueue<string>({ onEnd })
+
+    queue.end()
+
+    expect(onEnd.calledOnce).to.be.true()
+  })
+
+  it('should record the bytes read for each class', async () => {
+    const metrics = stubInterface<CounterGroup>()
+    const queue = new WeightedFairQueue<string>({ metrics })
+
+    queue.push('a', { priority: 'high', bytes: 10 })
+    queue.push('b', { priority: 'low', bytes: 20 })
+    queue.push('c', { priority: 'low' })
+    queue.end()
+
+    await all(queue)
+
+    expect(metrics.increment.calledWith({ high: 10 })).to.be.true()
+    expect(metrics.increment.calledWith({ low: 20 })).to.be.true()
+    expect(metrics.increment.callCount).to.equal(2)
+  })
+})